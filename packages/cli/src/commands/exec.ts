@@ -1,8 +1,14 @@
 import {
   AnsibleExecutor,
   DirectoryManager,
+  type ExecutionResult,
+  HostManager,
+  InventoryGenerator,
   LogLevel,
+  PlaybookRunner,
   extractAnsibleOptions,
+  formatEnvAssignments,
+  getAnsibleConfigEnv,
   logger,
 } from '@aship/core';
 import { Args, Command, Flags } from '@oclif/core';
@@ -10,12 +16,47 @@ import inquirer from 'inquirer';
 import { OCLIFFormatter } from '../utils/oclif-formatter.js';
 
 // Import shared utilities
+import {
+  createOutputEvents,
+  finishRunRecording,
+  startRunRecording,
+} from '../shared/run-recording.js';
 import {
   determineConnectionMode,
   loadConfiguration,
   resolveTargetServers,
 } from '../shared/server-connection-manager.js';
 
+/**
+ * Targeting options handled by aship, they are not passed on to ansible
+ */
+const TARGET_OPTIONS = new Set([
+  '-H',
+  '--hosts',
+  '-i',
+  '--inventory',
+  '--inventory-mode',
+  '--limit',
+]);
+
+/**
+ * Remove the targeting options and their values from ansible arguments
+ */
+function withoutTargetOptions(args: string[]): string[] {
+  const result: string[] = [];
+
+  for (let i = 0; i < args.length; i++) {
+    const [option] = args[i].split('=');
+    if (!TARGET_OPTIONS.has(option)) {
+      result.push(args[i]);
+    } else if (!args[i].includes('=') && i + 1 < args.length && !args[i + 1].startsWith('-')) {
+      i++; // Skip the value
+    }
+  }
+
+  return result;
+}
+
 export default class Exec extends Command {
   static override args = {
     pattern: Args.string({
@@ -36,6 +77,9 @@ export default class Exec extends Command {
     '<%= config.bin %> <%= command.id %> -m ping',
     '<%= config.bin %> <%= command.id %> -h 192.168.1.100 -m command -a "ls -la"',
     '<%= config.bin %> <%= command.id %> -s web-server -m service -a "name=nginx state=started"',
+    '<%= config.bin %> <%= command.id %> -H @web -m ping',
+    '<%= config.bin %> <%= command.id %> web -i inventory.yml -a "df -h" --limit web-1',
+    '<%= config.bin %> <%= command.id %> -H db-1 -i inventory.yml --inventory-mode merge -m ping',
   ];
 
   static override flags = {
@@ -61,6 +105,25 @@ export default class Exec extends Command {
       description: 'SSH key for connection',
     }),
 
+    // Aship host options
+    hosts: Flags.string({
+      char: 'H',
+      description:
+        'Use aship hosts (comma-separated host names, @group names or key=value label selectors)',
+    }),
+    inventory: Flags.string({
+      char: 'i',
+      description: 'Use specific inventory file',
+    }),
+    'inventory-mode': Flags.string({
+      description: 'How to handle mixed inventory (replace|inject|merge)',
+      default: 'inject',
+      options: ['replace', 'inject', 'merge'],
+    }),
+    limit: Flags.string({
+      description: 'Limit execution to specific hosts or groups',
+    }),
+
     // Module options
     args: Flags.string({
       char: 'a',
@@ -146,21 +209,28 @@ export default class Exec extends Command {
     // Load configuration
     const config = await loadConfiguration(currentDir);
 
-    // Determine connection mode
-    const connectionMode = determineConnectionMode(flags, {});
+    // Aship hosts and inventory files are prepared like for playbooks
+    const useEnhancedMode = flags.hosts || flags.inventory;
+    const directoryManager = new DirectoryManager();
+    const hostManager = new HostManager(directoryManager);
+    const hosts = flags.hosts
+      ? await hostManager.resolveHostSelectors(flags.hosts.split(','))
+      : undefined;
 
     // Resolve target servers
-    const result = await resolveTargetServers(config, {
-      connectionMode,
-      host: flags.host,
-      user: flags.user,
-      password: flags.password,
-      key: flags.key,
-      server: flags.server,
-      nonInteractive: flags['non-interactive'],
-    });
-
-    const targetServers = result.targetServers;
+    const targetServers = useEnhancedMode
+      ? []
+      : (
+          await resolveTargetServers(config, {
+            connectionMode: determineConnectionMode(flags, {}),
+            host: flags.host,
+            user: flags.user,
+            password: flags.password,
+            key: flags.key,
+            server: flags.server,
+            nonInteractive: flags['non-interactive'],
+          })
+        ).targetServers;
 
     // Determine module and arguments
     let module = flags.module || args.module || 'command';
@@ -197,7 +267,7 @@ export default class Exec extends Command {
     const executor = new AnsibleExecutor();
 
     // Extract Ansible options from command line arguments
-    const ansibleArgs = extractAnsibleOptions(process.argv) || [];
+    const ansibleArgs = withoutTargetOptions(extractAnsibleOptions(process.argv) || []);
 
     // Add verbose flag if specified
     if (flags.verbose) {
@@ -209,13 +279,31 @@ export default class Exec extends Command {
       `Executing ${module} module on ${hostPattern} with args: ${moduleArgs || '<none>'}`
     );
 
+    if (useEnhancedMode) {
+      OCLIFFormatter.enhancedMode(hosts, flags.inventory, flags.limit);
+    }
+
     // Build command preview
-    const commandParts = ['ansible', hostPattern, '-i', '<temporary-inventory>', '-m', module];
+    const inventoryPreview = flags.inventory && !hosts ? flags.inventory : '<temporary-inventory>';
+    const commandParts = [
+      // The project Ansible settings are passed as environment variables
+      ...formatEnvAssignments(getAnsibleConfigEnv(config.ansible, currentDir)),
+      'ansible',
+      hostPattern,
+      '-i',
+      inventoryPreview,
+      '-m',
+      module,
+    ];
 
     if (moduleArgs) {
       commandParts.push('-a', `"${moduleArgs}"`);
     }
 
+    if (flags.limit) {
+      commandParts.push('--limit', flags.limit);
+    }
+
     if (ansibleArgs.length > 0) {
       commandParts.push(...ansibleArgs);
     }
@@ -223,25 +311,66 @@ export default class Exec extends Command {
     // Display command preview using OCLIF formatter
     OCLIFFormatter.command(commandParts);
 
-    // Start Ansible output section
-    logger.ansibleSection('Ansible Output');
-
-    const result_exec = await executor.executeAnsible({
-      servers: targetServers,
+    // Start recording run history
+    const recorder = await startRunRecording(directoryManager, {
+      command: 'exec',
+      project_dir: currentDir,
       pattern: hostPattern,
       module,
-      args: moduleArgs,
-      ansibleArgs,
-      cwd: currentDir,
-      events: {
-        onStdout: (data: string) => process.stdout.write(data),
-        onStderr: (data: string) => process.stderr.write(data),
-      },
+      module_args: moduleArgs || undefined,
+      hosts: useEnhancedMode ? hosts || [] : targetServers.map(server => server.name),
     });
 
+    // Start Ansible output section
+    logger.ansibleSection('Ansible Output');
+
+    let result_exec: ExecutionResult;
+    if (useEnhancedMode) {
+      const runner = new PlaybookRunner(
+        hostManager,
+        new InventoryGenerator(hostManager),
+        directoryManager
+      );
+
+      try {
+        result_exec = await runner.runModule(hostPattern, module, moduleArgs, {
+          hosts,
+          inventory: flags.inventory,
+          limit: flags.limit,
+          inventoryMode: flags['inventory-mode'],
+          hostKeyPolicy: config.host_key_policy,
+          ansibleConfig: config.ansible,
+          ansibleArgs,
+          cwd: currentDir,
+          events: createOutputEvents(recorder),
+        });
+      } catch (error) {
+        // The inventory or the hosts could not be prepared
+        result_exec = {
+          success: false,
+          exitCode: 1,
+          stderr: error instanceof Error ? error.message : String(error),
+        };
+      }
+    } else {
+      result_exec = await executor.executeAnsible({
+        servers: targetServers,
+        pattern: hostPattern,
+        module,
+        args: moduleArgs,
+        hostKeyPolicy: config.host_key_policy,
+        ansibleConfig: config.ansible,
+        ansibleArgs: flags.limit ? ['--limit', flags.limit, ...ansibleArgs] : ansibleArgs,
+        cwd: currentDir,
+        events: createOutputEvents(recorder),
+      });
+    }
+
     // End Ansible output section
     logger.ansibleSectionEnd();
 
+    await finishRunRecording(recorder, result_exec.success ? 0 : result_exec.exitCode || 1);
+
     // Display result using OCLIF formatter
     if (result_exec.success) {
       OCLIFFormatter.success('Ansible execution completed successfully');
@@ -0,0 +1,140 @@
+import { DirectoryManager, RunHistory, type RunHistoryFilter } from '@aship/core';
+import { Command, Flags } from '@oclif/core';
+import chalk from 'chalk';
+import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
+import {
+  formatDateTime,
+  formatDuration,
+  formatRelativeDateTime,
+} from '../../utils/time-formatter.js';
+
+export default class History extends Command {
+  static override description = 'List past aship run and exec invocations';
+
+  static override aliases = ['history:list', 'history:ls'];
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --host web-prod-1',
+    '<%= config.bin %> <%= command.id %> --playbook deploy --since 2025-06-01',
+    '<%= config.bin %> <%= command.id %> --failed --limit 5',
+    '<%= config.bin %> <%= command.id %> --format json',
+  ];
+
+  static override flags = {
+    limit: Flags.integer({
+      char: 'n',
+      description: 'Maximum number of runs to show',
+      default: 20,
+    }),
+    host: Flags.string({
+      char: 'H',
+      description: 'Only show runs that targeted this host',
+    }),
+    playbook: Flags.string({
+      char: 'p',
+      description: 'Only show runs whose playbook path contains this value',
+    }),
+    command: Flags.string({
+      char: 'c',
+      description: 'Only show runs of this command (run|exec)',
+      options: ['run', 'exec'],
+    }),
+    failed: Flags.boolean({
+      description: 'Only show failed runs',
+      default: false,
+    }),
+    since: Flags.string({
+      description: 'Only show runs started on or after this date (e.g. 2025-06-01)',
+    }),
+    until: Flags.string({
+      description: 'Only show runs started on or before this date (e.g. 2025-06-30T18:00)',
+    }),
+    format: Flags.string({
+      char: 'f',
+      description: 'Output format (table|json)',
+      default: 'table',
+      options: ['table', 'json'],
+    }),
+    'relative-time': Flags.boolean({
+      char: 'r',
+      description: 'Show relative time (e.g., "2 hours ago") instead of absolute time',
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(History);
+
+    try {
+      const history = new RunHistory(new DirectoryManager());
+
+      const filter: RunHistoryFilter = {
+        limit: flags.limit,
+        host: flags.host,
+        playbook: flags.playbook,
+        command: flags.command as RunHistoryFilter['command'],
+        status: flags.failed ? 'failed' : undefined,
+        since: this.parseDate(flags.since, '--since'),
+        until: this.parseDate(flags.until, '--until'),
+      };
+
+      const runs = await history.listRuns(filter);
+
+      if (flags.format === 'json') {
+        console.log(JSON.stringify(runs, null, 2));
+        return;
+      }
+
+      if (runs.length === 0) {
+        OCLIFFormatter.info('No recorded runs found.');
+        return;
+      }
+
+      OCLIFFormatter.section('Run History');
+
+      const timeFormatter = flags['relative-time'] ? formatRelativeDateTime : formatDateTime;
+
+      for (const run of runs) {
+        const status =
+          run.status === 'success'
+            ? chalk.green('✓')
+            : run.status === 'failed'
+              ? chalk.red('✗')
+              : chalk.yellow('…');
+        const target = run.playbook || `${run.pattern || 'all'} -m ${run.module}`;
+        const duration =
+          run.duration_ms !== undefined ? chalk.gray(` (${formatDuration(run.duration_ms)})`) : '';
+
+        console.log(`${status} ${chalk.yellow(run.id)} ${chalk.cyan(run.command)} ${target}`);
+        console.log(`  ${chalk.gray('Started:')} ${timeFormatter(run.started_at)}${duration}`);
+        if (run.hosts.length > 0) {
+          console.log(`  ${chalk.gray('Hosts:')} ${run.hosts.join(', ')}`);
+        }
+        if (run.tags.length > 0) {
+          console.log(`  ${chalk.gray('Tags:')} ${run.tags.join(', ')}`);
+        }
+        console.log('');
+      }
+
+      OCLIFFormatter.info('Use "aship history show <id>" to see details and captured output.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      OCLIFFormatter.error('Failed to list run history', errorMessage);
+      this.exit(1);
+    }
+  }
+
+  private parseDate(value: string | undefined, flagName: string): Date | undefined {
+    if (!value) {
+      return undefined;
+    }
+
+    const date = new Date(value);
+    if (Number.isNaN(date.getTime())) {
+      throw new Error(`Invalid date for ${flagName}: ${value}`);
+    }
+
+    return date;
+  }
+}
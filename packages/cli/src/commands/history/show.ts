@@ -0,0 +1,119 @@
+import { DirectoryManager, RunHistory } from '@aship/core';
+import { Args, Command, Flags } from '@oclif/core';
+import chalk from 'chalk';
+import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
+import { formatDateTime, formatDuration } from '../../utils/time-formatter.js';
+
+export default class HistoryShow extends Command {
+  static override description = 'Show details and captured output of a recorded run';
+
+  static override aliases = ['history:view'];
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> last',
+    '<%= config.bin %> <%= command.id %> 20250603-142501',
+    '<%= config.bin %> <%= command.id %> last --no-output',
+    '<%= config.bin %> <%= command.id %> last --format json',
+  ];
+
+  static override args = {
+    id: Args.string({
+      description: 'Run id, unique id prefix, or "last"',
+      default: 'last',
+    }),
+  };
+
+  static override flags = {
+    output: Flags.boolean({
+      description: 'Re-display the captured Ansible output',
+      default: true,
+      allowNo: true,
+    }),
+    format: Flags.string({
+      char: 'f',
+      description: 'Output format (text|json)',
+      default: 'text',
+      options: ['text', 'json'],
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(HistoryShow);
+
+    try {
+      const history = new RunHistory(new DirectoryManager());
+      const record = await history.getRun(args.id);
+
+      if (!record) {
+        OCLIFFormatter.error(`Run "${args.id}" not found`);
+        OCLIFFormatter.info('Use "aship history" to list recorded runs.');
+        this.exit(1);
+        return;
+      }
+
+      const output = flags.output ? await history.readOutput(record) : undefined;
+
+      if (flags.format === 'json') {
+        console.log(JSON.stringify(flags.output ? { ...record, output } : record, null, 2));
+        return;
+      }
+
+      OCLIFFormatter.section(`Run ${record.id}`);
+
+      const items = [
+        { label: 'Command', value: record.command },
+        { label: 'Status', value: record.status },
+        { label: 'Project', value: record.project_dir },
+        ...(record.playbook ? [{ label: 'Playbook', value: record.playbook }] : []),
+        ...(record.module ? [{ label: 'Module', value: record.module }] : []),
+        ...(record.module_args ? [{ label: 'Arguments', value: record.module_args }] : []),
+        ...(record.pattern ? [{ label: 'Pattern', value: record.pattern }] : []),
+        { label: 'Hosts', value: record.hosts.join(', ') || '(none)' },
+        ...(record.tags.length > 0 ? [{ label: 'Tags', value: record.tags.join(', ') }] : []),
+        { label: 'Started', value: formatDateTime(record.started_at) },
+        ...(record.finished_at
+          ? [{ label: 'Finished', value: formatDateTime(record.finished_at) }]
+          : []),
+        ...(record.duration_ms !== undefined
+          ? [{ label: 'Duration', value: formatDuration(record.duration_ms) }]
+          : []),
+        ...(record.exit_code !== undefined
+          ? [{ label: 'Exit code', value: String(record.exit_code) }]
+          : []),
+      ];
+      OCLIFFormatter.table(items);
+
+      if (Object.keys(record.vars).length > 0) {
+        console.log();
+        console.log(chalk.cyan.bold('Variables'));
+        OCLIFFormatter.table(
+          Object.entries(record.vars).map(([name, value]) => ({
+            label: name,
+            value: JSON.stringify(value),
+          }))
+        );
+      }
+
+      if (record.command_line.length > 0) {
+        console.log();
+        console.log(chalk.cyan.bold('Command line'));
+        console.log(`  ${record.command_line.join(' ')}`);
+      }
+
+      if (flags.output) {
+        console.log();
+        console.log(chalk.cyan.bold('Output'));
+        if (output) {
+          process.stdout.write(output.endsWith('\n') ? output : `${output}\n`);
+        } else {
+          console.log(chalk.gray('  No output captured'));
+        }
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      OCLIFFormatter.error('Failed to show run', errorMessage);
+      this.exit(1);
+    }
+  }
+}
@@ -1,6 +1,16 @@
-import { DirectoryManager, HostManager, logger, testConnection } from '@aship/core';
+import {
+  DirectoryManager,
+  type HostKeyPolicy,
+  HostManager,
+  KnownHostsManager,
+  formatLabels,
+  logger,
+  parseLabels,
+  resolveHostKeyPolicy,
+} from '@aship/core';
 import { Command, Flags } from '@oclif/core';
 import inquirer from 'inquirer';
+import { getProjectHostKeyPolicy } from '../../shared/server-connection-manager.js';
 import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
 
 export default class HostAdd extends Command {
@@ -12,6 +22,9 @@ export default class HostAdd extends Command {
     '<%= config.bin %> <%= command.id %>',
     '<%= config.bin %> <%= command.id %> --name web-server --hostname 192.168.1.100 --user ubuntu',
     '<%= config.bin %> <%= command.id %> --hostname example.com --port 2222 --test',
+    '<%= config.bin %> <%= command.id %> --hostname example.com --test --host-key-policy strict',
+    '<%= config.bin %> <%= command.id %> --name web-1 --hostname 10.0.0.11 --user deploy --group web --label env=prod',
+    '<%= config.bin %> <%= command.id %> --name db-1 --hostname 10.0.1.5 --user deploy --jump-host bastion --test',
     '<%= config.bin %> <%= command.id %> --non-interactive --name db-server --hostname db.example.com --user admin',
     '<%= config.bin %> host create --hostname example.com',
     '<%= config.bin %> host new -n web-server -h 192.168.1.100 -u ubuntu',
@@ -43,6 +56,25 @@ export default class HostAdd extends Command {
       char: 'd',
       description: 'Host description',
     }),
+    group: Flags.string({
+      char: 'g',
+      description: 'Add the host to a group (repeatable)',
+      multiple: true,
+    }),
+    label: Flags.string({
+      char: 'l',
+      description: 'Set a key=value label on the host (repeatable)',
+      multiple: true,
+    }),
+    'jump-host': Flags.string({
+      char: 'J',
+      description:
+        'Jump host to connect through: an aship host name or [user@]host[:port] (comma-separated for several hops)',
+    }),
+    'host-key-policy': Flags.string({
+      description: 'Host key verification policy for this host (defaults to the project policy)',
+      options: ['strict', 'tofu', 'off'],
+    }),
     'non-interactive': Flags.boolean({
       description: 'Run in non-interactive mode (requires all necessary options)',
       default: false,
@@ -81,6 +113,7 @@ export default class HostAdd extends Command {
           user: flags.user,
           identity_file: flags['identity-file'],
           description: flags.description,
+          host_key_policy: flags['host-key-policy'] as HostKeyPolicy | undefined,
           source: 'manual' as const,
         };
       } else {
@@ -138,13 +171,27 @@ export default class HostAdd extends Command {
           user: flags.user || answers.user,
           identity_file: flags['identity-file'] || answers.identity_file || undefined,
           description: flags.description || answers.description || undefined,
+          host_key_policy: flags['host-key-policy'] as HostKeyPolicy | undefined,
           source: 'manual' as const,
         };
       }
 
+      if (flags['jump-host']) {
+        hostData.jump_host = flags['jump-host'];
+      }
+
+      // Groups and labels
+      if (flags.group && flags.group.length > 0) {
+        hostData.groups = [...new Set(flags.group)];
+      }
+      if (flags.label && flags.label.length > 0) {
+        hostData.labels = parseLabels(flags.label);
+      }
+
       // Clean up empty values
       if (!hostData.identity_file) hostData.identity_file = undefined;
       if (!hostData.description) hostData.description = undefined;
+      if (!hostData.host_key_policy) hostData.host_key_policy = undefined;
 
       // Determine host name
       const hostName = flags.name || hostData.hostname;
@@ -159,16 +206,40 @@ export default class HostAdd extends Command {
       // Test connection if requested
       if (flags.test) {
         logger.info('Testing connection...');
-        const connectionResult = await testConnection({
-          name: hostName,
-          hostname: hostData.hostname,
-          port: hostData.port,
-          user: hostData.user,
-          identity_file: hostData.identity_file,
-        });
+        const policy = resolveHostKeyPolicy(
+          hostData.host_key_policy,
+          await getProjectHostKeyPolicy(process.cwd())
+        );
+        const knownHosts = new KnownHostsManager(directoryManager);
+
+        // Adding a host with --test explicitly trusts its key, even with the strict policy
+        const connectionResult = await knownHosts.testConnection(
+          {
+            name: hostName,
+            hostname: hostData.hostname,
+            port: hostData.port,
+            user: hostData.user,
+            identity_file: hostData.identity_file,
+            jump_hosts: await hostManager.resolveJumpHosts({
+              name: hostName,
+              jump_host: hostData.jump_host,
+            }),
+          },
+          policy,
+          { trustUnknown: true }
+        );
 
         if (connectionResult.success) {
           OCLIFFormatter.success('Connection test successful!');
+          if (connectionResult.hostKeyRecorded) {
+            OCLIFFormatter.info(
+              `Host key fingerprint recorded: ${connectionResult.hostKey?.fingerprint}`
+            );
+          } else if (connectionResult.hostKey?.status === 'match') {
+            OCLIFFormatter.info(
+              `Host key matches the recorded fingerprint: ${connectionResult.hostKey.fingerprint}`
+            );
+          }
         } else {
           OCLIFFormatter.error(`Connection test failed: ${connectionResult.message}`);
           if (flags['non-interactive']) {
@@ -214,6 +285,18 @@ export default class HostAdd extends Command {
       if (newHost.description) {
         hostDetails.push({ label: 'Description', value: newHost.description });
       }
+      if (newHost.groups && newHost.groups.length > 0) {
+        hostDetails.push({ label: 'Groups', value: newHost.groups.join(', ') });
+      }
+      if (newHost.labels && Object.keys(newHost.labels).length > 0) {
+        hostDetails.push({ label: 'Labels', value: formatLabels(newHost.labels) });
+      }
+      if (newHost.host_key_policy) {
+        hostDetails.push({ label: 'Host key policy', value: newHost.host_key_policy });
+      }
+      if (newHost.jump_host) {
+        hostDetails.push({ label: 'Jump host', value: newHost.jump_host });
+      }
 
       // Add source to details
       hostDetails.push({ label: 'Source', value: newHost.source });
@@ -0,0 +1,125 @@
+import * as path from 'node:path';
+import { DirectoryManager, HostManager, type InvalidHostEntry } from '@aship/core';
+import { Command, Flags } from '@oclif/core';
+import chalk from 'chalk';
+import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
+
+export default class HostDoctor extends Command {
+  static override description = 'Check the hosts file and host usage statistics for broken entries';
+
+  static override aliases = ['host:check-config'];
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --fix',
+    '<%= config.bin %> <%= command.id %> --format json',
+  ];
+
+  static override flags = {
+    fix: Flags.boolean({
+      description:
+        'Repair broken entries (fixable entries are fixed, the rest are removed; the original files are backed up)',
+      default: false,
+    }),
+    format: Flags.string({
+      char: 'f',
+      description: 'Output format (table|json)',
+      default: 'table',
+      options: ['table', 'json'],
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(HostDoctor);
+
+    try {
+      const hostManager = new HostManager(new DirectoryManager());
+      const diagnosis = await hostManager.diagnose();
+
+      if (flags.format === 'json') {
+        const repair = flags.fix && !diagnosis.healthy ? await hostManager.repair() : undefined;
+        console.log(JSON.stringify(repair ? { ...diagnosis, repair } : diagnosis, null, 2));
+        if (!diagnosis.healthy && !repair) {
+          this.exit(1);
+        }
+        return;
+      }
+
+      OCLIFFormatter.section('Host Configuration Check');
+
+      OCLIFFormatter.table([
+        { label: 'Hosts file', value: diagnosis.hostsFile },
+        { label: 'Usage file', value: diagnosis.usageFile },
+        { label: 'Valid hosts', value: String(diagnosis.validHosts.length) },
+        { label: 'Invalid hosts', value: String(diagnosis.invalidHosts.length) },
+        { label: 'Invalid usage entries', value: String(diagnosis.invalidUsage.length) },
+      ]);
+
+      if (diagnosis.healthy) {
+        console.log();
+        OCLIFFormatter.success('No problems found.');
+        return;
+      }
+
+      this.displayProblems(
+        path.basename(diagnosis.hostsFile),
+        diagnosis.hostsFileErrors,
+        diagnosis.invalidHosts
+      );
+      this.displayProblems(
+        path.basename(diagnosis.usageFile),
+        diagnosis.usageFileErrors,
+        diagnosis.invalidUsage
+      );
+
+      console.log();
+      if (!flags.fix) {
+        OCLIFFormatter.info('Run "aship host doctor --fix" to repair these entries.');
+        this.exit(1);
+        return;
+      }
+
+      const result = await hostManager.repair();
+
+      for (const name of result.fixed) {
+        OCLIFFormatter.success(`Fixed host "${name}"`);
+      }
+      for (const name of result.removed) {
+        OCLIFFormatter.warning(`Removed invalid host "${name}"`);
+      }
+      for (const name of result.removedUsage) {
+        OCLIFFormatter.warning(`Removed invalid usage statistics for "${name}"`);
+      }
+      for (const backup of result.backups) {
+        OCLIFFormatter.info(`Original file backed up to ${backup}`);
+      }
+
+      OCLIFFormatter.success('Host configuration repaired.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      OCLIFFormatter.error('Failed to check host configuration', errorMessage);
+      this.exit(1);
+    }
+  }
+
+  private displayProblems(file: string, fileErrors: string[], entries: InvalidHostEntry[]): void {
+    if (fileErrors.length === 0 && entries.length === 0) {
+      return;
+    }
+
+    console.log();
+    console.log(chalk.cyan.bold(`Problems in ${file}`));
+
+    for (const error of fileErrors) {
+      console.log(`${chalk.red('✗')} ${error}`);
+    }
+
+    for (const entry of entries) {
+      const hint = entry.fixable ? chalk.green(' (fixable)') : chalk.gray(' (will be removed)');
+      console.log(`${chalk.red('✗')} ${chalk.yellow(entry.key)}${hint}`);
+      for (const error of entry.errors) {
+        console.log(chalk.gray(`    ${error}`));
+      }
+    }
+  }
+}
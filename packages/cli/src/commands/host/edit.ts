@@ -1,7 +1,18 @@
-import { DirectoryManager, HostManager, testConnection } from '@aship/core';
+import {
+  DirectoryManager,
+  type HostKeyPolicy,
+  HostManager,
+  KnownHostsManager,
+  formatHostVarValue,
+  formatLabels,
+  parseHostVars,
+  parseLabels,
+  resolveHostKeyPolicy,
+} from '@aship/core';
 import { Args, Command, Flags } from '@oclif/core';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
+import { getProjectHostKeyPolicy } from '../../shared/server-connection-manager.js';
 import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
 
 export default class HostEdit extends Command {
@@ -14,13 +25,20 @@ export default class HostEdit extends Command {
     '<%= config.bin %> <%= command.id %> web-server --hostname new.example.com',
     '<%= config.bin %> <%= command.id %> --interactive',
     '<%= config.bin %> <%= command.id %> web-server --test',
+    '<%= config.bin %> <%= command.id %> web-server --non-interactive --host-key-policy strict',
+    '<%= config.bin %> <%= command.id %> web-server --non-interactive --group web --label env=prod',
+    '<%= config.bin %> <%= command.id %> web-server --non-interactive --remove-group web --remove-label env',
+    '<%= config.bin %> <%= command.id %> web-server --non-interactive --jump-host bastion',
+    '<%= config.bin %> <%= command.id %> web-server --var ansible_become=true --var app_port=8080',
+    '<%= config.bin %> <%= command.id %> web-server --unset-var app_port',
+    '<%= config.bin %> <%= command.id %> @web --var ansible_python_interpreter=/usr/bin/python3',
     '<%= config.bin %> host update web-server --hostname new.example.com',
     '<%= config.bin %> host modify web-server -i',
   ];
 
   static override args = {
     name: Args.string({
-      description: 'Name of the host to edit',
+      description: 'Name of the host to edit, or @group to edit group variables',
       required: false,
     }),
   };
@@ -46,6 +64,44 @@ export default class HostEdit extends Command {
     description: Flags.string({
       description: 'New host description',
     }),
+    group: Flags.string({
+      description: 'Add the host to a group (repeatable)',
+      multiple: true,
+    }),
+    'remove-group': Flags.string({
+      description: 'Remove the host from a group (repeatable)',
+      multiple: true,
+    }),
+    label: Flags.string({
+      description: 'Set a key=value label (repeatable)',
+      multiple: true,
+    }),
+    'remove-label': Flags.string({
+      description: 'Remove a label by key (repeatable)',
+      multiple: true,
+    }),
+    var: Flags.string({
+      description:
+        'Set an Ansible variable as key=value, values are parsed as JSON when possible (repeatable, implies --non-interactive)',
+      multiple: true,
+    }),
+    'unset-var': Flags.string({
+      description: 'Remove an Ansible variable by key (repeatable, implies --non-interactive)',
+      multiple: true,
+    }),
+    'jump-host': Flags.string({
+      char: 'J',
+      description:
+        'New jump host: an aship host name or [user@]host[:port] (comma-separated for several hops)',
+    }),
+    'clear-jump-host': Flags.boolean({
+      description: 'Connect to the host directly instead of through a jump host',
+      default: false,
+    }),
+    'host-key-policy': Flags.string({
+      description: 'New host key verification policy',
+      options: ['strict', 'tofu', 'off'],
+    }),
     'non-interactive': Flags.boolean({
       description: 'Run in non-interactive mode (requires specific field flags)',
       default: false,
@@ -73,6 +129,12 @@ export default class HostEdit extends Command {
 
       let hostName = args.name;
 
+      // Group variables
+      if (hostName?.startsWith('@')) {
+        await this.editGroupVars(hostManager, hostName.slice(1), flags);
+        return;
+      }
+
       // Interactive mode or no host name provided
       if (flags.interactive || !hostName) {
         const hosts = await hostManager.getHosts();
@@ -124,6 +186,14 @@ export default class HostEdit extends Command {
         { label: 'Port', value: currentHost.port.toString() },
         { label: 'SSH Key', value: currentHost.identity_file || '(none)' },
         { label: 'Description', value: currentHost.description || '(none)' },
+        { label: 'Groups', value: currentHost.groups?.join(', ') || '(none)' },
+        { label: 'Labels', value: formatLabels(currentHost.labels || {}) || '(none)' },
+        { label: 'Host key policy', value: currentHost.host_key_policy || '(project default)' },
+        { label: 'Jump host', value: currentHost.jump_host || '(none)' },
+        {
+          label: 'Variables',
+          value: Object.keys(currentHost.host_vars || {}).join(', ') || '(none)',
+        },
       ];
 
       OCLIFFormatter.table(currentInfo);
@@ -131,13 +201,35 @@ export default class HostEdit extends Command {
 
       let updatedData: any = {};
 
-      if (flags['non-interactive']) {
+      if (flags['non-interactive'] || flags.var || flags['unset-var']) {
         // Non-interactive mode: use provided flags
         if (flags.hostname) updatedData.hostname = flags.hostname;
         if (flags.port) updatedData.port = Number.parseInt(flags.port, 10);
         if (flags.user) updatedData.user = flags.user;
         if (flags['identity-file']) updatedData.identity_file = flags['identity-file'];
         if (flags.description) updatedData.description = flags.description;
+        if (flags['host-key-policy']) {
+          updatedData.host_key_policy = flags['host-key-policy'] as HostKeyPolicy;
+        }
+        if (flags.group || flags['remove-group']) {
+          const groups = new Set([...(currentHost.groups || []), ...(flags.group || [])]);
+          for (const group of flags['remove-group'] || []) {
+            groups.delete(group);
+          }
+          updatedData.groups = groups.size > 0 ? [...groups] : undefined;
+        }
+        if (flags.label || flags['remove-label']) {
+          const labels = { ...(currentHost.labels || {}), ...parseLabels(flags.label || []) };
+          for (const key of flags['remove-label'] || []) {
+            delete labels[key];
+          }
+          updatedData.labels = Object.keys(labels).length > 0 ? labels : undefined;
+        }
+        if (flags.var || flags['unset-var']) {
+          updatedData.host_vars = this.applyVarChanges(currentHost.host_vars, flags);
+        }
+        if (flags['jump-host']) updatedData.jump_host = flags['jump-host'];
+        if (flags['clear-jump-host']) updatedData.jump_host = undefined;
         if (flags['clear-identity']) updatedData.identity_file = undefined;
         if (flags['clear-description']) updatedData.description = undefined;
 
@@ -179,6 +271,12 @@ export default class HostEdit extends Command {
             message: 'SSH identity file (optional):',
             default: currentHost.identity_file || '',
           },
+          {
+            type: 'input',
+            name: 'jump_host',
+            message: 'Jump host (optional, host name or [user@]host[:port]):',
+            default: currentHost.jump_host || '',
+          },
           {
             type: 'input',
             name: 'description',
@@ -192,6 +290,7 @@ export default class HostEdit extends Command {
           user: answers.user,
           port: Number.parseInt(answers.port, 10),
           identity_file: answers.identity_file || undefined,
+          jump_host: answers.jump_host || undefined,
           description: answers.description || undefined,
         };
       }
@@ -202,7 +301,7 @@ export default class HostEdit extends Command {
 
       // Check if anything actually changed
       const hasChanges = Object.keys(updatedData).some(key => {
-        return updatedData[key] !== currentHost[key];
+        return JSON.stringify(updatedData[key]) !== JSON.stringify(currentHost[key]);
       });
 
       if (!hasChanges) {
@@ -210,20 +309,8 @@ export default class HostEdit extends Command {
         return;
       }
 
-      // Create updated host data
-      const newHostData = {
-        ...currentHost,
-        ...updatedData,
-        // Preserve metadata
-        name: currentHost.name,
-        created_at: currentHost.created_at,
-        source: currentHost.source,
-        connection_success_at: currentHost.connection_success_at,
-      };
-
-      // Remove and re-add the host (this is the safest way to update)
-      await hostManager.removeHost(hostName);
-      const updatedHost = await hostManager.addHost(newHostData, hostName);
+      // Update the host in place (metadata and usage statistics are preserved)
+      const updatedHost = await hostManager.updateHost(hostName, updatedData);
 
       OCLIFFormatter.success(`Host "${hostName}" updated successfully!`);
 
@@ -240,6 +327,21 @@ export default class HostEdit extends Command {
       if (updatedHost.description) {
         updatedInfo.push({ label: 'Description', value: updatedHost.description });
       }
+      if (updatedHost.groups && updatedHost.groups.length > 0) {
+        updatedInfo.push({ label: 'Groups', value: updatedHost.groups.join(', ') });
+      }
+      if (updatedHost.labels && Object.keys(updatedHost.labels).length > 0) {
+        updatedInfo.push({ label: 'Labels', value: formatLabels(updatedHost.labels) });
+      }
+      if (updatedHost.host_key_policy) {
+        updatedInfo.push({ label: 'Host key policy', value: updatedHost.host_key_policy });
+      }
+      if (updatedHost.jump_host) {
+        updatedInfo.push({ label: 'Jump host', value: updatedHost.jump_host });
+      }
+      for (const [key, value] of Object.entries(updatedHost.host_vars || {})) {
+        updatedInfo.push({ label: key, value: formatHostVarValue(value) });
+      }
 
       OCLIFFormatter.table(updatedInfo);
 
@@ -249,13 +351,20 @@ export default class HostEdit extends Command {
         OCLIFFormatter.info('Testing connection...');
 
         try {
-          const result = await testConnection({
-            name: updatedHost.name,
-            hostname: updatedHost.hostname,
-            port: updatedHost.port,
-            user: updatedHost.user,
-            identity_file: updatedHost.identity_file,
-          });
+          const result = await new KnownHostsManager(directoryManager).testConnection(
+            {
+              name: updatedHost.name,
+              hostname: updatedHost.hostname,
+              port: updatedHost.port,
+              user: updatedHost.user,
+              identity_file: updatedHost.identity_file,
+              jump_hosts: await hostManager.resolveJumpHosts(updatedHost),
+            },
+            resolveHostKeyPolicy(
+              updatedHost.host_key_policy,
+              await getProjectHostKeyPolicy(process.cwd())
+            )
+          );
 
           if (result.success) {
             OCLIFFormatter.success('Connection test successful!');
@@ -274,4 +383,49 @@ export default class HostEdit extends Command {
       this.exit(1);
     }
   }
+
+  /**
+   * Apply --var and --unset-var to a set of variables
+   * @returns Updated variables, or undefined when none are left
+   */
+  private applyVarChanges(
+    current: Record<string, any> | undefined,
+    flags: { var?: string[]; 'unset-var'?: string[] }
+  ): Record<string, any> | undefined {
+    const vars = { ...(current || {}), ...parseHostVars(flags.var || []) };
+    for (const key of flags['unset-var'] || []) {
+      delete vars[key];
+    }
+    return Object.keys(vars).length > 0 ? vars : undefined;
+  }
+
+  /**
+   * Edit the variables of a host group
+   */
+  private async editGroupVars(
+    hostManager: HostManager,
+    groupName: string,
+    flags: { var?: string[]; 'unset-var'?: string[] }
+  ): Promise<void> {
+    if (!flags.var && !flags['unset-var']) {
+      OCLIFFormatter.error('Use --var or --unset-var to edit the variables of a group.');
+      this.exit(1);
+    }
+
+    const current = await hostManager.getGroup(groupName);
+    const updated = await hostManager.updateGroup(groupName, {
+      vars: this.applyVarChanges(current?.vars, flags),
+    });
+
+    OCLIFFormatter.success(`Variables of group "${groupName}" updated successfully!`);
+
+    const vars = Object.entries(updated.vars || {});
+    if (vars.length === 0) {
+      OCLIFFormatter.info('The group has no variables.');
+      return;
+    }
+    OCLIFFormatter.table(
+      vars.map(([key, value]) => ({ label: key, value: formatHostVarValue(value) }))
+    );
+  }
 }
@@ -1,5 +1,5 @@
 import * as fs from 'node:fs/promises';
-import { DirectoryManager, HostManager } from '@aship/core';
+import { DirectoryManager, type HostGroupConfig, HostManager } from '@aship/core';
 import { Command, Flags } from '@oclif/core';
 import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
 
@@ -109,7 +109,7 @@ export default class HostExport extends Command {
           _defaultExtension = '';
           break;
         case 'ansible':
-          content = this.exportToAnsible(hosts, flags.group);
+          content = this.exportToAnsible(hosts, flags.group, await hostManager.getGroups());
           _defaultExtension = '.yml';
           break;
         default:
@@ -227,7 +227,11 @@ export default class HostExport extends Command {
     return lines.join('\n');
   }
 
-  private exportToAnsible(hosts: any[], groupName: string): string {
+  private exportToAnsible(
+    hosts: any[],
+    groupName: string,
+    groupConfigs: Record<string, HostGroupConfig>
+  ): string {
     const yaml = require('js-yaml');
 
     const inventory: any = {
@@ -238,11 +242,22 @@ export default class HostExport extends Command {
 
     for (const host of hosts) {
       inventory[groupName].hosts[host.name] = {
+        ...host.host_vars,
         ansible_host: host.hostname,
         ansible_user: host.user,
         ...(host.port !== 22 && { ansible_port: host.port }),
         ...(host.identity_file && { ansible_ssh_private_key_file: host.identity_file }),
       };
+
+      // One child group per aship host group
+      for (const group of host.groups || []) {
+        inventory[groupName].children ??= {};
+        inventory[groupName].children[group] ??= {
+          hosts: {},
+          ...(groupConfigs[group]?.vars && { vars: groupConfigs[group].vars }),
+        };
+        inventory[groupName].children[group].hosts[host.name] = {};
+      }
     }
 
     // Add metadata as comments
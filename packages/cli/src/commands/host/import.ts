@@ -1,7 +1,12 @@
 import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
-import { DirectoryManager, HostManager } from '@aship/core';
+import {
+  DirectoryManager,
+  HostManager,
+  type SkippedSshConfigEntry,
+  parseSshConfigFile,
+} from '@aship/core';
 import { Args, Command, Flags } from '@oclif/core';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
@@ -84,9 +89,12 @@ export default class HostImport extends Command {
       }
 
       let hostsToImport: any[] = [];
+      let skipped: SkippedSshConfigEntry[] = [];
 
       if (importSource === 'ssh-config') {
-        hostsToImport = await this.importFromSSHConfig(flags);
+        const result = await this.importFromSSHConfig(flags);
+        hostsToImport = result.hosts;
+        skipped = result.skipped;
       } else if (importSource === 'file') {
         hostsToImport = await this.importFromFile(flags);
       } else {
@@ -96,6 +104,9 @@ export default class HostImport extends Command {
 
       if (hostsToImport.length === 0) {
         OCLIFFormatter.info('No hosts found to import.');
+        if (flags['dry-run']) {
+          this.displaySkippedEntries(skipped);
+        }
         return;
       }
 
@@ -182,12 +193,17 @@ export default class HostImport extends Command {
 
           console.log(`${chalk.cyan('•')} ${host.name} ${status}`);
           console.log(`  ${chalk.gray('Address:')} ${userInfo}${host.hostname}${portInfo}`);
+          if (host.jump_host) {
+            console.log(`  ${chalk.gray('Jump host:')} ${host.jump_host}`);
+          }
           if (host.description) {
             console.log(`  ${chalk.gray('Description:')} ${host.description}`);
           }
           console.log();
         }
 
+        this.displaySkippedEntries(skipped);
+
         OCLIFFormatter.info(
           `Would import ${hostsToImport.length} host(s). Use without --dry-run to actually import.`
         );
@@ -216,6 +232,7 @@ export default class HostImport extends Command {
               port: hostData.port || 22,
               identity_file: hostData.identity_file,
               description: hostData.description,
+              jump_host: hostData.jump_host,
               source: 'imported',
             },
             hostData.name
@@ -250,7 +267,9 @@ export default class HostImport extends Command {
     }
   }
 
-  private async importFromSSHConfig(_flags: any): Promise<any[]> {
+  private async importFromSSHConfig(
+    _flags: any
+  ): Promise<{ hosts: any[]; skipped: SkippedSshConfigEntry[] }> {
     const sshConfigPath = path.join(os.homedir(), '.ssh', 'config');
 
     try {
@@ -261,8 +280,14 @@ export default class HostImport extends Command {
     }
 
     try {
-      const content = await fs.readFile(sshConfigPath, 'utf-8');
-      return this.parseSSHConfig(content);
+      const result = await parseSshConfigFile(sshConfigPath);
+      return {
+        hosts: result.hosts.map(host => ({
+          ...host,
+          user: host.user || process.env.USER || 'root',
+        })),
+        skipped: result.skipped,
+      };
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       OCLIFFormatter.error(`Failed to read SSH config: ${errorMessage}`);
@@ -315,52 +340,19 @@ export default class HostImport extends Command {
     }
   }
 
-  private parseSSHConfig(content: string): any[] {
-    const hosts: any[] = [];
-    const lines = content.split('\n');
-    let currentHost: any = null;
-
-    for (const line of lines) {
-      const trimmed = line.trim();
-
-      if (trimmed.startsWith('Host ') && !trimmed.includes('*')) {
-        if (currentHost) {
-          hosts.push(currentHost);
-        }
-
-        const hostName = trimmed.substring(5).trim();
-        currentHost = {
-          name: hostName,
-          hostname: hostName, // Default to host name
-          user: process.env.USER || 'root',
-          port: 22,
-        };
-      } else if (currentHost && trimmed.includes(' ')) {
-        const [key, ...valueParts] = trimmed.split(' ');
-        const value = valueParts.join(' ');
-
-        switch (key.toLowerCase()) {
-          case 'hostname':
-            currentHost.hostname = value;
-            break;
-          case 'user':
-            currentHost.user = value;
-            break;
-          case 'port':
-            currentHost.port = Number.parseInt(value, 10) || 22;
-            break;
-          case 'identityfile':
-            currentHost.identity_file = value.replace('~', os.homedir());
-            break;
-        }
-      }
+  private displaySkippedEntries(skipped: SkippedSshConfigEntry[]): void {
+    if (skipped.length === 0) {
+      return;
     }
 
-    if (currentHost) {
-      hosts.push(currentHost);
-    }
+    console.log(chalk.cyan.bold('Skipped SSH config entries:'));
+    console.log();
 
-    return hosts;
+    for (const entry of skipped) {
+      console.log(`${chalk.yellow('•')} ${entry.name} ${chalk.gray(`(${entry.source})`)}`);
+      console.log(`  ${chalk.gray('Reason:')} ${entry.reason}`);
+    }
+    console.log();
   }
 
   private parseJSONFile(content: string): any[] {
@@ -1,4 +1,4 @@
-import { DirectoryManager, HostManager, logger } from '@aship/core';
+import { DirectoryManager, HostManager, formatLabels, logger, selectHosts } from '@aship/core';
 import { Command, Flags } from '@oclif/core';
 import chalk from 'chalk';
 import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
@@ -15,6 +15,8 @@ export default class HostList extends Command {
     '<%= config.bin %> <%= command.id %>',
     '<%= config.bin %> <%= command.id %> --usage',
     '<%= config.bin %> <%= command.id %> --source manual',
+    '<%= config.bin %> <%= command.id %> --select @web',
+    '<%= config.bin %> <%= command.id %> --select env=prod',
     '<%= config.bin %> <%= command.id %> --format json',
     '<%= config.bin %> <%= command.id %> --verbose',
     '<%= config.bin %> <%= command.id %> --quiet',
@@ -33,6 +35,10 @@ export default class HostList extends Command {
       description: 'Filter by source (manual|ssh_config|imported)',
       options: ['manual', 'ssh_config', 'imported'],
     }),
+    select: Flags.string({
+      description:
+        'Only show hosts matching selectors (comma-separated names, @group or key=value)',
+    }),
     format: Flags.string({
       char: 'f',
       description: 'Output format (table|json)',
@@ -67,10 +73,11 @@ export default class HostList extends Command {
       const hosts = await hostManager.getHosts();
       const usage = flags.usage ? await hostManager.getUsageHistory() : {};
 
-      // Filter by source if specified
-      const filteredHosts = flags.source
-        ? hosts.filter(host => host.source === flags.source)
-        : hosts;
+      // Filter by source and selectors if specified
+      const sourceHosts = flags.source ? hosts.filter(host => host.source === flags.source) : hosts;
+      const filteredHosts = flags.select
+        ? selectHosts(sourceHosts, flags.select.split(','))
+        : sourceHosts;
 
       if (filteredHosts.length === 0) {
         const sourceFilter = flags.source ? ` with source "${flags.source}"` : '';
@@ -119,6 +126,12 @@ export default class HostList extends Command {
 
         console.log(`${indexDisplay} ${chalk.cyan.bold(host.name)}`);
         console.log(`  ${chalk.gray('Address:')} ${userInfo}${host.hostname}${portInfo}`);
+        if (host.groups && host.groups.length > 0) {
+          console.log(`  ${chalk.gray('Groups:')} ${host.groups.join(', ')}`);
+        }
+        if (host.labels && Object.keys(host.labels).length > 0) {
+          console.log(`  ${chalk.gray('Labels:')} ${formatLabels(host.labels)}`);
+        }
 
         if (flags.verbose) {
           console.log(`  ${chalk.gray('Source:')} ${host.source}`);
@@ -1,4 +1,15 @@
-import { DirectoryManager, HostManager } from '@aship/core';
+import {
+  DirectoryManager,
+  type HostGroupConfig,
+  HostManager,
+  type JumpHost,
+  type KnownHostEntry,
+  KnownHostsManager,
+  formatHostVarValue,
+  formatLabels,
+  getJumpHostSshOptions,
+  resolveHostVars,
+} from '@aship/core';
 import { Args, Command, Flags } from '@oclif/core';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
@@ -99,6 +110,18 @@ export default class HostShow extends Command {
         this.exit(1);
       }
 
+      // Get host keys recorded in the aship known_hosts file
+      const hostKeys = await new KnownHostsManager(directoryManager).getHostEntries(
+        host.hostname,
+        host.port
+      );
+
+      // Get group configurations for inherited variables
+      const groups = await hostManager.getGroups();
+
+      // Resolve the jump host chain
+      const jumpHosts = await hostManager.resolveJumpHosts(host);
+
       // Get usage statistics if requested
       let usage: any = null;
       if (flags.usage) {
@@ -109,6 +132,9 @@ export default class HostShow extends Command {
       if (flags.format === 'json') {
         const output = {
           host,
+          host_keys: hostKeys.map(({ type, fingerprint }) => ({ type, fingerprint })),
+          vars: resolveHostVars(host, groups),
+          jump_hosts: jumpHosts,
           ...(usage && { usage }),
         };
         console.log(JSON.stringify(output, null, 2));
@@ -116,7 +142,7 @@ export default class HostShow extends Command {
       }
 
       // Display in table format
-      this.displayHostInfo(host, usage, flags);
+      this.displayHostInfo(host, hostKeys, groups, jumpHosts, usage, flags);
     } catch (error) {
       const errorMessage = error instanceof Error ? error.message : String(error);
       OCLIFFormatter.error('Failed to show host information', errorMessage);
@@ -124,7 +150,14 @@ export default class HostShow extends Command {
     }
   }
 
-  private displayHostInfo(host: any, usage: any, flags: any): void {
+  private displayHostInfo(
+    host: any,
+    hostKeys: KnownHostEntry[],
+    groups: Record<string, HostGroupConfig>,
+    jumpHosts: JumpHost[],
+    usage: any,
+    flags: any
+  ): void {
     const timeFormatter = flags['relative-time'] ? formatRelativeDateTime : formatDateTime;
 
     // Basic host information
@@ -146,6 +179,22 @@ export default class HostShow extends Command {
       basicInfo.push({ label: 'Description', value: host.description });
     }
 
+    if (host.groups && host.groups.length > 0) {
+      basicInfo.push({ label: 'Groups', value: host.groups.join(', ') });
+    }
+
+    if (host.labels && Object.keys(host.labels).length > 0) {
+      basicInfo.push({ label: 'Labels', value: formatLabels(host.labels) });
+    }
+
+    if (host.host_key_policy) {
+      basicInfo.push({ label: 'Host Key Policy', value: host.host_key_policy });
+    }
+
+    if (host.jump_host) {
+      basicInfo.push({ label: 'Jump Host', value: host.jump_host });
+    }
+
     basicInfo.push(
       { label: 'Source', value: host.source },
       { label: 'Created', value: timeFormatter(host.created_at) }
@@ -161,10 +210,43 @@ export default class HostShow extends Command {
     const userInfo = host.user ? `${host.user}@` : '';
     const portInfo = host.port !== 22 ? ` -p ${host.port}` : '';
     const keyInfo = host.identity_file ? ` -i ${host.identity_file}` : '';
+    const jumpInfo = jumpHosts.length > 0 ? ` ${getJumpHostSshOptions(jumpHosts).join(' ')}` : '';
 
     console.log();
     console.log(chalk.gray('SSH Command:'));
-    console.log(chalk.white(`ssh ${userInfo}${host.hostname}${portInfo}${keyInfo}`));
+    console.log(chalk.white(`ssh ${userInfo}${host.hostname}${portInfo}${keyInfo}${jumpInfo}`));
+
+    // Recorded host keys
+    console.log();
+    console.log(chalk.gray('Host Keys:'));
+    if (hostKeys.length > 0) {
+      for (const entry of hostKeys) {
+        console.log(chalk.white(`${entry.type} ${entry.fingerprint}`));
+      }
+    } else {
+      console.log(chalk.gray('(none recorded)'));
+    }
+
+    // Ansible variables, with the group they are inherited from
+    const vars = Object.entries(resolveHostVars(host, groups));
+    if (vars.length > 0) {
+      console.log();
+      console.log(chalk.gray('Host Variables:'));
+      OCLIFFormatter.table(
+        vars.map(([key, value]) => {
+          const source =
+            host.host_vars && key in host.host_vars
+              ? undefined
+              : [...(host.groups || [])]
+                  .reverse()
+                  .find(group => key in (groups[group]?.vars || {}));
+          return {
+            label: key,
+            value: `${formatHostVarValue(value)}${source ? chalk.gray(` (from @${source})`) : ''}`,
+          };
+        })
+      );
+    }
 
     // Usage statistics
     if (usage) {
@@ -189,7 +271,11 @@ export default class HostShow extends Command {
     const ansibleKey = host.identity_file
       ? ` ansible_ssh_private_key_file=${host.identity_file}`
       : '';
+    const ansibleJump =
+      jumpHosts.length > 0
+        ? ` ansible_ssh_common_args='${getJumpHostSshOptions(jumpHosts).join(' ')}'`
+        : '';
 
-    console.log(chalk.white(`${ansibleHost}${ansiblePort}${ansibleKey}`));
+    console.log(chalk.white(`${ansibleHost}${ansiblePort}${ansibleKey}${ansibleJump}`));
   }
 }
@@ -1,7 +1,25 @@
-import { DirectoryManager, HostManager, testConnection } from '@aship/core';
-import { Args, Command, Flags } from '@oclif/core';
+import {
+  DirectoryManager,
+  type HostConfig,
+  type HostKeyPolicy,
+  HostManager,
+  KnownHostsManager,
+  mapWithConcurrency,
+  resolveHostKeyPolicy,
+  runEnhancedDiagnostics,
+  selectHosts,
+} from '@aship/core';
+import { Args, Command, Errors, Flags } from '@oclif/core';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
+import {
+  type HostTestResult,
+  createJUnitReport,
+  createJsonReport,
+  getExitCode,
+} from '../../shared/host-test-report.js';
+import { getProjectHostKeyPolicy } from '../../shared/server-connection-manager.js';
+import { redirectStdoutToStderr, writeJsonResult, writeResult } from '../../utils/json-output.js';
 import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
 
 export default class HostTest extends Command {
@@ -14,6 +32,9 @@ export default class HostTest extends Command {
     '<%= config.bin %> <%= command.id %> web-server --verbose',
     '<%= config.bin %> <%= command.id %> --interactive',
     '<%= config.bin %> <%= command.id %> --all',
+    '<%= config.bin %> <%= command.id %> --all --concurrency 20 --select @web',
+    '<%= config.bin %> <%= command.id %> --all --filter "db-*" --format junit > hosts.xml',
+    '<%= config.bin %> <%= command.id %> --all --source ssh_config --format json',
     '<%= config.bin %> host ping web-server',
     '<%= config.bin %> host check --all -v',
   ];
@@ -50,6 +71,31 @@ export default class HostTest extends Command {
       description: 'Update usage statistics on successful connection',
       default: true,
     }),
+    concurrency: Flags.integer({
+      char: 'c',
+      description: 'Number of hosts tested at the same time (with --all)',
+      default: 5,
+      min: 1,
+    }),
+    filter: Flags.string({
+      description: 'Filter hosts by pattern (supports wildcards, with --all)',
+    }),
+    source: Flags.string({
+      char: 's',
+      description: 'Filter by source (with --all)',
+      options: ['manual', 'ssh_config', 'imported'],
+    }),
+    select: Flags.string({
+      description:
+        'Only test hosts matching selectors (comma-separated names, @group or key=value)',
+    }),
+    format: Flags.string({
+      char: 'f',
+      description:
+        'Output format of the results (with --all), json and junit write a report to stdout',
+      default: 'table',
+      options: ['table', 'json', 'junit'],
+    }),
   };
 
   public async run(): Promise<void> {
@@ -58,9 +104,11 @@ export default class HostTest extends Command {
     try {
       const directoryManager = new DirectoryManager();
       const hostManager = new HostManager(directoryManager);
+      const knownHosts = new KnownHostsManager(directoryManager);
+      const projectPolicy = await getProjectHostKeyPolicy(process.cwd());
 
       if (flags.all) {
-        await this.testAllHosts(hostManager, flags);
+        await this.testAllHosts(hostManager, knownHosts, projectPolicy, flags);
         return;
       }
 
@@ -106,48 +154,73 @@ export default class HostTest extends Command {
         this.exit(1);
       }
 
-      await this.testSingleHost(host, hostManager, flags);
+      await this.testSingleHost(host, hostManager, knownHosts, projectPolicy, flags);
     } catch (error) {
+      // The failed connection was already reported
+      if (error instanceof Errors.ExitError) {
+        throw error;
+      }
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       OCLIFFormatter.error('Failed to test host connection', errorMessage);
       this.exit(1);
     }
   }
 
-  private async testSingleHost(host: any, hostManager: HostManager, flags: any): Promise<void> {
+  private async testSingleHost(
+    host: any,
+    hostManager: HostManager,
+    knownHosts: KnownHostsManager,
+    projectPolicy: HostKeyPolicy | undefined,
+    flags: any
+  ): Promise<void> {
     const userInfo = host.user ? `${host.user}@` : '';
     const portInfo = host.port !== 22 ? `:${host.port}` : '';
 
+    const jumpInfo = host.jump_host ? ` via ${host.jump_host}` : '';
+
     OCLIFFormatter.info(
-      `Testing connection to ${host.name} (${userInfo}${host.hostname}${portInfo})...`
+      `Testing connection to ${host.name} (${userInfo}${host.hostname}${portInfo})${jumpInfo}...`
     );
 
     const startTime = Date.now();
 
     try {
-      const result = await testConnection({
-        name: host.name,
-        hostname: host.hostname,
-        port: host.port,
-        user: host.user,
-        identity_file: host.identity_file,
-      });
+      const result = await this.testHost(
+        host,
+        hostManager,
+        knownHosts,
+        projectPolicy,
+        flags.timeout
+      );
 
       const duration = Date.now() - startTime;
 
       if (result.success) {
         OCLIFFormatter.success(`Connection successful! (${duration}ms)`);
 
+        if (result.hostKeyRecorded) {
+          OCLIFFormatter.info(`Host key fingerprint recorded: ${result.hostKey?.fingerprint}`);
+        }
+
         if (flags.verbose) {
           const details = [
             { label: 'Method', value: result.method || 'unknown' },
             { label: 'Duration', value: `${duration}ms` },
+            {
+              label: 'Host key policy',
+              value: resolveHostKeyPolicy(host.host_key_policy, projectPolicy),
+            },
           ];
 
           if (result.keyPath) {
             details.push({ label: 'Key', value: result.keyPath });
           }
 
+          if (result.hostKey) {
+            details.push({ label: 'Host key', value: result.hostKey.fingerprint });
+          }
+
           OCLIFFormatter.table(details);
         }
 
@@ -174,77 +247,209 @@ export default class HostTest extends Command {
     }
   }
 
-  private async testAllHosts(hostManager: HostManager, flags: any): Promise<void> {
-    const hosts = await hostManager.getHosts();
+  /**
+   * Test a connection to a host with host key verification, through its jump hosts
+   * @param timeout Timeout in seconds, the connection is closed when it expires
+   */
+  private async testHost(
+    host: HostConfig,
+    hostManager: HostManager,
+    knownHosts: KnownHostsManager,
+    projectPolicy: HostKeyPolicy | undefined,
+    timeout: number
+  ) {
+    return knownHosts.testConnection(
+      {
+        name: host.name,
+        hostname: host.hostname,
+        port: host.port,
+        user: host.user,
+        identity_file: host.identity_file,
+        jump_hosts: await hostManager.resolveJumpHosts(host),
+      },
+      resolveHostKeyPolicy(host.host_key_policy, projectPolicy),
+      { timeout: timeout * 1000 }
+    );
+  }
 
-    if (hosts.length === 0) {
-      OCLIFFormatter.info('No hosts configured. Use "aship host add" to add a host.');
-      return;
+  /**
+   * Select the hosts to test with --all
+   */
+  private filterHosts(hosts: HostConfig[], flags: any): HostConfig[] {
+    let filtered = flags.source ? hosts.filter(host => host.source === flags.source) : hosts;
+
+    if (flags.filter) {
+      const pattern = flags.filter.replace(/\*/g, '.*');
+      const regex = new RegExp(`^${pattern}$`, 'i');
+      filtered = filtered.filter(host => regex.test(host.name));
     }
 
-    OCLIFFormatter.info(`Testing connection to ${hosts.length} host(s)...`);
-    console.log();
+    return flags.select ? selectHosts(filtered, flags.select.split(',')) : filtered;
+  }
+
+  /**
+   * Test one host of a --all run, diagnosing failed connections
+   */
+  private async testHostResult(
+    host: HostConfig,
+    hostManager: HostManager,
+    knownHosts: KnownHostsManager,
+    projectPolicy: HostKeyPolicy | undefined,
+    timeout: number
+  ): Promise<HostTestResult & { hostKeyMismatch?: boolean }> {
+    const userInfo = host.user ? `${host.user}@` : '';
+    const portInfo = host.port !== 22 ? `:${host.port}` : '';
+    const address = `${userInfo}${host.hostname}${portInfo}`;
+    const startTime = Date.now();
 
-    const results: Array<{ name: string; success: boolean; duration: number; message?: string }> =
-      [];
+    try {
+      const result = await this.testHost(host, hostManager, knownHosts, projectPolicy, timeout);
+      const duration = Date.now() - startTime;
 
-    for (const host of hosts) {
-      const startTime = Date.now();
+      if (result.success) {
+        return { name: host.name, address, success: true, duration, method: result.method };
+      }
 
-      try {
-        const result = await testConnection({
+      // A changed host key needs no diagnosis, the connection was refused on purpose
+      const hostKeyMismatch = result.hostKey?.status === 'mismatch';
+      return {
+        name: host.name,
+        address,
+        success: false,
+        duration,
+        message: result.message,
+        diagnosis: hostKeyMismatch ? undefined : await this.diagnoseHost(host),
+        hostKeyMismatch,
+      };
+    } catch (error) {
+      return {
+        name: host.name,
+        address,
+        success: false,
+        duration: Date.now() - startTime,
+        message: error instanceof Error ? error.message : String(error),
+        diagnosis: await this.diagnoseHost(host),
+      };
+    }
+  }
+
+  /**
+   * Find the cause of a failed connection with the SSH diagnostics
+   */
+  private async diagnoseHost(host: HostConfig): Promise<HostTestResult['diagnosis']> {
+    // The diagnostics connect directly, hosts behind jump hosts cannot be checked
+    if (host.jump_host) {
+      return undefined;
+    }
+
+    try {
+      const diagnosis = await runEnhancedDiagnostics(
+        {
           name: host.name,
           hostname: host.hostname,
           port: host.port,
           user: host.user,
           identity_file: host.identity_file,
-        });
+        },
+        { silent: true, suppressDebugOutput: true }
+      );
+      return diagnosis.success
+        ? undefined
+        : { issue: diagnosis.primaryIssue, message: diagnosis.detailedMessage };
+    } catch {
+      return undefined;
+    }
+  }
 
-        const duration = Date.now() - startTime;
+  private async testAllHosts(
+    hostManager: HostManager,
+    knownHosts: KnownHostsManager,
+    projectPolicy: HostKeyPolicy | undefined,
+    flags: any
+  ): Promise<void> {
+    const hosts = this.filterHosts(await hostManager.getHosts(), flags);
 
-        results.push({
-          name: host.name,
-          success: result.success,
-          duration,
-          message: result.success ? undefined : result.message,
-        });
+    // Keep stdout for the report, the live results go to stderr
+    const restoreStdout = flags.format === 'table' ? undefined : redirectStdoutToStderr();
+    const startTime = new Date();
+    let results: HostTestResult[] = [];
 
-        const status = result.success ? chalk.green('✓') : chalk.red('✗');
-        const userInfo = host.user ? `${host.user}@` : '';
-        const portInfo = host.port !== 22 ? `:${host.port}` : '';
+    try {
+      if (hosts.length === 0) {
+        OCLIFFormatter.info(
+          flags.source || flags.filter || flags.select
+            ? 'No hosts match the specified filters.'
+            : 'No hosts configured. Use "aship host add" to add a host.'
+        );
+      } else {
+        OCLIFFormatter.info(
+          `Testing connection to ${hosts.length} host(s), ${Math.min(flags.concurrency, hosts.length)} at a time...`
+        );
+        console.log();
+      }
+
+      const nameWidth = Math.max(0, ...hosts.map(host => host.name.length));
 
+      // Results are shown as soon as a host is done, the reports keep the host order
+      results = await mapWithConcurrency(hosts, flags.concurrency, async host => {
+        const result = await this.testHostResult(
+          host,
+          hostManager,
+          knownHosts,
+          projectPolicy,
+          flags.timeout
+        );
+
+        const status = result.success ? chalk.green('✓') : chalk.red('✗');
+        const issue = result.diagnosis ? chalk.yellow(` [${result.diagnosis.issue}]`) : '';
         console.log(
-          `${status} ${host.name} (${userInfo}${host.hostname}${portInfo}) - ${duration}ms`
+          `${status} ${result.name.padEnd(nameWidth)}  ${chalk.gray(result.address)} - ${result.duration}ms${issue}`
         );
 
-        if (!result.success && flags.verbose) {
+        if (!result.success && (flags.verbose || result.hostKeyMismatch)) {
           console.log(chalk.gray(`  Error: ${result.message}`));
+          if (result.diagnosis) {
+            console.log(chalk.gray(`  Diagnosis: ${result.diagnosis.message}`));
+          }
         }
 
-        // Update usage statistics for successful connections
-        if (result.success && flags['update-usage']) {
-          await hostManager.updateUsage(host.name);
+        const { hostKeyMismatch: _hostKeyMismatch, ...report } = result;
+        return report;
+      });
+
+      // Update usage statistics for successful connections, one at a time
+      if (flags['update-usage']) {
+        for (const result of results.filter(r => r.success)) {
+          await hostManager.updateUsage(result.name);
         }
-      } catch (error) {
-        const duration = Date.now() - startTime;
-        const errorMessage = error instanceof Error ? error.message : String(error);
+      }
 
-        results.push({
-          name: host.name,
-          success: false,
-          duration,
-          message: errorMessage,
-        });
+      const duration = Date.now() - startTime.getTime();
+      if (flags.format === 'json') {
+        writeJsonResult(createJsonReport(results, duration));
+      } else if (flags.format === 'junit') {
+        writeResult(createJUnitReport(results, duration, startTime));
+      }
 
-        console.log(`${chalk.red('✗')} ${host.name} - ${duration}ms`);
-        if (flags.verbose) {
-          console.log(chalk.gray(`  Error: ${errorMessage}`));
-        }
+      // Summary
+      if (results.length > 0) {
+        console.log();
+        this.displaySummary(results);
       }
+    } finally {
+      restoreStdout?.();
+    }
+
+    // CI and monitoring treat any unreachable host as a failed check
+    if (getExitCode(results) !== 0) {
+      this.exit(1);
     }
+  }
 
-    // Summary
-    console.log();
+  /**
+   * Display the summary of a --all run
+   */
+  private displaySummary(results: HostTestResult[]): void {
     const successful = results.filter(r => r.success).length;
     const failed = results.length - successful;
 
@@ -254,7 +459,6 @@ export default class HostTest extends Command {
       OCLIFFormatter.info(`${successful} host(s) connected successfully, ${failed} failed.`);
     } else {
       OCLIFFormatter.error(`All ${failed} host(s) failed to connect.`);
-      this.exit(1);
     }
   }
 }
@@ -0,0 +1,434 @@
+import * as path from 'node:path';
+import {
+  DirectoryManager,
+  type ExecutionResult,
+  HostManager,
+  InventoryGenerator,
+  MASKED_VALUE,
+  PlaybookRunner,
+  type ProjectConfig,
+  type RunDescriptor,
+  RunHistory,
+  type RunRecord,
+  type VariableDefinition,
+  type VaultAccess,
+  checkAndUpdateAnsibleParameters,
+  logger,
+} from '@aship/core';
+import { Args, Command, Flags } from '@oclif/core';
+import chalk from 'chalk';
+import inquirer from 'inquirer';
+import { OCLIFFormatter } from '../utils/oclif-formatter.js';
+
+// Import shared utilities
+import {
+  createOutputEvents,
+  finishRunRecording,
+  startRunRecording,
+} from '../shared/run-recording.js';
+import { loadConfiguration } from '../shared/server-connection-manager.js';
+import { collectVariablesFromDefinitions, parseExtraVars } from '../shared/variable-collector.js';
+import { readVaultVariables } from '../shared/vault.js';
+
+export default class Rerun extends Command {
+  static override args = {
+    id: Args.string({
+      description: 'Run id, unique id prefix, or "last"',
+      default: 'last',
+    }),
+  };
+
+  static override description =
+    'Re-run a previous playbook run with the same playbook, hosts, tags and variables';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> last',
+    '<%= config.bin %> <%= command.id %> 20250603-142501',
+    '<%= config.bin %> <%= command.id %> last -e "db_password=secret" -y',
+    '<%= config.bin %> <%= command.id %> last --dry-run',
+  ];
+
+  static override flags = {
+    'extra-vars': Flags.string({
+      char: 'e',
+      description: 'Override variables or provide secrets (key=value,key2=value2)',
+    }),
+    yes: Flags.boolean({
+      char: 'y',
+      description: 'Skip the confirmation prompt',
+      default: false,
+    }),
+    'dry-run': Flags.boolean({
+      description: 'Show what would be re-run without executing it',
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(Rerun);
+
+    try {
+      const directoryManager = new DirectoryManager();
+      await directoryManager.initialize();
+
+      // Check and update Ansible parameters
+      await checkAndUpdateAnsibleParameters();
+
+      await this.rerunAction(args.id, flags, directoryManager);
+    } catch (error) {
+      // Check if this is a user interruption (Ctrl+C)
+      if (
+        error instanceof Error &&
+        (error.message.includes('User force closed') ||
+          error.message.includes('SIGINT') ||
+          error.message.includes('canceled') ||
+          error.message.includes('cancelled'))
+      ) {
+        OCLIFFormatter.warning('Operation cancelled by user');
+        this.exit(0);
+      } else {
+        OCLIFFormatter.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        this.exit(1);
+      }
+    }
+  }
+
+  private async rerunAction(
+    id: string,
+    flags: any,
+    directoryManager: DirectoryManager
+  ): Promise<void> {
+    const history = new RunHistory(directoryManager);
+    const record = await history.getRun(id);
+
+    if (!record) {
+      throw new Error(`Run "${id}" not found. Use "aship history" to list recorded runs.`);
+    }
+    if (record.command !== 'run') {
+      throw new Error(
+        `Run ${record.id} is an "aship ${record.command}" invocation and cannot be re-run`
+      );
+    }
+    if (!record.descriptor) {
+      throw new Error(
+        `Run ${record.id} cannot be re-run: it targeted hosts that are not saved aship hosts or was recorded without a replay descriptor`
+      );
+    }
+
+    const descriptor = record.descriptor;
+
+    // Make sure all recorded aship hosts still exist
+    const hostManager = new HostManager(directoryManager);
+    for (const hostName of descriptor.hosts || []) {
+      if (!(await hostManager.getHost(hostName))) {
+        throw new Error(`Host '${hostName}' from run ${record.id} no longer exists`);
+      }
+    }
+
+    // Use the current project configuration for prompts and the host key policy
+    const config = await this.loadProjectConfig(record.project_dir);
+
+    // Provide secrets again (they are never stored), except for a dry run
+    const extraVars = parseExtraVars(flags['extra-vars']);
+    const secrets = flags['dry-run']
+      ? { values: {} }
+      : await this.collectSecrets(descriptor, record.project_dir, extraVars, flags, config);
+    const variables = { ...descriptor.vars, ...secrets.values, ...extraVars };
+    const ansibleArgs = [
+      ...this.getVaultArgs(descriptor, secrets.vault),
+      ...descriptor.ansible_args,
+    ];
+
+    this.displayReplayPreview(
+      record,
+      descriptor,
+      variables,
+      secrets.vault
+        ? [
+            '--extra-vars',
+            `@${path.relative(record.project_dir, secrets.vault.access.file)}`,
+            ...ansibleArgs,
+          ]
+        : ansibleArgs,
+      flags
+    );
+
+    if (flags['dry-run']) {
+      return;
+    }
+
+    if (!flags.yes) {
+      const { confirmed } = await inquirer.prompt([
+        {
+          type: 'confirm',
+          name: 'confirmed',
+          message: `Re-run ${descriptor.playbook}?`,
+          default: true,
+        },
+      ]);
+      if (!confirmed) {
+        OCLIFFormatter.warning('Operation cancelled by user');
+        return;
+      }
+    }
+
+    // Record start time
+    const startTime = Date.now();
+
+    // Start recording run history
+    const recorder = await startRunRecording(directoryManager, {
+      command: 'run',
+      project_dir: record.project_dir,
+      playbook: descriptor.playbook,
+      hosts: descriptor.hosts || [],
+      tags: record.tags,
+      vars: { ...record.vars, ...this.maskOverrides(extraVars, descriptor) },
+      descriptor: {
+        ...descriptor,
+        vars: { ...descriptor.vars, ...this.withoutSecrets(extraVars, descriptor) },
+      },
+    });
+
+    const runner = new PlaybookRunner(
+      hostManager,
+      new InventoryGenerator(hostManager),
+      directoryManager
+    );
+
+    // A failed playbook is reported in the result
+    let result: ExecutionResult;
+    try {
+      result = await runner.run(descriptor.playbook, {
+        hosts: descriptor.hosts,
+        inventory: descriptor.inventory,
+        limit: descriptor.limit,
+        inventoryMode: descriptor.inventory_mode,
+        hostKeyPolicy: config?.host_key_policy,
+        ansibleConfig: config?.ansible,
+        tags: descriptor.tags,
+        skipTags: descriptor.skip_tags,
+        vars: this.withoutVaultVariables(variables, secrets.vault),
+        varsFiles: secrets.vault ? [secrets.vault.access.file] : undefined,
+        ansibleArgs,
+        cwd: record.project_dir,
+        env: secrets.vault?.access.env,
+        events: createOutputEvents(recorder),
+      });
+    } catch (error) {
+      result = {
+        success: false,
+        exitCode: 1,
+        stderr: error instanceof Error ? error.message : String(error),
+      };
+    }
+
+    await finishRunRecording(recorder, result.success ? 0 : result.exitCode || 1);
+    OCLIFFormatter.completionReport(
+      result.success,
+      descriptor.hosts || [],
+      descriptor.playbook,
+      Date.now() - startTime,
+      result.success ? undefined : result.exitCode,
+      result.success ? undefined : result.stderr,
+      descriptor.environment,
+      result.hosts
+    );
+    if (!result.success) {
+      this.exit(1);
+    }
+  }
+
+  /**
+   * Provide the secret variables that were not given via --extra-vars
+   * Secrets stored in the project vault are read from it like "aship run" does,
+   * the others are prompted for
+   * @returns Secret values and the vault access for Ansible if the vault is used
+   */
+  private async collectSecrets(
+    descriptor: RunDescriptor,
+    projectDir: string,
+    extraVars: Record<string, any>,
+    flags: any,
+    config?: ProjectConfig
+  ): Promise<{
+    values: Record<string, any>;
+    vault?: { access: VaultAccess; variables: string[] };
+  }> {
+    let missing = descriptor.secret_vars.filter(name => !(name in extraVars));
+    if (missing.length === 0) {
+      return { values: {} };
+    }
+
+    const vault =
+      config &&
+      (await readVaultVariables(config, projectDir, missing, {
+        passwordFile: this.getVaultPasswordFile(descriptor),
+        yes: flags.yes,
+      }));
+    const vaultValues = vault?.values || {};
+    const vaultResult = vault && { access: vault.access, variables: Object.keys(vaultValues) };
+    missing = missing.filter(name => vaultValues[name] === undefined);
+    if (missing.length === 0) {
+      return { values: vaultValues, vault: vaultResult };
+    }
+
+    if (flags.yes) {
+      throw new Error(
+        `Secret variable(s) must be provided with --extra-vars in non-interactive mode: ${missing.join(', ')}`
+      );
+    }
+
+    const definitions = config?.vars || {};
+    const secretDefinitions: Record<string, VariableDefinition> = {};
+    for (const name of missing) {
+      secretDefinitions[name] = {
+        ...(definitions[name] || {}),
+        type: 'password',
+        required: true,
+        // The recorded run already decided which secrets were relevant
+        when: undefined,
+        depends_on: undefined,
+      };
+    }
+
+    const prompted = await collectVariablesFromDefinitions(secretDefinitions);
+    return { values: { ...vaultValues, ...prompted }, vault: vaultResult };
+  }
+
+  /**
+   * Get the vault password file recorded with the Ansible arguments of the run
+   */
+  private getVaultPasswordFile(descriptor: RunDescriptor): string | undefined {
+    const index = descriptor.ansible_args.indexOf('--vault-password-file');
+    return index >= 0 ? descriptor.ansible_args[index + 1] : undefined;
+  }
+
+  /**
+   * Get the vault password arguments for ansible-playbook
+   * A recorded --vault-password-file is already passed through
+   */
+  private getVaultArgs(descriptor: RunDescriptor, vault?: { access: VaultAccess }): string[] {
+    if (
+      !vault ||
+      (this.getVaultPasswordFile(descriptor) && vault.access.args[0] !== '--vault-id')
+    ) {
+      return [];
+    }
+    return vault.access.args;
+  }
+
+  /**
+   * Remove the variables taken from the vault, Ansible reads them from the encrypted file
+   */
+  private withoutVaultVariables(
+    variables: Record<string, any>,
+    vault?: { variables: string[] }
+  ): Record<string, any> {
+    if (!vault) {
+      return variables;
+    }
+    return Object.fromEntries(
+      Object.entries(variables).filter(([name]) => !vault.variables.includes(name))
+    );
+  }
+
+  /**
+   * Load the configuration of the recorded project, if it still exists
+   */
+  private async loadProjectConfig(projectDir: string): Promise<ProjectConfig | undefined> {
+    try {
+      return await loadConfiguration(projectDir);
+    } catch (error) {
+      logger.verbose(
+        `Could not load project configuration: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return undefined;
+    }
+  }
+
+  /**
+   * Extra var overrides as they are stored in the run history
+   */
+  private maskOverrides(
+    extraVars: Record<string, any>,
+    descriptor: RunDescriptor
+  ): Record<string, any> {
+    const masked: Record<string, any> = {};
+    for (const [name, value] of Object.entries(extraVars)) {
+      masked[name] = descriptor.secret_vars.includes(name) ? MASKED_VALUE : value;
+    }
+    return masked;
+  }
+
+  /**
+   * Extra var overrides without secret values
+   */
+  private withoutSecrets(
+    extraVars: Record<string, any>,
+    descriptor: RunDescriptor
+  ): Record<string, any> {
+    return Object.fromEntries(
+      Object.entries(extraVars).filter(([name]) => !descriptor.secret_vars.includes(name))
+    );
+  }
+
+  /**
+   * Display what is going to be re-run
+   */
+  private displayReplayPreview(
+    record: RunRecord,
+    descriptor: RunDescriptor,
+    variables: Record<string, any>,
+    ansibleArgs: string[],
+    flags: any
+  ): void {
+    OCLIFFormatter.section(`Re-running ${record.id}`);
+
+    const items = [
+      { label: 'Project', value: record.project_dir },
+      { label: 'Playbook', value: descriptor.playbook },
+      ...(descriptor.environment ? [{ label: 'Environment', value: descriptor.environment }] : []),
+      ...(descriptor.hosts?.length ? [{ label: 'Hosts', value: descriptor.hosts.join(', ') }] : []),
+      ...(descriptor.inventory ? [{ label: 'Inventory', value: descriptor.inventory }] : []),
+      ...(descriptor.inventory && descriptor.hosts?.length && descriptor.inventory_mode
+        ? [{ label: 'Inventory mode', value: descriptor.inventory_mode }]
+        : []),
+      ...(descriptor.limit ? [{ label: 'Limit', value: descriptor.limit }] : []),
+      ...(descriptor.tags.length > 0 ? [{ label: 'Tags', value: descriptor.tags.join(', ') }] : []),
+      ...(descriptor.skip_tags.length > 0
+        ? [{ label: 'Skip tags', value: descriptor.skip_tags.join(', ') }]
+        : []),
+    ];
+    OCLIFFormatter.table(items);
+
+    if (Object.keys(variables).length > 0) {
+      console.log();
+      console.log(chalk.cyan.bold('Variables'));
+      OCLIFFormatter.table(
+        Object.entries(variables).map(([name, value]) => ({
+          label: name,
+          value: descriptor.secret_vars.includes(name) ? MASKED_VALUE : JSON.stringify(value),
+        }))
+      );
+    }
+
+    // Build command preview
+    const commandParts = ['ansible-playbook', '-i', '<generated-inventory>'];
+    if (Object.keys(variables).length > 0) {
+      commandParts.push('--extra-vars', '<variables>');
+    }
+    if (descriptor.tags.length > 0) {
+      commandParts.push('--tags', descriptor.tags.join(','));
+    }
+    if (descriptor.skip_tags.length > 0) {
+      commandParts.push('--skip-tags', descriptor.skip_tags.join(','));
+    }
+    if (descriptor.limit) {
+      commandParts.push('--limit', descriptor.limit);
+    }
+    commandParts.push(...ansibleArgs, descriptor.playbook);
+
+    OCLIFFormatter.command(commandParts, { dryRun: flags['dry-run'] });
+  }
+}
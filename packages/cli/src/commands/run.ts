@@ -1,20 +1,42 @@
+import * as path from 'node:path';
+import { isDeepStrictEqual } from 'node:util';
 import {
   AnsibleExecutor,
   DirectoryManager,
+  type EnvironmentConfig,
+  type ExecutionResult,
   type FileTypeConfig,
   HostManager,
   InventoryGenerator,
   LogLevel,
+  type PlaybookDefinition,
   PlaybookRunner,
+  PlaybookTagCache,
   type ProjectConfig,
+  type RunDescriptor,
+  VariableStore,
+  type VaultAccess,
+  applyPlaybookScope,
   checkAndUpdateAnsibleParameters,
   extractAnsibleOptions,
+  findUnknownTags,
+  formatEnvAssignments,
+  getAnsibleConfigEnv,
+  loadVariablesFiles,
   logger,
+  maskVariables,
+  normalizePlaybookEntry,
+  resolveAnsiblePaths,
   resolveFilePath,
+  resolveTagSelection,
+  resolveVariableDefaults,
+  splitSecretVariables,
+  validateVariableValues,
 } from '@aship/core';
-import { Args, Command, Flags } from '@oclif/core';
+import { Args, Command, Errors, Flags } from '@oclif/core';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
+import { redirectStdoutToStderr, writeJsonResult } from '../utils/json-output.js';
 import { OCLIFFormatter } from '../utils/oclif-formatter.js';
 
 // Import shared utilities
@@ -23,6 +45,12 @@ import {
   autoSelectPlaybook,
   parsePlaybookInput,
 } from '../shared/playbook-resolver.js';
+import {
+  createOutputEvents,
+  createProgressOutputEvents,
+  finishRunRecording,
+  startRunRecording,
+} from '../shared/run-recording.js';
 import {
   determineConnectionMode,
   loadConfiguration,
@@ -30,6 +58,7 @@ import {
 } from '../shared/server-connection-manager.js';
 import { collectTagsFromConfig, shouldCollectTags } from '../shared/tags-collector.js';
 import { collectVariablesFromConfig, parseExtraVars } from '../shared/variable-collector.js';
+import { readVaultVariables } from '../shared/vault.js';
 import {
   extractAnsibleArgsFromOptions,
   loadCommonAnsibleParams,
@@ -39,6 +68,14 @@ import {
 chalk.level = 3;
 process.env.FORCE_COLOR = '1';
 
+/**
+ * Environment selected from aship.yml
+ */
+interface SelectedEnvironment {
+  name: string;
+  config: EnvironmentConfig;
+}
+
 /**
  * Playbook file type configuration (fallback for old format)
  */
@@ -65,8 +102,14 @@ export default class Run extends Command {
     '<%= config.bin %> <%= command.id %> setup -S',
     '<%= config.bin %> <%= command.id %> setup -y',
     '<%= config.bin %> <%= command.id %> deploy -e "env=prod,port=8080"',
+    '<%= config.bin %> <%= command.id %> deploy -y --vars-file answers.yml --vars-file prod.yml',
+    '<%= config.bin %> <%= command.id %> deploy --env prod',
+    '<%= config.bin %> <%= command.id %> deploy --env prod -y --output json',
+    '<%= config.bin %> <%= command.id %> deploy -H @web --compact',
     '<%= config.bin %> <%= command.id %> setup --tags common --check',
     '<%= config.bin %> <%= command.id %> deploy -H web-prod-1,db-server',
+    '<%= config.bin %> <%= command.id %> deploy -H @web',
+    '<%= config.bin %> <%= command.id %> deploy -H env=prod',
     '<%= config.bin %> <%= command.id %> deploy -i custom.yml',
     '<%= config.bin %> <%= command.id %> deploy -H web-prod-1 -i base.yml',
   ];
@@ -99,10 +142,16 @@ export default class Run extends Command {
       default: false,
     }),
 
+    // Environment options
+    env: Flags.string({
+      description: 'Environment from aship.yml (hosts, inventory, variables and tags)',
+    }),
+
     // Aship host options
     hosts: Flags.string({
       char: 'H',
-      description: 'Use aship hosts (comma-separated host names)',
+      description:
+        'Use aship hosts (comma-separated host names, @group names or key=value label selectors)',
     }),
     inventory: Flags.string({
       char: 'i',
@@ -110,8 +159,7 @@ export default class Run extends Command {
     }),
     'inventory-mode': Flags.string({
       char: 'm',
-      description: 'How to handle mixed inventory (replace|inject|merge)',
-      default: 'inject',
+      description: 'How to handle mixed inventory (replace|inject|merge) [default: inject]',
       options: ['replace', 'inject', 'merge'],
     }),
     'dry-run': Flags.boolean({
@@ -154,12 +202,26 @@ export default class Run extends Command {
       description: 'Show timestamps in log output',
       default: false,
     }),
+    compact: Flags.boolean({
+      description:
+        'Show a live progress line instead of the Ansible output (still recorded in the run history)',
+      default: false,
+    }),
+    output: Flags.string({
+      description: 'Output format of the run result, json writes only the result to stdout',
+      options: ['text', 'json'],
+      default: 'text',
+    }),
 
     // Variable options
     'extra-vars': Flags.string({
       char: 'e',
       description: 'Extra variables (key=value,key2=value2)',
     }),
+    'vars-file': Flags.string({
+      description: 'Load variable values from a YAML or JSON file (later files take precedence)',
+      multiple: true,
+    }),
 
     // Ansible options (common ones)
     tags: Flags.string({
@@ -226,6 +288,9 @@ export default class Run extends Command {
   public async run(): Promise<void> {
     const { args, flags } = await this.parse(Run);
 
+    // Keep stdout for the JSON result
+    const restoreStdout = flags.output === 'json' ? redirectStdoutToStderr() : undefined;
+
     try {
       // Initialize configuration directory using DirectoryManager
       const directoryManager = new DirectoryManager();
@@ -240,6 +305,11 @@ export default class Run extends Command {
       // Execute the run action
       await this.runAction(args.playbook, flags);
     } catch (error) {
+      // The run already reported its result
+      if (error instanceof Errors.ExitError) {
+        throw error;
+      }
+
       // Check if this is a user interruption (Ctrl+C)
       if (
         error instanceof Error &&
@@ -251,9 +321,15 @@ export default class Run extends Command {
         OCLIFFormatter.warning('Operation cancelled by user');
         this.exit(0);
       } else {
-        OCLIFFormatter.error(`Error: ${error instanceof Error ? error.message : String(error)}`);
+        const message = error instanceof Error ? error.message : String(error);
+        OCLIFFormatter.error(`Error: ${message}`);
+        if (flags.output === 'json') {
+          writeJsonResult({ success: false, error: message });
+        }
         this.exit(1);
       }
+    } finally {
+      restoreStdout?.();
     }
   }
 
@@ -287,21 +363,15 @@ export default class Run extends Command {
     const hostManager = new HostManager(directoryManager);
     const inventoryGenerator = new InventoryGenerator(hostManager);
 
-    // Check if using enhanced mode (aship hosts or custom inventory)
-    const useEnhancedMode = flags.hosts || flags.inventory || flags.limit;
-
-    // Validate aship hosts if specified
-    if (flags.hosts) {
-      const hostNames = flags.hosts.split(',').map((h: string) => h.trim());
-      await this.validateAshipHosts(hostNames, hostManager);
-    }
-
     // Determine the playbook to use
     let resolvedPlaybookPath: string | undefined;
+    let playbook: PlaybookDefinition | undefined;
     try {
       // First try to resolve using new config format
       if (config.playbooks && Object.keys(config.playbooks).length > 0) {
-        resolvedPlaybookPath = await this.resolvePlaybookPath(playbookPath, config);
+        const resolved = await this.resolvePlaybookPath(playbookPath, config);
+        resolvedPlaybookPath = resolved.path;
+        playbook = resolved.playbook;
       } else {
         // Fall back to old file resolution method
         resolvedPlaybookPath = await resolveFilePath(
@@ -332,16 +402,32 @@ export default class Run extends Command {
       this.exit(1);
     }
 
+    // Playbook entries limit the prompted variables and tags and can set default hosts
+    const runConfig = playbook ? applyPlaybookScope(config, playbook) : config;
+    const environment = await this.resolveEnvironment(config, flags);
+    const runFlags = this.applyRunDefaults(flags, playbook, environment);
+
+    // Check if using enhanced mode (aship hosts or custom inventory)
+    const useEnhancedMode = runFlags.hosts || runFlags.inventory || runFlags.limit;
+
+    // Resolve aship host selectors (names, @group, key=value) to host names
+    const hosts = runFlags.hosts
+      ? await hostManager.resolveHostSelectors(runFlags.hosts.split(','))
+      : undefined;
+
     // Use enhanced mode if aship hosts or inventory options are specified
     if (useEnhancedMode) {
       if (!resolvedPlaybookPath) {
         throw new Error('Playbook path could not be resolved');
       }
-      await this.runWithEnhancedMode(resolvedPlaybookPath, flags, config, {
+      await this.runWithEnhancedMode(resolvedPlaybookPath, runFlags, runConfig, {
         hostManager,
         inventoryGenerator,
         directoryManager,
         currentDir,
+        hosts,
+        playbook,
+        environment,
       });
       return;
     }
@@ -350,30 +436,35 @@ export default class Run extends Command {
     if (!resolvedPlaybookPath) {
       throw new Error('Playbook path could not be resolved');
     }
-    await this.runWithTraditionalMode(resolvedPlaybookPath, flags, config, {
+    await this.runWithTraditionalMode(resolvedPlaybookPath, runFlags, runConfig, {
       hostManager,
       inventoryGenerator,
+      directoryManager,
       currentDir,
+      playbook,
+      environment,
     });
   }
 
   /**
    * Resolve playbook path using new unified logic
+   * @returns Playbook path and the playbook entry when selected from aship.yml
    */
   private async resolvePlaybookPath(
     playbookName: string | undefined,
     config: ProjectConfig
-  ): Promise<string> {
+  ): Promise<{ path: string; playbook?: PlaybookDefinition }> {
     // If no playbook name provided, try auto-selection
     if (!playbookName) {
       const autoSelected = autoSelectPlaybook(config);
       if (autoSelected) {
         // Auto-select single playbook
-        const playbookPath = config.playbooks?.[autoSelected];
-        if (!playbookPath) {
+        const entry = config.playbooks?.[autoSelected];
+        if (!entry) {
           throw new Error(`Playbook '${autoSelected}' not found in configuration`);
         }
-        return playbookPath;
+        const playbook = normalizePlaybookEntry(entry);
+        return { path: playbook.path, playbook };
       }
       const playbooks = config.playbooks || {};
       const playbookNames = Object.keys(playbooks);
@@ -385,33 +476,142 @@ export default class Run extends Command {
             type: 'list',
             name: 'selected',
             message: 'Select a playbook:',
-            choices: playbookNames,
+            choices: playbookNames.map(name => {
+              const { description } = normalizePlaybookEntry(playbooks[name]);
+              return {
+                name: description ? `${name} ${chalk.gray(`- ${description}`)}` : name,
+                value: name,
+              };
+            }),
           },
         ]);
-        return playbooks[selected];
+        const playbook = normalizePlaybookEntry(playbooks[selected]);
+        return { path: playbook.path, playbook };
       }
       throw new Error('No playbooks defined in configuration');
     }
 
     // Parse the input using new resolver
     const parsed = parsePlaybookInput(playbookName, config);
-    return parsed.resolvedPath;
+    return { path: parsed.resolvedPath, playbook: parsed.playbook };
   }
 
   /**
-   * Validate aship hosts exist
+   * Resolve the environment selected with --env, or ask for one when aship.yml defines
+   * environments and prompts are allowed
    */
-  private async validateAshipHosts(hostNames: string[], hostManager: HostManager): Promise<void> {
-    const allHosts = await hostManager.getHosts();
-    const availableHostNames = allHosts.map(h => h.name);
-
-    for (const hostName of hostNames) {
-      if (!availableHostNames.includes(hostName)) {
-        throw new Error(
-          `Host '${hostName}' not found in aship configuration. Available hosts: ${availableHostNames.join(', ')}`
-        );
+  private async resolveEnvironment(
+    config: ProjectConfig,
+    flags: any
+  ): Promise<SelectedEnvironment | undefined> {
+    const environments = config.environments || {};
+    const names = Object.keys(environments);
+
+    if (flags.env) {
+      if (!environments[flags.env]) {
+        const available = names.length > 0 ? ` (available: ${names.join(', ')})` : '';
+        throw new Error(`Environment '${flags.env}' not found in aship.yml${available}`);
+      }
+      return { name: flags.env, config: environments[flags.env] };
+    }
+
+    if (names.length === 0 || flags.yes) {
+      return undefined;
+    }
+
+    const { selected } = await inquirer.prompt([
+      {
+        type: 'list',
+        name: 'selected',
+        message: 'Select an environment:',
+        choices: [
+          ...names.map(name => ({
+            name: environments[name].description
+              ? `${name} ${chalk.gray(`- ${environments[name].description}`)}`
+              : name,
+            value: name,
+          })),
+          { name: 'None (use command line options only)', value: null },
+        ],
+      },
+    ]);
+
+    return selected ? { name: selected, config: environments[selected] } : undefined;
+  }
+
+  /**
+   * Apply default hosts and inventory of the environment and playbook
+   * Command line options take precedence over the environment, which takes precedence
+   * over the playbook
+   */
+  private applyRunDefaults(
+    flags: any,
+    playbook: PlaybookDefinition | undefined,
+    environment: SelectedEnvironment | undefined
+  ): any {
+    const runFlags = { ...flags };
+    const envConfig = environment?.config;
+
+    if (!flags.inventory && envConfig?.inventory) {
+      runFlags.inventory = envConfig.inventory;
+      runFlags['inventory-mode'] = flags['inventory-mode'] || envConfig.inventory_mode;
+    }
+    // The flag has no default, so that an explicit --inventory-mode wins over the environment
+    runFlags['inventory-mode'] ||= 'inject';
+
+    if (!flags.hosts) {
+      if (envConfig?.hosts) {
+        runFlags.hosts = Array.isArray(envConfig.hosts)
+          ? envConfig.hosts.join(',')
+          : envConfig.hosts;
+      } else if (playbook?.hosts) {
+        runFlags.hosts = playbook.hosts.join(',');
       }
     }
+
+    if (environment) {
+      OCLIFFormatter.info(`Environment: ${environment.name}`);
+    }
+    if (runFlags.hosts !== flags.hosts) {
+      OCLIFFormatter.info(`Using default hosts: ${runFlags.hosts}`);
+    }
+    if (runFlags.inventory !== flags.inventory) {
+      OCLIFFormatter.info(`Using inventory of the environment: ${runFlags.inventory}`);
+    }
+
+    return runFlags;
+  }
+
+  /**
+   * Ask for confirmation before running a playbook that requires it
+   * Skipped with --yes
+   * @returns Whether to run the playbook
+   */
+  private async confirmPlaybookRun(
+    playbookPath: string,
+    playbook: PlaybookDefinition | undefined,
+    flags: any
+  ): Promise<boolean> {
+    if (!playbook?.confirm || flags.yes) {
+      return true;
+    }
+
+    const { proceed } = await inquirer.prompt([
+      {
+        type: 'confirm',
+        name: 'proceed',
+        message:
+          typeof playbook.confirm === 'string'
+            ? playbook.confirm
+            : `Run ${path.basename(playbookPath)} now?`,
+        default: false,
+      },
+    ]);
+
+    if (!proceed) {
+      OCLIFFormatter.warning('Playbook run cancelled');
+    }
+    return proceed;
   }
 
   /**
@@ -426,79 +626,128 @@ export default class Run extends Command {
       inventoryGenerator: InventoryGenerator;
       directoryManager: DirectoryManager;
       currentDir: string;
+      hosts?: string[];
+      playbook?: PlaybookDefinition;
+      environment?: SelectedEnvironment;
     }
   ): Promise<void> {
-    const { hostManager, inventoryGenerator, directoryManager, currentDir } = context;
-
-    // Parse hosts if specified
-    const hosts = flags.hosts ? flags.hosts.split(',').map((h: string) => h.trim()) : undefined;
+    const {
+      hostManager,
+      inventoryGenerator,
+      directoryManager,
+      currentDir,
+      hosts,
+      playbook,
+      environment,
+    } = context;
 
     // Collect variables and tags
-    const { variables, selectedTags } = await this.collectVariablesAndTags(config, flags);
+    const { variables, selectedTags, skippedTags, vault } = await this.collectVariablesAndTags(
+      config,
+      flags,
+      {
+        playbookPath,
+        currentDir,
+        directoryManager,
+        environment,
+        playbook,
+      }
+    );
 
     // Extract Ansible arguments
-    const ansibleArgs = this.extractAllAnsibleArgs(flags, selectedTags);
+    const ansibleArgs = [
+      ...this.extractAllAnsibleArgs(flags, selectedTags, skippedTags),
+      ...this.getVaultArgs(flags, vault),
+    ];
+    const extraVars = this.withoutVaultVariables(variables, vault);
 
     // Display command preview for enhanced mode
-    this.displayEnhancedCommandPreview(playbookPath, ansibleArgs, variables, hosts, flags);
+    this.displayEnhancedCommandPreview(
+      playbookPath,
+      this.withVaultFileArgs(ansibleArgs, currentDir, vault),
+      extraVars,
+      hosts,
+      getAnsibleConfigEnv(config.ansible, currentDir),
+      flags
+    );
 
     // Check for dry-run mode (message already shown in command display)
     if (flags['dry-run']) {
       return;
     }
 
+    if (!(await this.confirmPlaybookRun(playbookPath, playbook, flags))) {
+      return;
+    }
+
     // Record start time
     const startTime = Date.now();
 
+    // Start recording run history
+    const recorder = await startRunRecording(directoryManager, {
+      command: 'run',
+      project_dir: currentDir,
+      playbook: playbookPath,
+      hosts: hosts || [],
+      tags: this.collectRecordedTags(flags, selectedTags),
+      vars: maskVariables(variables, config.vars),
+      descriptor: this.createRunDescriptor(playbookPath, flags, config, {
+        currentDir,
+        hosts,
+        selectedTags,
+        skippedTags,
+        variables,
+        environment: environment?.name,
+      }),
+    });
+
     // Create PlaybookRunner
     const runner = new PlaybookRunner(hostManager, inventoryGenerator, directoryManager);
+    const progress = flags.compact
+      ? createProgressOutputEvents(recorder, `Running ${path.basename(playbookPath)}`)
+      : undefined;
 
+    // Execute playbook with enhanced options, a failed playbook is reported in the result
+    let executionResult: ExecutionResult;
     try {
-      // Execute playbook with enhanced options
-      await runner.run(playbookPath, {
+      executionResult = await runner.run(playbookPath, {
         hosts,
         inventory: flags.inventory,
         limit: flags.limit,
         inventoryMode: flags['inventory-mode'],
-        vars: variables,
+        hostKeyPolicy: config.host_key_policy,
+        ansibleConfig: config.ansible,
+        vars: extraVars,
+        varsFiles: vault ? [vault.access.file] : undefined,
         ansibleArgs,
         cwd: currentDir,
-        events: {
-          onStdout: (data: string) => process.stdout.write(data),
-          onStderr: (data: string) => process.stderr.write(data),
-        },
+        env: vault?.access.env,
+        events: progress?.events ?? createOutputEvents(recorder),
       });
-
-      // Calculate execution time
-      const executionTime = Date.now() - startTime;
-
-      // Display detailed completion report for success
-      this.displayCompletionReport(
-        true,
-        hosts || [],
-        playbookPath,
-        undefined,
-        undefined,
-        executionTime
-      );
     } catch (error) {
-      // Calculate execution time
-      const executionTime = Date.now() - startTime;
-
-      // Extract exit code from error message if possible
-      let exitCode: number | undefined;
-      let stderr: string | undefined;
+      // The inventory or the hosts could not be prepared
+      executionResult = {
+        success: false,
+        exitCode: 1,
+        stderr: error instanceof Error ? error.message : String(error),
+      };
+    }
+    progress?.stop(executionResult.success);
 
-      if (error instanceof Error) {
-        const match = error.message.match(/exit code (\d+)/);
-        if (match) {
-          exitCode = Number.parseInt(match[1], 10);
-        }
-        stderr = error.message;
-      }
+    // Calculate execution time
+    const executionTime = Date.now() - startTime;
+    const runId = await finishRunRecording(
+      recorder,
+      executionResult.success ? 0 : executionResult.exitCode || 1
+    );
 
-      // Display detailed completion report for failure
-      this.displayCompletionReport(false, hosts, playbookPath, exitCode, stderr, executionTime);
+    // Display detailed completion report
+    this.reportRunResult(flags, hosts || [], playbookPath, executionResult, {
+      executionTime,
+      environment: environment?.name,
+      runId,
+    });
+    if (!executionResult.success) {
       this.exit(1);
     }
   }
@@ -513,10 +762,13 @@ export default class Run extends Command {
     context: {
       hostManager: HostManager;
       inventoryGenerator: InventoryGenerator;
+      directoryManager: DirectoryManager;
       currentDir: string;
+      playbook?: PlaybookDefinition;
+      environment?: SelectedEnvironment;
     }
   ): Promise<void> {
-    const { currentDir } = context;
+    const { currentDir, directoryManager, hostManager, playbook, environment } = context;
 
     // Use traditional server resolution
     const connectionMode = determineConnectionMode(flags, {});
@@ -535,10 +787,24 @@ export default class Run extends Command {
     const targetServers = result.targetServers;
 
     // Collect variables and tags
-    const { variables, selectedTags } = await this.collectVariablesAndTags(config, flags);
+    const { variables, selectedTags, skippedTags, vault } = await this.collectVariablesAndTags(
+      config,
+      flags,
+      {
+        playbookPath,
+        currentDir,
+        directoryManager,
+        environment,
+        playbook,
+      }
+    );
 
     // Extract Ansible arguments
-    const ansibleArgs = this.extractAllAnsibleArgs(flags, selectedTags);
+    const ansibleArgs = [
+      ...this.extractAllAnsibleArgs(flags, selectedTags, skippedTags),
+      ...this.getVaultArgs(flags, vault),
+    ];
+    const extraVars = this.withoutVaultVariables(variables, vault);
 
     // Execute using traditional AnsibleExecutor
     const executor = new AnsibleExecutor();
@@ -551,9 +817,10 @@ export default class Run extends Command {
     this.displayTraditionalCommandPreview(
       'ansible-playbook',
       playbookPath,
-      ansibleArgs,
-      variables,
+      this.withVaultFileArgs(ansibleArgs, currentDir, vault),
+      extraVars,
       targetServers,
+      getAnsibleConfigEnv(config.ansible, currentDir),
       flags
     );
 
@@ -562,25 +829,61 @@ export default class Run extends Command {
       return;
     }
 
+    if (!(await this.confirmPlaybookRun(playbookPath, playbook, flags))) {
+      return;
+    }
+
     // Record start time
     const startTime = Date.now();
 
+    // Runs can only be replayed when every target is a saved aship host
+    const replayableHosts = await this.getReplayableHosts(targetServers, hostManager);
+
+    // Start recording run history
+    const recorder = await startRunRecording(directoryManager, {
+      command: 'run',
+      project_dir: currentDir,
+      playbook: playbookPath,
+      hosts: targetServers.map(server => server.name),
+      tags: this.collectRecordedTags(flags, selectedTags),
+      vars: maskVariables(variables, config.vars),
+      descriptor: replayableHosts
+        ? this.createRunDescriptor(playbookPath, flags, config, {
+            currentDir,
+            hosts: replayableHosts,
+            selectedTags,
+            skippedTags,
+            variables,
+            environment: environment?.name,
+          })
+        : undefined,
+    });
+
     // Start Ansible output section with improved styling
     this.displayAnsibleOutputHeader();
 
+    const progress = flags.compact
+      ? createProgressOutputEvents(recorder, `Running ${path.basename(playbookPath)}`)
+      : undefined;
     const executionOptions = {
       servers: targetServers,
       playbook: playbookPath,
-      extraVars: variables,
+      extraVars,
+      extraVarsFiles: vault ? [vault.access.file] : undefined,
+      env: vault?.access.env,
+      hostKeyPolicy: config.host_key_policy,
+      ansibleConfig: config.ansible,
       ansibleArgs,
       cwd: currentDir,
-      events: {
-        onStdout: (data: string) => process.stdout.write(data),
-        onStderr: (data: string) => process.stderr.write(data),
-      },
+      events: progress?.events ?? createOutputEvents(recorder),
     };
 
     const executionResult = await executor.executePlaybook(executionOptions);
+    progress?.stop(executionResult.success);
+    const runId = await finishRunRecording(
+      recorder,
+      executionResult.success ? 0 : executionResult.exitCode || 1
+    );
 
     // Calculate execution time
     const executionTime = Date.now() - startTime;
@@ -589,58 +892,393 @@ export default class Run extends Command {
     logger.ansibleSectionEnd();
 
     // Display result
-    if (executionResult.success) {
-      this.displayCompletionReport(
-        true,
-        targetServers,
-        playbookPath,
-        undefined,
-        undefined,
-        executionTime
-      );
-    } else {
-      this.displayCompletionReport(
-        false,
-        targetServers,
-        playbookPath,
-        executionResult.exitCode,
-        executionResult.stderr,
-        executionTime
-      );
+    this.reportRunResult(
+      flags,
+      targetServers.map(server => server.name),
+      playbookPath,
+      executionResult,
+      { executionTime, environment: environment?.name, runId }
+    );
+    if (!executionResult.success) {
       this.exit(1);
     }
   }
 
   /**
    * Collect variables and tags from configuration
+   * Previously stored answers for this project, playbook and environment are used as defaults
    */
   private async collectVariablesAndTags(
     config: ProjectConfig,
-    flags: any
-  ): Promise<{ variables: Record<string, any>; selectedTags: string[] }> {
-    // Parse extra vars
+    flags: any,
+    context: {
+      playbookPath: string;
+      currentDir: string;
+      directoryManager: DirectoryManager;
+      environment?: SelectedEnvironment;
+      playbook?: PlaybookDefinition;
+    }
+  ): Promise<{
+    variables: Record<string, any>;
+    selectedTags: string[];
+    skippedTags: string[];
+    vault?: { access: VaultAccess; variables: string[] };
+  }> {
+    const { playbookPath, currentDir, directoryManager, environment, playbook } = context;
+    const environmentVars = environment?.config.vars || {};
+    const environmentTags = environment?.config.tags;
+
+    // Parse extra vars and load variable files
     const extraVars = parseExtraVars(flags['extra-vars']);
+    const varsFiles = loadVariablesFiles(flags['vars-file'] || [], currentDir);
+    for (const file of flags['vars-file'] || []) {
+      OCLIFFormatter.info(`Loaded variable values from ${file}`);
+    }
 
     // Collect tags first if configured
     let selectedTags: string[] = [];
-    if (await shouldCollectTags(config, flags)) {
-      selectedTags = await collectTagsFromConfig(config);
-      if (selectedTags.length > 0) {
-        OCLIFFormatter.info(`Selected tags: ${selectedTags.join(', ')}`);
-      }
+    let skippedTags: string[] = [];
+    const discoveredTags = await this.discoverPlaybookTags(playbookPath, config, flags, {
+      currentDir,
+      directoryManager,
+      playbook,
+    });
+    if (await shouldCollectTags(config, flags, discoveredTags)) {
+      // Tags of the environment are the default selection
+      const selection = await collectTagsFromConfig(
+        environmentTags
+          ? { ...config, tags: { ...config.tags, default: environmentTags } }
+          : config,
+        [],
+        discoveredTags
+      );
+      selectedTags = selection.tags;
+      skippedTags = selection.skip;
+    } else if (!flags.tags && !flags['skip-tags'] && environmentTags) {
+      // Environment tags may name tag groups
+      const selection = resolveTagSelection(config.tags || {}, environmentTags);
+      selectedTags = selection.tags;
+      skippedTags = selection.skip;
+      OCLIFFormatter.info(`Using tags of the environment: ${environmentTags.join(', ')}`);
+    }
+    if (selectedTags.length > 0) {
+      OCLIFFormatter.info(`Selected tags: ${selectedTags.join(', ')}`);
+    }
+    if (skippedTags.length > 0) {
+      OCLIFFormatter.info(`Skipped tags: ${skippedTags.join(', ')}`);
     }
 
-    // Collect variables
-    let variables: Record<string, any> = {};
+    // Collect variables, reusing stored answers from previous runs
+    const definitions = config.vars || {};
+    const variableStore = new VariableStore(directoryManager);
+    const storedVars = flags['skip-vars']
+      ? {}
+      : await variableStore.getAnswers(currentDir, playbookPath, definitions, environment?.name);
+
+    // Password variables stored in the vault are not prompted
+    const vault = await this.loadVaultVariables(config, flags, currentDir, {
+      ...varsFiles.values,
+      ...extraVars,
+    });
+    const vaultVars = vault?.values || {};
+
+    let variables: Record<string, any>;
     if (await this.shouldCollectVariables(config, flags)) {
-      // For now, use empty existing vars - we can enhance this later
-      variables = await collectVariablesFromConfig(config, {});
+      // Values from the environment and variable files are offered as defaults,
+      // extra vars are used like vault values so that conditions see them while prompting
+      const answers = await collectVariablesFromConfig(
+        config,
+        {
+          ...storedVars,
+          ...environmentVars,
+          ...varsFiles.values,
+        },
+        { ...vaultVars, ...extraVars }
+      );
+      try {
+        await variableStore.setAnswers(
+          currentDir,
+          playbookPath,
+          this.getAnswersToStore(answers, storedVars, {
+            ...environmentVars,
+            ...varsFiles.values,
+            ...extraVars,
+          }),
+          definitions,
+          config.name,
+          environment?.name
+        );
+      } catch (error) {
+        logger.warn(
+          `Failed to save variable answers: ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+
+      // Values of variables that are not defined in aship.yml are passed through
+      variables = { ...environmentVars, ...varsFiles.values, ...answers };
+    } else {
+      // Non-interactive mode: use stored answers, variable files and defaults without prompting
+      if (Object.keys(storedVars).length > 0) {
+        OCLIFFormatter.info(
+          `Using ${Object.keys(storedVars).length} stored variable answer(s) from previous runs`
+        );
+      }
+
+      // Extra vars take part in conditions, variables whose conditions are false are dropped
+      variables = resolveVariableDefaults(definitions, {
+        ...storedVars,
+        ...environmentVars,
+        ...vaultVars,
+        ...varsFiles.values,
+        ...extraVars,
+      });
     }
 
     // Merge extra vars (they take precedence)
     variables = { ...variables, ...extraVars };
 
-    return { variables, selectedTags };
+    // Report all missing and invalid values at once, before Ansible starts
+    const sources: Record<string, string> = {};
+    for (const name of Object.keys(environmentVars)) {
+      sources[name] = `environment "${environment?.name}"`;
+    }
+    for (const name of Object.keys(vaultVars)) {
+      sources[name] = 'the vault';
+    }
+    Object.assign(sources, varsFiles.sources);
+    for (const name of Object.keys(extraVars)) {
+      sources[name] = '--extra-vars';
+    }
+    const errors = validateVariableValues(definitions, variables, sources);
+    if (errors.length > 0) {
+      throw new Error(
+        `${errors.length} variable value(s) are missing or invalid:\n  ${errors.join('\n  ')}`
+      );
+    }
+
+    return {
+      variables,
+      selectedTags,
+      skippedTags,
+      vault: vault && { access: vault.access, variables: Object.keys(vaultVars) },
+    };
+  }
+
+  /**
+   * Get the answers to remember for the next run
+   * Values that were supplied rather than answered are not stored, so that a one-off
+   * variable file does not become the default of later runs.
+   * Previously stored answers are kept for them
+   * @param answers Collected variable values
+   * @param storedVars Previously stored answers
+   * @param supplied Values from the environment, variable files and --extra-vars
+   */
+  private getAnswersToStore(
+    answers: Record<string, any>,
+    storedVars: Record<string, any>,
+    supplied: Record<string, any>
+  ): Record<string, any> {
+    const result: Record<string, any> = {};
+    for (const [name, value] of Object.entries(answers)) {
+      if (supplied[name] === undefined || !isDeepStrictEqual(value, supplied[name])) {
+        result[name] = value;
+      } else if (storedVars[name] !== undefined) {
+        result[name] = storedVars[name];
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Read the password variables stored in the project vault
+   * Values from variable files and --extra-vars take precedence over the vault
+   * @returns Vault access for Ansible and the values taken from the vault,
+   * or undefined if the vault is not used
+   */
+  private async loadVaultVariables(
+    config: ProjectConfig,
+    flags: any,
+    currentDir: string,
+    overrides: Record<string, any>
+  ): Promise<{ access: VaultAccess; values: Record<string, any> } | undefined> {
+    const definitions = config.vars || {};
+    const secrets = Object.keys(definitions).filter(
+      name => definitions[name].type === 'password' && overrides[name] === undefined
+    );
+
+    return readVaultVariables(config, currentDir, secrets, {
+      passwordFile: flags['vault-password-file'],
+      yes: flags.yes,
+    });
+  }
+
+  /**
+   * Get the vault password arguments for ansible-playbook
+   * A --vault-password-file given on the command line is already passed through
+   */
+  private getVaultArgs(flags: any, vault?: { access: VaultAccess }): string[] {
+    if (!vault || (flags['vault-password-file'] && vault.access.args[0] !== '--vault-id')) {
+      return [];
+    }
+    return vault.access.args;
+  }
+
+  /**
+   * Remove the variables taken from the vault, Ansible reads them from the encrypted file
+   */
+  private withoutVaultVariables(
+    variables: Record<string, any>,
+    vault?: { variables: string[] }
+  ): Record<string, any> {
+    if (!vault) {
+      return variables;
+    }
+    return Object.fromEntries(
+      Object.entries(variables).filter(([name]) => !vault.variables.includes(name))
+    );
+  }
+
+  /**
+   * Add the vault file to the arguments shown in the command preview
+   */
+  private withVaultFileArgs(
+    ansibleArgs: string[],
+    currentDir: string,
+    vault?: { access: VaultAccess }
+  ): string[] {
+    if (!vault) {
+      return ansibleArgs;
+    }
+    return ['--extra-vars', `@${path.relative(currentDir, vault.access.file)}`, ...ansibleArgs];
+  }
+
+  /**
+   * Discover the tags used by the playbook for the tag selection
+   * Warns about tags in aship.yml that the playbook no longer uses
+   */
+  private async discoverPlaybookTags(
+    playbookPath: string,
+    config: ProjectConfig,
+    flags: any,
+    context: {
+      currentDir: string;
+      directoryManager: DirectoryManager;
+      playbook?: PlaybookDefinition;
+    }
+  ): Promise<string[]> {
+    // Tags are not prompted in these cases
+    if (flags.tags || flags['skip-tags'] || flags.yes) {
+      return [];
+    }
+
+    try {
+      const cache = new PlaybookTagCache(context.directoryManager);
+      // Roles are also looked up in the roles_path of the project Ansible settings
+      const discovered = await cache.getTags(playbookPath, {
+        rolesPath: resolveAnsiblePaths(config.ansible?.roles_path, context.currentDir),
+      });
+
+      // Only warn when every file of the playbook could be parsed
+      if (discovered.complete && config.tags) {
+        const unknown = findUnknownTags(config.tags, discovered.tags);
+        if (unknown.length > 0) {
+          logger.warn(
+            `Tags in aship.yml that are not used by ${path.basename(playbookPath)}: ${unknown.join(', ')}`
+          );
+        }
+      }
+
+      const allowed = context.playbook?.tags;
+      return allowed ? discovered.tags.filter(tag => allowed.includes(tag)) : discovered.tags;
+    } catch (error) {
+      logger.verbose(
+        `Tag discovery failed: ${error instanceof Error ? error.message : String(error)}`
+      );
+      return [];
+    }
+  }
+
+  /**
+   * Build a replayable run descriptor for `aship rerun`
+   * Secret variables are not stored, only their names
+   */
+  private createRunDescriptor(
+    playbookPath: string,
+    flags: any,
+    config: ProjectConfig,
+    context: {
+      currentDir: string;
+      hosts?: string[];
+      selectedTags: string[];
+      skippedTags: string[];
+      variables: Record<string, any>;
+      environment?: string;
+    }
+  ): RunDescriptor {
+    const { currentDir, hosts, selectedTags, skippedTags, variables, environment } = context;
+    const { values, secrets } = splitSecretVariables(variables, config.vars);
+
+    return {
+      playbook: playbookPath,
+      hosts,
+      inventory: flags.inventory ? path.resolve(currentDir, flags.inventory) : undefined,
+      inventory_mode: flags.inventory && hosts ? flags['inventory-mode'] : undefined,
+      limit: flags.limit,
+      environment,
+      tags: selectedTags,
+      skip_tags: skippedTags,
+      ansible_args: this.withoutExtraVarsArgs(this.extractAllAnsibleArgs(flags, [])),
+      vars: values,
+      secret_vars: secrets,
+    };
+  }
+
+  /**
+   * Remove extra vars from Ansible arguments
+   * Extra vars are already merged into the collected variables
+   */
+  private withoutExtraVarsArgs(args: string[]): string[] {
+    const result: string[] = [];
+
+    for (let i = 0; i < args.length; i++) {
+      if (args[i] === '-e' || args[i] === '--extra-vars') {
+        i++; // Skip the value
+        continue;
+      }
+      result.push(args[i]);
+    }
+
+    return result;
+  }
+
+  /**
+   * Aship host names of the target servers, or undefined if any target is not a saved aship host
+   * (e.g. a direct connection) and the run can therefore not be replayed
+   */
+  private async getReplayableHosts(
+    targetServers: { name: string }[],
+    hostManager: HostManager
+  ): Promise<string[] | undefined> {
+    if (targetServers.length === 0) {
+      return undefined;
+    }
+
+    for (const server of targetServers) {
+      if (!(await hostManager.getHost(server.name))) {
+        logger.verbose(`Run is not replayable: "${server.name}" is not a saved aship host`);
+        return undefined;
+      }
+    }
+
+    return targetServers.map(server => server.name);
+  }
+
+  /**
+   * Tags to record in the run history (selected interactively and passed via --tags)
+   */
+  private collectRecordedTags(flags: any, selectedTags: string[]): string[] {
+    const flagTags = flags.tags ? flags.tags.split(',').map((tag: string) => tag.trim()) : [];
+    return [...new Set([...selectedTags, ...flagTags])];
   }
 
   /**
@@ -665,7 +1303,11 @@ export default class Run extends Command {
   /**
    * Extract all Ansible arguments from flags and tags
    */
-  private extractAllAnsibleArgs(flags: any, selectedTags: string[]): string[] {
+  private extractAllAnsibleArgs(
+    flags: any,
+    selectedTags: string[],
+    skippedTags: string[] = []
+  ): string[] {
     // 1. Extract from known common parameters
     const ansibleParams = loadCommonAnsibleParams();
     const knownAnsibleArgs = extractAnsibleArgsFromOptions(flags, ansibleParams);
@@ -680,6 +1322,9 @@ export default class Run extends Command {
     if (selectedTags.length > 0) {
       ansibleArgs.push('--tags', selectedTags.join(','));
     }
+    if (skippedTags.length > 0) {
+      ansibleArgs.push('--skip-tags', skippedTags.join(','));
+    }
 
     // 5. Add flags-specific ansible options
     if (flags.tags) {
@@ -776,6 +1421,7 @@ export default class Run extends Command {
     ansibleArgs: string[],
     variables: Record<string, any>,
     targetServers: any[],
+    ansibleEnv: Record<string, string>,
     flags: any
   ): void {
     // Display execution info
@@ -785,8 +1431,8 @@ export default class Run extends Command {
       OCLIFFormatter.info(`Variables: ${Object.keys(variables).length} variable(s)`);
     }
 
-    // Build command preview
-    const commandParts = [command];
+    // Build command preview, the project Ansible settings are passed as environment variables
+    const commandParts = [...formatEnvAssignments(ansibleEnv), command];
 
     // Add inventory
     if (flags['show-full-command']) {
@@ -825,6 +1471,7 @@ export default class Run extends Command {
     ansibleArgs: string[],
     variables: Record<string, any>,
     hosts: string[] | undefined,
+    ansibleEnv: Record<string, string>,
     flags: any
   ): void {
     // Display enhanced mode info using OCLIF formatter
@@ -834,8 +1481,8 @@ export default class Run extends Command {
       OCLIFFormatter.info(`Variables: ${Object.keys(variables).length} variable(s)`);
     }
 
-    // Build command preview
-    const commandParts = ['ansible-playbook'];
+    // Build command preview, the project Ansible settings are passed as environment variables
+    const commandParts = [...formatEnvAssignments(ansibleEnv), 'ansible-playbook'];
     commandParts.push('-i', '<generated-inventory>');
 
     if (Object.keys(variables).length > 0) {
@@ -864,24 +1511,44 @@ export default class Run extends Command {
   }
 
   /**
-   * Display detailed completion report
+   * Report the result of a playbook run
+   * With --output json the result is written to stdout as JSON instead of the completion report
    */
-  private displayCompletionReport(
-    success: boolean,
-    targets: any[],
+  private reportRunResult(
+    flags: any,
+    targets: string[],
     playbookPath: string,
-    exitCode?: number,
-    stderr?: string,
-    executionTime?: number
+    result: ExecutionResult,
+    context: { executionTime: number; environment?: string; runId?: string }
   ): void {
-    // Use OCLIF formatter for completion report
+    if (flags.output === 'json') {
+      writeJsonResult({
+        success: result.success,
+        exit_code: result.exitCode,
+        playbook: playbookPath,
+        environment: context.environment,
+        targets,
+        duration_ms: context.executionTime,
+        hosts: result.hosts || {},
+        run_id: context.runId,
+      });
+      return;
+    }
+
     OCLIFFormatter.completionReport(
-      success,
+      result.success,
       targets,
       playbookPath,
-      executionTime,
-      exitCode,
-      stderr
+      context.executionTime,
+      result.success ? undefined : result.exitCode,
+      result.success ? undefined : result.stderr,
+      context.environment,
+      result.hosts
     );
+
+    // The Ansible output was not shown in compact mode
+    if (flags.compact && !result.success && context.runId) {
+      OCLIFFormatter.info(`See the full output with "aship history show ${context.runId}"`);
+    }
   }
 }
@@ -0,0 +1,87 @@
+import { DirectoryManager, VariableStore } from '@aship/core';
+import { Command, Flags } from '@oclif/core';
+import inquirer from 'inquirer';
+import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
+
+export default class VarsClear extends Command {
+  static override description = 'Clear stored variable answers';
+
+  static override aliases = ['vars:reset', 'vars:forget'];
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --playbook site.yml',
+    '<%= config.bin %> <%= command.id %> --all --force',
+    '<%= config.bin %> vars reset -f',
+  ];
+
+  static override flags = {
+    playbook: Flags.string({
+      char: 'p',
+      description: 'Only clear answers for this playbook path',
+    }),
+    all: Flags.boolean({
+      char: 'a',
+      description: 'Clear stored answers for all projects',
+      default: false,
+    }),
+    force: Flags.boolean({
+      char: 'f',
+      description: 'Skip confirmation prompt',
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(VarsClear);
+
+    try {
+      const directoryManager = new DirectoryManager();
+      const variableStore = new VariableStore(directoryManager);
+      const currentDir = process.cwd();
+
+      if (flags.all && flags.playbook) {
+        OCLIFFormatter.error('--all and --playbook cannot be used together');
+        this.exit(1);
+      }
+
+      let scope = 'all stored variable answers for this project';
+      if (flags.all) {
+        scope = 'stored variable answers for all projects';
+      } else if (flags.playbook) {
+        scope = `stored variable answers for playbook "${flags.playbook}"`;
+      }
+
+      // Confirmation prompt (unless --force is used)
+      if (!flags.force) {
+        const answer = await inquirer.prompt([
+          {
+            type: 'confirm',
+            name: 'confirm',
+            message: `Are you sure you want to clear ${scope}?`,
+            default: false,
+          },
+        ]);
+
+        if (!answer.confirm) {
+          OCLIFFormatter.info('Operation cancelled.');
+          return;
+        }
+      }
+
+      const removed = flags.all
+        ? await variableStore.clearAllAnswers()
+        : await variableStore.clearAnswers(currentDir, flags.playbook);
+
+      if (removed > 0) {
+        OCLIFFormatter.success(`Cleared stored answers for ${removed} playbook(s)`);
+      } else {
+        OCLIFFormatter.info('No stored variable answers to clear');
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      OCLIFFormatter.error('Failed to clear variable answers', errorMessage);
+      this.exit(1);
+    }
+  }
+}
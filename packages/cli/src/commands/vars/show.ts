@@ -0,0 +1,139 @@
+import {
+  DirectoryManager,
+  type PlaybookAnswers,
+  type ProjectAnswers,
+  VariableStore,
+} from '@aship/core';
+import { Command, Flags } from '@oclif/core';
+import chalk from 'chalk';
+import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
+import { formatDateTime, formatRelativeDateTime } from '../../utils/time-formatter.js';
+
+export default class VarsShow extends Command {
+  static override description = 'Show stored variable answers from previous runs';
+
+  static override aliases = ['vars:list', 'vars:ls'];
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --playbook site.yml',
+    '<%= config.bin %> <%= command.id %> --all',
+    '<%= config.bin %> <%= command.id %> --format json',
+    '<%= config.bin %> vars ls -r',
+  ];
+
+  static override flags = {
+    playbook: Flags.string({
+      char: 'p',
+      description: 'Only show answers for this playbook path',
+    }),
+    all: Flags.boolean({
+      char: 'a',
+      description: 'Show stored answers for all projects',
+      default: false,
+    }),
+    format: Flags.string({
+      char: 'f',
+      description: 'Output format (table|json)',
+      default: 'table',
+      options: ['table', 'json'],
+    }),
+    'relative-time': Flags.boolean({
+      char: 'r',
+      description: 'Show relative time (e.g., "2 hours ago") instead of absolute time',
+      default: false,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(VarsShow);
+
+    try {
+      const directoryManager = new DirectoryManager();
+      const variableStore = new VariableStore(directoryManager);
+      const currentDir = process.cwd();
+
+      let projects: Record<string, ProjectAnswers>;
+      if (flags.all) {
+        projects = (await variableStore.getAllAnswers()).projects;
+      } else {
+        const project = await variableStore.getProjectAnswers(currentDir);
+        projects = project ? { [currentDir]: project } : {};
+      }
+
+      // Narrow down to a single playbook if requested
+      if (flags.playbook) {
+        const filtered: Record<string, ProjectAnswers> = {};
+        for (const [projectDir, project] of Object.entries(projects)) {
+          const playbookKey = variableStore.playbookKey(projectDir, flags.playbook);
+          const only = (playbooks: Record<string, PlaybookAnswers>) =>
+            playbooks[playbookKey] ? { [playbookKey]: playbooks[playbookKey] } : {};
+          const environments: Record<string, Record<string, PlaybookAnswers>> = {};
+          for (const [environment, playbooks] of Object.entries(project.environments || {})) {
+            if (playbooks[playbookKey]) {
+              environments[environment] = only(playbooks);
+            }
+          }
+          if (project.playbooks[playbookKey] || Object.keys(environments).length > 0) {
+            filtered[projectDir] = {
+              ...project,
+              playbooks: only(project.playbooks),
+              ...(project.environments && { environments }),
+            };
+          }
+        }
+        projects = filtered;
+      }
+
+      if (flags.format === 'json') {
+        console.log(JSON.stringify(projects, null, 2));
+        return;
+      }
+
+      if (Object.keys(projects).length === 0) {
+        const scope = flags.all ? '' : ' for this project';
+        OCLIFFormatter.info(`No stored variable answers${scope}.`);
+        return;
+      }
+
+      const timeFormatter = flags['relative-time'] ? formatRelativeDateTime : formatDateTime;
+
+      for (const [projectDir, project] of Object.entries(projects)) {
+        OCLIFFormatter.section(project.name ? `${project.name} (${projectDir})` : projectDir);
+
+        const entries: { playbook: string; entry: PlaybookAnswers; environment?: string }[] = [
+          ...Object.entries(project.playbooks).map(([playbook, entry]) => ({ playbook, entry })),
+          ...Object.entries(project.environments || {}).flatMap(([environment, playbooks]) =>
+            Object.entries(playbooks).map(([playbook, entry]) => ({ playbook, entry, environment }))
+          ),
+        ];
+
+        for (const { playbook, entry, environment } of entries) {
+          const title = environment ? `${playbook} [${environment}]` : playbook;
+          console.log();
+          console.log(
+            `${chalk.cyan.bold(title)} ${chalk.gray(`(updated ${timeFormatter(entry.updated_at)})`)}`
+          );
+
+          const items = Object.entries(entry.values).map(([name, value]) => ({
+            label: name,
+            value: JSON.stringify(value),
+          }));
+
+          if (items.length === 0) {
+            console.log(chalk.gray('  No stored values'));
+          } else {
+            OCLIFFormatter.table(items);
+          }
+        }
+      }
+
+      console.log();
+      OCLIFFormatter.info('Password variables are never stored and will always be prompted.');
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      OCLIFFormatter.error('Failed to show variable answers', errorMessage);
+      this.exit(1);
+    }
+  }
+}
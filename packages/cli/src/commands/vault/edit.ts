@@ -0,0 +1,41 @@
+import { Command, Flags } from '@oclif/core';
+import { loadConfiguration } from '../../shared/server-connection-manager.js';
+import { openProjectVault } from '../../shared/vault.js';
+import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
+
+export default class VaultEdit extends Command {
+  static override description = 'Edit the decrypted vault in your editor';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    'EDITOR=nano <%= config.bin %> <%= command.id %>',
+  ];
+
+  static override flags = {
+    'vault-password-file': Flags.string({
+      description: 'Vault password file (defaults to vault.password_file in aship.yml)',
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(VaultEdit);
+
+    try {
+      const currentDir = process.cwd();
+      const config = await loadConfiguration(currentDir);
+      const vault = await openProjectVault(config, currentDir, {
+        passwordFile: flags['vault-password-file'],
+      });
+
+      await vault.edit();
+
+      // Make sure the edited vault is still a mapping of variable names
+      const values = await vault.read();
+      OCLIFFormatter.success(`Vault saved with ${Object.keys(values).length} value(s)`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      OCLIFFormatter.error('Failed to edit the vault', errorMessage);
+      this.exit(1);
+    }
+  }
+}
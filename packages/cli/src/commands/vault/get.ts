@@ -0,0 +1,62 @@
+import { Args, Command, Flags } from '@oclif/core';
+import { loadConfiguration } from '../../shared/server-connection-manager.js';
+import { openProjectVault } from '../../shared/vault.js';
+import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
+
+export default class VaultGet extends Command {
+  static override description = 'Show a secret value, or list the names stored in the vault';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> db_password',
+  ];
+
+  static override args = {
+    name: Args.string({
+      description: 'Variable name (lists the stored names when omitted)',
+    }),
+  };
+
+  static override flags = {
+    'vault-password-file': Flags.string({
+      description: 'Vault password file (defaults to vault.password_file in aship.yml)',
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(VaultGet);
+
+    try {
+      const currentDir = process.cwd();
+      const config = await loadConfiguration(currentDir);
+      const vault = await openProjectVault(config, currentDir, {
+        passwordFile: flags['vault-password-file'],
+      });
+      const values = await vault.read();
+
+      if (!args.name) {
+        const names = Object.keys(values);
+        if (names.length === 0) {
+          OCLIFFormatter.info('The vault is empty');
+        }
+        for (const name of names) {
+          console.log(name);
+        }
+        return;
+      }
+
+      if (values[args.name] === undefined) {
+        OCLIFFormatter.error(`"${args.name}" is not stored in the vault`);
+        this.exit(1);
+        return;
+      }
+
+      const value = values[args.name];
+      console.log(typeof value === 'string' ? value : JSON.stringify(value));
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      OCLIFFormatter.error('Failed to read the vault', errorMessage);
+      this.exit(1);
+    }
+  }
+}
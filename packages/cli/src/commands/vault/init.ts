@@ -0,0 +1,69 @@
+import * as path from 'node:path';
+import { Command, Flags } from '@oclif/core';
+import inquirer from 'inquirer';
+import { loadConfiguration } from '../../shared/server-connection-manager.js';
+import { openProjectVault } from '../../shared/vault.js';
+import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
+
+export default class VaultInit extends Command {
+  static override description = 'Create the encrypted vault for secret variable values';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --no-prompt',
+    '<%= config.bin %> <%= command.id %> --vault-password-file ~/.ansible/vault-pass',
+  ];
+
+  static override flags = {
+    'vault-password-file': Flags.string({
+      description: 'Vault password file (defaults to vault.password_file in aship.yml)',
+    }),
+    prompt: Flags.boolean({
+      description: 'Prompt for the password variables defined in aship.yml',
+      default: true,
+      allowNo: true,
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(VaultInit);
+
+    try {
+      const currentDir = process.cwd();
+      const config = await loadConfiguration(currentDir);
+      const vault = await openProjectVault(config, currentDir, {
+        passwordFile: flags['vault-password-file'],
+        create: true,
+      });
+
+      // Offer to store the password variables of the project right away
+      const values: Record<string, string> = {};
+      const secrets = Object.entries(config.vars || {})
+        .filter(([, definition]: [string, any]) => definition.type === 'password')
+        .map(([name]) => name);
+      if (flags.prompt && secrets.length > 0) {
+        OCLIFFormatter.info('Enter the values to store, leave a value empty to skip it');
+        for (const name of secrets) {
+          const { value } = await inquirer.prompt({
+            type: 'password',
+            name: 'value',
+            message: name,
+            mask: '*',
+          });
+          if (value) {
+            values[name] = value;
+          }
+        }
+      }
+
+      await vault.create(values);
+      OCLIFFormatter.success(
+        `Created vault ${path.relative(currentDir, vault.file)} with ${Object.keys(values).length} value(s)`
+      );
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      OCLIFFormatter.error('Failed to create the vault', errorMessage);
+      this.exit(1);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+import * as path from 'node:path';
+import { Command, Flags } from '@oclif/core';
+import { loadConfiguration } from '../../shared/server-connection-manager.js';
+import { openProjectVault, promptVaultPassword } from '../../shared/vault.js';
+import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
+
+export default class VaultRekey extends Command {
+  static override description = 'Encrypt the vault with a new password';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %>',
+    '<%= config.bin %> <%= command.id %> --new-vault-password-file ~/.ansible/new-vault-pass',
+  ];
+
+  static override flags = {
+    'vault-password-file': Flags.string({
+      description: 'Current vault password file (defaults to vault.password_file in aship.yml)',
+    }),
+    'new-vault-password-file': Flags.string({
+      description: 'New vault password file (the new password is prompted when omitted)',
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { flags } = await this.parse(VaultRekey);
+
+    try {
+      const currentDir = process.cwd();
+      const config = await loadConfiguration(currentDir);
+      const vault = await openProjectVault(config, currentDir, {
+        passwordFile: flags['vault-password-file'],
+      });
+
+      const newPasswordFile = flags['new-vault-password-file'];
+      await vault.rekey(
+        newPasswordFile
+          ? { passwordFile: path.resolve(currentDir, newPasswordFile) }
+          : { password: await promptVaultPassword('New vault password', true) }
+      );
+
+      OCLIFFormatter.success(`Vault ${path.relative(currentDir, vault.file)} was rekeyed`);
+      if (config.vault?.password_file && newPasswordFile === undefined) {
+        OCLIFFormatter.warning(
+          `Update ${config.vault.password_file} with the new password, it is configured in aship.yml`
+        );
+      }
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      OCLIFFormatter.error('Failed to rekey the vault', errorMessage);
+      this.exit(1);
+    }
+  }
+}
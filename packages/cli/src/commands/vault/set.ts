@@ -0,0 +1,67 @@
+import { Args, Command, Flags } from '@oclif/core';
+import inquirer from 'inquirer';
+import { loadConfiguration } from '../../shared/server-connection-manager.js';
+import { openProjectVault } from '../../shared/vault.js';
+import { OCLIFFormatter } from '../../utils/oclif-formatter.js';
+
+export default class VaultSet extends Command {
+  static override description = 'Store a secret variable value in the vault';
+
+  static override examples = [
+    '<%= config.bin %> <%= command.id %> db_password',
+    '<%= config.bin %> <%= command.id %> api_token s3cr3t',
+  ];
+
+  static override args = {
+    name: Args.string({
+      description: 'Variable name',
+      required: true,
+    }),
+    value: Args.string({
+      description: 'Value (prompted without echo when omitted)',
+    }),
+  };
+
+  static override flags = {
+    'vault-password-file': Flags.string({
+      description: 'Vault password file (defaults to vault.password_file in aship.yml)',
+    }),
+  };
+
+  public async run(): Promise<void> {
+    const { args, flags } = await this.parse(VaultSet);
+
+    try {
+      const currentDir = process.cwd();
+      const config = await loadConfiguration(currentDir);
+      const vault = await openProjectVault(config, currentDir, {
+        passwordFile: flags['vault-password-file'],
+      });
+
+      // Only password variables are filled from the vault during runs
+      const definition = config.vars?.[args.name];
+      if (definition && definition.type !== 'password') {
+        OCLIFFormatter.warning(
+          `Variable "${args.name}" is of type ${definition.type}, only password variables are taken from the vault`
+        );
+      }
+
+      let value = args.value;
+      if (value === undefined) {
+        ({ value } = await inquirer.prompt({
+          type: 'password',
+          name: 'value',
+          message: `Value of ${args.name}`,
+          mask: '*',
+        }));
+      }
+
+      await vault.set(args.name, value);
+      OCLIFFormatter.success(`Stored "${args.name}" in the vault`);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : String(error);
+      OCLIFFormatter.error('Failed to update the vault', errorMessage);
+      this.exit(1);
+    }
+  }
+}
@@ -0,0 +1,116 @@
+/**
+ * Host connectivity reports for CLI commands
+ *
+ * This module provides the machine-readable reports of "aship host test --all",
+ * as JSON for scripts and monitoring and as JUnit XML for CI systems.
+ */
+
+/**
+ * Result of testing the connection to one host
+ */
+export interface HostTestResult {
+  name: string;
+  address: string;
+  success: boolean;
+  duration: number;
+  method?: string;
+  message?: string;
+  diagnosis?: {
+    issue: string;
+    message: string;
+  };
+}
+
+/**
+ * Get the exit code of a host test run, the run fails when any host fails
+ * @param results Results in host order
+ */
+export function getExitCode(results: HostTestResult[]): number {
+  return results.some(result => !result.success) ? 1 : 0;
+}
+
+/**
+ * Create the JSON report of a host test run
+ * @param results Results in host order
+ * @param duration Total duration in milliseconds
+ */
+export function createJsonReport(results: HostTestResult[], duration: number) {
+  const failed = results.filter(result => !result.success).length;
+
+  return {
+    total: results.length,
+    passed: results.length - failed,
+    failed,
+    duration_ms: duration,
+    hosts: results.map(result => ({
+      name: result.name,
+      address: result.address,
+      success: result.success,
+      duration_ms: result.duration,
+      method: result.method,
+      error: result.message,
+      diagnosis: result.diagnosis,
+    })),
+  };
+}
+
+/**
+ * Escape a value for XML text and attributes
+ */
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+/**
+ * Format milliseconds as JUnit seconds
+ */
+function toSeconds(ms: number): string {
+  return (ms / 1000).toFixed(3);
+}
+
+/**
+ * Create the JUnit XML report of a host test run, one test case per host
+ * @param results Results in host order
+ * @param duration Total duration in milliseconds
+ * @param timestamp Start of the test run
+ */
+export function createJUnitReport(
+  results: HostTestResult[],
+  duration: number,
+  timestamp: Date = new Date()
+): string {
+  const failed = results.filter(result => !result.success).length;
+  const counts = `tests="${results.length}" failures="${failed}" errors="0"`;
+
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<testsuites name="aship host test" ${counts} time="${toSeconds(duration)}">`,
+    `  <testsuite name="host connectivity" ${counts} skipped="0" time="${toSeconds(duration)}" timestamp="${timestamp.toISOString()}">`,
+  ];
+
+  for (const result of results) {
+    const testCase = `    <testcase name="${escapeXml(result.name)}" classname="aship.hosts" time="${toSeconds(result.duration)}"`;
+    if (result.success) {
+      lines.push(`${testCase}/>`);
+      continue;
+    }
+
+    const details = [`Address: ${result.address}`, result.message || 'Connection failed'];
+    if (result.diagnosis) {
+      details.push(`Diagnosis (${result.diagnosis.issue}): ${result.diagnosis.message}`);
+    }
+    lines.push(
+      `${testCase}>`,
+      `      <failure message="${escapeXml(result.message || 'Connection failed')}" type="${escapeXml(result.diagnosis?.issue || 'connection')}">${escapeXml(details.join('\n'))}</failure>`,
+      '    </testcase>'
+    );
+  }
+
+  lines.push('  </testsuite>', '</testsuites>');
+  return lines.join('\n');
+}
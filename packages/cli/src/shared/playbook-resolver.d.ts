@@ -1,7 +1,7 @@
 /**
  * Playbook input resolver for unified run command
  */
-import type { ProjectConfig } from '@aship/core';
+import type { PlaybookDefinition, ProjectConfig } from '@aship/core';
 /**
  * Playbook input type and resolution result
  */
@@ -18,6 +18,10 @@ export interface PlaybookInput {
    * Resolved playbook file path
    */
   resolvedPath: string;
+  /**
+   * Playbook entry from aship.yml (config input only)
+   */
+  playbook?: PlaybookDefinition;
 }
 /**
  * Custom error for playbook not found scenarios
@@ -3,7 +3,7 @@
  */
 
 import * as path from 'node:path';
-import type { ProjectConfig } from '@aship/core';
+import { type PlaybookDefinition, type ProjectConfig, normalizePlaybookEntry } from '@aship/core';
 
 /**
  * Playbook input type and resolution result
@@ -23,6 +23,11 @@ export interface PlaybookInput {
    * Resolved playbook file path
    */
   resolvedPath: string;
+
+  /**
+   * Playbook entry from aship.yml (config input only)
+   */
+  playbook?: PlaybookDefinition;
 }
 
 /**
@@ -36,9 +41,9 @@ export class PlaybookNotFoundError extends Error {
 
     if (available.length > 0) {
       message += '\n\nAvailable playbooks in aship.yml:';
-      available.forEach(name => {
-        message += `\n  - ${name} (${config.playbooks?.[name]})`;
-      });
+      for (const [name, entry] of Object.entries(config.playbooks || {})) {
+        message += `\n  - ${name} (${normalizePlaybookEntry(entry).path})`;
+      }
     } else {
       message += '\n\nNo playbooks defined in aship.yml.';
     }
@@ -93,10 +98,12 @@ export function parsePlaybookInput(input: string, config: ProjectConfig): Playbo
 
   // 2. Check if input matches a playbook name in config
   if (config.playbooks?.[input]) {
+    const playbook = normalizePlaybookEntry(config.playbooks[input]);
     return {
       type: 'config',
       value: input,
-      resolvedPath: path.resolve(config.playbooks[input]),
+      resolvedPath: path.resolve(playbook.path),
+      playbook,
     };
   }
 
@@ -0,0 +1,126 @@
+/**
+ * Run recording helpers for CLI commands
+ *
+ * This module provides shared functionality for recording playbook runs
+ * in the run history while streaming their output to the terminal.
+ */
+
+import {
+  type DirectoryManager,
+  type PlaybookProgress,
+  RunHistory,
+  type RunRecorder,
+  type RunStartInfo,
+  logger,
+} from '@aship/core';
+import { OCLIFFormatter } from '../utils/oclif-formatter.js';
+
+/**
+ * Start recording a run in the run history
+ * History failures never abort the run itself
+ * @param directoryManager Directory manager
+ * @param info Run metadata
+ * @returns Recorder, or undefined if recording could not be started
+ */
+export async function startRunRecording(
+  directoryManager: DirectoryManager,
+  info: RunStartInfo
+): Promise<RunRecorder | undefined> {
+  try {
+    return await new RunHistory(directoryManager).startRun(info);
+  } catch (error) {
+    logger.warn(
+      `Failed to record run history: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Finish recording a run in the run history
+ * @param recorder Recorder returned by startRunRecording
+ * @param exitCode Process exit code
+ * @returns Id of the recorded run, or undefined if the run was not recorded
+ */
+export async function finishRunRecording(
+  recorder: RunRecorder | undefined,
+  exitCode: number
+): Promise<string | undefined> {
+  if (!recorder) {
+    return undefined;
+  }
+
+  try {
+    const record = await recorder.finish(exitCode);
+    logger.verbose(`Run recorded as ${record.id} (see "aship history show ${record.id}")`);
+    return record.id;
+  } catch (error) {
+    logger.warn(
+      `Failed to record run history: ${error instanceof Error ? error.message : String(error)}`
+    );
+    return undefined;
+  }
+}
+
+/**
+ * Create output event handlers that stream to the terminal and capture to the run history
+ * @param recorder Optional recorder
+ * @returns Event handlers for the Ansible executor
+ */
+export function createOutputEvents(recorder?: RunRecorder) {
+  return {
+    onStdout: (data: string) => {
+      process.stdout.write(data);
+      recorder?.write(data);
+    },
+    onStderr: (data: string) => {
+      process.stderr.write(data);
+      recorder?.write(data);
+    },
+    onCommand: (command: string, args: string[]) => recorder?.setCommandLine(command, args),
+  };
+}
+
+/**
+ * Format a progress update as a single status line
+ */
+function formatProgress(progress: PlaybookProgress): string {
+  const parts = [
+    progress.task ? `[${progress.tasks}] ${progress.task}` : progress.play || 'Starting',
+  ];
+  if (progress.hostsTotal > 0) {
+    parts.push(`${progress.hostsDone}/${progress.hostsTotal} hosts`);
+  }
+  if (progress.hostsFailed > 0) {
+    parts.push(`${progress.hostsFailed} failed`);
+  }
+  parts.push(`${Math.round(progress.elapsed / 1000)}s`);
+  return parts.join(' · ');
+}
+
+/**
+ * Create output event handlers for the compact progress mode
+ * A live status line replaces the Ansible output, which is still captured to the run history
+ * @param recorder Optional recorder
+ * @param message Message shown before the status line
+ * @returns Event handlers for the Ansible executor, and a function that ends the status line
+ */
+export function createProgressOutputEvents(recorder: RunRecorder | undefined, message: string) {
+  let display: ReturnType<typeof OCLIFFormatter.progress> | undefined;
+
+  return {
+    events: {
+      onStdout: (data: string) => recorder?.write(data),
+      onStderr: (data: string) => recorder?.write(data),
+      onCommand: (command: string, args: string[]) => {
+        recorder?.setCommandLine(command, args);
+        display = OCLIFFormatter.progress({ message });
+      },
+      onProgress: (progress: PlaybookProgress) => display?.update(formatProgress(progress)),
+    },
+    stop: (success: boolean) => {
+      display?.stop(success ? 'done' : 'failed');
+      display = undefined;
+    },
+  };
+}
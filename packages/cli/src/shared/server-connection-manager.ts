@@ -1,4 +1,5 @@
 import {
+  type HostKeyPolicy,
   type ServerConfig,
   diagnoseConnection,
   getLastConnection,
@@ -981,6 +982,22 @@ export async function loadConfiguration(currentDir: string): Promise<any> {
   return legacyConfig;
 }
 
+/**
+ * Get the host key policy of the project in the given directory
+ * @param currentDir Project directory
+ * @returns Project host key policy, or undefined outside a project
+ */
+export async function getProjectHostKeyPolicy(
+  currentDir: string
+): Promise<HostKeyPolicy | undefined> {
+  try {
+    const config = await loadConfiguration(currentDir);
+    return config.host_key_policy;
+  } catch {
+    return undefined;
+  }
+}
+
 // fileExists is now imported from @aship/core
 
 /**
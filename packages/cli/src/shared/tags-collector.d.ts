@@ -4,27 +4,32 @@
  * This module provides functionality for collecting and managing Ansible tags
  * from aship.yml configuration files.
  */
-import type { ProjectConfig, TagsConfig } from '@aship/core';
+import type { ProjectConfig, TagSelection, TagsConfig } from '@aship/core';
 /**
  * Collect tags from project configuration
  * @param config Project configuration
  * @param existingTags Existing tag values
- * @returns Selected tags
+ * @param discoveredTags Tags discovered in the playbook
+ * @returns Tags to run and to skip
  */
 export declare function collectTagsFromConfig(
   config: ProjectConfig,
-  existingTags?: string[]
-): Promise<string[]>;
+  existingTags?: string[],
+  discoveredTags?: string[]
+): Promise<TagSelection>;
 /**
  * Collect tags from tags configuration
+ * Groups can skip tags in addition to selecting them
  * @param tagsConfig Tags configuration
  * @param existingTags Existing tag values
- * @returns Selected tags
+ * @param discoveredTags Tags discovered in the playbook, offered with the configured tags
+ * @returns Tags to run (--tags) and to skip (--skip-tags)
  */
 export declare function collectTagsFromDefinition(
   tagsConfig: TagsConfig,
-  existingTags?: string[]
-): Promise<string[]>;
+  existingTags?: string[],
+  discoveredTags?: string[]
+): Promise<TagSelection>;
 /**
  * Collect tags with simple choices
  * @param availableTags Available tag names
@@ -52,13 +57,16 @@ export declare function getTagsFromGroup(tagsConfig: TagsConfig, groupName: stri
  * Check if tags should be collected
  * @param config Project configuration
  * @param options Command options
+ * @param discoveredTags Tags discovered in the playbook
  * @returns Whether to collect tags
  */
 export declare function shouldCollectTags(
   config: ProjectConfig,
   options: {
     tags?: string;
+    'skip-tags'?: string;
     yes?: boolean;
-  }
+  },
+  discoveredTags?: string[]
 ): Promise<boolean>;
 //# sourceMappingURL=tags-collector.d.ts.map
@@ -5,45 +5,65 @@
  * from aship.yml configuration files.
  */
 
-import { type ProjectConfig, type TagsConfig, logger, normalizeTagsConfig } from '@aship/core';
+import {
+  type ProjectConfig,
+  type TagSelection,
+  type TagsConfig,
+  logger,
+  normalizeTagsConfig,
+} from '@aship/core';
 import inquirer from 'inquirer';
 
 /**
  * Collect tags from project configuration
  * @param config Project configuration
  * @param existingTags Existing tag values
- * @returns Selected tags
+ * @param discoveredTags Tags discovered in the playbook
+ * @returns Tags to run and to skip
  */
 export async function collectTagsFromConfig(
   config: ProjectConfig,
-  existingTags: string[] = []
-): Promise<string[]> {
+  existingTags: string[] = [],
+  discoveredTags: string[] = []
+): Promise<TagSelection> {
   const tagsConfig = config.tags;
-  if (!tagsConfig) {
-    return [];
+  if (!tagsConfig && discoveredTags.length === 0) {
+    return { tags: [], skip: [] };
   }
 
-  return collectTagsFromDefinition(tagsConfig, existingTags);
+  return collectTagsFromDefinition(tagsConfig || {}, existingTags, discoveredTags);
 }
 
 /**
  * Collect tags from tags configuration
+ * Groups can skip tags in addition to selecting them
  * @param tagsConfig Tags configuration
  * @param existingTags Existing tag values
- * @returns Selected tags
+ * @param discoveredTags Tags discovered in the playbook, offered with the configured tags
+ * @returns Tags to run (--tags) and to skip (--skip-tags)
  */
 export async function collectTagsFromDefinition(
   tagsConfig: TagsConfig,
-  existingTags: string[] = []
-): Promise<string[]> {
+  existingTags: string[] = [],
+  discoveredTags: string[] = []
+): Promise<TagSelection> {
   // Normalize the tags configuration
   const normalized = normalizeTagsConfig(tagsConfig);
 
-  // If no tags defined, return empty array
+  // Discovered tags without a configured description are offered by name
+  for (const tag of discoveredTags) {
+    normalized.tags[tag] ??= tag;
+  }
+
+  // If no tags defined, return empty selection
   if (Object.keys(normalized.tags).length === 0) {
-    return [];
+    return { tags: [], skip: [] };
   }
 
+  // Describe a group by its tags and skipped tags
+  const describe = (name: string, tags: string[]) =>
+    [...tags, ...(normalized.skip[name] || []).map(tag => `!${tag}`)].join(', ');
+
   logger.subsection('Tag Selection');
   logger.info('Please select the Ansible tags to execute:');
 
@@ -57,9 +77,9 @@ export async function collectTagsFromDefinition(
   });
 
   // Add default option if available
-  if (normalized.default.length > 0) {
+  if (normalized.default.length > 0 || normalized.skip.default) {
     quickOptions.push({
-      name: `default (${normalized.default.join(', ')})`,
+      name: `default (${describe('default', normalized.default)})`,
       value: 'default',
     });
   }
@@ -67,7 +87,7 @@ export async function collectTagsFromDefinition(
   // Add group options
   for (const [groupName, groupTags] of Object.entries(normalized.groups)) {
     quickOptions.push({
-      name: `${groupName} (${(groupTags as string[]).join(', ')})`,
+      name: `${groupName} (${describe(groupName, groupTags)})`,
       value: groupName,
     });
   }
@@ -88,13 +108,16 @@ export async function collectTagsFromDefinition(
 
   // If user selected a predefined option, return those tags
   if (quickResponse.selection === 'all') {
-    return []; // Empty array means no tag filtering (run all tasks)
+    return { tags: [], skip: [] }; // No tag filtering (run all tasks)
   }
   if (quickResponse.selection === 'default') {
-    return normalized.default;
+    return { tags: normalized.default, skip: normalized.skip.default || [] };
   }
   if (quickResponse.selection && normalized.groups[quickResponse.selection]) {
-    return normalized.groups[quickResponse.selection];
+    return {
+      tags: normalized.groups[quickResponse.selection],
+      skip: normalized.skip[quickResponse.selection] || [],
+    };
   }
 
   // Custom selection: show individual tags
@@ -119,7 +142,7 @@ export async function collectTagsFromDefinition(
     },
   });
 
-  return customResponse.selectedTags;
+  return { tags: customResponse.selectedTags, skip: [] };
 }
 
 /**
@@ -220,14 +243,16 @@ export function getTagsFromGroup(tagsConfig: TagsConfig, groupName: string): str
  * Check if tags should be collected
  * @param config Project configuration
  * @param options Command options
+ * @param discoveredTags Tags discovered in the playbook
  * @returns Whether to collect tags
  */
 export async function shouldCollectTags(
   config: ProjectConfig,
-  options: { tags?: string; yes?: boolean }
+  options: { tags?: string; 'skip-tags'?: string; yes?: boolean },
+  discoveredTags: string[] = []
 ): Promise<boolean> {
   // If tags already specified via command line, don't collect
-  if (options.tags) {
+  if (options.tags || options['skip-tags']) {
     return false;
   }
 
@@ -236,6 +261,11 @@ export async function shouldCollectTags(
     return false;
   }
 
+  // Tags discovered in the playbook can be selected without a tags configuration
+  if (discoveredTags.length > 0) {
+    return true;
+  }
+
   // If no tags configuration, don't collect
   if (!config.tags) {
     return false;
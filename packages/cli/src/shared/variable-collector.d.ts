@@ -4,31 +4,46 @@
  * This module provides shared functionality for collecting and managing variables
  * from aship.yml configuration files.
  */
-import type { ProjectConfig, VariableDefinition } from '@aship/core';
+import type { ProjectConfig, VariableDefinition, VariableGroup } from '@aship/core';
 /**
  * Parse extra variables from command line
  * @param extraVarsStr Extra variables string (format: key1=value1,key2=value2)
  * @returns Parsed extra variables
  */
 export declare function parseExtraVars(extraVarsStr?: string): Record<string, any>;
+/**
+ * Options for interactive variable collection
+ */
+export interface CollectVariablesOptions {
+  /** Group order from var_groups in aship.yml */
+  groups?: VariableGroup[];
+  /** Show a review screen at the end that allows editing answers */
+  review?: boolean;
+  /** Values that are used without prompting, e.g. secrets from the project vault */
+  fixed?: Record<string, any>;
+}
 /**
  * Configure variables from config definition
  * @param config Project configuration
  * @param existingVars Existing variable values
+ * @param fixedVars Values that are used without prompting
  * @returns Configured variables
  */
 export declare function collectVariablesFromConfig(
   config: ProjectConfig,
-  existingVars?: Record<string, any>
+  existingVars?: Record<string, any>,
+  fixedVars?: Record<string, any>
 ): Promise<Record<string, any>>;
 /**
  * Configure variables from variable definitions (for testing and direct use)
  * @param vars Variable definitions
  * @param existingVars Existing variable values
+ * @param options Collection options
  * @returns Configured variables
  */
 export declare function collectVariablesFromDefinitions(
   vars: Record<string, VariableDefinition>,
-  existingVars?: Record<string, any>
+  existingVars?: Record<string, any>,
+  options?: CollectVariablesOptions
 ): Promise<Record<string, any>>;
 //# sourceMappingURL=variable-collector.d.ts.map
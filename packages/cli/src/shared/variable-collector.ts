@@ -5,7 +5,17 @@
  * from aship.yml configuration files.
  */
 
-import { type ProjectConfig, type VariableDefinition, logger } from '@aship/core';
+import {
+  type ProjectConfig,
+  type VariableDefinition,
+  type VariableGroup,
+  type VariableSection,
+  groupVariableDefinitions,
+  isVariableActive,
+  logger,
+  resolveDefaultValue,
+  validateVariableValue,
+} from '@aship/core';
 import chalk from 'chalk';
 import inquirer from 'inquirer';
 
@@ -38,33 +48,56 @@ export function parseExtraVars(extraVarsStr?: string): Record<string, any> {
   return extraVars;
 }
 
+/**
+ * Options for interactive variable collection
+ */
+export interface CollectVariablesOptions {
+  /** Group order from var_groups in aship.yml */
+  groups?: VariableGroup[];
+  /** Show a review screen at the end that allows editing answers */
+  review?: boolean;
+  /** Values that are used without prompting, e.g. secrets from the project vault */
+  fixed?: Record<string, any>;
+}
+
 /**
  * Configure variables from config definition
  * @param config Project configuration
  * @param existingVars Existing variable values
+ * @param fixedVars Values that are used without prompting
  * @returns Configured variables
  */
 export async function collectVariablesFromConfig(
   config: ProjectConfig,
-  existingVars: Record<string, any> = {}
+  existingVars: Record<string, any> = {},
+  fixedVars: Record<string, any> = {}
 ): Promise<Record<string, any>> {
   const vars = config.vars || {};
-  return collectVariablesFromDefinitions(vars, existingVars);
+  return collectVariablesFromDefinitions(vars, existingVars, {
+    groups: config.var_groups,
+    review: true,
+    fixed: fixedVars,
+  });
 }
 
 /**
  * Configure variables from variable definitions (for testing and direct use)
+ * Variables are prompted in sections per group and in dependency order,
+ * variables whose conditions are false are skipped
  * @param vars Variable definitions
  * @param existingVars Existing variable values
+ * @param options Collection options
  * @returns Configured variables
  */
 export async function collectVariablesFromDefinitions(
   vars: Record<string, VariableDefinition>,
-  existingVars: Record<string, any> = {}
+  existingVars: Record<string, any> = {},
+  options: CollectVariablesOptions = {}
 ): Promise<Record<string, any>> {
   const result: Record<string, any> = {};
-  const varEntries = Object.entries(vars);
-  const totalCount = varEntries.length;
+  const fixed = options.fixed || {};
+  const sections = groupVariableDefinitions(vars, options.groups);
+  const totalCount = Object.keys(vars).length;
 
   // If no variables to configure, return empty object
   if (totalCount === 0) {
@@ -74,90 +107,282 @@ export async function collectVariablesFromDefinitions(
   logger.subsection('Variable Configuration');
   logger.info('Please provide values for the following variables:');
 
-  // Configure variables one by one with progress
-  for (let index = 0; index < varEntries.length; index++) {
-    const [name, varDef] = varEntries[index];
-    const currentPosition = index + 1;
-    // Type assertion for varDef
-    const typedVarDef = varDef as VariableDefinition;
-
-    // Use existing value if available, otherwise use default
-    // For password type, don't use existing values as default
-    const defaultValue =
-      typedVarDef.type === 'password'
-        ? typedVarDef.default
-        : existingVars[name] !== undefined
-          ? existingVars[name]
-          : typedVarDef.default;
-
-    // Display multi-line description with left border
-    if (typedVarDef.description?.includes('\n')) {
-      console.log(''); // Add spacing before the description
-
-      // Variable name header
-      console.log(`  ${chalk.cyan.bold(name)}:`);
-
-      // Description content with left border
-      const lines = typedVarDef.description.split('\n');
-      lines.forEach((line: string, index: number) => {
-        const trimmedLine = line.trim();
-        if (trimmedLine) {
-          if (index === 0) {
-            // Main description
-            console.log(`  │ ${chalk.gray(trimmedLine)}`);
-          } else if (trimmedLine.startsWith('•')) {
-            // Format options
-            console.log(`  │ ${chalk.dim(trimmedLine)}`);
-          } else {
-            // Other content
-            console.log(`  │ ${chalk.gray(trimmedLine)}`);
-          }
-        } else if (index > 0 && index < lines.length - 1) {
-          // Empty line in the middle
-          console.log('  │');
-        }
-      });
+  let position = 0;
+  for (const section of sections) {
+    if (section.name) {
+      displaySectionHeader(section);
+
+      // Offer to accept the defaults of the whole group at once
+      if (await acceptGroupDefaults(section, vars, existingVars, result, fixed)) {
+        position += section.variables.length;
+        continue;
+      }
+    }
+
+    // Configure variables one by one with progress
+    for (const name of section.variables) {
+      position++;
+
+      // Skip variables that are not relevant for the answers given so far
+      if (!isVariableActive(vars[name], result)) {
+        continue;
+      }
+
+      if (fixed[name] !== undefined) {
+        result[name] = fixed[name];
+        continue;
+      }
+
+      result[name] = await promptVariable(
+        name,
+        vars[name],
+        existingVars,
+        result,
+        `[${position}/${totalCount}]`
+      );
+    }
+  }
+
+  if (options.review) {
+    await reviewVariables(sections, vars, existingVars, result, fixed);
+  }
+
+  return result;
+}
+
+/**
+ * Display the header of a variable group
+ */
+function displaySectionHeader(section: VariableSection): void {
+  console.log('');
+  console.log(chalk.cyan.bold(`▸ ${section.name}`));
+  if (section.description) {
+    console.log(chalk.gray(`  ${section.description}`));
+  }
+}
 
-      console.log(''); // Add spacing after the description
+/**
+ * Get the value a variable gets without prompting: its existing value or its default
+ * Templated defaults are rendered with the answers collected so far
+ */
+function getDefaultValue(
+  name: string,
+  varDef: VariableDefinition,
+  existingVars: Record<string, any>,
+  result: Record<string, any>
+): any {
+  // For password type, don't use existing values as default
+  return varDef.type !== 'password' && existingVars[name] !== undefined
+    ? existingVars[name]
+    : resolveDefaultValue(varDef, result);
+}
+
+/**
+ * Ask whether to accept the defaults of all variables in a group
+ * Only offered when every relevant variable of the group has a valid default
+ * @returns Whether the defaults were accepted (and stored in result)
+ */
+async function acceptGroupDefaults(
+  section: VariableSection,
+  vars: Record<string, VariableDefinition>,
+  existingVars: Record<string, any>,
+  result: Record<string, any>,
+  fixed: Record<string, any>
+): Promise<boolean> {
+  const values: Record<string, any> = {};
+  const context = { ...result };
+
+  for (const name of section.variables) {
+    if (!isVariableActive(vars[name], context)) {
+      continue;
     }
+    const value = fixed[name] ?? getDefaultValue(name, vars[name], existingVars, context);
+    if (value === undefined || validateInput(value, vars[name]) !== true) {
+      return false;
+    }
+    values[name] = value;
+    context[name] = value;
+  }
 
-    // Create progress prefix
-    const progressPrefix = `[${currentPosition}/${totalCount}]`;
+  const count = Object.keys(values).length;
+  if (count < 2) {
+    return false;
+  }
 
-    // Create a simple, clean prompt message
-    const message = createPromptMessage(name, typedVarDef, existingVars[name], progressPrefix);
+  const { accept } = await inquirer.prompt({
+    type: 'confirm',
+    name: 'accept',
+    message: `Accept the defaults for all ${count} variables in ${section.name}?`,
+    default: false,
+  });
 
-    const promptConfig: any = {
-      type: getInputType(typedVarDef.type),
-      name: 'value',
-      message,
-      validate: (input: any) => validateInput(input, typedVarDef),
-    };
+  if (accept) {
+    for (const [name, value] of Object.entries(values)) {
+      console.log(`  ${chalk.gray(name)} = ${formatAnswer(value, vars[name])}`);
+    }
+    Object.assign(result, values);
+  }
+  return accept;
+}
 
-    // Only set default value for non-password types
-    if (typedVarDef.type !== 'password') {
-      promptConfig.default = formatValueForInput(defaultValue, typedVarDef.type);
+/**
+ * Show the collected answers and let the user edit any of them before continuing
+ */
+async function reviewVariables(
+  sections: VariableSection[],
+  vars: Record<string, VariableDefinition>,
+  existingVars: Record<string, any>,
+  result: Record<string, any>,
+  fixed: Record<string, any>
+): Promise<void> {
+  while (true) {
+    const answered = sections.flatMap(section => section.variables).filter(name => name in result);
+    if (answered.length === 0) {
+      return;
     }
 
-    // Add mask for password type
-    if (typedVarDef.type === 'password') {
-      promptConfig.mask = '*';
+    console.log('');
+    console.log(chalk.cyan.bold('Review'));
+    for (const section of sections) {
+      const names = section.variables.filter(name => name in result);
+      if (names.length === 0) {
+        continue;
+      }
+      if (section.name) {
+        console.log(chalk.gray(`  ${section.name}`));
+      }
+      for (const name of names) {
+        console.log(`    ${chalk.white(name)} = ${formatAnswer(result[name], vars[name])}`);
+      }
     }
+    console.log('');
+
+    const { action } = await inquirer.prompt({
+      type: 'list',
+      name: 'action',
+      message: 'Continue with these values?',
+      choices: [
+        { name: 'Continue', value: 'continue' },
+        ...answered
+          .filter(name => fixed[name] === undefined)
+          .map(name => ({ name: `Edit ${name}`, value: name })),
+      ],
+    });
 
-    // Add choices for choice and multiselect types
-    if (
-      (typedVarDef.type === 'choice' || typedVarDef.type === 'multiselect') &&
-      typedVarDef.choices
-    ) {
-      promptConfig.choices = typedVarDef.choices;
+    if (action === 'continue') {
+      return;
+    }
+
+    result[action] = await promptVariable(action, vars[action], existingVars, result);
+
+    // Changed answers can show or hide other variables
+    for (const section of sections) {
+      for (const name of section.variables) {
+        if (!isVariableActive(vars[name], result)) {
+          delete result[name];
+        } else if (!(name in result)) {
+          result[name] =
+            fixed[name] ?? (await promptVariable(name, vars[name], existingVars, result));
+        }
+      }
     }
+  }
+}
 
-    const response = await inquirer.prompt(promptConfig);
+/**
+ * Format an answer for the review screen, masking passwords
+ */
+function formatAnswer(value: any, varDef: VariableDefinition): string {
+  if (varDef.type === 'password') {
+    return chalk.dim(value ? '********' : '(empty)');
+  }
+  return value === undefined ? chalk.dim('(empty)') : chalk.green(formatValueForDisplay(value));
+}
 
-    result[name] = convertValue(response.value, typedVarDef.type);
+/**
+ * Prompt for a single variable
+ * @param name Variable name
+ * @param typedVarDef Variable definition
+ * @param existingVars Existing variable values
+ * @param result Answers collected so far
+ * @param progressPrefix Progress prefix like [1/5]
+ * @returns Converted value
+ */
+async function promptVariable(
+  name: string,
+  typedVarDef: VariableDefinition,
+  existingVars: Record<string, any>,
+  result: Record<string, any>,
+  progressPrefix?: string
+): Promise<any> {
+  // A previous answer given in this session wins over stored values
+  const defaultValue =
+    result[name] !== undefined && typedVarDef.type !== 'password'
+      ? result[name]
+      : getDefaultValue(name, typedVarDef, existingVars, result);
+
+  // Display multi-line description with left border
+  if (typedVarDef.description?.includes('\n')) {
+    console.log(''); // Add spacing before the description
+
+    // Variable name header
+    console.log(`  ${chalk.cyan.bold(name)}:`);
+
+    // Description content with left border
+    const lines = typedVarDef.description.split('\n');
+    lines.forEach((line: string, index: number) => {
+      const trimmedLine = line.trim();
+      if (trimmedLine) {
+        if (index === 0) {
+          // Main description
+          console.log(`  │ ${chalk.gray(trimmedLine)}`);
+        } else if (trimmedLine.startsWith('•')) {
+          // Format options
+          console.log(`  │ ${chalk.dim(trimmedLine)}`);
+        } else {
+          // Other content
+          console.log(`  │ ${chalk.gray(trimmedLine)}`);
+        }
+      } else if (index > 0 && index < lines.length - 1) {
+        // Empty line in the middle
+        console.log('  │');
+      }
+    });
+
+    console.log(''); // Add spacing after the description
   }
 
-  return result;
+  // Create a simple, clean prompt message
+  const message = createPromptMessage(name, typedVarDef, existingVars[name], progressPrefix);
+
+  const promptConfig: any = {
+    type: getInputType(typedVarDef.type),
+    name: 'value',
+    message,
+    validate: (input: any) => validateInput(input, typedVarDef),
+  };
+
+  // Only set default value for non-password types
+  if (typedVarDef.type !== 'password') {
+    promptConfig.default = formatValueForInput(defaultValue, typedVarDef.type);
+  }
+
+  // Add mask for password type
+  if (typedVarDef.type === 'password') {
+    promptConfig.mask = '*';
+  }
+
+  // Add choices for choice and multiselect types
+  if (
+    (typedVarDef.type === 'choice' || typedVarDef.type === 'multiselect') &&
+    typedVarDef.choices
+  ) {
+    promptConfig.choices = typedVarDef.choices;
+  }
+
+  const response = await inquirer.prompt(promptConfig);
+
+  return convertValue(response.value, typedVarDef.type);
 }
 
 /**
@@ -244,6 +469,52 @@ function validateInput(input: any, varDef: any): boolean | string {
     }
   }
 
+  if (varDef.type === 'float' && input !== '' && input !== undefined) {
+    const num = Number(input);
+    if (!Number.isFinite(num)) {
+      return 'Please enter a valid number';
+    }
+
+    // Check min/max constraints
+    if (varDef.min !== undefined && num < varDef.min) {
+      return `Value must be at least ${varDef.min}`;
+    }
+    if (varDef.max !== undefined && num > varDef.max) {
+      return `Value must be at most ${varDef.max}`;
+    }
+  }
+
+  if (
+    (varDef.type === 'dict' || varDef.type === 'json') &&
+    typeof input === 'string' &&
+    input.trim() !== ''
+  ) {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(input);
+    } catch {
+      return 'Please enter valid JSON';
+    }
+    if (
+      varDef.type === 'dict' &&
+      (typeof parsed !== 'object' || parsed === null || Array.isArray(parsed))
+    ) {
+      return 'Please enter a JSON object, e.g. {"key": "value"}';
+    }
+  }
+
+  if (
+    ['path', 'url', 'email', 'ip', 'cidr'].includes(varDef.type) &&
+    input !== '' &&
+    input !== undefined
+  ) {
+    // Formats are checked by the core schemas, paths must exist locally
+    const result = validateVariableValue(varDef, String(input).trim());
+    if (!result.success) {
+      return result.error || `Please enter a valid ${varDef.type}`;
+    }
+  }
+
   if (varDef.type === 'choice' && input !== '' && input !== undefined) {
     if (!varDef.choices || !varDef.choices.includes(input)) {
       return `Value must be one of: ${varDef.choices?.join(', ') || 'no choices available'}`;
@@ -314,6 +585,9 @@ function formatValueForInput(value: any, type: string): any {
       return Array.isArray(value) ? value : [];
     case 'bool':
       return Boolean(value);
+    case 'dict':
+    case 'json':
+      return value === undefined || typeof value === 'string' ? value : JSON.stringify(value);
     default:
       return value;
   }
@@ -328,7 +602,21 @@ function formatValueForInput(value: any, type: string): any {
 function convertValue(value: any, type: string): any {
   switch (type) {
     case 'int':
+    case 'float':
       return Number(value);
+    case 'path':
+    case 'url':
+    case 'email':
+    case 'ip':
+    case 'cidr':
+      return String(value).trim();
+    case 'dict':
+    case 'json':
+      // Empty optional values stay unset
+      if (typeof value === 'string') {
+        return value.trim() === '' ? undefined : JSON.parse(value);
+      }
+      return value;
     case 'bool':
       return Boolean(value);
     case 'list':
@@ -0,0 +1,151 @@
+/**
+ * Vault helpers for CLI commands
+ *
+ * This module provides shared functionality for opening the project vault
+ * and asking for its password.
+ */
+
+import * as path from 'node:path';
+import {
+  DirectoryManager,
+  type ProjectConfig,
+  ProjectVault,
+  type VaultAccess,
+  logger,
+  resolveVaultOptions,
+} from '@aship/core';
+import inquirer from 'inquirer';
+import { OCLIFFormatter } from '../utils/oclif-formatter.js';
+
+/**
+ * Create the vault of a project
+ * @param config Project configuration
+ * @param currentDir Project directory
+ * @param passwordFile Password file given on the command line
+ */
+export function createProjectVault(
+  config: ProjectConfig,
+  currentDir: string,
+  passwordFile?: string
+): ProjectVault {
+  return new ProjectVault(
+    resolveVaultOptions(config.vault, currentDir, passwordFile),
+    new DirectoryManager()
+  );
+}
+
+/**
+ * Prompt for a vault password
+ * @param message Prompt message
+ * @param confirm Ask twice, for new passwords
+ * @returns Password
+ * @throws Error if the confirmation does not match
+ */
+export async function promptVaultPassword(message: string, confirm = false): Promise<string> {
+  const { password } = await inquirer.prompt({
+    type: 'password',
+    name: 'password',
+    message,
+    mask: '*',
+    validate: (input: string) => (input ? true : 'Password cannot be empty'),
+  });
+
+  if (confirm) {
+    const { repeated } = await inquirer.prompt({
+      type: 'password',
+      name: 'repeated',
+      message: 'Confirm password',
+      mask: '*',
+    });
+    if (repeated !== password) {
+      throw new Error('Passwords do not match');
+    }
+  }
+
+  return password;
+}
+
+/**
+ * Open the vault of a project, prompting for the password when no password file is set
+ * @param config Project configuration
+ * @param currentDir Project directory
+ * @param options Password file given on the command line, and whether the vault is new
+ */
+export async function openProjectVault(
+  config: ProjectConfig,
+  currentDir: string,
+  options: { passwordFile?: string; create?: boolean } = {}
+): Promise<ProjectVault> {
+  const vault = createProjectVault(config, currentDir, options.passwordFile);
+
+  const exists = await vault.exists();
+  if (options.create && exists) {
+    throw new Error(
+      `Vault ${vault.file} already exists, use "aship vault edit" or "aship vault rekey"`
+    );
+  }
+  if (!options.create && !exists) {
+    throw new Error(`Vault ${vault.file} does not exist, create it with "aship vault init"`);
+  }
+
+  if (vault.needsPassword) {
+    vault.setPassword(
+      await promptVaultPassword(
+        options.create ? 'New vault password' : 'Vault password',
+        options.create
+      )
+    );
+  }
+
+  return vault;
+}
+
+/**
+ * Read password variables from the project vault
+ * @param config Project configuration
+ * @param currentDir Project directory
+ * @param names Names of the variables to read
+ * @param options Password file given on the command line and whether prompting is skipped
+ * @returns Vault access for Ansible and the values found in the vault,
+ * or undefined if the vault is not used
+ */
+export async function readVaultVariables(
+  config: ProjectConfig,
+  currentDir: string,
+  names: string[],
+  options: { passwordFile?: string; yes?: boolean } = {}
+): Promise<{ access: VaultAccess; values: Record<string, any> } | undefined> {
+  if (names.length === 0) {
+    return undefined;
+  }
+
+  const vault = createProjectVault(config, currentDir, options.passwordFile);
+  if (!(await vault.exists())) {
+    return undefined;
+  }
+
+  const file = path.relative(currentDir, vault.file);
+  if (vault.needsPassword) {
+    if (options.yes) {
+      logger.warn(
+        `Vault ${file} is not used: set vault.password_file in aship.yml or pass --vault-password-file`
+      );
+      return undefined;
+    }
+    vault.setPassword(await promptVaultPassword(`Vault password for ${file}`));
+  }
+
+  const stored = await vault.read();
+  const values: Record<string, any> = {};
+  for (const name of names) {
+    if (stored[name] !== undefined) {
+      values[name] = stored[name];
+    }
+  }
+  if (Object.keys(values).length === 0) {
+    return undefined;
+  }
+
+  OCLIFFormatter.info(`Using ${Object.keys(values).join(', ')} from vault ${file}`);
+  return { access: await vault.getAnsibleAccess(), values };
+}
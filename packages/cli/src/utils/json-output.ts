@@ -0,0 +1,38 @@
+/**
+ * Machine-readable command output
+ *
+ * Commands with JSON or other machine-readable output keep stdout for the result: while the
+ * command runs, everything else written to stdout (messages, prompts and Ansible output)
+ * goes to stderr.
+ */
+
+const writeStdout = process.stdout.write.bind(process.stdout);
+
+/**
+ * Send everything written to stdout to stderr
+ * @returns Function that restores stdout
+ */
+export function redirectStdoutToStderr(): () => void {
+  const original = process.stdout.write;
+  process.stdout.write = process.stderr.write.bind(process.stderr) as typeof process.stdout.write;
+
+  return () => {
+    process.stdout.write = original;
+  };
+}
+
+/**
+ * Write a result to stdout, also while stdout is redirected
+ * @param content Result, for example an XML report
+ */
+export function writeResult(content: string): void {
+  writeStdout(content.endsWith('\n') ? content : `${content}\n`);
+}
+
+/**
+ * Write a JSON result to stdout, also while stdout is redirected
+ * @param value Result
+ */
+export function writeJsonResult(value: unknown): void {
+  writeResult(JSON.stringify(value, null, 2));
+}
@@ -3,6 +3,7 @@
  * Provides theme-aware, responsive formatting with proper ANSI handling
  */
 
+import { type HostRecap, isHostFailed } from '@aship/core';
 import { ux } from '@oclif/core';
 
 export interface CommandDisplayOptions {
@@ -286,7 +287,9 @@ export const OCLIFFormatter = {
     playbookPath: string,
     executionTime?: number,
     exitCode?: number,
-    stderr?: string
+    stderr?: string,
+    environment?: string,
+    hosts?: Record<string, HostRecap>
   ): void {
     // Main status message
     if (success) {
@@ -301,11 +304,66 @@ export const OCLIFFormatter = {
       { label: 'Playbook', value: playbookPath, color: 'aship.highlight' },
     ];
 
+    if (environment) {
+      summaryItems.push({ label: 'Environment', value: environment });
+    }
+
     if (executionTime !== undefined) {
       const timeInSeconds = (executionTime / 1000).toFixed(3);
       summaryItems.push({ label: 'Duration', value: `${timeInSeconds}s` });
     }
 
+    if (hosts && Object.keys(hosts).length > 0) {
+      const recaps = Object.values(hosts);
+      const failed = recaps.filter(isHostFailed).length;
+      summaryItems.push({
+        label: 'Results',
+        value: `${recaps.length - failed} ok, ${failed} failed`,
+        color: failed > 0 ? 'aship.error' : 'aship.success',
+      });
+    }
+
     OCLIFFormatter.summary('Execution Summary', summaryItems);
+
+    if (hosts) {
+      OCLIFFormatter.playRecap(hosts);
+    }
+  },
+
+  /**
+   * Display the per-host results of a playbook run
+   * Skipped, rescued and ignored counts are only shown when they are not zero
+   */
+  playRecap(hosts: Record<string, HostRecap>): void {
+    const names = Object.keys(hosts);
+    if (names.length === 0) {
+      return;
+    }
+
+    ux.stdout('');
+    ux.stdout(ux.colorize('sectionHeader', 'Play Recap'));
+
+    const maxNameWidth = Math.max(...names.map(name => name.length));
+    for (const name of names) {
+      const recap = hosts[name];
+      const counters = [
+        `ok=${recap.ok}`,
+        `changed=${recap.changed}`,
+        `unreachable=${recap.unreachable}`,
+        `failed=${recap.failed}`,
+        ...(['skipped', 'rescued', 'ignored'] as const)
+          .filter(counter => recap[counter] > 0)
+          .map(counter => `${counter}=${recap[counter]}`),
+      ];
+
+      let color = 'aship.success';
+      if (isHostFailed(recap)) {
+        color = 'aship.error';
+      } else if (recap.changed > 0) {
+        color = 'aship.warning';
+      }
+
+      ux.stdout(` ${ux.colorize(color, name.padEnd(maxNameWidth))}    ${counters.join('  ')}`);
+    }
   },
 };
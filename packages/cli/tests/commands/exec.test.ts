@@ -0,0 +1,23 @@
+import {describe, expect, it} from 'vitest'
+import Exec from '../../src/commands/exec.js'
+
+describe('exec command', () => {
+  it('has correct description and args', () => {
+    expect(Exec.description).toBe('Execute a single task on target servers (ansible command)')
+    expect(Exec.args.pattern).toBeDefined()
+    expect(Exec.args.module).toBeDefined()
+  })
+
+  it('targets aship hosts and inventories like run', () => {
+    expect(Exec.flags.hosts.char).toBe('H')
+    expect(Exec.flags.inventory.char).toBe('i')
+    expect(Exec.flags['inventory-mode'].options).toEqual(['replace', 'inject', 'merge'])
+    expect(Exec.flags['inventory-mode'].default).toBe('inject')
+    expect(Exec.flags.limit).toBeDefined()
+  })
+
+  it('keeps the module flag', () => {
+    expect(Exec.flags.module.char).toBe('m')
+    expect(Exec.flags.args.char).toBe('a')
+  })
+})
@@ -0,0 +1,29 @@
+import {describe, expect, it} from 'vitest'
+import History from '../../../src/commands/history/index.js'
+
+describe('history command', () => {
+  it('has correct description and aliases', () => {
+    expect(History.description).toBe('List past aship run and exec invocations')
+    expect(History.aliases).toEqual(['history:list', 'history:ls'])
+  })
+
+  it('has all filter flags', () => {
+    expect(History.flags.limit).toBeDefined()
+    expect(History.flags.host).toBeDefined()
+    expect(History.flags.playbook).toBeDefined()
+    expect(History.flags.command).toBeDefined()
+    expect(History.flags.failed).toBeDefined()
+    expect(History.flags.since).toBeDefined()
+    expect(History.flags.until).toBeDefined()
+  })
+
+  it('has correct format options', () => {
+    expect(History.flags.format.options).toEqual(['table', 'json'])
+    expect(History.flags.format.default).toBe('table')
+  })
+
+  it('has examples', () => {
+    expect(History.examples).toBeDefined()
+    expect(History.examples.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,22 @@
+import {describe, expect, it} from 'vitest'
+import HistoryShow from '../../../src/commands/history/show.js'
+
+describe('history show command', () => {
+  it('has correct description', () => {
+    expect(HistoryShow.description).toBe('Show details and captured output of a recorded run')
+  })
+
+  it('defaults to the last run', () => {
+    expect(HistoryShow.args.id).toBeDefined()
+    expect(HistoryShow.args.id.default).toBe('last')
+  })
+
+  it('can re-display captured output', () => {
+    expect(HistoryShow.flags.output).toBeDefined()
+    expect(HistoryShow.flags.output.default).toBe(true)
+  })
+
+  it('has correct format options', () => {
+    expect(HistoryShow.flags.format.options).toEqual(['text', 'json'])
+  })
+})
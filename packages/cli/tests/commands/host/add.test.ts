@@ -17,6 +17,19 @@ describe('host add command', () => {
     expect(HostAdd.flags['non-interactive']).toBeDefined()
     expect(HostAdd.flags.test).toBeDefined()
     expect(HostAdd.flags.force).toBeDefined()
+    expect(HostAdd.flags['host-key-policy']).toBeDefined()
+    expect(HostAdd.flags.group).toBeDefined()
+    expect(HostAdd.flags.label).toBeDefined()
+    expect(HostAdd.flags['jump-host']).toBeDefined()
+  })
+
+  it('accepts repeatable groups and labels', () => {
+    expect(HostAdd.flags.group.multiple).toBe(true)
+    expect(HostAdd.flags.label.multiple).toBe(true)
+  })
+
+  it('accepts the host key policies', () => {
+    expect(HostAdd.flags['host-key-policy'].options).toEqual(['strict', 'tofu', 'off'])
   })
 
   it('has correct flag aliases', () => {
@@ -28,6 +41,7 @@ describe('host add command', () => {
     expect(HostAdd.flags.description.char).toBe('d')
     expect(HostAdd.flags.test.char).toBe('t')
     expect(HostAdd.flags.force.char).toBe('f')
+    expect(HostAdd.flags['jump-host'].char).toBe('J')
   })
 
   it('has correct default values', () => {
@@ -0,0 +1,26 @@
+import {describe, expect, it} from 'vitest'
+import HostDoctor from '../../../src/commands/host/doctor.js'
+
+describe('host doctor command', () => {
+  it('has correct description and aliases', () => {
+    expect(HostDoctor.description).toBe(
+      'Check the hosts file and host usage statistics for broken entries',
+    )
+    expect(HostDoctor.aliases).toEqual(['host:check-config'])
+  })
+
+  it('has all required flags', () => {
+    expect(HostDoctor.flags.fix).toBeDefined()
+    expect(HostDoctor.flags.format).toBeDefined()
+  })
+
+  it('has correct default values', () => {
+    expect(HostDoctor.flags.fix.default).toBe(false)
+    expect(HostDoctor.flags.format.default).toBe('table')
+    expect(HostDoctor.flags.format.options).toEqual(['table', 'json'])
+  })
+
+  it('has examples', () => {
+    expect(HostDoctor.examples).toContain('<%= config.bin %> <%= command.id %> --fix')
+  })
+})
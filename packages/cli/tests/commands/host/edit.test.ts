@@ -9,7 +9,7 @@ describe('host edit command', () => {
 
   it('has correct args', () => {
     expect(HostEdit.args.name).toBeDefined()
-    expect(HostEdit.args.name.description).toBe('Name of the host to edit')
+    expect(HostEdit.args.name.description).toBe('Name of the host to edit, or @group to edit group variables')
     expect(HostEdit.args.name.required).toBe(false)
   })
 
@@ -24,10 +24,18 @@ describe('host edit command', () => {
     expect(HostEdit.flags.test).toBeDefined()
     expect(HostEdit.flags['clear-identity']).toBeDefined()
     expect(HostEdit.flags['clear-description']).toBeDefined()
+    expect(HostEdit.flags['jump-host']).toBeDefined()
+    expect(HostEdit.flags['clear-jump-host']).toBeDefined()
+  })
+
+  it('has variable flags', () => {
+    expect(HostEdit.flags.var.multiple).toBe(true)
+    expect(HostEdit.flags['unset-var'].multiple).toBe(true)
   })
 
   it('has correct flag aliases', () => {
     expect(HostEdit.flags.interactive.char).toBe('i')
+    expect(HostEdit.flags['jump-host'].char).toBe('J')
   })
 
   it('has correct default values', () => {
@@ -36,6 +44,7 @@ describe('host edit command', () => {
     expect(HostEdit.flags.test.default).toBe(false)
     expect(HostEdit.flags['clear-identity'].default).toBe(false)
     expect(HostEdit.flags['clear-description'].default).toBe(false)
+    expect(HostEdit.flags['clear-jump-host'].default).toBe(false)
   })
 
   it('has examples with aliases', () => {
@@ -1,5 +1,11 @@
 import {describe, expect, it} from 'vitest'
 import HostTest from '../../../src/commands/host/test.js'
+import {
+  type HostTestResult,
+  createJUnitReport,
+  createJsonReport,
+  getExitCode,
+} from '../../../src/shared/host-test-report.js'
 
 describe('host test command', () => {
   it('has correct description and aliases', () => {
@@ -36,3 +42,56 @@ describe('host test command', () => {
     expect(HostTest.flags['update-usage'].default).toBe(true)
   })
 })
+
+describe('host test --all', () => {
+  const results: HostTestResult[] = [
+    {name: 'web-1', address: 'deploy@10.0.0.1', success: true, duration: 120, method: 'key'},
+    {
+      name: 'db-<1>',
+      address: '10.0.0.2:2222',
+      success: false,
+      duration: 3004,
+      message: 'Connection timeout',
+      diagnosis: {issue: 'port', message: 'Port 2222 is closed & filtered'},
+    },
+  ]
+
+  it('has concurrency, filter and report flags', () => {
+    expect(HostTest.flags.concurrency.default).toBe(5)
+    expect(HostTest.flags.filter).toBeDefined()
+    expect(HostTest.flags.source.options).toEqual(['manual', 'ssh_config', 'imported'])
+    expect(HostTest.flags.select).toBeDefined()
+    expect(HostTest.flags.format.options).toEqual(['table', 'json', 'junit'])
+    expect(HostTest.flags.format.default).toBe('table')
+  })
+
+  it('creates a JSON report', () => {
+    const report = createJsonReport(results, 3100)
+
+    expect(report).toMatchObject({total: 2, passed: 1, failed: 1, duration_ms: 3100})
+    expect(report.hosts[1]).toMatchObject({
+      name: 'db-<1>',
+      success: false,
+      duration_ms: 3004,
+      error: 'Connection timeout',
+      diagnosis: {issue: 'port'},
+    })
+  })
+
+  it('fails the run when any host fails', () => {
+    expect(getExitCode(results)).toBe(1)
+    expect(getExitCode(results.slice(0, 1))).toBe(0)
+    expect(getExitCode([])).toBe(0)
+  })
+
+  it('creates a JUnit report with escaped failures', () => {
+    const xml = createJUnitReport(results, 3100, new Date('2026-01-01T00:00:00Z'))
+
+    expect(xml).toContain('<testsuites name="aship host test" tests="2" failures="1" errors="0" time="3.100">')
+    expect(xml).toContain('timestamp="2026-01-01T00:00:00.000Z"')
+    expect(xml).toContain('<testcase name="web-1" classname="aship.hosts" time="0.120"/>')
+    expect(xml).toContain('<testcase name="db-&lt;1&gt;" classname="aship.hosts" time="3.004">')
+    expect(xml).toContain('<failure message="Connection timeout" type="port">')
+    expect(xml).toContain('Port 2222 is closed &amp; filtered</failure>')
+  })
+})
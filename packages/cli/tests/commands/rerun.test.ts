@@ -0,0 +1,23 @@
+import {describe, expect, it} from 'vitest'
+import Rerun from '../../src/commands/rerun.js'
+
+describe('rerun command', () => {
+  it('has correct description and flags', () => {
+    expect(Rerun.description).toBe(
+      'Re-run a previous playbook run with the same playbook, hosts, tags and variables',
+    )
+    expect(Rerun.flags['extra-vars']).toBeDefined()
+    expect(Rerun.flags.yes).toBeDefined()
+    expect(Rerun.flags['dry-run']).toBeDefined()
+  })
+
+  it('defaults to the last run', () => {
+    expect(Rerun.args.id).toBeDefined()
+    expect(Rerun.args.id.default).toBe('last')
+  })
+
+  it('has correct examples', () => {
+    expect(Rerun.examples).toBeDefined()
+    expect(Rerun.examples.length).toBeGreaterThan(0)
+  })
+})
@@ -1,5 +1,8 @@
-import {describe, expect, it} from 'vitest'
+import inquirer from 'inquirer'
+import {afterEach, describe, expect, it, vi} from 'vitest'
 import Run from '../../src/commands/run.js'
+import {parsePlaybookInput} from '../../src/shared/playbook-resolver.js'
+import {collectVariablesFromDefinitions, parseExtraVars} from '../../src/shared/variable-collector.js'
 
 describe('run command', () => {
   it('has correct description and flags', () => {
@@ -10,6 +13,38 @@ describe('run command', () => {
     expect(Run.flags.yes).toBeDefined()
   })
 
+  it('accepts an environment', () => {
+    expect(Run.flags.env).toBeDefined()
+  })
+
+  it('prefers an explicit inventory mode over the environment', () => {
+    const run = new Run([], {} as any) as any
+    const environment = {name: 'prod', config: {inventory: 'prod.yml', inventory_mode: 'replace'}}
+
+    expect(run.applyRunDefaults({'inventory-mode': 'merge'}, undefined, environment)).toMatchObject({
+      inventory: 'prod.yml',
+      'inventory-mode': 'merge',
+    })
+    expect(run.applyRunDefaults({}, undefined, environment)['inventory-mode']).toBe('replace')
+    expect(run.applyRunDefaults({}, undefined, undefined)['inventory-mode']).toBe('inject')
+  })
+
+  it('accepts repeatable variable files', () => {
+    expect(Run.flags['vars-file']).toBeDefined()
+    expect(Run.flags['vars-file'].multiple).toBe(true)
+  })
+
+  it('can write the result as JSON', () => {
+    expect(Run.flags.output).toBeDefined()
+    expect(Run.flags.output.options).toEqual(['text', 'json'])
+    expect(Run.flags.output.default).toBe('text')
+  })
+
+  it('has a compact progress mode', () => {
+    expect(Run.flags.compact).toBeDefined()
+    expect(Run.flags.compact.default).toBe(false)
+  })
+
   it('has correct args', () => {
     expect(Run.args.playbook).toBeDefined()
     expect(Run.args.playbook.description).toBe('Playbook name from aship.yml or file path')
@@ -20,4 +55,99 @@ describe('run command', () => {
     expect(Run.examples).toBeDefined()
     expect(Run.examples.length).toBeGreaterThan(0)
   })
+
+  it('resolves structured playbook entries from aship.yml', () => {
+    const parsed = parsePlaybookInput('deploy', {
+      name: 'app',
+      playbooks: {
+        deploy: {path: 'playbooks/deploy.yml', description: 'Deploy the app', confirm: true},
+      },
+    })
+
+    expect(parsed.type).toBe('config')
+    expect(parsed.resolvedPath.endsWith('playbooks/deploy.yml')).toBe(true)
+    expect(parsed.playbook).toEqual({
+      path: 'playbooks/deploy.yml',
+      description: 'Deploy the app',
+      confirm: true,
+    })
+  })
+})
+
+describe('run Ansible arguments', () => {
+  const argv = process.argv
+
+  afterEach(() => {
+    process.argv = argv
+  })
+
+  // Builds the ansible-playbook arguments for the given command line and parsed flags
+  const buildArgs = (args: string[], flags: Record<string, any>): string[] => {
+    process.argv = ['node', 'aship', 'run', ...args]
+    return (new Run(args, {} as any) as any).extractAllAnsibleArgs(flags, [])
+  }
+
+  it('does not pass aship-only options to ansible-playbook', () => {
+    expect(
+      buildArgs(['deploy', '--env', 'prod', '--limit', 'web'], {env: 'prod', limit: 'web'}),
+    ).toEqual(['--limit', 'web'])
+    expect(buildArgs(['deploy', '--env=prod', '--check'], {env: 'prod', check: true})).toEqual([
+      '--check',
+    ])
+  })
+
+  it('does not pass variable files to ansible-playbook', () => {
+    expect(
+      buildArgs(['deploy', '--vars-file', 'a.yml', '--vars-file=b.yml', '--diff'], {
+        'vars-file': ['a.yml', 'b.yml'],
+        diff: true,
+      }),
+    ).toEqual(['--diff'])
+  })
+
+  it('does not pass the output format to ansible-playbook', () => {
+    expect(buildArgs(['deploy', '--output', 'json'], {output: 'json'})).toEqual([])
+  })
+
+  it('does not pass compact mode to ansible-playbook', () => {
+    expect(buildArgs(['--compact', 'deploy', '--limit', 'web'], {compact: true, limit: 'web'})).toEqual(
+      ['--limit', 'web'],
+    )
+  })
+})
+
+describe('run variable collection', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('evaluates conditions with the extra vars while prompting', async () => {
+    const prompt = vi.spyOn(inquirer, 'prompt').mockResolvedValue({value: '/etc/ssl/app.pem'} as any)
+
+    const values = await collectVariablesFromDefinitions(
+      {
+        enable_ssl: {type: 'bool', default: false},
+        ssl_cert_path: {type: 'string', required: true, depends_on: 'enable_ssl'},
+      },
+      {},
+      {fixed: parseExtraVars('enable_ssl=true')},
+    )
+
+    // enable_ssl is not prompted, ssl_cert_path is prompted because enable_ssl is set
+    expect(prompt).toHaveBeenCalledTimes(1)
+    expect(values).toEqual({enable_ssl: true, ssl_cert_path: '/etc/ssl/app.pem'})
+  })
+
+  it('stores only the values the user answered', () => {
+    const run = new Run([], {} as any) as any
+    const answers = {app_name: 'web', port: 8080, region: 'eu'}
+
+    // port comes from a variable file and keeps its stored answer, region has none
+    expect(run.getAnswersToStore(answers, {port: 80}, {port: 8080, region: 'eu'})).toEqual({
+      app_name: 'web',
+      port: 80,
+    })
+    // A supplied value the user changed is an answer
+    expect(run.getAnswersToStore(answers, {}, {app_name: 'api'})).toEqual(answers)
+  })
 })
@@ -0,0 +1,25 @@
+import {describe, expect, it} from 'vitest'
+import VarsClear from '../../../src/commands/vars/clear.js'
+
+describe('vars clear command', () => {
+  it('has correct description and aliases', () => {
+    expect(VarsClear.description).toBe('Clear stored variable answers')
+    expect(VarsClear.aliases).toEqual(['vars:reset', 'vars:forget'])
+  })
+
+  it('has all required flags', () => {
+    expect(VarsClear.flags.playbook).toBeDefined()
+    expect(VarsClear.flags.all).toBeDefined()
+    expect(VarsClear.flags.force).toBeDefined()
+  })
+
+  it('has correct default values', () => {
+    expect(VarsClear.flags.all.default).toBe(false)
+    expect(VarsClear.flags.force.default).toBe(false)
+  })
+
+  it('has examples', () => {
+    expect(VarsClear.examples).toBeDefined()
+    expect(VarsClear.examples.length).toBeGreaterThan(0)
+  })
+})
@@ -0,0 +1,26 @@
+import {describe, expect, it} from 'vitest'
+import VarsShow from '../../../src/commands/vars/show.js'
+
+describe('vars show command', () => {
+  it('has correct description and aliases', () => {
+    expect(VarsShow.description).toBe('Show stored variable answers from previous runs')
+    expect(VarsShow.aliases).toEqual(['vars:list', 'vars:ls'])
+  })
+
+  it('has all required flags', () => {
+    expect(VarsShow.flags.playbook).toBeDefined()
+    expect(VarsShow.flags.all).toBeDefined()
+    expect(VarsShow.flags.format).toBeDefined()
+    expect(VarsShow.flags['relative-time']).toBeDefined()
+  })
+
+  it('has correct format options', () => {
+    expect(VarsShow.flags.format.options).toEqual(['table', 'json'])
+    expect(VarsShow.flags.format.default).toBe('table')
+  })
+
+  it('has examples', () => {
+    expect(VarsShow.examples).toBeDefined()
+    expect(VarsShow.examples.length).toBeGreaterThan(0)
+  })
+})
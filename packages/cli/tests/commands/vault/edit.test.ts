@@ -0,0 +1,12 @@
+import {describe, expect, it} from 'vitest'
+import VaultEdit from '../../../src/commands/vault/edit.js'
+
+describe('vault edit command', () => {
+  it('has correct description', () => {
+    expect(VaultEdit.description).toBe('Edit the decrypted vault in your editor')
+  })
+
+  it('accepts a vault password file', () => {
+    expect(VaultEdit.flags['vault-password-file']).toBeDefined()
+  })
+})
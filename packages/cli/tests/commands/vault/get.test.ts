@@ -0,0 +1,16 @@
+import {describe, expect, it} from 'vitest'
+import VaultGet from '../../../src/commands/vault/get.js'
+
+describe('vault get command', () => {
+  it('has correct description', () => {
+    expect(VaultGet.description).toBe('Show a secret value, or list the names stored in the vault')
+  })
+
+  it('lists the stored names when no name is given', () => {
+    expect(VaultGet.args.name.required).toBeFalsy()
+  })
+
+  it('has examples', () => {
+    expect(VaultGet.examples.length).toBeGreaterThan(0)
+  })
+})
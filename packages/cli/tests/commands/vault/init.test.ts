@@ -0,0 +1,18 @@
+import {describe, expect, it} from 'vitest'
+import VaultInit from '../../../src/commands/vault/init.js'
+
+describe('vault init command', () => {
+  it('has correct description', () => {
+    expect(VaultInit.description).toBe('Create the encrypted vault for secret variable values')
+  })
+
+  it('prompts for password variables by default', () => {
+    expect(VaultInit.flags.prompt).toBeDefined()
+    expect(VaultInit.flags.prompt.default).toBe(true)
+    expect(VaultInit.flags.prompt.allowNo).toBe(true)
+  })
+
+  it('accepts a vault password file', () => {
+    expect(VaultInit.flags['vault-password-file']).toBeDefined()
+  })
+})
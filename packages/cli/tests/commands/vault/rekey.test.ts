@@ -0,0 +1,13 @@
+import {describe, expect, it} from 'vitest'
+import VaultRekey from '../../../src/commands/vault/rekey.js'
+
+describe('vault rekey command', () => {
+  it('has correct description', () => {
+    expect(VaultRekey.description).toBe('Encrypt the vault with a new password')
+  })
+
+  it('accepts the current and the new password file', () => {
+    expect(VaultRekey.flags['vault-password-file']).toBeDefined()
+    expect(VaultRekey.flags['new-vault-password-file']).toBeDefined()
+  })
+})
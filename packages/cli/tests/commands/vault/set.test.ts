@@ -0,0 +1,17 @@
+import {describe, expect, it} from 'vitest'
+import VaultSet from '../../../src/commands/vault/set.js'
+
+describe('vault set command', () => {
+  it('has correct description', () => {
+    expect(VaultSet.description).toBe('Store a secret variable value in the vault')
+  })
+
+  it('requires a name and prompts for the value when omitted', () => {
+    expect(VaultSet.args.name.required).toBe(true)
+    expect(VaultSet.args.value.required).toBeFalsy()
+  })
+
+  it('accepts a vault password file', () => {
+    expect(VaultSet.flags['vault-password-file']).toBeDefined()
+  })
+})
@@ -0,0 +1,155 @@
+/**
+ * Project Ansible settings
+ *
+ * The `ansible:` section of aship.yml is applied as ANSIBLE_* environment variables, so the
+ * same settings are used by ansible and ansible-playbook however aship runs them.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { expandHomePath } from '../schemas/variables.js';
+import type { AnsibleConfig } from '../types/index.js';
+import { fileExistsAsync } from '../utils/fs.js';
+
+/**
+ * ansible.cfg settings that aship may also set through the environment, by variable name
+ */
+const CFG_SETTINGS: Record<string, { section: string; key: string }> = {
+  ANSIBLE_HOST_KEY_CHECKING: { section: 'defaults', key: 'host_key_checking' },
+  ANSIBLE_SSH_ARGS: { section: 'ssh_connection', key: 'ssh_args' },
+};
+
+/**
+ * Resolve a path setting of the Ansible settings
+ * @param value One path or a list of paths
+ * @param baseDir Directory relative paths are resolved against, usually the project directory
+ * @returns Absolute paths
+ */
+export function resolveAnsiblePaths(
+  value: string | string[] | undefined,
+  baseDir: string
+): string[] {
+  if (!value) {
+    return [];
+  }
+
+  return (Array.isArray(value) ? value : [value]).map(entry =>
+    path.resolve(baseDir, expandHomePath(entry))
+  );
+}
+
+/**
+ * Get the environment variables for the Ansible settings of a project
+ * @param config Ansible settings from aship.yml
+ * @param baseDir Directory relative paths are resolved against, usually the project directory
+ * @returns ANSIBLE_* environment variables
+ */
+export function getAnsibleConfigEnv(
+  config: AnsibleConfig | undefined,
+  baseDir: string
+): Record<string, string> {
+  if (!config) {
+    return {};
+  }
+
+  const env: Record<string, string> = {};
+
+  if (config.configPath) {
+    env.ANSIBLE_CONFIG = path.resolve(baseDir, expandHomePath(config.configPath));
+  }
+  if (config.forks) {
+    env.ANSIBLE_FORKS = String(config.forks);
+  }
+  if (config.roles_path) {
+    env.ANSIBLE_ROLES_PATH = resolveAnsiblePaths(config.roles_path, baseDir).join(path.delimiter);
+  }
+  if (config.collections_path) {
+    env.ANSIBLE_COLLECTIONS_PATH = resolveAnsiblePaths(config.collections_path, baseDir).join(
+      path.delimiter
+    );
+  }
+
+  // Variables set explicitly take precedence over the settings above
+  for (const [name, value] of Object.entries(config.env || {})) {
+    env[name] = String(value);
+  }
+
+  return env;
+}
+
+/**
+ * Find the ansible.cfg that Ansible reads, in Ansible's search order
+ * @param config Ansible settings from aship.yml
+ * @param baseDir Project directory, Ansible runs in it
+ * @returns Path of the file, or undefined if there is none
+ */
+export async function findAnsibleCfg(
+  config: AnsibleConfig | undefined,
+  baseDir: string
+): Promise<string | undefined> {
+  const candidates = [
+    getAnsibleConfigEnv(config, baseDir).ANSIBLE_CONFIG ?? process.env.ANSIBLE_CONFIG,
+    path.join(baseDir, 'ansible.cfg'),
+    path.join(os.homedir(), '.ansible.cfg'),
+    '/etc/ansible/ansible.cfg',
+  ];
+
+  for (const candidate of candidates) {
+    if (candidate && (await fileExistsAsync(candidate))) {
+      return candidate;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Get the Ansible variables the project sets itself, in the ansible section of aship.yml or
+ * in its ansible.cfg, so that aship does not override them
+ * @param config Ansible settings from aship.yml
+ * @param baseDir Project directory
+ * @returns Variable names, e.g. ANSIBLE_HOST_KEY_CHECKING
+ */
+export async function getProjectAnsibleVariables(
+  config: AnsibleConfig | undefined,
+  baseDir: string
+): Promise<Set<string>> {
+  const variables = new Set(Object.keys(getAnsibleConfigEnv(config, baseDir)));
+
+  const cfgPath = await findAnsibleCfg(config, baseDir);
+  if (!cfgPath) {
+    return variables;
+  }
+
+  let section = '';
+  for (const line of (await fs.readFile(cfgPath, 'utf-8')).split(/\r?\n/)) {
+    const trimmed = line.trim();
+    const header = trimmed.match(/^\[(.+)\]$/);
+    if (header) {
+      section = header[1].trim();
+      continue;
+    }
+
+    const key = trimmed.match(/^([\w.]+)\s*[=:]/)?.[1];
+    for (const [name, setting] of Object.entries(CFG_SETTINGS)) {
+      if (setting.section === section && setting.key === key) {
+        variables.add(name);
+      }
+    }
+  }
+
+  return variables;
+}
+
+/**
+ * Format environment variables as shell assignments for command previews
+ * @param env Environment variables
+ * @returns Assignments like ANSIBLE_FORKS=20, values with special characters are quoted
+ */
+export function formatEnvAssignments(env: Record<string, string>): string[] {
+  return Object.entries(env).map(([name, value]) =>
+    /^[\w@%+=:,./-]*$/.test(value)
+      ? `${name}=${value}`
+      : `${name}='${value.replace(/'/g, `'\\''`)}'`
+  );
+}
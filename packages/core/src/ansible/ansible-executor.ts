@@ -9,10 +9,21 @@ import { spawn } from 'node:child_process';
 import * as fs from 'node:fs/promises';
 import * as os from 'node:os';
 import * as path from 'node:path';
-import type { AnsibleConfig, ExecutionResult, ServerConfig } from '../types/index.js';
+import { dump } from 'js-yaml';
+import { maskCommandLine } from '../history/run-history.js';
+import type { HostKeyPolicy } from '../schemas/host-config.js';
+import type {
+  AnsibleConfig,
+  ExecutionResult,
+  PlaybookProgress,
+  ServerConfig,
+} from '../types/index.js';
 import { fileExists } from '../utils/fs.js';
 import { logger } from '../utils/logger.js';
-import { generateInventoryFile } from './inventory.js';
+import { getAnsibleConfigEnv, getProjectAnsibleVariables } from './ansible-config.js';
+import { generateInventoryFile, getInventorySecretEnv } from './inventory.js';
+import { parsePlayRecap } from './play-recap.js';
+import { PlaybookProgressTracker } from './playbook-progress.js';
 import { filterAshipSpecificArgs, validateAnsibleArgs } from './utils.js';
 
 /**
@@ -24,39 +35,46 @@ async function generateVariablesFile(variables: Record<string, any>): Promise<st
   // Create temporary file
   const tempFile = path.join(os.tmpdir(), `aship-vars-${Date.now()}.yml`);
 
-  // Convert variables to YAML format
-  const yamlContent = Object.entries(variables)
-    .map(([key, value]) => {
-      // Handle different value types
-      if (typeof value === 'string') {
-        // Escape quotes and handle multiline strings
-        const escapedValue = value.includes('\n')
-          ? `|\n  ${value.split('\n').join('\n  ')}`
-          : `"${value.replace(/"/g, '\\"')}"`;
-        return `${key}: ${escapedValue}`;
-      }
-      if (typeof value === 'boolean') {
-        return `${key}: ${value}`;
-      }
-      if (typeof value === 'number') {
-        return `${key}: ${value}`;
-      }
-      if (Array.isArray(value)) {
-        return `${key}:\n${value.map(item => `  - ${JSON.stringify(item)}`).join('\n')}`;
-      }
-      if (typeof value === 'object' && value !== null) {
-        return `${key}: ${JSON.stringify(value)}`;
-      }
-      return `${key}: ${JSON.stringify(value)}`;
-    })
-    .join('\n');
+  // Convert variables to YAML, nested lists and dicts are written as block YAML
+  const yamlContent = dump(variables, {
+    indent: 2,
+    lineWidth: -1,
+    noRefs: true,
+    skipInvalid: true,
+  });
 
-  // Write to file
-  await fs.writeFile(tempFile, yamlContent, 'utf-8');
+  // Write to file (readable by the current user only, variables may hold secrets)
+  await fs.writeFile(tempFile, yamlContent, { encoding: 'utf-8', mode: 0o600 });
 
   return tempFile;
 }
 
+/**
+ * Environment variables for host key verification
+ * The generated inventory sets ansible_host_key_checking and the SSH options per host, so
+ * checking is only disabled globally when the policy is "off" and the project's ansible.cfg
+ * or Ansible settings do not configure it
+ * @param policy Project host key policy
+ * @param projectVariables Variables the project sets itself
+ */
+function getHostKeyEnv(
+  policy: HostKeyPolicy | undefined,
+  projectVariables: Set<string>
+): Record<string, string> {
+  if (policy !== 'off') {
+    return {};
+  }
+
+  const env: Record<string, string> = {
+    ANSIBLE_HOST_KEY_CHECKING: 'False',
+    ANSIBLE_SSH_ARGS: '-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null',
+  };
+  for (const name of projectVariables) {
+    delete env[name];
+  }
+  return env;
+}
+
 // Export dependencies for testing
 const dependencies = {
   fs,
@@ -64,6 +82,7 @@ const dependencies = {
   path,
   fileExists,
   generateInventoryFile,
+  getInventorySecretEnv,
   generateVariablesFile,
 };
 
@@ -86,6 +105,22 @@ interface AnsibleBaseOptions {
    */
   extraVars?: Record<string, any>;
 
+  /**
+   * Extra variables files (e.g. the encrypted project vault)
+   * Passed before the extra variables, which take precedence
+   */
+  extraVarsFiles?: string[];
+
+  /**
+   * Additional environment variables for the Ansible process
+   */
+  env?: Record<string, string>;
+
+  /**
+   * Default host key policy for servers without their own policy
+   */
+  hostKeyPolicy?: HostKeyPolicy;
+
   /**
    * Verbosity level (0-4)
    */
@@ -107,7 +142,8 @@ interface AnsibleBaseOptions {
   events?: {
     onStdout?: (data: string) => void;
     onStderr?: (data: string) => void;
-    onProgress?: (progress: number) => void;
+    onProgress?: (progress: PlaybookProgress) => void;
+    onCommand?: (command: string, args: string[]) => void;
   };
 }
 
@@ -145,6 +181,12 @@ interface AnsibleCommandOptions extends AnsibleBaseOptions {
    * Module arguments
    */
   args?: string;
+
+  /**
+   * Custom inventory path (optional)
+   * If not provided, inventory will be generated from servers
+   */
+  inventoryPath?: string;
 }
 
 /**
@@ -159,8 +201,8 @@ class AnsibleExecutor {
   async executePlaybook(options: AnsiblePlaybookOptions): Promise<ExecutionResult> {
     const startTime = Date.now();
 
-    // Validate options
-    if (!options.servers || options.servers.length === 0) {
+    // Validate options, a custom inventory brings its own hosts
+    if (!options.inventoryPath && (!options.servers || options.servers.length === 0)) {
       return {
         success: false,
         exitCode: 1,
@@ -201,7 +243,9 @@ class AnsibleExecutor {
     } else {
       // Generate inventory file from servers
       try {
-        inventoryPath = await dependencies.generateInventoryFile(options.servers);
+        inventoryPath = await dependencies.generateInventoryFile(options.servers, {
+          hostKeyPolicy: options.hostKeyPolicy,
+        });
         shouldCleanupInventory = true;
       } catch (error) {
         return {
@@ -240,21 +284,22 @@ class AnsibleExecutor {
 
       // Set up environment variables for password authentication
       const env: Record<string, string> = {
-        // Disable host key checking
-        ANSIBLE_HOST_KEY_CHECKING: 'False',
-        // Disable SSH key checking
-        ANSIBLE_SSH_ARGS: '-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null',
+        ...(await this.getAnsibleEnv(options)),
+        // Session passwords referenced by the generated inventory
+        ...(shouldCleanupInventory ? dependencies.getInventorySecretEnv(options.servers) : {}),
+        ...options.env,
       };
 
-      // Password authentication is handled through session password manager
-      // Environment variables are set by the inventory generation process
-
       // Execute command
-      return await this.executeCommand('ansible-playbook', args, {
+      const result = await this.executeCommand('ansible-playbook', args, {
         cwd: options.cwd,
         env,
-        events: options.events,
+        events: this.withProgressTracking(options.events),
       });
+
+      // Attach the per-host results
+      const hosts = parsePlayRecap(result.stdout || '');
+      return hosts ? { ...result, hosts } : result;
     } finally {
       // Clean up temporary files (only if we generated them)
       if (shouldCleanupInventory) {
@@ -285,8 +330,8 @@ class AnsibleExecutor {
   async executeAnsible(options: AnsibleCommandOptions): Promise<ExecutionResult> {
     const startTime = Date.now();
 
-    // Validate options
-    if (!options.servers || options.servers.length === 0) {
+    // Validate options, a custom inventory brings its own hosts
+    if (!options.inventoryPath && (!options.servers || options.servers.length === 0)) {
       return {
         success: false,
         exitCode: 1,
@@ -304,17 +349,28 @@ class AnsibleExecutor {
       };
     }
 
-    // Generate inventory file
+    // Use custom inventory or generate one
     let inventoryPath: string;
-    try {
-      inventoryPath = await dependencies.generateInventoryFile(options.servers);
-    } catch (error) {
-      return {
-        success: false,
-        exitCode: 1,
-        stderr: `Failed to generate inventory file: ${(error as Error).message}`,
-        executionTime: Date.now() - startTime,
-      };
+    let shouldCleanupInventory = false;
+
+    if (options.inventoryPath) {
+      // Use provided inventory path
+      inventoryPath = options.inventoryPath;
+    } else {
+      // Generate inventory file from servers
+      try {
+        inventoryPath = await dependencies.generateInventoryFile(options.servers, {
+          hostKeyPolicy: options.hostKeyPolicy,
+        });
+        shouldCleanupInventory = true;
+      } catch (error) {
+        return {
+          success: false,
+          exitCode: 1,
+          stderr: `Failed to generate inventory file: ${(error as Error).message}`,
+          executionTime: Date.now() - startTime,
+        };
+      }
     }
 
     try {
@@ -323,15 +379,12 @@ class AnsibleExecutor {
 
       // Set up environment variables for password authentication
       const env: Record<string, string> = {
-        // Disable host key checking
-        ANSIBLE_HOST_KEY_CHECKING: 'False',
-        // Disable SSH key checking
-        ANSIBLE_SSH_ARGS: '-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null',
+        ...(await this.getAnsibleEnv(options)),
+        // Session passwords referenced by the generated inventory
+        ...(shouldCleanupInventory ? dependencies.getInventorySecretEnv(options.servers) : {}),
+        ...options.env,
       };
 
-      // Password authentication is handled through session password manager
-      // Environment variables are set by the inventory generation process
-
       // Execute command
       return await this.executeCommand('ansible', args, {
         cwd: options.cwd,
@@ -339,16 +392,53 @@ class AnsibleExecutor {
         events: options.events,
       });
     } finally {
-      // Clean up inventory file
-      try {
-        await dependencies.fs.unlink(inventoryPath);
-      } catch (error) {
-        // Ignore errors during cleanup
-        console.warn(`Failed to remove temporary inventory file: ${(error as Error).message}`);
+      // Clean up inventory file (only if we generated it)
+      if (shouldCleanupInventory) {
+        try {
+          await dependencies.fs.unlink(inventoryPath);
+        } catch (error) {
+          // Ignore errors during cleanup
+          console.warn(`Failed to remove temporary inventory file: ${(error as Error).message}`);
+        }
       }
     }
   }
 
+  /**
+   * Get the environment for the project's host key policy and Ansible settings
+   * Settings of the project (aship.yml or its ansible.cfg) take precedence over the policy
+   * @param options Execution options
+   */
+  private async getAnsibleEnv(options: AnsibleBaseOptions): Promise<Record<string, string>> {
+    const baseDir = options.cwd || process.cwd();
+    const projectVariables = await getProjectAnsibleVariables(options.ansibleConfig, baseDir);
+
+    return {
+      ...getHostKeyEnv(options.hostKeyPolicy, projectVariables),
+      ...getAnsibleConfigEnv(options.ansibleConfig, baseDir),
+    };
+  }
+
+  /**
+   * Track the progress of a playbook from its output when a progress handler is given
+   * @param events Event handlers
+   * @returns Event handlers that also feed the progress tracker
+   */
+  private withProgressTracking(events: AnsibleBaseOptions['events']): AnsibleBaseOptions['events'] {
+    if (!events?.onProgress) {
+      return events;
+    }
+
+    const tracker = new PlaybookProgressTracker(events.onProgress);
+    return {
+      ...events,
+      onStdout: (data: string) => {
+        tracker.write(data);
+        events.onStdout?.(data);
+      },
+    };
+  }
+
   /**
    * Execute a command with the given arguments
    * @param command Command to execute
@@ -365,6 +455,7 @@ class AnsibleExecutor {
       events?: {
         onStdout?: (data: string) => void;
         onStderr?: (data: string) => void;
+        onCommand?: (command: string, args: string[]) => void;
       };
     }
   ): Promise<ExecutionResult> {
@@ -377,7 +468,8 @@ class AnsibleExecutor {
       args.some(arg => arg.startsWith('-v'));
 
     if (isDebugMode && options.events?.onStdout) {
-      const commandLine = `${command} ${args.join(' ')}`;
+      // Never print inline secrets passed as extra vars
+      const commandLine = `${command} ${maskCommandLine(args).join(' ')}`;
       options.events.onStdout(`[DEBUG] Executing: ${commandLine}\n`);
 
       // Log environment variables being set (without sensitive values)
@@ -391,6 +483,8 @@ class AnsibleExecutor {
       options.events.onStdout(`${'[DEBUG] ─'.repeat(25)}\n`);
     }
 
+    options.events?.onCommand?.(command, args);
+
     return await new Promise<ExecutionResult>(resolve => {
       let stdout = '';
       let stderr = '';
@@ -455,6 +549,11 @@ class AnsibleExecutor {
       args.push(`-${'v'.repeat(Math.min(options.verbose, 4))}`);
     }
 
+    // Add extra variables files before the extra vars, later ones take precedence
+    for (const file of options.extraVarsFiles || []) {
+      args.push('--extra-vars', `@${file}`);
+    }
+
     // Add extra vars - prefer variables file over JSON string
     if (variablesPath) {
       args.push('--extra-vars');
@@ -519,6 +618,11 @@ class AnsibleExecutor {
       args.push(options.args);
     }
 
+    // Add extra variables files before the extra vars, later ones take precedence
+    for (const file of options.extraVarsFiles || []) {
+      args.push('--extra-vars', `@${file}`);
+    }
+
     // Add extra vars
     if (options.extraVars) {
       args.push('--extra-vars');
@@ -7,7 +7,7 @@ import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type { AnsibleConfig, ExecutionResult, ServerConfig } from '../types/index.js';
 import { fileExists } from '../utils/fs.js';
-import { generateInventoryFile } from './inventory.js';
+import { generateInventoryFile, getInventorySecretEnv } from './inventory.js';
 
 // Export dependencies for testing
 const dependencies = {
@@ -16,6 +16,7 @@ const dependencies = {
   path,
   fileExists,
   generateInventoryFile,
+  getInventorySecretEnv,
 };
 
 /**
@@ -132,6 +133,8 @@ class AnsibleExecutor {
           cwd: options.cwd,
           env: {
             ...process.env,
+            // Session passwords referenced by the generated inventory
+            ...dependencies.getInventorySecretEnv(options.servers),
           },
         });
 
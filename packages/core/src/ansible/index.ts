@@ -2,9 +2,13 @@
  * Ansible integration module
  */
 
+export * from './ansible-config.js';
 export * from './ansible-executor.js';
 export * from './inventory.js';
 export * from './params.js';
+export * from './play-recap.js';
+export * from './playbook-progress.js';
 export * from './playbook-runner.js';
+export * from './playbook-tags.js';
 export * from './runner.js';
 export * from './utils.js';
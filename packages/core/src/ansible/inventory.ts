@@ -5,10 +5,45 @@
 import * as fs from 'node:fs/promises';
 import os from 'node:os';
 import * as path from 'node:path';
+import { DirectoryManager } from '../config/directory-manager.js';
+import type { HostKeyPolicy } from '../schemas/host-config.js';
+import { getJumpHostSshOptions } from '../ssh/jump-host.js';
+import { getHostKeySshOptions, resolveHostKeyPolicy } from '../ssh/known-hosts.js';
 import { sessionPasswordManager } from '../ssh/session-password-manager.js';
 import type { ServerConfig } from '../types/index.js';
 import { logger } from '../utils/logger.js';
 
+/**
+ * Prefix of the environment variables that carry session passwords to Ansible
+ */
+const PASSWORD_ENV_PREFIX = 'ASHIP_SSH_PASS_';
+
+/**
+ * Get the environment variable name that carries the password of a server
+ * @param index Index of the server in the inventory
+ */
+function getPasswordEnvName(index: number): string {
+  return `${PASSWORD_ENV_PREFIX}${index}`;
+}
+
+/**
+ * Format a host variable value for an INI inventory host line
+ * Strings are quoted, booleans use the Ansible spelling and lists or objects are written as JSON
+ * @param value Variable value
+ */
+function formatIniValue(value: unknown): string {
+  if (typeof value === 'boolean') {
+    return value ? 'True' : 'False';
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    return JSON.stringify(value);
+  }
+  return `'${JSON.stringify(value)}'`;
+}
+
 /**
  * Options for generating inventory file
  */
@@ -17,6 +52,16 @@ interface InventoryOptions {
    * Extra variables to include in the inventory
    */
   extraVars?: Record<string, any>;
+
+  /**
+   * Default host key policy for servers without their own policy
+   */
+  hostKeyPolicy?: HostKeyPolicy;
+
+  /**
+   * Path to the known_hosts file (defaults to the aship known_hosts file)
+   */
+  knownHostsFile?: string;
 }
 
 /**
@@ -35,12 +80,36 @@ async function generateInventoryFile(
   // Generate inventory content using the existing function
   const content = await generateInventoryContent(servers, options);
 
-  // Write to file
-  await fs.writeFile(tempFile, content, 'utf-8');
+  // Write to file (readable by the current user only)
+  await fs.writeFile(tempFile, content, { encoding: 'utf-8', mode: 0o600 });
 
   return tempFile;
 }
 
+/**
+ * Get the environment variables holding session passwords for an inventory
+ * Passwords never appear in the inventory itself; it only references these variables
+ * through env lookups, so they must be passed to the ansible process environment
+ * @param servers Server configurations (same order as used for the inventory)
+ * @returns Environment variables to pass to the ansible process
+ */
+function getInventorySecretEnv(servers: ServerConfig[]): Record<string, string> {
+  const env: Record<string, string> = {};
+
+  servers.forEach((server, index) => {
+    if (server.identity_file) {
+      return;
+    }
+
+    const password = sessionPasswordManager.getPassword(server.hostname, server.user);
+    if (password) {
+      env[getPasswordEnvName(index)] = password;
+    }
+  });
+
+  return env;
+}
+
 /**
  * Generate inventory content for Ansible
  * @param servers Server configurations
@@ -52,12 +121,21 @@ async function generateInventoryContent(
   options: InventoryOptions = {}
 ): Promise<string> {
   let content = '';
+  const knownHostsFile = options.knownHostsFile || new DirectoryManager().knownHostsFile;
 
   // Add each server to the 'all' section
   content += '[all]\n';
-  servers.forEach(server => {
+  servers.forEach((server, index) => {
     content += `${server.name} ansible_host=${server.hostname} ansible_port=${server.port} ansible_user=${server.user}`;
 
+    // Add host variables (connection settings managed by aship take precedence)
+    for (const [key, value] of Object.entries(server.variables || {})) {
+      if (['ansible_host', 'ansible_port', 'ansible_user'].includes(key)) {
+        continue;
+      }
+      content += ` ${key}=${formatIniValue(value)}`;
+    }
+
     // Add authentication
     if (server.identity_file) {
       // Use ansible_ssh_private_key_file for key authentication
@@ -67,17 +145,24 @@ async function generateInventoryContent(
       const password = sessionPasswordManager.getPassword(server.hostname, server.user);
 
       if (password) {
-        content += ` ansible_ssh_pass=${password} ansible_become_pass=${password}`;
-        logger.verbose(`Adding password from session for ${server.user}@${server.hostname}`);
+        // Reference the password through the process environment instead of embedding it
+        const lookup = `"{{ lookup('env', '${getPasswordEnvName(index)}') }}"`;
+        content += ` ansible_ssh_pass=${lookup} ansible_become_pass=${lookup}`;
+        logger.verbose(`Using session password for ${server.user}@${server.hostname}`);
       } else {
         // No specific key or password - let SSH handle default authentication
         logger.verbose(`Using SSH default authentication for ${server.user}@${server.hostname}`);
       }
     }
 
-    // Add additional SSH options
-    content +=
-      ' ansible_ssh_common_args="-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null"';
+    // Add host key verification and jump host options, jump hosts are verified the same way
+    const policy = resolveHostKeyPolicy(server.host_key_policy, options.hostKeyPolicy);
+    const hostKeyOptions = getHostKeySshOptions(policy, knownHostsFile);
+    const sshArgs = [...hostKeyOptions, ...getJumpHostSshOptions(server.jump_hosts, hostKeyOptions)]
+      .join(' ')
+      .replace(/"/g, '\\"');
+    content += ` ansible_host_key_checking=${policy !== 'off'}`;
+    content += ` ansible_ssh_common_args="${sshArgs}"`;
 
     content += '\n';
   });
@@ -99,7 +184,6 @@ async function generateInventoryContent(
   content += 'ansible_become=yes\n';
   content += 'ansible_become_method=sudo\n';
   content += 'ansible_ssh_pipelining=true\n';
-  content += 'ansible_host_key_checking=false\n';
 
   // Add extra variables if provided
   if (options.extraVars && Object.keys(options.extraVars).length > 0) {
@@ -121,4 +205,4 @@ async function generateInventoryContent(
   return content;
 }
 
-export { generateInventoryFile, generateInventoryContent };
+export { generateInventoryFile, generateInventoryContent, getInventorySecretEnv };
@@ -0,0 +1,114 @@
+/**
+ * Play recap parsing
+ *
+ * Per-host results are read from the output of ansible-playbook: the "PLAY RECAP" section
+ * printed by the default and YAML callbacks, or the "stats" of the JSON callback.
+ */
+
+import type { HostRecap } from '../types/index.js';
+import { stripAnsi } from '../utils/string.js';
+
+/**
+ * Counters of a host in the play recap, in the order Ansible prints them
+ */
+const RECAP_COUNTERS: Array<keyof HostRecap> = [
+  'ok',
+  'changed',
+  'unreachable',
+  'failed',
+  'skipped',
+  'rescued',
+  'ignored',
+];
+
+/**
+ * Create a recap from counters, missing counters are 0
+ */
+function createHostRecap(counters: Record<string, unknown>): HostRecap {
+  const recap = {} as HostRecap;
+  for (const counter of RECAP_COUNTERS) {
+    recap[counter] = Number(counters[counter]) || 0;
+  }
+  return recap;
+}
+
+/**
+ * Parse the stats of the JSON callback
+ */
+function parseJsonStats(output: string): Record<string, HostRecap> | undefined {
+  const trimmed = output.trim();
+  if (!trimmed.startsWith('{')) {
+    return undefined;
+  }
+
+  try {
+    const stats = JSON.parse(trimmed)?.stats;
+    if (!stats || typeof stats !== 'object') {
+      return undefined;
+    }
+
+    const hosts: Record<string, HostRecap> = {};
+    for (const [host, counters] of Object.entries(stats)) {
+      // The JSON callback calls the failed counter "failures"
+      const values = counters as Record<string, unknown>;
+      hosts[host] = createHostRecap({ ...values, failed: values.failures ?? values.failed });
+    }
+    return hosts;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Parse the per-host results of an ansible-playbook run
+ * @param output Standard output of ansible-playbook
+ * @returns Results by host, or undefined if the output contains no recap
+ */
+export function parsePlayRecap(output: string): Record<string, HostRecap> | undefined {
+  const json = parseJsonStats(output);
+  if (json) {
+    return json;
+  }
+
+  const lines = stripAnsi(output).split(/\r?\n/);
+
+  // Only the last recap counts, earlier ones may come from a previous run in the same output
+  let start = -1;
+  lines.forEach((line, index) => {
+    if (line.startsWith('PLAY RECAP')) {
+      start = index;
+    }
+  });
+  if (start < 0) {
+    return undefined;
+  }
+
+  const hosts: Record<string, HostRecap> = {};
+  for (const line of lines.slice(start + 1)) {
+    const match = line.match(/^(\S+)\s*:\s*((?:\w+=\d+\s*)+)$/);
+    if (!match) {
+      // The recap ends at the first line that is not a host line
+      if (line.trim() === '' && Object.keys(hosts).length === 0) {
+        continue;
+      }
+      break;
+    }
+
+    const counters: Record<string, string> = {};
+    for (const pair of match[2].trim().split(/\s+/)) {
+      const [name, value] = pair.split('=');
+      counters[name] = value;
+    }
+    hosts[match[1]] = createHostRecap(counters);
+  }
+
+  return hosts;
+}
+
+/**
+ * Check whether a host failed or was unreachable
+ * @param recap Results of the host
+ */
+export function isHostFailed(recap: HostRecap): boolean {
+  return recap.failed > 0 || recap.unreachable > 0;
+}
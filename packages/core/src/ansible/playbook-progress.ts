@@ -0,0 +1,123 @@
+/**
+ * Playbook progress tracking
+ *
+ * Plays, tasks and host results are read from the output of ansible-playbook as it streams,
+ * using the headers and result lines printed by the default and YAML callbacks.
+ */
+
+import type { PlaybookProgress } from '../types/index.js';
+import { stripAnsi } from '../utils/string.js';
+
+/**
+ * Play, task and handler headers, e.g. "TASK [nginx : Install nginx] ****"
+ */
+const HEADER_PATTERN = /^(PLAY|TASK|RUNNING HANDLER) \[(.*)\] \*+$/;
+
+/**
+ * Host result lines, e.g. "changed: [web-1] => (item=nginx)" or "fatal: [db-1]: UNREACHABLE!"
+ */
+const RESULT_PATTERN = /^(ok|changed|skipping|failed|fatal|unreachable): \[([^\]]+)\]/;
+
+/**
+ * Tracks the progress of a playbook from its output and reports every change
+ */
+export class PlaybookProgressTracker {
+  private readonly startTime = Date.now();
+  private buffer = '';
+  private play?: string;
+  private task?: string;
+  private tasks = 0;
+  private hostsTotal = 0;
+  private readonly hostsDone = new Set<string>();
+  private readonly hostsFailed = new Set<string>();
+  private lastFailedHost?: string;
+
+  /**
+   * @param onProgress Called with the new progress after every play, task and host result
+   */
+  constructor(private readonly onProgress: (progress: PlaybookProgress) => void) {}
+
+  /**
+   * Process a chunk of output, incomplete lines are kept until the rest arrives
+   * @param data Output of ansible-playbook
+   */
+  write(data: string): void {
+    const lines = (this.buffer + data).split(/\r?\n/);
+    this.buffer = lines.pop() || '';
+
+    for (const line of lines) {
+      if (this.processLine(stripAnsi(line).trimEnd())) {
+        this.onProgress(this.getProgress());
+      }
+    }
+  }
+
+  /**
+   * Get the current progress
+   */
+  getProgress(): PlaybookProgress {
+    return {
+      play: this.play,
+      task: this.task,
+      tasks: this.tasks,
+      hostsDone: this.hostsDone.size,
+      hostsTotal: Math.max(this.hostsTotal, this.hostsDone.size),
+      hostsFailed: this.hostsFailed.size,
+      elapsed: Date.now() - this.startTime,
+    };
+  }
+
+  /**
+   * Update the progress from one line of output
+   * @returns Whether the progress changed
+   */
+  private processLine(line: string): boolean {
+    if (line.startsWith('PLAY RECAP')) {
+      this.task = undefined;
+      this.hostsDone.clear();
+      return true;
+    }
+
+    const header = line.match(HEADER_PATTERN);
+    if (header) {
+      // A task is finished once the next one starts, its hosts are the hosts of the play
+      this.hostsTotal = Math.max(this.hostsTotal, this.hostsDone.size);
+      this.hostsDone.clear();
+
+      if (header[1] === 'PLAY') {
+        this.play = header[2];
+        this.task = undefined;
+        this.hostsTotal = 0;
+      } else {
+        this.task = header[2];
+        this.tasks++;
+      }
+      return true;
+    }
+
+    if (line === '...ignoring') {
+      // The last failure was ignored by ignore_errors
+      if (this.lastFailedHost) {
+        this.hostsFailed.delete(this.lastFailedHost);
+        this.lastFailedHost = undefined;
+        return true;
+      }
+      return false;
+    }
+
+    const result = line.match(RESULT_PATTERN);
+    if (!result) {
+      return false;
+    }
+
+    // Delegated results are printed as "[host -> delegate]"
+    const host = result[2].split(' -> ')[0];
+    this.hostsDone.add(host);
+    this.lastFailedHost = undefined;
+    if (['failed', 'fatal', 'unreachable'].includes(result[1]) && !this.hostsFailed.has(host)) {
+      this.hostsFailed.add(host);
+      this.lastFailedHost = host;
+    }
+    return true;
+  }
+}
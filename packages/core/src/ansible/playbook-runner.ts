@@ -6,9 +6,16 @@ import * as fs from 'node:fs/promises';
 import * as path from 'node:path';
 import type { DirectoryManager } from '../config/directory-manager.js';
 import type { HostManager } from '../host/host-manager.js';
+import { resolveHostVars } from '../host/host-vars.js';
 import type { InventoryGenerator } from '../inventory/inventory-generator.js';
-import type { HostConfig } from '../schemas/host-config.js';
-import type { ServerConfig } from '../types/index.js';
+import type { HostConfig, HostGroupConfig, HostKeyPolicy } from '../schemas/host-config.js';
+import { resolveJumpHosts } from '../ssh/jump-host.js';
+import type {
+  AnsibleConfig,
+  ExecutionResult,
+  PlaybookProgress,
+  ServerConfig,
+} from '../types/index.js';
 import { logger } from '../utils/logger.js';
 import { AnsibleExecutor, type AnsiblePlaybookOptions } from './ansible-executor.js';
 
@@ -20,6 +27,7 @@ export interface RunOptions {
   tags?: string[];
   skipTags?: string[];
   vars?: Record<string, any>;
+  varsFiles?: string[]; // extra variables files, e.g. the encrypted project vault
   verbose?: number;
   dryRun?: boolean;
 
@@ -28,16 +36,20 @@ export interface RunOptions {
   inventory?: string; // inventory file path
   limit?: string; // ansible --limit parameter
   inventoryMode?: 'replace' | 'inject' | 'merge'; // inventory processing mode
+  hostKeyPolicy?: HostKeyPolicy; // project host key policy
+  ansibleConfig?: AnsibleConfig; // project Ansible settings (ansible.cfg, env, forks, paths)
 
   // Additional ansible options
   ansibleArgs?: string[];
   cwd?: string;
+  env?: Record<string, string>;
 
   // Event handlers
   events?: {
     onStdout?: (data: string) => void;
     onStderr?: (data: string) => void;
-    onProgress?: (progress: number) => void;
+    onProgress?: (progress: PlaybookProgress) => void;
+    onCommand?: (command: string, args: string[]) => void;
   };
 }
 
@@ -53,8 +65,10 @@ export class PlaybookRunner {
 
   /**
    * Run a playbook with enhanced host and inventory support
+   * @returns Execution result with the per-host results; a failed playbook does not throw
+   * @throws Error if the inventory or the hosts cannot be prepared
    */
-  async run(playbookPath: string, options: RunOptions = {}): Promise<void> {
+  async run(playbookPath: string, options: RunOptions = {}): Promise<ExecutionResult> {
     logger.verbose('Starting enhanced playbook execution');
 
     // Prepare inventory based on options
@@ -75,9 +89,8 @@ export class PlaybookRunner {
       const result = await executor.executePlaybook(ansibleOptions);
 
       if (!result.success) {
-        throw new Error(
-          `Playbook execution failed with exit code ${result.exitCode}: ${result.stderr}`
-        );
+        logger.verbose(`Playbook execution failed with exit code ${result.exitCode}`);
+        return result;
       }
 
       // Update host usage statistics on success
@@ -86,6 +99,60 @@ export class PlaybookRunner {
       }
 
       logger.verbose('Playbook execution completed successfully');
+      return result;
+    } finally {
+      // Clean up temporary files
+      await this.cleanup(inventoryPath, options);
+    }
+  }
+
+  /**
+   * Run an ad-hoc module with the same host and inventory support as playbooks
+   * @param pattern Host pattern
+   * @param module Module name
+   * @param moduleArgs Module arguments
+   * @returns Execution result; a failed command does not throw
+   * @throws Error if the inventory or the hosts cannot be prepared
+   */
+  async runModule(
+    pattern: string,
+    module: string,
+    moduleArgs: string | undefined,
+    options: RunOptions = {}
+  ): Promise<ExecutionResult> {
+    logger.verbose('Starting enhanced ad-hoc execution');
+
+    // Prepare inventory based on options
+    const inventoryPath = await this.prepareInventory(options);
+
+    try {
+      const executor = new AnsibleExecutor();
+      const result = await executor.executeAnsible({
+        pattern,
+        module,
+        args: moduleArgs,
+        servers: await this.prepareServers(options),
+        inventoryPath,
+        extraVars: options.vars,
+        extraVarsFiles: options.varsFiles,
+        env: options.env,
+        hostKeyPolicy: options.hostKeyPolicy,
+        ansibleConfig: options.ansibleConfig,
+        verbose: options.verbose,
+        ansibleArgs: [
+          ...(options.limit ? ['--limit', options.limit] : []),
+          ...(options.ansibleArgs || []),
+        ],
+        cwd: options.cwd,
+        events: options.events,
+      });
+
+      // Update host usage statistics on success
+      if (result.success && options.hosts) {
+        await this.updateHostUsage(options.hosts);
+      }
+
+      return result;
     } finally {
       // Clean up temporary files
       await this.cleanup(inventoryPath, options);
@@ -103,7 +170,7 @@ export class PlaybookRunner {
 
     // If only aship hosts specified, generate temporary inventory
     if (options.hosts && !options.inventory) {
-      return await this.generateTempInventory(options.hosts);
+      return await this.generateTempInventory(options.hosts, options.hostKeyPolicy);
     }
 
     // If only inventory file specified, use it directly
@@ -118,11 +185,15 @@ export class PlaybookRunner {
   /**
    * Generate temporary inventory from aship hosts
    */
-  private async generateTempInventory(hosts: string[]): Promise<string> {
+  private async generateTempInventory(
+    hosts: string[],
+    hostKeyPolicy?: HostKeyPolicy
+  ): Promise<string> {
     logger.verbose(`Generating temporary inventory for hosts: ${hosts.join(', ')}`);
 
     const inventory = await this.inventoryGenerator.generateInventory({
       includeHosts: hosts,
+      hostKeyPolicy,
     });
 
     const tempPath = path.join(this.directoryManager.inventoriesDir, `aship-${Date.now()}.yml`);
@@ -146,7 +217,7 @@ export class PlaybookRunner {
         if (!options.hosts) {
           throw new Error('Hosts are required for replace mode');
         }
-        return await this.generateTempInventory(options.hosts);
+        return await this.generateTempInventory(options.hosts, options.hostKeyPolicy);
 
       case 'inject': {
         // Inject aship hosts into existing inventory
@@ -157,6 +228,7 @@ export class PlaybookRunner {
         const tempInventory = await this.createTempCopy(options.inventory);
         await this.inventoryGenerator.injectToInventory(tempInventory, {
           includeHosts: options.hosts,
+          hostKeyPolicy: options.hostKeyPolicy,
           force: true, // Force injection in temporary copy
         });
         return tempInventory;
@@ -198,6 +270,7 @@ export class PlaybookRunner {
     // Generate aship inventory
     const ashipInventory = await this.inventoryGenerator.generateInventory({
       includeHosts: options.hosts,
+      hostKeyPolicy: options.hostKeyPolicy,
     });
 
     // Merge inventories
@@ -219,6 +292,8 @@ export class PlaybookRunner {
     }
 
     const servers: ServerConfig[] = [];
+    const groups = await this.hostManager.getGroups();
+    const allHosts = await this.hostManager.getHosts();
 
     for (const hostName of options.hosts) {
       const host = await this.hostManager.getHost(hostName);
@@ -226,7 +301,7 @@ export class PlaybookRunner {
         throw new Error(`Aship host "${hostName}" not found`);
       }
 
-      servers.push(this.convertHostToServer(host));
+      servers.push(this.convertHostToServer(host, groups, allHosts));
     }
 
     return servers;
@@ -235,14 +310,21 @@ export class PlaybookRunner {
   /**
    * Convert HostConfig to ServerConfig
    */
-  private convertHostToServer(host: HostConfig): ServerConfig {
+  private convertHostToServer(
+    host: HostConfig,
+    groups?: Record<string, HostGroupConfig>,
+    allHosts: HostConfig[] = []
+  ): ServerConfig {
+    const jumpHosts = resolveJumpHosts(host, allHosts);
     return {
       name: host.name,
       hostname: host.hostname,
       user: host.user,
       port: host.port,
       identity_file: host.identity_file,
-      variables: {},
+      host_key_policy: host.host_key_policy,
+      variables: resolveHostVars(host, groups),
+      ...(jumpHosts.length > 0 ? { jump_hosts: jumpHosts } : {}),
     };
   }
 
@@ -288,6 +370,10 @@ export class PlaybookRunner {
       servers,
       inventoryPath: options.inventory,
       extraVars: options.vars,
+      extraVarsFiles: options.varsFiles,
+      env: options.env,
+      hostKeyPolicy: options.hostKeyPolicy,
+      ansibleConfig: options.ansibleConfig,
       verbose: options.verbose,
       ansibleArgs,
       cwd: options.cwd,
@@ -0,0 +1,359 @@
+/**
+ * Tag discovery from playbooks
+ *
+ * Tags are found by statically parsing the playbook: plays, tasks, blocks, handlers,
+ * roles (including role dependencies), task imports/includes and playbook imports.
+ * Paths and tags that contain templates cannot be resolved statically; such playbooks
+ * are reported as incomplete.
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { DEFAULT_SCHEMA, Type, load } from 'js-yaml';
+import type { DirectoryManager } from '../config/directory-manager.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Special tags that cannot be selected like regular tags
+ */
+const SPECIAL_TAGS = ['always', 'never', 'all', 'tagged', 'untagged'];
+
+/**
+ * YAML schema accepting the Ansible specific tags
+ */
+const ANSIBLE_YAML_SCHEMA = DEFAULT_SCHEMA.extend([
+  new Type('!vault', { kind: 'scalar', construct: data => data }),
+  new Type('!unsafe', { kind: 'scalar', construct: data => data }),
+]);
+
+/**
+ * Tags discovered in a playbook
+ */
+export interface DiscoveredTags {
+  /** Tag names, sorted */
+  tags: string[];
+  /** Files that were parsed */
+  files: string[];
+  /** Whether every referenced file could be resolved and parsed */
+  complete: boolean;
+}
+
+/**
+ * Options for tag discovery
+ */
+export interface TagDiscoveryOptions {
+  /** Directories to look up roles in, the playbook's roles directory is always searched */
+  rolesPath?: string[];
+}
+
+/**
+ * Get a task keyword, with or without the ansible.builtin prefix
+ */
+function getKeyword(task: Record<string, any>, keyword: string): any {
+  return task[keyword] ?? task[`ansible.builtin.${keyword}`];
+}
+
+/**
+ * Discover the tags used in a playbook
+ * @param playbookPath Playbook file path
+ * @param options Discovery options
+ * @returns Discovered tags and the parsed files
+ */
+export async function discoverPlaybookTags(
+  playbookPath: string,
+  options: TagDiscoveryOptions = {}
+): Promise<DiscoveredTags> {
+  const playbookDir = path.dirname(path.resolve(playbookPath));
+  const rolesPath = [path.join(playbookDir, 'roles'), ...(options.rolesPath || [])];
+
+  const tags = new Set<string>();
+  const files = new Set<string>();
+  let complete = true;
+
+  const addTags = (value: unknown) => {
+    const names = Array.isArray(value) ? value : typeof value === 'string' ? value.split(',') : [];
+    for (const name of names) {
+      const tag = String(name).trim();
+      if (!tag) {
+        continue;
+      }
+      if (tag.includes('{{')) {
+        complete = false;
+      } else if (!SPECIAL_TAGS.includes(tag)) {
+        tags.add(tag);
+      }
+    }
+  };
+
+  // Parse a YAML file once, missing and invalid files make the result incomplete
+  const readYaml = async (filePath: string): Promise<unknown> => {
+    const resolved = path.resolve(filePath);
+    if (files.has(resolved)) {
+      return undefined;
+    }
+    files.add(resolved);
+
+    try {
+      return load(await fs.readFile(resolved, 'utf-8'), { schema: ANSIBLE_YAML_SCHEMA });
+    } catch (error) {
+      logger.verbose(`Tag discovery skipped ${resolved}: ${(error as Error).message}`);
+      complete = false;
+      return undefined;
+    }
+  };
+
+  // Resolve a file referenced from another file
+  const resolveReference = (reference: unknown, baseDir: string): string | undefined => {
+    const file = reference && typeof reference === 'object' ? (reference as any).file : reference;
+    if (typeof file !== 'string' || file.includes('{{')) {
+      complete = false;
+      return undefined;
+    }
+    return path.resolve(baseDir, file);
+  };
+
+  const visitTaskFile = async (filePath: string) => {
+    const tasks = await readYaml(filePath);
+    if (Array.isArray(tasks)) {
+      await visitTasks(tasks, path.dirname(filePath));
+    }
+  };
+
+  const visitTasks = async (tasks: unknown[], baseDir: string) => {
+    for (const task of tasks) {
+      if (!task || typeof task !== 'object') {
+        continue;
+      }
+      const entry = task as Record<string, any>;
+      addTags(entry.tags);
+
+      for (const section of ['block', 'rescue', 'always']) {
+        if (Array.isArray(entry[section])) {
+          await visitTasks(entry[section], baseDir);
+        }
+      }
+
+      const taskFile =
+        getKeyword(entry, 'import_tasks') ??
+        getKeyword(entry, 'include_tasks') ??
+        getKeyword(entry, 'include');
+      if (taskFile !== undefined) {
+        const resolved = resolveReference(taskFile, baseDir);
+        if (resolved) {
+          await visitTaskFile(resolved);
+        }
+      }
+
+      const role = getKeyword(entry, 'import_role') ?? getKeyword(entry, 'include_role');
+      if (role && typeof role === 'object') {
+        await visitRole(role.name, role.tasks_from);
+      }
+    }
+  };
+
+  const visitRole = async (name: unknown, tasksFrom?: unknown) => {
+    if (typeof name !== 'string' || name.includes('{{')) {
+      complete = false;
+      return;
+    }
+
+    let roleDir: string | undefined;
+    for (const dir of path.isAbsolute(name) ? [name] : rolesPath.map(p => path.join(p, name))) {
+      if (await isDirectory(dir)) {
+        roleDir = dir;
+        break;
+      }
+    }
+    if (!roleDir) {
+      logger.verbose(`Tag discovery could not find role ${name}`);
+      complete = false;
+      return;
+    }
+
+    const tasksFile = await findYamlFile(
+      path.join(roleDir, 'tasks'),
+      typeof tasksFrom === 'string' ? tasksFrom : 'main'
+    );
+    if (tasksFile) {
+      await visitTaskFile(tasksFile);
+    }
+
+    const handlersFile = await findYamlFile(path.join(roleDir, 'handlers'), 'main');
+    if (handlersFile) {
+      await visitTaskFile(handlersFile);
+    }
+
+    // Role dependencies
+    const metaFile = await findYamlFile(path.join(roleDir, 'meta'), 'main');
+    const meta = metaFile ? await readYaml(metaFile) : undefined;
+    if (meta && typeof meta === 'object' && Array.isArray((meta as any).dependencies)) {
+      await visitRoles((meta as any).dependencies);
+    }
+  };
+
+  const visitRoles = async (roles: unknown[]) => {
+    for (const role of roles) {
+      if (typeof role === 'string') {
+        await visitRole(role);
+      } else if (role && typeof role === 'object') {
+        const entry = role as Record<string, any>;
+        addTags(entry.tags);
+        await visitRole(entry.role ?? entry.name);
+      }
+    }
+  };
+
+  const visitPlaybook = async (filePath: string) => {
+    const plays = await readYaml(filePath);
+    if (!Array.isArray(plays)) {
+      return;
+    }
+
+    const baseDir = path.dirname(filePath);
+    for (const play of plays) {
+      if (!play || typeof play !== 'object') {
+        continue;
+      }
+      const entry = play as Record<string, any>;
+
+      const imported = getKeyword(entry, 'import_playbook');
+      if (imported !== undefined) {
+        const resolved = resolveReference(imported, baseDir);
+        if (resolved) {
+          await visitPlaybook(resolved);
+        }
+        continue;
+      }
+
+      addTags(entry.tags);
+      if (Array.isArray(entry.roles)) {
+        await visitRoles(entry.roles);
+      }
+      for (const section of ['pre_tasks', 'tasks', 'post_tasks', 'handlers']) {
+        if (Array.isArray(entry[section])) {
+          await visitTasks(entry[section], baseDir);
+        }
+      }
+    }
+  };
+
+  await visitPlaybook(path.resolve(playbookPath));
+
+  return { tags: [...tags].sort(), files: [...files], complete };
+}
+
+/**
+ * Check whether a path is a directory
+ */
+async function isDirectory(dirPath: string): Promise<boolean> {
+  try {
+    return (await fs.stat(dirPath)).isDirectory();
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Find name, name.yml or name.yaml in a directory
+ */
+async function findYamlFile(dir: string, name: string): Promise<string | undefined> {
+  for (const candidate of [name, `${name}.yml`, `${name}.yaml`]) {
+    try {
+      const filePath = path.join(dir, candidate);
+      if ((await fs.stat(filePath)).isFile()) {
+        return filePath;
+      }
+    } catch {
+      // Try the next candidate
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Cached discovery result
+ */
+interface CachedTags extends DiscoveredTags {
+  /** Modification times of the parsed files */
+  mtimes: Record<string, number>;
+}
+
+/**
+ * Cache for discovered playbook tags (cache/playbook-tags.json)
+ * Entries are reused as long as none of the parsed files changed. Incomplete results are
+ * always discovered again, since files that could not be resolved are not tracked.
+ */
+export class PlaybookTagCache {
+  constructor(private directoryManager: DirectoryManager) {}
+
+  private get cacheFile(): string {
+    return path.join(this.directoryManager.cacheDir, 'playbook-tags.json');
+  }
+
+  /**
+   * Get the tags of a playbook, discovering them when the cache is stale
+   * @param playbookPath Playbook file path
+   * @param options Discovery options
+   */
+  async getTags(playbookPath: string, options: TagDiscoveryOptions = {}): Promise<DiscoveredTags> {
+    const key = path.resolve(playbookPath);
+    const cache = await this.load();
+
+    const cached = cache[key];
+    if (cached?.complete && (await this.isFresh(cached))) {
+      return { tags: cached.tags, files: cached.files, complete: cached.complete };
+    }
+
+    const discovered = await discoverPlaybookTags(key, options);
+    const mtimes: Record<string, number> = {};
+    for (const file of discovered.files) {
+      mtimes[file] = (await getMtime(file)) ?? -1;
+    }
+
+    cache[key] = { ...discovered, mtimes };
+    await this.save(cache);
+
+    return discovered;
+  }
+
+  /**
+   * Check that none of the files of a cache entry changed
+   */
+  private async isFresh(cached: CachedTags): Promise<boolean> {
+    for (const [file, mtime] of Object.entries(cached.mtimes)) {
+      if (((await getMtime(file)) ?? -1) !== mtime) {
+        return false;
+      }
+    }
+    return true;
+  }
+
+  private async load(): Promise<Record<string, CachedTags>> {
+    try {
+      const content = JSON.parse(await fs.readFile(this.cacheFile, 'utf-8'));
+      return content && typeof content === 'object' ? content : {};
+    } catch {
+      return {};
+    }
+  }
+
+  private async save(cache: Record<string, CachedTags>): Promise<void> {
+    try {
+      await fs.mkdir(path.dirname(this.cacheFile), { recursive: true });
+      await fs.writeFile(this.cacheFile, JSON.stringify(cache, null, 2));
+    } catch (error) {
+      logger.verbose(`Failed to save playbook tag cache: ${(error as Error).message}`);
+    }
+  }
+}
+
+/**
+ * Get the modification time of a file, undefined if it does not exist
+ */
+async function getMtime(filePath: string): Promise<number | undefined> {
+  try {
+    return (await fs.stat(filePath)).mtimeMs;
+  } catch {
+    return undefined;
+  }
+}
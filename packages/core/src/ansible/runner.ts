@@ -6,6 +6,7 @@ import * as path from 'node:path';
 import { execa } from 'execa';
 import type { AnsibleConfig, ExecutionResult, ServerConfig } from '../types/index.js';
 import { fileExists } from '../utils/fs.js';
+import { getAnsibleConfigEnv } from './ansible-config.js';
 
 /**
  * Ansible runner options
@@ -105,17 +106,12 @@ class AnsibleRunner {
    * @returns Environment variables
    */
   private prepareEnvironment(): Record<string, string> {
-    const env: Record<string, string> = {
+    // ansible.cfg path, forks, role and collection paths and ANSIBLE_* variables of the project
+    return {
       ...(process.env as Record<string, string>),
+      ...getAnsibleConfigEnv(this.options.config, this.options.cwd || process.cwd()),
       ...this.options.env,
     };
-
-    // Add ansible.cfg path if specified
-    if (this.options.config?.configPath) {
-      env.ANSIBLE_CONFIG = this.options.config.configPath;
-    }
-
-    return env;
   }
 
   /**
@@ -22,6 +22,8 @@ export const CLI_SPECIFIC_OPTIONS = [
   'reuse',
   // Aship host options
   'hosts',
+  // Environment options
+  'env',
   // Mode options
   'interactive',
   'non-interactive',
@@ -32,6 +34,7 @@ export const CLI_SPECIFIC_OPTIONS = [
   'skip-vars',
   'no-skip-vars',
   'S',
+  'vars-file',
   'yes',
   'y',
   // Configuration options
@@ -46,12 +49,20 @@ export const CLI_SPECIFIC_OPTIONS = [
   'q',
   // JSON output options
   'json',
+  'output',
   // Filter options
   'filter-tag',
   // Minimal output
   'minimal',
+  // Compact progress output
+  'compact',
 ];
 
+/**
+ * CLI tool specific options that never take a value, the next argument is not skipped
+ */
+const CLI_BOOLEAN_OPTIONS = new Set(['compact']);
+
 /**
  * Common Ansible parameters that are always safe to pass
  */
@@ -187,13 +198,18 @@ export function filterAshipSpecificArgs(args: string[]): string[] {
       continue;
     }
 
-    // Extract option name without dashes
-    const optionName = arg.replace(/^-+/, '');
+    // Extract option name without dashes and an inline value
+    const optionName = arg.replace(/^-+/, '').split('=')[0];
 
     // Skip aship-specific options
     if (cliOptionsSet.has(optionName)) {
       // Skip the option and its value if it has one
-      if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+      if (
+        !arg.includes('=') &&
+        !CLI_BOOLEAN_OPTIONS.has(optionName) &&
+        i + 1 < args.length &&
+        !args[i + 1].startsWith('-')
+      ) {
         i++; // Skip the value
       }
       continue;
@@ -235,13 +251,18 @@ export function extractAnsibleOptions(args: string[]): string[] {
 
     // Check if it's an option
     if (arg.startsWith('-')) {
-      // Extract option name without dashes
-      const option = arg.replace(/^-+/, '');
+      // Extract option name without dashes and an inline value
+      const option = arg.replace(/^-+/, '').split('=')[0];
 
       // If it's not a CLI tool option, add it to Ansible options
       if (cliOptions.has(option)) {
         // Skip CLI tool option value
-        if (i + 1 < args.length && !args[i + 1].startsWith('-')) {
+        if (
+          !arg.includes('=') &&
+          !CLI_BOOLEAN_OPTIONS.has(option) &&
+          i + 1 < args.length &&
+          !args[i + 1].startsWith('-')
+        ) {
           i++;
         }
       } else {
@@ -17,6 +17,7 @@ import {
   ENV_GLOBAL_DIR,
   HOSTS_FILE_NAME,
   INVENTORIES_DIR_NAME,
+  KNOWN_HOSTS_FILE_NAME,
   LOGS_DIR_NAME,
   SESSION_DIR_NAME,
   STATE_DIR_NAME,
@@ -144,6 +145,10 @@ export class DirectoryManager {
     return path.join(this.globalDir, HOSTS_FILE_NAME);
   }
 
+  get knownHostsFile(): string {
+    return path.join(this.globalDir, KNOWN_HOSTS_FILE_NAME);
+  }
+
   // State directory files
   get stateDir(): string {
     return path.join(this.globalDir, STATE_DIR_NAME);
@@ -157,6 +162,10 @@ export class DirectoryManager {
     return path.join(this.stateDir, 'host-usage.json');
   }
 
+  get variableAnswersFile(): string {
+    return path.join(this.stateDir, 'variable-answers.json');
+  }
+
   // Logs directory
   get logsDir(): string {
     return path.join(this.globalDir, LOGS_DIR_NAME);
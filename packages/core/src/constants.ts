@@ -13,6 +13,7 @@ export const CONFIG_GLOBAL_DIR = `~/.${APP_NAME}`;
 
 // Default directory structure (all derived from APP_NAME)
 export const HOSTS_FILE_NAME = 'hosts.json';
+export const KNOWN_HOSTS_FILE_NAME = 'known_hosts';
 export const STATE_DIR_NAME = 'state';
 export const LOGS_DIR_NAME = 'logs';
 export const TEMP_DIR_NAME = 'temp';
@@ -0,0 +1,15 @@
+/**
+ * Run history exports
+ */
+
+export {
+  RunHistory,
+  RunRecorder,
+  MASKED_VALUE,
+  isSecretVariable,
+  maskVariables,
+  maskCommandLine,
+  splitSecretVariables,
+} from './run-history.js';
+export type { RunStartInfo, RunHistoryFilter } from './run-history.js';
+export type { RunRecord } from '../schemas/run-record.js';
@@ -0,0 +1,394 @@
+/**
+ * Run history for recording aship run/exec invocations and their output
+ */
+
+import { randomBytes } from 'node:crypto';
+import { type WriteStream, createWriteStream } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { DirectoryManager } from '../config/directory-manager.js';
+import { type RunRecord, validateRunRecord } from '../schemas/run-record.js';
+import type { VariableDefinition } from '../schemas/variables.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Placeholder used in place of secret values
+ */
+export const MASKED_VALUE = '***MASKED***';
+
+/**
+ * Variable names that are treated as secrets even without a password definition
+ */
+const SENSITIVE_NAME_PATTERN = /pass(word)?|secret|token|api_?key|private_?key/i;
+
+/**
+ * Metadata provided when a run starts
+ */
+export type RunStartInfo = Pick<
+  RunRecord,
+  'command' | 'project_dir' | 'playbook' | 'module' | 'module_args' | 'pattern' | 'descriptor'
+> & {
+  hosts?: string[];
+  tags?: string[];
+  vars?: Record<string, any>;
+  command_line?: string[];
+};
+
+/**
+ * Filters for listing run history
+ */
+export interface RunHistoryFilter {
+  command?: RunRecord['command'];
+  status?: RunRecord['status'];
+  /** Substring match on the playbook path */
+  playbook?: string;
+  /** Exact match on one of the target hosts */
+  host?: string;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+/**
+ * Check whether a variable holds a secret value
+ * @param name Variable name
+ * @param definitions Optional variable definitions; password-type variables are secret
+ */
+export function isSecretVariable(
+  name: string,
+  definitions: Record<string, VariableDefinition> = {}
+): boolean {
+  return definitions[name]?.type === 'password' || SENSITIVE_NAME_PATTERN.test(name);
+}
+
+/**
+ * Mask secret variable values
+ * @param vars Variables to mask
+ * @param definitions Optional variable definitions; password-type variables are masked
+ * @returns Copy of the variables with secret values replaced
+ */
+export function maskVariables(
+  vars: Record<string, any>,
+  definitions: Record<string, VariableDefinition> = {}
+): Record<string, any> {
+  const masked: Record<string, any> = {};
+
+  for (const [name, value] of Object.entries(vars)) {
+    masked[name] = isSecretVariable(name, definitions) ? MASKED_VALUE : value;
+  }
+
+  return masked;
+}
+
+/**
+ * Split variables into replayable values and the names of secret variables
+ * @param vars Variables to split
+ * @param definitions Optional variable definitions; password-type variables are secret
+ * @returns Non-secret values and secret variable names
+ */
+export function splitSecretVariables(
+  vars: Record<string, any>,
+  definitions: Record<string, VariableDefinition> = {}
+): { values: Record<string, any>; secrets: string[] } {
+  const values: Record<string, any> = {};
+  const secrets: string[] = [];
+
+  for (const [name, value] of Object.entries(vars)) {
+    if (isSecretVariable(name, definitions)) {
+      secrets.push(name);
+    } else {
+      values[name] = value;
+    }
+  }
+
+  return { values, secrets };
+}
+
+/**
+ * Mask inline extra vars in an Ansible command line
+ * Extra vars passed by file reference (@file) are kept as-is
+ * @param args Command line arguments
+ * @returns Copy of the arguments with secret values replaced
+ */
+export function maskCommandLine(args: string[]): string[] {
+  const masked = [...args];
+
+  for (let i = 0; i < masked.length - 1; i++) {
+    if (masked[i] !== '-e' && masked[i] !== '--extra-vars') {
+      continue;
+    }
+
+    const value = masked[i + 1];
+    if (value.startsWith('@')) {
+      continue;
+    }
+
+    try {
+      masked[i + 1] = JSON.stringify(maskVariables(JSON.parse(value)));
+    } catch {
+      // Plain key=value pairs
+      masked[i + 1] = value
+        .split(' ')
+        .map(pair => {
+          const [key] = pair.split('=');
+          return pair.includes('=') && SENSITIVE_NAME_PATTERN.test(key)
+            ? `${key}=${MASKED_VALUE}`
+            : pair;
+        })
+        .join(' ');
+    }
+  }
+
+  return masked;
+}
+
+/**
+ * Generate a unique, time-sortable run identifier (e.g. 20250603-142501-a1b2)
+ */
+function generateRunId(date: Date): string {
+  const stamp = date.toISOString().replace(/[-:]/g, '').replace('T', '-').slice(0, 15);
+  return `${stamp}-${randomBytes(2).toString('hex')}`;
+}
+
+/**
+ * Records a single run while it executes
+ */
+export class RunRecorder {
+  private stream: WriteStream;
+  private startTime: number;
+
+  constructor(
+    private history: RunHistory,
+    public record: RunRecord,
+    logPath: string
+  ) {
+    this.startTime = Date.parse(record.started_at);
+    this.stream = createWriteStream(logPath, { flags: 'a', mode: 0o600 });
+    this.stream.on('error', error => {
+      logger.debug(`Failed to write run output: ${error.message}`);
+    });
+  }
+
+  get id(): string {
+    return this.record.id;
+  }
+
+  /**
+   * Append captured output
+   */
+  write(data: string): void {
+    this.stream.write(data);
+  }
+
+  /**
+   * Record the executed command line (secrets are masked)
+   */
+  setCommandLine(command: string, args: string[]): void {
+    this.record.command_line = [command, ...maskCommandLine(args)];
+  }
+
+  /**
+   * Finish the run and persist the final record
+   * @param exitCode Process exit code
+   * @returns Final run record
+   */
+  async finish(exitCode: number): Promise<RunRecord> {
+    await new Promise<void>(resolve => this.stream.end(() => resolve()));
+
+    const finishedAt = new Date();
+    this.record = {
+      ...this.record,
+      status: exitCode === 0 ? 'success' : 'failed',
+      exit_code: exitCode,
+      finished_at: finishedAt.toISOString(),
+      duration_ms: Math.max(0, finishedAt.getTime() - this.startTime),
+    };
+
+    await this.history.saveRecord(this.record);
+    await this.history.appendMainLog(this.record);
+    return this.record;
+  }
+}
+
+/**
+ * Run history class - stores run records and captured output in the ansible runs directory
+ */
+export class RunHistory {
+  constructor(private directoryManager: DirectoryManager) {}
+
+  private recordPath(id: string): string {
+    return path.join(this.directoryManager.ansibleRunsDir, `${id}.json`);
+  }
+
+  /**
+   * Start recording a run
+   * @param info Run metadata
+   * @returns Recorder used to capture output and finish the run
+   */
+  async startRun(info: RunStartInfo): Promise<RunRecorder> {
+    await fs.mkdir(this.directoryManager.ansibleRunsDir, { recursive: true });
+
+    const startedAt = new Date();
+    const id = generateRunId(startedAt);
+    const record: RunRecord = {
+      ...info,
+      id,
+      status: 'running',
+      hosts: info.hosts || [],
+      tags: info.tags || [],
+      vars: info.vars || {},
+      command_line: info.command_line || [],
+      started_at: startedAt.toISOString(),
+      log_file: `${id}.log`,
+    };
+
+    await this.saveRecord(record);
+    return new RunRecorder(
+      this,
+      record,
+      path.join(this.directoryManager.ansibleRunsDir, record.log_file)
+    );
+  }
+
+  /**
+   * Persist a run record
+   */
+  async saveRecord(record: RunRecord): Promise<void> {
+    await fs.writeFile(this.recordPath(record.id), JSON.stringify(record, null, 2), {
+      encoding: 'utf-8',
+      mode: 0o600,
+    });
+  }
+
+  /**
+   * Append a one-line summary of a finished run to the main log file
+   */
+  async appendMainLog(record: RunRecord): Promise<void> {
+    const target = record.playbook || `${record.pattern || 'all'} -m ${record.module}`;
+    const hosts = record.hosts.length > 0 ? ` hosts=${record.hosts.join(',')}` : '';
+    const line = `${record.finished_at} ${record.command} ${record.id} ${target}${hosts} status=${record.status} exit=${record.exit_code}\n`;
+
+    try {
+      await fs.mkdir(this.directoryManager.logsDir, { recursive: true });
+      await fs.appendFile(this.directoryManager.mainLogFile, line, 'utf-8');
+    } catch (error) {
+      logger.debug(`Failed to write main log: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * List recorded runs, newest first
+   * @param filter Optional filters
+   * @returns Matching run records
+   */
+  async listRuns(filter: RunHistoryFilter = {}): Promise<RunRecord[]> {
+    let files: string[];
+    try {
+      files = await fs.readdir(this.directoryManager.ansibleRunsDir);
+    } catch {
+      return [];
+    }
+
+    const ids = files
+      .filter(file => file.endsWith('.json'))
+      .map(file => file.slice(0, -'.json'.length))
+      .sort()
+      .reverse();
+
+    const records: RunRecord[] = [];
+    for (const id of ids) {
+      const record = await this.loadRecord(id);
+      if (!record || !this.matchesFilter(record, filter)) {
+        continue;
+      }
+
+      records.push(record);
+      if (filter.limit && records.length >= filter.limit) {
+        break;
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Get a run record by id, unique id prefix, or "last"
+   * @param idOrPrefix Run identifier
+   * @returns Run record or null if not found
+   */
+  async getRun(idOrPrefix: string): Promise<RunRecord | null> {
+    if (idOrPrefix === 'last') {
+      const [latest] = await this.listRuns({ limit: 1 });
+      return latest || null;
+    }
+
+    const exact = await this.loadRecord(idOrPrefix);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = (await this.listRuns()).filter(record => record.id.startsWith(idOrPrefix));
+    if (matches.length > 1) {
+      throw new Error(
+        `Run id "${idOrPrefix}" is ambiguous: ${matches.map(record => record.id).join(', ')}`
+      );
+    }
+
+    return matches[0] || null;
+  }
+
+  /**
+   * Read the captured output of a run
+   * @param record Run record
+   * @returns Captured output (empty if the log file is missing)
+   */
+  async readOutput(record: RunRecord): Promise<string> {
+    try {
+      return await fs.readFile(
+        path.join(this.directoryManager.ansibleRunsDir, record.log_file),
+        'utf-8'
+      );
+    } catch {
+      return '';
+    }
+  }
+
+  private async loadRecord(id: string): Promise<RunRecord | null> {
+    try {
+      const content = await fs.readFile(this.recordPath(id), 'utf-8');
+      const validation = validateRunRecord(JSON.parse(content));
+      if (validation.success && validation.data) {
+        return validation.data;
+      }
+      logger.debug(`Skipping invalid run record ${id}: ${validation.errors?.join(', ')}`);
+      return null;
+    } catch {
+      return null;
+    }
+  }
+
+  private matchesFilter(record: RunRecord, filter: RunHistoryFilter): boolean {
+    if (filter.command && record.command !== filter.command) {
+      return false;
+    }
+    if (filter.status && record.status !== filter.status) {
+      return false;
+    }
+    if (filter.playbook && !record.playbook?.includes(filter.playbook)) {
+      return false;
+    }
+    if (filter.host && !record.hosts.includes(filter.host)) {
+      return false;
+    }
+
+    const startedAt = Date.parse(record.started_at);
+    if (filter.since && startedAt < filter.since.getTime()) {
+      return false;
+    }
+    if (filter.until && startedAt > filter.until.getTime()) {
+      return false;
+    }
+
+    return true;
+  }
+}
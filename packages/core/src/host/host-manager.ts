@@ -6,18 +6,65 @@ import * as fs from 'node:fs/promises';
 import * as yaml from 'js-yaml';
 import type { DirectoryManager } from '../config/directory-manager.js';
 import {
+  type EntryValidationResult,
   type HostChoice,
   type HostConfig,
+  HostConfigSchema,
+  type HostGroupConfig,
+  HostGroupConfigSchema,
+  HostGroupNameSchema,
   type HostUsage,
   type HostUsageHistory,
   type HostsConfig,
+  type HostsValidationResult,
+  type InvalidHostEntry,
+  type JumpHost,
   type RecentConnection,
   createDefaultHostUsageHistory,
   createDefaultHostsConfig,
-  validateHostUsageHistory,
-  validateHostsConfig,
+  validateHostUsageEntries,
+  validateHostsConfigEntries,
   validateRecentConnection,
 } from '../schemas/host-config.js';
+import { resolveJumpHosts } from '../ssh/jump-host.js';
+import { selectHosts } from './host-selector.js';
+import { resolveHostVars } from './host-vars.js';
+
+/**
+ * Result of checking the host files
+ */
+export interface HostsDiagnosis {
+  /** Path to hosts.yml */
+  hostsFile: string;
+  /** Path to host-usage.json */
+  usageFile: string;
+  /** Names of valid hosts */
+  validHosts: string[];
+  /** Invalid host entries */
+  invalidHosts: InvalidHostEntry[];
+  /** Errors that make the whole hosts file unusable */
+  hostsFileErrors: string[];
+  /** Invalid usage statistics entries */
+  invalidUsage: InvalidHostEntry[];
+  /** Errors that make the whole usage file unusable */
+  usageFileErrors: string[];
+  /** Whether no problems were found */
+  healthy: boolean;
+}
+
+/**
+ * Result of repairing the host files
+ */
+export interface HostsRepairResult {
+  /** Backup files of the original files */
+  backups: string[];
+  /** Hosts that were fixed */
+  fixed: string[];
+  /** Hosts that were removed (kept in the backup) */
+  removed: string[];
+  /** Usage statistics entries that were removed (kept in the backup) */
+  removedUsage: string[];
+}
 
 /**
  * Host manager class - replaces ServerManager with simplified host management
@@ -25,116 +72,265 @@ import {
 export class HostManager {
   private hostsConfig: HostsConfig | null = null;
   private usageHistory: HostUsageHistory | null = null;
+  private invalidHosts: InvalidHostEntry[] = [];
+  private hostsFileErrors: string[] = [];
+  private invalidUsage: InvalidHostEntry[] = [];
+  private usageFileErrors: string[] = [];
 
   constructor(private directoryManager: DirectoryManager) {}
 
+  /**
+   * Path to the aship-managed known_hosts file
+   */
+  get knownHostsFile(): string {
+    return this.directoryManager.knownHostsFile;
+  }
+
   /**
    * Load hosts configuration from hosts.yml
+   * Invalid host entries are skipped but never removed from the file on read
    */
   private async loadHostsConfig(): Promise<HostsConfig> {
     if (!this.hostsConfig) {
       await this.directoryManager.initialize();
 
-      try {
-        // 检查文件是否存在，如果不存在则创建默认配置
-        if (await this.directoryManager.fileExists(this.directoryManager.hostsFile)) {
-          const content = await fs.readFile(this.directoryManager.hostsFile, 'utf-8');
-          const parsed = yaml.load(content) || {};
-          const validation = validateHostsConfig(parsed);
-
-          if (validation.success && validation.data) {
-            this.hostsConfig = validation.data;
-          } else {
-            console.warn('⚠️  Some hosts have configuration issues and will be skipped:');
-            validation.errors?.forEach(error => {
-              console.warn(`   • ${error}`);
-            });
-            console.warn(
-              '   💡 Run "aship host list" to see valid hosts or "aship host add" to add new ones'
-            );
-            this.hostsConfig = createDefaultHostsConfig();
-            // 保存默认配置，确保文件存在
-            await this.saveHostsConfig(this.hostsConfig);
+      if (await this.directoryManager.fileExists(this.directoryManager.hostsFile)) {
+        const result = await this.readHostsFile();
+        this.hostsConfig = this.buildHostsConfig(result.data, result.groups);
+        this.invalidHosts = result.invalid;
+        this.hostsFileErrors = result.errors;
+
+        if (result.invalid.length > 0 || result.errors.length > 0) {
+          console.warn('⚠️  Some hosts have configuration issues and will be skipped:');
+          for (const error of result.errors) {
+            console.warn(`   • ${error}`);
           }
-        } else {
-          this.hostsConfig = createDefaultHostsConfig();
-          // 文件不存在，创建默认配置文件
-          await this.saveHostsConfig(this.hostsConfig);
+          for (const entry of result.invalid) {
+            console.warn(`   • ${entry.key}: ${entry.errors.join('; ')}`);
+          }
+          console.warn(
+            '   💡 Run "aship host doctor" to see details or "aship host doctor --fix" to repair them'
+          );
         }
-      } catch (error) {
-        console.warn('Failed to load hosts configuration, using defaults:', error);
+      } else {
         this.hostsConfig = createDefaultHostsConfig();
-        try {
-          // 尝试保存默认配置，确保下次运行正常
-          await this.saveHostsConfig(this.hostsConfig);
-        } catch (saveError) {
-          console.warn('Failed to save default hosts configuration:', saveError);
-        }
+        // 文件不存在，创建默认配置文件
+        await this.saveHostsConfig(this.hostsConfig);
       }
     }
 
     return this.hostsConfig;
   }
 
+  /**
+   * Read and validate hosts.yml entry by entry
+   */
+  private async readHostsFile(): Promise<HostsValidationResult> {
+    try {
+      const content = await fs.readFile(this.directoryManager.hostsFile, 'utf-8');
+      return validateHostsConfigEntries(yaml.load(content));
+    } catch (error) {
+      return {
+        data: {},
+        groups: {},
+        invalid: [],
+        errors: [
+          `Failed to read ${this.directoryManager.hostsFile}: ${error instanceof Error ? error.message : String(error)}`,
+        ],
+      };
+    }
+  }
+
+  /**
+   * Build a hosts configuration, omitting the groups section when it is empty
+   */
+  private buildHostsConfig(
+    hosts: Record<string, HostConfig>,
+    groups?: Record<string, HostGroupConfig>
+  ): HostsConfig {
+    return groups && Object.keys(groups).length > 0 ? { hosts, groups } : { hosts };
+  }
+
   /**
    * Save hosts configuration to hosts.yml
+   * If the file contains invalid entries, it is backed up first so that they are not lost
+   * @returns Path to the backup file, if one was created
    */
-  private async saveHostsConfig(config: HostsConfig): Promise<void> {
+  private async saveHostsConfig(config: HostsConfig): Promise<string | undefined> {
     await this.directoryManager.initialize();
+
+    let backupPath: string | undefined;
+    if (this.invalidHosts.length > 0 || this.hostsFileErrors.length > 0) {
+      backupPath = await this.backupFile(this.directoryManager.hostsFile);
+      console.warn(`⚠️  Invalid host entries were not kept, a backup was saved to ${backupPath}`);
+      this.invalidHosts = [];
+      this.hostsFileErrors = [];
+    }
+
     const yamlContent = yaml.dump(config, { indent: 2 });
     await fs.writeFile(this.directoryManager.hostsFile, yamlContent, 'utf-8');
     this.hostsConfig = config;
+
+    return backupPath;
   }
 
   /**
    * Load usage history from host-usage.json
+   * Invalid entries are skipped but never removed from the file on read
    */
   private async loadUsageHistory(): Promise<HostUsageHistory> {
     if (!this.usageHistory) {
       await this.directoryManager.initialize();
 
-      try {
-        if (await this.directoryManager.fileExists(this.directoryManager.hostUsageFile)) {
-          const content = await fs.readFile(this.directoryManager.hostUsageFile, 'utf-8');
-          const parsed = JSON.parse(content);
-          const validation = validateHostUsageHistory(parsed);
-
-          if (validation.success && validation.data) {
-            this.usageHistory = validation.data;
-          } else {
-            console.warn('Invalid usage history, using defaults:', validation.errors);
-            this.usageHistory = createDefaultHostUsageHistory();
-            // 保存默认使用历史，确保文件存在
-            await this.saveUsageHistory(this.usageHistory);
-          }
-        } else {
-          this.usageHistory = createDefaultHostUsageHistory();
-          // 文件不存在，创建默认使用历史文件
-          await this.saveUsageHistory(this.usageHistory);
+      if (await this.directoryManager.fileExists(this.directoryManager.hostUsageFile)) {
+        const result = await this.readUsageFile();
+        this.usageHistory = result.data;
+        this.invalidUsage = result.invalid;
+        this.usageFileErrors = result.errors;
+
+        if (result.invalid.length > 0 || result.errors.length > 0) {
+          console.warn(
+            '⚠️  Some usage statistics are invalid and will be ignored. Run "aship host doctor" for details.'
+          );
         }
-      } catch (error) {
-        console.warn('Failed to load usage history, using defaults:', error);
+      } else {
         this.usageHistory = createDefaultHostUsageHistory();
-        try {
-          // 尝试保存默认使用历史，确保下次运行正常
-          await this.saveUsageHistory(this.usageHistory);
-        } catch (saveError) {
-          console.warn('Failed to save default usage history:', saveError);
-        }
+        // 文件不存在，创建默认使用历史文件
+        await this.saveUsageHistory(this.usageHistory);
       }
     }
 
     return this.usageHistory;
   }
 
+  /**
+   * Read and validate host-usage.json entry by entry
+   */
+  private async readUsageFile(): Promise<EntryValidationResult<HostUsage>> {
+    try {
+      const content = await fs.readFile(this.directoryManager.hostUsageFile, 'utf-8');
+      return validateHostUsageEntries(content.trim() ? JSON.parse(content) : {});
+    } catch (error) {
+      return {
+        data: {},
+        invalid: [],
+        errors: [
+          `Failed to read ${this.directoryManager.hostUsageFile}: ${error instanceof Error ? error.message : String(error)}`,
+        ],
+      };
+    }
+  }
+
   /**
    * Save usage history to host-usage.json
+   * If the file contains invalid entries, it is backed up first so that they are not lost
+   * @returns Path to the backup file, if one was created
    */
-  private async saveUsageHistory(usage: HostUsageHistory): Promise<void> {
+  private async saveUsageHistory(usage: HostUsageHistory): Promise<string | undefined> {
     await this.directoryManager.initialize();
+
+    let backupPath: string | undefined;
+    if (this.invalidUsage.length > 0 || this.usageFileErrors.length > 0) {
+      backupPath = await this.backupFile(this.directoryManager.hostUsageFile);
+      this.invalidUsage = [];
+      this.usageFileErrors = [];
+    }
+
     const jsonContent = JSON.stringify(usage, null, 2);
     await fs.writeFile(this.directoryManager.hostUsageFile, jsonContent, 'utf-8');
     this.usageHistory = usage;
+
+    return backupPath;
+  }
+
+  /**
+   * Copy a file to a timestamped backup next to it
+   * @returns Path to the backup file
+   */
+  private async backupFile(filePath: string): Promise<string> {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const backupPath = `${filePath}.${timestamp}.bak`;
+    await fs.copyFile(filePath, backupPath);
+    return backupPath;
+  }
+
+  /**
+   * Check the hosts file and the usage history for invalid entries
+   * The files are re-read, so changes made outside aship are taken into account
+   */
+  async diagnose(): Promise<HostsDiagnosis> {
+    await this.directoryManager.initialize();
+
+    const hostsExists = await this.directoryManager.fileExists(this.directoryManager.hostsFile);
+    const usageExists = await this.directoryManager.fileExists(this.directoryManager.hostUsageFile);
+    const hosts = hostsExists
+      ? await this.readHostsFile()
+      : { data: {}, groups: {}, invalid: [], errors: [] };
+    const usage = usageExists ? await this.readUsageFile() : { data: {}, invalid: [], errors: [] };
+
+    return {
+      hostsFile: this.directoryManager.hostsFile,
+      usageFile: this.directoryManager.hostUsageFile,
+      validHosts: Object.keys(hosts.data),
+      invalidHosts: hosts.invalid,
+      hostsFileErrors: hosts.errors,
+      invalidUsage: usage.invalid,
+      usageFileErrors: usage.errors,
+      healthy:
+        hosts.invalid.length === 0 &&
+        hosts.errors.length === 0 &&
+        usage.invalid.length === 0 &&
+        usage.errors.length === 0,
+    };
+  }
+
+  /**
+   * Repair the hosts file and the usage history
+   * Entries whose only problem is a name that does not match their key are fixed,
+   * all other invalid entries are removed. The original files are backed up first.
+   */
+  async repair(): Promise<HostsRepairResult> {
+    const diagnosis = await this.diagnose();
+    const result: HostsRepairResult = { backups: [], fixed: [], removed: [], removedUsage: [] };
+
+    if (diagnosis.invalidHosts.length > 0 || diagnosis.hostsFileErrors.length > 0) {
+      const current = await this.readHostsFile();
+      const hosts = { ...current.data };
+
+      for (const entry of current.invalid) {
+        // Invalid group entries ("@name") cannot be fixed
+        if (entry.fixable && !entry.key.startsWith('@')) {
+          hosts[entry.key] = HostConfigSchema.parse({
+            ...(entry.value as object),
+            name: entry.key,
+          });
+          result.fixed.push(entry.key);
+        } else {
+          result.removed.push(entry.key);
+        }
+      }
+
+      this.invalidHosts = current.invalid;
+      this.hostsFileErrors = current.errors;
+      const backupPath = await this.saveHostsConfig(this.buildHostsConfig(hosts, current.groups));
+      if (backupPath) {
+        result.backups.push(backupPath);
+      }
+    }
+
+    if (diagnosis.invalidUsage.length > 0 || diagnosis.usageFileErrors.length > 0) {
+      const current = await this.readUsageFile();
+      result.removedUsage = current.invalid.map(entry => entry.key);
+
+      this.invalidUsage = current.invalid;
+      this.usageFileErrors = current.errors;
+      const backupPath = await this.saveUsageHistory(current.data);
+      if (backupPath) {
+        result.backups.push(backupPath);
+      }
+    }
+
+    return result;
   }
 
   /**
@@ -153,6 +349,16 @@ export class HostManager {
     return config.hosts[name] || null;
   }
 
+  /**
+   * Resolve host selectors (names, "@group" or "key=value" labels) to host names
+   * @param selectors Selector strings
+   * @returns Names of the selected hosts
+   */
+  async resolveHostSelectors(selectors: string[]): Promise<string[]> {
+    const hosts = await this.getHosts();
+    return selectHosts(hosts, selectors).map(host => host.name);
+  }
+
   /**
    * Add a new host (only successful connections are saved)
    */
@@ -171,15 +377,25 @@ export class HostManager {
     }
 
     const now = new Date().toISOString();
-    const newHost: HostConfig = {
+    const parsed = HostConfigSchema.safeParse({
       name: hostName,
       created_at: now,
       connection_success_at: now,
       ...hostData,
-    };
+    });
+
+    // Never save a host that would be rejected when hosts are loaded
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid host "${hostName}": ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')}`
+      );
+    }
+    const newHost: HostConfig = parsed.data;
+    this.validateJumpHost(newHost, { ...config.hosts, [hostName]: newHost });
 
     // Add host to configuration
     const updatedConfig: HostsConfig = {
+      ...config,
       hosts: {
         ...config.hosts,
         [hostName]: newHost,
@@ -190,6 +406,138 @@ export class HostManager {
     return newHost;
   }
 
+  /**
+   * Update an existing host
+   * The name, creation time and source of the host are preserved
+   * @param name Host name
+   * @param updates Fields to update (undefined values clear optional fields)
+   * @returns Updated host
+   */
+  async updateHost(
+    name: string,
+    updates: Partial<Omit<HostConfig, 'name' | 'created_at'>>
+  ): Promise<HostConfig> {
+    const config = await this.loadHostsConfig();
+    const current = config.hosts[name];
+
+    if (!current) {
+      throw new Error(`Host "${name}" not found`);
+    }
+
+    const parsed = HostConfigSchema.safeParse({
+      ...current,
+      ...updates,
+      name: current.name,
+      created_at: current.created_at,
+    });
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid host "${name}": ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')}`
+      );
+    }
+    this.validateJumpHost(parsed.data, { ...config.hosts, [name]: parsed.data });
+
+    await this.saveHostsConfig({
+      ...config,
+      hosts: {
+        ...config.hosts,
+        [name]: parsed.data,
+      },
+    });
+    return parsed.data;
+  }
+
+  /**
+   * Resolve the jump host chain of a host
+   * @param host Host (it does not need to be saved yet)
+   * @returns Hops in connection order
+   */
+  async resolveJumpHosts(host: Pick<HostConfig, 'name' | 'jump_host'>): Promise<JumpHost[]> {
+    if (!host.jump_host) {
+      return [];
+    }
+    return resolveJumpHosts(host, await this.getHosts());
+  }
+
+  /**
+   * Make sure the jump hosts of a host can be resolved (valid specs, no cycles)
+   */
+  private validateJumpHost(host: HostConfig, hosts: Record<string, HostConfig>): void {
+    try {
+      resolveJumpHosts(host, Object.values(hosts));
+    } catch (error) {
+      throw new Error(
+        `Invalid host "${host.name}": jump_host: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get all host group configurations
+   */
+  async getGroups(): Promise<Record<string, HostGroupConfig>> {
+    const config = await this.loadHostsConfig();
+    return config.groups || {};
+  }
+
+  /**
+   * Get a host group configuration
+   * Groups only have a configuration once something was set for them
+   */
+  async getGroup(name: string): Promise<HostGroupConfig | null> {
+    const groups = await this.getGroups();
+    return groups[name] || null;
+  }
+
+  /**
+   * Update a host group configuration, creating it if needed
+   * Groups without any settings left are removed from hosts.yml
+   * @param name Group name
+   * @param updates Fields to update (undefined values clear optional fields)
+   * @returns Updated group configuration
+   */
+  async updateGroup(name: string, updates: Partial<HostGroupConfig>): Promise<HostGroupConfig> {
+    const config = await this.loadHostsConfig();
+
+    const parsedName = HostGroupNameSchema.safeParse(name);
+    if (!parsedName.success) {
+      throw new Error(`Invalid group name "${name}": ${parsedName.error.errors[0].message}`);
+    }
+
+    const parsed = HostGroupConfigSchema.safeParse({ ...config.groups?.[name], ...updates });
+    if (!parsed.success) {
+      throw new Error(
+        `Invalid group "${name}": ${parsed.error.errors.map(e => `${e.path.join('.')}: ${e.message}`).join('; ')}`
+      );
+    }
+
+    const groups = { ...config.groups };
+    const isEmpty = Object.values(parsed.data).every(
+      value => value === undefined || (typeof value === 'object' && Object.keys(value).length === 0)
+    );
+    if (isEmpty) {
+      delete groups[name];
+    } else {
+      groups[name] = parsed.data;
+    }
+
+    await this.saveHostsConfig(this.buildHostsConfig(config.hosts, groups));
+    return parsed.data;
+  }
+
+  /**
+   * Get the effective Ansible variables of a host
+   * Group variables are applied in the order of the host's groups, host variables win
+   * @param name Host name
+   */
+  async getEffectiveHostVars(name: string): Promise<Record<string, any>> {
+    const host = await this.getHost(name);
+    if (!host) {
+      throw new Error(`Host "${name}" not found`);
+    }
+    return resolveHostVars(host, await this.getGroups());
+  }
+
   /**
    * Remove a host
    */
@@ -205,6 +553,7 @@ export class HostManager {
     delete updatedHosts[name];
 
     const updatedConfig: HostsConfig = {
+      ...config,
       hosts: updatedHosts,
     };
 
@@ -0,0 +1,128 @@
+/**
+ * Host selectors for choosing aship hosts by name, group or label
+ *
+ * Supported selectors:
+ * - "web-1": the host named web-1
+ * - "@web": all hosts in the group web
+ * - "env=prod": all hosts with the label env set to prod
+ */
+
+import type { HostConfig } from '../schemas/host-config.js';
+
+/**
+ * Parsed host selector
+ */
+export type HostSelector =
+  | { type: 'name'; name: string }
+  | { type: 'group'; group: string }
+  | { type: 'label'; key: string; value: string };
+
+/**
+ * Parse a single host selector
+ * @param selector Selector string
+ * @returns Parsed selector
+ */
+export function parseHostSelector(selector: string): HostSelector {
+  const trimmed = selector.trim();
+
+  if (trimmed.startsWith('@')) {
+    const group = trimmed.slice(1);
+    if (!group) {
+      throw new Error(`Invalid host selector "${selector}": group name is missing`);
+    }
+    return { type: 'group', group };
+  }
+
+  const separator = trimmed.indexOf('=');
+  if (separator !== -1) {
+    const key = trimmed.slice(0, separator).trim();
+    if (!key) {
+      throw new Error(`Invalid host selector "${selector}": label key is missing`);
+    }
+    return { type: 'label', key, value: trimmed.slice(separator + 1).trim() };
+  }
+
+  return { type: 'name', name: trimmed };
+}
+
+/**
+ * Check whether a host matches a selector
+ * @param host Host configuration
+ * @param selector Parsed selector
+ */
+export function matchesHostSelector(host: HostConfig, selector: HostSelector): boolean {
+  switch (selector.type) {
+    case 'group':
+      return host.groups?.includes(selector.group) ?? false;
+    case 'label':
+      return host.labels?.[selector.key] === selector.value;
+    default:
+      return host.name === selector.name;
+  }
+}
+
+/**
+ * Select hosts matching any of the given selectors
+ * Hosts are returned in selector order, without duplicates
+ * @param hosts Available hosts
+ * @param selectors Selector strings
+ * @returns Selected hosts
+ * @throws Error if a selector does not match any host
+ */
+export function selectHosts(hosts: HostConfig[], selectors: string[]): HostConfig[] {
+  const selected = new Map<string, HostConfig>();
+
+  for (const raw of selectors) {
+    if (!raw.trim()) {
+      continue;
+    }
+
+    const selector = parseHostSelector(raw);
+    const matches = hosts.filter(host => matchesHostSelector(host, selector));
+
+    if (matches.length === 0) {
+      if (selector.type === 'name') {
+        throw new Error(
+          `Host '${selector.name}' not found in aship configuration. Available hosts: ${hosts.map(host => host.name).join(', ')}`
+        );
+      }
+      throw new Error(`No aship hosts match selector '${raw.trim()}'`);
+    }
+
+    for (const host of matches) {
+      selected.set(host.name, host);
+    }
+  }
+
+  return [...selected.values()];
+}
+
+/**
+ * Parse "key=value" label assignments
+ * @param values Label assignments
+ * @returns Labels
+ */
+export function parseLabels(values: string[]): Record<string, string> {
+  const labels: Record<string, string> = {};
+
+  for (const value of values) {
+    const separator = value.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid label "${value}", expected key=value`);
+    }
+    labels[value.slice(0, separator).trim()] = value.slice(separator + 1).trim();
+  }
+
+  return labels;
+}
+
+/**
+ * Format labels as "key=value" pairs
+ * @param labels Labels
+ * @returns Comma-separated label assignments
+ */
+export function formatLabels(labels: Record<string, string>): string {
+  return Object.entries(labels)
+    .map(([key, value]) => `${key}=${value}`)
+    .join(', ');
+}
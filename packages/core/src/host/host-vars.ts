@@ -0,0 +1,60 @@
+/**
+ * Ansible variables attached to aship hosts and host groups
+ */
+
+import type { HostConfig, HostGroupConfig } from '../schemas/host-config.js';
+
+/**
+ * Parse "key=value" variable assignments
+ * Values are parsed as JSON when possible (numbers, booleans, lists, objects), otherwise kept as strings
+ * @param values Variable assignments
+ * @returns Variables
+ */
+export function parseHostVars(values: string[]): Record<string, any> {
+  const vars: Record<string, any> = {};
+
+  for (const value of values) {
+    const separator = value.indexOf('=');
+    if (separator <= 0) {
+      throw new Error(`Invalid variable "${value}", expected key=value`);
+    }
+
+    const key = value.slice(0, separator).trim();
+    const raw = value.slice(separator + 1).trim();
+    try {
+      vars[key] = JSON.parse(raw);
+    } catch {
+      vars[key] = raw;
+    }
+  }
+
+  return vars;
+}
+
+/**
+ * Resolve the effective variables of a host
+ * Group variables are applied in the order of the host's groups, host variables win
+ * @param host Host configuration
+ * @param groups Host group configurations
+ * @returns Effective variables
+ */
+export function resolveHostVars(
+  host: HostConfig,
+  groups: Record<string, HostGroupConfig> = {}
+): Record<string, any> {
+  const vars: Record<string, any> = {};
+
+  for (const group of host.groups || []) {
+    Object.assign(vars, groups[group]?.vars);
+  }
+
+  return { ...vars, ...host.host_vars };
+}
+
+/**
+ * Format a variable value for display
+ * @param value Variable value
+ */
+export function formatHostVarValue(value: unknown): string {
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -2,12 +2,23 @@
  * Host management exports
  */
 
-export { HostManager } from './host-manager.js';
+export { HostManager, type HostsDiagnosis, type HostsRepairResult } from './host-manager.js';
+export {
+  formatLabels,
+  matchesHostSelector,
+  parseHostSelector,
+  parseLabels,
+  selectHosts,
+  type HostSelector,
+} from './host-selector.js';
+export { formatHostVarValue, parseHostVars, resolveHostVars } from './host-vars.js';
 export type {
   HostConfig,
+  HostGroupConfig,
   HostsConfig,
   HostUsage,
   HostUsageHistory,
   RecentConnection,
   HostChoice,
+  InvalidHostEntry,
 } from '../schemas/host-config.js';
@@ -7,10 +7,12 @@ export * from './ansible/index.js';
 export * from './config/index.js';
 export * from './server/index.js';
 export * from './host/index.js';
+export * from './history/index.js';
 export * from './inventory/index.js';
 export * from './variables/index.js';
 export * from './ssh/index.js';
 export * from './schemas/index.js';
+export * from './vault/index.js';
 
 // Export preconnect module functions
 export {
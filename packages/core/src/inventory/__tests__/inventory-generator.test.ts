@@ -80,6 +80,7 @@ describe('InventoryGenerator', () => {
         created_at: '2023-01-01T00:00:00.000Z',
         source: 'ssh_config',
         connection_success_at: '2023-01-01T00:00:00.000Z',
+        host_key_policy: 'off',
       };
 
       await hostManager.addHost(host1, 'web-server');
@@ -93,12 +94,14 @@ describe('InventoryGenerator', () => {
           ansible_user: 'deploy',
           ansible_port: 22,
           ansible_ssh_private_key_file: '~/.ssh/web_key',
-          ansible_ssh_common_args: '-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null',
+          ansible_host_key_checking: true,
+          ansible_ssh_common_args: `-o StrictHostKeyChecking=accept-new -o UserKnownHostsFile="${directoryManager.knownHostsFile}"`,
         },
         'db-server': {
           ansible_host: 'db.example.com',
           ansible_user: 'admin',
           ansible_port: 3306,
+          ansible_host_key_checking: false,
           ansible_ssh_common_args: '-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null',
         },
       });
@@ -113,6 +116,120 @@ describe('InventoryGenerator', () => {
       });
     });
 
+    it('should create one inventory group per aship group', async () => {
+      const base = {
+        user: 'deploy',
+        port: 22,
+        created_at: '2023-01-01T00:00:00.000Z',
+        source: 'manual' as const,
+      };
+
+      await hostManager.addHost({ ...base, hostname: 'web1.example.com', groups: ['web'] }, 'web1');
+      await hostManager.addHost(
+        { ...base, hostname: 'web2.example.com', groups: ['web', 'frontend'] },
+        'web2'
+      );
+      await hostManager.addHost({ ...base, hostname: 'db1.example.com' }, 'db1');
+
+      const inventory = await generator.generateInventory();
+
+      expect(inventory.all.children).toEqual({
+        aship_hosts: { hosts: { web1: {}, web2: {}, db1: {} } },
+        web: { hosts: { web1: {}, web2: {} } },
+        frontend: { hosts: { web2: {} } },
+      });
+    });
+
+    it('should add host variables and group variables', async () => {
+      const base = {
+        user: 'deploy',
+        port: 22,
+        created_at: '2023-01-01T00:00:00.000Z',
+        source: 'manual' as const,
+      };
+
+      await hostManager.addHost(
+        {
+          ...base,
+          hostname: 'web1.example.com',
+          groups: ['web'],
+          host_vars: { ansible_become: true, ansible_host: 'ignored.example.com' },
+        },
+        'web1'
+      );
+      await hostManager.updateGroup('web', { vars: { app_port: 8080 } });
+      await hostManager.updateGroup('db', { vars: { db_port: 5432 } });
+
+      const inventory = await generator.generateInventory();
+
+      expect(inventory.all.hosts.web1.ansible_become).toBe(true);
+      expect(inventory.all.hosts.web1.ansible_host).toBe('web1.example.com');
+      expect(inventory.all.children?.web).toEqual({
+        hosts: { web1: {} },
+        vars: { app_port: 8080 },
+      });
+      expect(inventory.all.children?.db).toBeUndefined();
+    });
+
+    it('should apply the default host key policy to hosts without their own policy', async () => {
+      const host: HostConfig = {
+        name: 'strict-host',
+        hostname: 'strict.example.com',
+        user: 'deploy',
+        port: 2222,
+        created_at: '2023-01-01T00:00:00.000Z',
+        source: 'manual',
+      };
+
+      await hostManager.addHost(host, 'strict-host');
+
+      const inventory = await generator.generateInventory({ hostKeyPolicy: 'strict' });
+
+      expect(inventory.all.hosts['strict-host']).toMatchObject({
+        ansible_host_key_checking: true,
+        ansible_ssh_common_args: `-o StrictHostKeyChecking=yes -o UserKnownHostsFile="${directoryManager.knownHostsFile}"`,
+      });
+    });
+
+    it('should connect through jump hosts', async () => {
+      await hostManager.addHost(
+        {
+          name: 'bastion',
+          hostname: 'bastion.example.com',
+          user: 'jump',
+          port: 2222,
+          created_at: '2023-01-01T00:00:00.000Z',
+          source: 'manual',
+        },
+        'bastion'
+      );
+      await hostManager.addHost(
+        {
+          name: 'db1',
+          hostname: '10.0.1.5',
+          user: 'deploy',
+          port: 22,
+          created_at: '2023-01-01T00:00:00.000Z',
+          source: 'manual',
+          jump_host: 'bastion',
+        },
+        'db1'
+      );
+
+      const inventory = await generator.generateInventory({ hostKeyPolicy: 'off' });
+
+      // The jump host is reached with the same host key options as the host
+      expect(inventory.all.hosts.db1.ansible_ssh_common_args).toBe(
+        "-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null -o 'ProxyCommand=ssh -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null -p 2222 -W %h:%p jump@bastion.example.com'"
+      );
+      expect(inventory.all.hosts.bastion.ansible_ssh_common_args).not.toContain('ProxyCommand');
+
+      const tofuInventory = await generator.generateInventory();
+      expect(tofuInventory.all.hosts.db1.ansible_ssh_common_args).toContain(
+        `-o 'ProxyCommand=ssh -o StrictHostKeyChecking=accept-new -o UserKnownHostsFile="${hostManager.knownHostsFile}" -p 2222 -W %h:%p jump@bastion.example.com'`
+      );
+    });
+
     it('should filter hosts by source', async () => {
       const host1: HostConfig = {
         name: 'manual-host',
@@ -340,4 +457,74 @@ all:
       });
     });
   });
+
+  describe('mergeInventories', () => {
+    it('should keep existing hosts of groups present in both inventories', () => {
+      const merged = generator.mergeInventories(
+        {
+          all: {
+            hosts: { legacy: { ansible_host: 'legacy', ansible_user: 'root', ansible_port: 22 } },
+            children: { web: { hosts: { legacy: {} }, vars: { http_port: 80 } } },
+          },
+        },
+        {
+          all: {
+            hosts: { web1: { ansible_host: 'web1', ansible_user: 'deploy', ansible_port: 22 } },
+            children: { web: { hosts: { web1: {} } }, aship_hosts: { hosts: { web1: {} } } },
+          },
+        }
+      );
+
+      expect(merged.all.children).toEqual({
+        web: { hosts: { legacy: {}, web1: {} }, vars: { http_port: 80 } },
+        aship_hosts: { hosts: { web1: {} } },
+      });
+    });
+
+    it('should merge group variables with aship variables taking precedence', () => {
+      const merged = generator.mergeInventories(
+        {
+          all: {
+            hosts: {},
+            children: { web: { hosts: {}, vars: { http_port: 80, app_port: 3000 } } },
+          },
+        },
+        {
+          all: {
+            hosts: {},
+            children: { web: { hosts: {}, vars: { app_port: 8080 } } },
+          },
+        }
+      );
+
+      expect(merged.all.children?.web.vars).toEqual({ http_port: 80, app_port: 8080 });
+    });
+
+    it('should let aship host entries override existing entries of the same host', () => {
+      const merged = generator.mergeInventories(
+        {
+          all: {
+            hosts: { web1: { ansible_host: '10.0.0.1', ansible_user: 'root', ansible_port: 22 } },
+            children: { web: { hosts: { web1: {} }, vars: { http_port: 80 } } },
+          },
+        },
+        {
+          all: {
+            hosts: { web1: { ansible_host: '10.0.0.11', ansible_user: 'deploy', ansible_port: 22 } },
+            children: { web: { hosts: { web1: { app_port: 8080 } }, vars: { http_port: 8000 } } },
+          },
+        }
+      );
+
+      expect(merged.all.hosts.web1).toEqual({
+        ansible_host: '10.0.0.11',
+        ansible_user: 'deploy',
+        ansible_port: 22,
+      });
+      expect(merged.all.children?.web).toEqual({
+        hosts: { web1: { app_port: 8080 } },
+        vars: { http_port: 8000 },
+      });
+    });
+  });
 });
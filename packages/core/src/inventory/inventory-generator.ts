@@ -5,13 +5,16 @@
 import * as fs from 'node:fs/promises';
 import * as yaml from 'js-yaml';
 import type { HostManager } from '../host/host-manager.js';
-import type { HostConfig } from '../schemas/host-config.js';
+import type { HostConfig, HostGroupConfig, HostKeyPolicy } from '../schemas/host-config.js';
+import { getJumpHostSshOptions, resolveJumpHosts } from '../ssh/jump-host.js';
+import { getHostKeySshOptions, resolveHostKeyPolicy } from '../ssh/known-hosts.js';
 import { logger } from '../utils/logger.js';
 import type {
   InjectOptions,
   InjectionPreview,
   InventoryContent,
   InventoryFormat,
+  InventoryGroup,
   InventoryHostEntry,
   InventoryOptions,
 } from './types.js';
@@ -28,8 +31,13 @@ export class InventoryGenerator {
   async generateInventory(options: InventoryOptions = {}): Promise<InventoryContent> {
     const hosts = await this.hostManager.getHosts();
     const filteredHosts = this.filterHosts(hosts, options);
+    const groupConfigs = await this.hostManager.getGroups();
 
-    const inventoryHosts = this.convertHostsToInventory(filteredHosts);
+    const inventoryHosts = this.convertHostsToInventory(
+      filteredHosts,
+      hosts,
+      options.hostKeyPolicy
+    );
     const groupName = options.groupName || 'aship_hosts';
 
     return {
@@ -39,6 +47,7 @@ export class InventoryGenerator {
           [groupName]: {
             hosts: this.createHostsGroup(filteredHosts),
           },
+          ...this.createHostGroups(filteredHosts, groupName, groupConfigs),
         },
       },
     };
@@ -76,16 +85,32 @@ export class InventoryGenerator {
 
   /**
    * Convert host configurations to Ansible inventory format
+   * @param hosts Hosts to convert
+   * @param allHosts All saved hosts (jump hosts may reference hosts that are not converted)
+   * @param defaultPolicy Default host key policy
    */
-  private convertHostsToInventory(hosts: HostConfig[]): Record<string, InventoryHostEntry> {
+  private convertHostsToInventory(
+    hosts: HostConfig[],
+    allHosts: HostConfig[],
+    defaultPolicy?: HostKeyPolicy
+  ): Record<string, InventoryHostEntry> {
     const inventoryHosts: Record<string, InventoryHostEntry> = {};
 
     for (const host of hosts) {
+      const policy = resolveHostKeyPolicy(host.host_key_policy, defaultPolicy);
+      const hostKeyOptions = getHostKeySshOptions(policy, this.hostManager.knownHostsFile);
+      // Connection settings managed by aship take precedence over host variables
       const entry: InventoryHostEntry = {
+        ...host.host_vars,
         ansible_host: host.hostname,
         ansible_user: host.user,
         ansible_port: host.port,
-        ansible_ssh_common_args: '-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null',
+        ansible_host_key_checking: policy !== 'off',
+        // Jump hosts are verified with the same host key policy
+        ansible_ssh_common_args: [
+          ...hostKeyOptions,
+          ...getJumpHostSshOptions(resolveJumpHosts(host, allHosts), hostKeyOptions),
+        ].join(' '),
       };
 
       if (host.identity_file) {
@@ -111,6 +136,34 @@ export class InventoryGenerator {
     return group;
   }
 
+  /**
+   * Create one inventory group per aship host group, with the group variables
+   */
+  private createHostGroups(
+    hosts: HostConfig[],
+    defaultGroupName: string,
+    groupConfigs: Record<string, HostGroupConfig> = {}
+  ): Record<string, InventoryGroup> {
+    const groups: Record<string, InventoryGroup> = {};
+
+    for (const host of hosts) {
+      for (const group of host.groups || []) {
+        // The default group already contains every host
+        if (group === defaultGroupName) {
+          continue;
+        }
+        if (!groups[group]) {
+          const vars = groupConfigs[group]?.vars;
+          groups[group] =
+            vars && Object.keys(vars).length > 0 ? { hosts: {}, vars } : { hosts: {} };
+        }
+        groups[group].hosts[host.name] = {};
+      }
+    }
+
+    return groups;
+  }
+
   /**
    * Format inventory content as string
    */
@@ -188,16 +241,33 @@ export class InventoryGenerator {
    * Merge two inventory structures
    */
   mergeInventories(existing: InventoryContent, ashipInventory: InventoryContent): InventoryContent {
+    const children: Record<string, InventoryGroup> = { ...existing.all.children };
+
+    // Groups present in both inventories keep the hosts and variables of the existing group;
+    // aship's hosts are added and aship's group variables take precedence, as for host entries
+    for (const [groupName, group] of Object.entries(ashipInventory.all.children || {})) {
+      const existingGroup = children[groupName];
+      if (!existingGroup) {
+        children[groupName] = group;
+        continue;
+      }
+
+      children[groupName] = {
+        ...existingGroup,
+        hosts: { ...existingGroup.hosts, ...group.hosts },
+      };
+      if (existingGroup.vars || group.vars) {
+        children[groupName].vars = { ...existingGroup.vars, ...group.vars };
+      }
+    }
+
     const merged: InventoryContent = {
       all: {
         hosts: {
           ...existing.all.hosts,
           ...ashipInventory.all.hosts,
         },
-        children: {
-          ...existing.all.children,
-          ...ashipInventory.all.children,
-        },
+        children,
       },
     };
 
@@ -1,3 +1,5 @@
+import type { HostKeyPolicy } from '../schemas/host-config.js';
+
 /**
  * Options for inventory generation
  */
@@ -26,6 +28,11 @@ export interface InventoryOptions {
    * Exclude specific hosts by name
    */
   excludeHosts?: string[];
+
+  /**
+   * Default host key policy for hosts without their own policy
+   */
+  hostKeyPolicy?: HostKeyPolicy;
 }
 
 /**
@@ -66,6 +73,7 @@ export interface InventoryHostEntry {
   ansible_user: string;
   ansible_port: number;
   ansible_ssh_private_key_file?: string;
+  ansible_host_key_checking?: boolean;
   ansible_ssh_common_args?: string;
   [key: string]: any;
 }
@@ -13,6 +13,7 @@
  */
 
 import chalk from 'chalk';
+import type { JumpHost } from '../schemas/host-config.js';
 import { verifyUserPermissions } from './permission-check.js';
 import { connectToServer, saveConnectionInfo } from './server-connect.js';
 import type { PreconnectOptions, PreconnectResult, PreconnectServerConfig } from './types.js';
@@ -35,6 +36,7 @@ import type { PreconnectOptions, PreconnectResult, PreconnectServerConfig } from
  * @param options - Configuration options for the preconnect process
  *   - password: SSH password (optional)
  *   - privateKey: Path to SSH private key file (optional)
+ *   - jumpHosts: Jump hosts to connect through (optional)
  *   - skipConnectionTest: Skip the connection test step (default: false)
  *   - skipPermissionCheck: Skip the permission verification step (default: false)
  *   - maxRetryAttempts: Maximum number of connection retry attempts (default: 3)
@@ -54,6 +56,7 @@ export async function handlePreconnect(
   options: PreconnectOptions & {
     password?: string;
     privateKey?: string;
+    jumpHosts?: JumpHost[];
   } = {}
 ): Promise<PreconnectResult> {
   try {
@@ -65,6 +68,7 @@ export async function handlePreconnect(
         port,
         user: username,
         identity_file: options.password ? undefined : options.privateKey || '~/.ssh/id_rsa',
+        jump_hosts: options.jumpHosts,
       };
 
       return {
@@ -79,6 +83,7 @@ export async function handlePreconnect(
       privateKey: options.privateKey,
       maxRetries: options.maxRetryAttempts || 3,
       exitOnFailure: options.exitOnFailure,
+      jumpHosts: options.jumpHosts,
     });
 
     // Handle connection failure
@@ -12,6 +12,7 @@
  * with clear error messages and interactive prompts when needed.
  */
 
+import type { JumpHost } from '../schemas/host-config.js';
 import { sessionPasswordManager } from '../ssh/session-password-manager.js';
 import { logger } from '../utils/logger.js';
 import { diagnoseConnection } from '../utils/ssh.js';
@@ -141,6 +142,7 @@ export async function testConnectionWithRetry(
  *   -maxRetries: Maximum number of connection retry attempts (default: 3)
  *   -exitOnFailure: Exit process on connection failure (default: false)
  *   -nonInteractive: Skip interactive prompts (default: false)
+ *   -jumpHosts: Jump hosts to connect through (optional)
  *
  * @returns A PreconnectConnectionResult object containing:
  *   -success: Boolean indicating if the connection was successful
@@ -159,6 +161,7 @@ export async function connectToServer(
     maxRetries?: number;
     exitOnFailure?: boolean;
     nonInteractive?: boolean;
+    jumpHosts?: JumpHost[];
   } = {}
 ): Promise<PreconnectConnectionResult> {
   logger.info(`Connecting to ${username}@${host}:${port}...`);
@@ -169,6 +172,7 @@ export async function connectToServer(
     hostname: host,
     port,
     user: username,
+    jump_hosts: options.jumpHosts,
     identity_file: options.password ? undefined : options.privateKey,
   };
 
@@ -269,6 +273,7 @@ export async function connectToServer(
           hostname: host,
           port,
           user: username,
+          jump_hosts: options.jumpHosts,
           // Password will be handled by session manager
         });
 
@@ -337,6 +342,7 @@ export async function connectToServer(
       hostname: host,
       port,
       user: username,
+      jump_hosts: options.jumpHosts,
       identity_file: authType === 'key' ? authValue : undefined,
     };
 
@@ -397,6 +403,7 @@ async function handleNetworkIssues(
     maxRetries?: number;
     exitOnFailure?: boolean;
     nonInteractive?: boolean;
+    jumpHosts?: JumpHost[];
   },
   _initialDiagnostics: any
 ): Promise<PreconnectConnectionResult> {
@@ -448,6 +455,7 @@ async function handleNetworkIssues(
       hostname: host,
       port,
       user: username,
+      jump_hosts: options.jumpHosts,
       identity_file: options.password ? undefined : options.privateKey,
     };
 
@@ -522,6 +530,7 @@ async function handleAuthenticationIssues(
     maxRetries?: number;
     exitOnFailure?: boolean;
     nonInteractive?: boolean;
+    jumpHosts?: JumpHost[];
   }
 ): Promise<PreconnectConnectionResult> {
   // In non-interactive mode, we can't prompt for credentials
@@ -589,6 +598,7 @@ async function handleAuthenticationIssues(
     hostname: host,
     port,
     user: username,
+    jump_hosts: options.jumpHosts,
     identity_file: authType === 'key' ? authValue : undefined,
   };
 
@@ -2,6 +2,7 @@
  * Types for preconnect module
  */
 
+import type { JumpHost } from '../schemas/host-config.js';
 import type { PermissionLevel } from '../ssh/permissions.js';
 
 /**
@@ -14,6 +15,7 @@ export interface PreconnectServerConfig {
   user: string;
   identity_file?: string;
   variables?: Record<string, any>;
+  jump_hosts?: JumpHost[];
 }
 
 /**
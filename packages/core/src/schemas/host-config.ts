@@ -4,6 +4,64 @@
 
 import { z } from 'zod';
 
+/**
+ * Host key verification policy
+ * - strict: only connect to hosts whose key is already in the aship known_hosts file
+ * - tofu: trust on first use, record unknown keys and reject changed keys
+ * - off: disable host key verification
+ */
+export const HostKeyPolicySchema = z.enum(['strict', 'tofu', 'off']);
+
+/**
+ * Default host key verification policy
+ */
+export const DEFAULT_HOST_KEY_POLICY: HostKeyPolicy = 'tofu';
+
+/**
+ * Host group name, usable as an Ansible group name
+ */
+export const HostGroupNameSchema = z
+  .string()
+  .regex(
+    /^[A-Za-z_][A-Za-z0-9_]*$/,
+    'Group names must start with a letter or underscore and contain only letters, digits and underscores'
+  );
+
+/**
+ * Host label key
+ */
+export const HostLabelKeySchema = z
+  .string()
+  .regex(
+    /^[A-Za-z0-9_][A-Za-z0-9_.-]*$/,
+    'Label keys may only contain letters, digits, "_", "." and "-"'
+  );
+
+/**
+ * Schema for a resolved jump host (one hop of a ProxyJump chain)
+ */
+export const JumpHostSchema = z.object({
+  /**
+   * Jump host hostname or IP address
+   */
+  hostname: z.string().min(1, 'Jump host hostname cannot be empty'),
+
+  /**
+   * SSH port
+   */
+  port: z.number().int().min(1).max(65535).default(22),
+
+  /**
+   * SSH username (defaults to the local user, like OpenSSH)
+   */
+  user: z.string().optional(),
+
+  /**
+   * SSH identity file path (optional)
+   */
+  identity_file: z.string().optional(),
+});
+
 /**
  * Schema for individual host configuration
  */
@@ -52,6 +110,42 @@ export const HostConfigSchema = z.object({
    * First successful connection timestamp
    */
   connection_success_at: z.string().optional(),
+
+  /**
+   * Host key verification policy (overrides the project policy)
+   */
+  host_key_policy: HostKeyPolicySchema.optional(),
+
+  /**
+   * Jump hosts used to reach this host, like ProxyJump: aship host names or
+   * "[user@]host[:port]" specs, separated by commas
+   */
+  jump_host: z.string().min(1, 'Jump host cannot be empty').optional(),
+
+  /**
+   * Host groups (each group becomes an Ansible inventory group)
+   */
+  groups: z.array(HostGroupNameSchema).optional(),
+
+  /**
+   * Key/value labels used to select hosts
+   */
+  labels: z.record(HostLabelKeySchema, z.string()).optional(),
+
+  /**
+   * Ansible variables for this host (e.g. ansible_become, ansible_python_interpreter)
+   */
+  host_vars: z.record(z.string(), z.any()).optional(),
+});
+
+/**
+ * Schema for host group configuration
+ */
+export const HostGroupConfigSchema = z.object({
+  /**
+   * Ansible variables for all hosts in the group
+   */
+  vars: z.record(z.string(), z.any()).optional(),
 });
 
 /**
@@ -63,6 +157,11 @@ export const HostsConfigSchema = z
      * Map of host configurations by name
      */
     hosts: z.record(z.string(), HostConfigSchema).default({}),
+
+    /**
+     * Map of host group configurations by group name
+     */
+    groups: z.record(HostGroupNameSchema, HostGroupConfigSchema).optional(),
   })
   .refine(
     data => {
@@ -157,7 +256,10 @@ export const RecentConnectionSchema = z.object({
 /**
  * TypeScript types
  */
+export type HostKeyPolicy = z.infer<typeof HostKeyPolicySchema>;
 export type HostConfig = z.infer<typeof HostConfigSchema>;
+export type HostGroupConfig = z.infer<typeof HostGroupConfigSchema>;
+export type JumpHost = z.infer<typeof JumpHostSchema>;
 export type HostsConfig = z.infer<typeof HostsConfigSchema>;
 export type HostUsage = z.infer<typeof HostUsageSchema>;
 export type HostUsageHistory = z.infer<typeof HostUsageHistorySchema>;
@@ -208,6 +310,145 @@ export const validateHostsConfig = (
   }
 };
 
+/**
+ * Entry of hosts.yml or host-usage.json that failed validation
+ */
+export interface InvalidHostEntry {
+  /** Key of the entry in the file */
+  key: string;
+  /** Raw value of the entry */
+  value: unknown;
+  /** Validation errors */
+  errors: string[];
+  /** Whether the entry only needs its name set to its key to become valid */
+  fixable: boolean;
+}
+
+/**
+ * Result of validating a file entry by entry
+ */
+export interface EntryValidationResult<T> {
+  /** Valid entries */
+  data: Record<string, T>;
+  /** Invalid entries */
+  invalid: InvalidHostEntry[];
+  /** File level errors (the file structure itself is invalid) */
+  errors: string[];
+}
+
+/**
+ * Result of validating the hosts file entry by entry
+ */
+export interface HostsValidationResult extends EntryValidationResult<HostConfig> {
+  /** Valid host group configurations */
+  groups: Record<string, HostGroupConfig>;
+}
+
+/**
+ * Format zod issues as "path: message" strings
+ */
+const formatIssues = (error: z.ZodError): string[] =>
+  error.errors.map(e => (e.path.length > 0 ? `${e.path.join('.')}: ${e.message}` : e.message));
+
+/**
+ * Validate hosts configuration host by host
+ * Unlike validateHostsConfig, a malformed host does not invalidate the other hosts
+ */
+export const validateHostsConfigEntries = (config: unknown): HostsValidationResult => {
+  const result: HostsValidationResult = { data: {}, groups: {}, invalid: [], errors: [] };
+
+  if (config === null || config === undefined) {
+    return result;
+  }
+  if (typeof config !== 'object' || Array.isArray(config)) {
+    result.errors.push('hosts file must contain a "hosts" map');
+    return result;
+  }
+
+  // Group entries are reported with an "@" prefix to tell them apart from hosts
+  const groups = (config as { groups?: unknown }).groups;
+  if (groups !== undefined && groups !== null) {
+    if (typeof groups !== 'object' || Array.isArray(groups)) {
+      result.errors.push('"groups" must be a map of group names to group configurations');
+    } else {
+      for (const [key, value] of Object.entries(groups)) {
+        const parsedName = HostGroupNameSchema.safeParse(key);
+        const parsed = HostGroupConfigSchema.safeParse(value ?? {});
+        if (parsedName.success && parsed.success) {
+          result.groups[key] = parsed.data;
+        } else {
+          result.invalid.push({
+            key: `@${key}`,
+            value,
+            errors: [
+              ...(parsedName.success ? [] : formatIssues(parsedName.error)),
+              ...(parsed.success ? [] : formatIssues(parsed.error)),
+            ],
+            fixable: false,
+          });
+        }
+      }
+    }
+  }
+
+  const hosts = (config as { hosts?: unknown }).hosts;
+  // Empty list written by older versions when initializing the global directory
+  if (hosts === undefined || hosts === null || (Array.isArray(hosts) && hosts.length === 0)) {
+    return result;
+  }
+  if (typeof hosts !== 'object' || Array.isArray(hosts)) {
+    result.errors.push('"hosts" must be a map of host names to host configurations');
+    return result;
+  }
+
+  for (const [key, value] of Object.entries(hosts)) {
+    const parsed = HostConfigSchema.safeParse(value);
+
+    if (parsed.success && parsed.data.name === key) {
+      result.data[key] = parsed.data;
+      continue;
+    }
+
+    const errors = parsed.success
+      ? [`name: Host name "${parsed.data.name}" does not match its key "${key}"`]
+      : formatIssues(parsed.error);
+    const fixable =
+      typeof value === 'object' &&
+      value !== null &&
+      HostConfigSchema.safeParse({ ...value, name: key }).success;
+
+    result.invalid.push({ key, value, errors, fixable });
+  }
+
+  return result;
+};
+
+/**
+ * Validate host usage history entry by entry
+ */
+export const validateHostUsageEntries = (usage: unknown): EntryValidationResult<HostUsage> => {
+  const result: EntryValidationResult<HostUsage> = { data: {}, invalid: [], errors: [] };
+
+  if (usage === null || usage === undefined) {
+    return result;
+  }
+  if (typeof usage !== 'object' || Array.isArray(usage)) {
+    result.errors.push('usage history must be a map of host names to usage statistics');
+    return result;
+  }
+
+  for (const [key, value] of Object.entries(usage)) {
+    const parsed = HostUsageSchema.safeParse(value);
+    if (parsed.success) {
+      result.data[key] = parsed.data;
+    } else {
+      result.invalid.push({ key, value, errors: formatIssues(parsed.error), fixable: false });
+    }
+  }
+
+  return result;
+};
+
 /**
  * Validate host usage history
  */
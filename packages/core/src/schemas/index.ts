@@ -5,14 +5,29 @@
 // Project configuration schemas (aship.yml)
 export {
   ProjectConfigSchema,
+  PlaybookEntrySchema,
+  EnvironmentSchema,
+  VaultConfigSchema,
+  AnsibleConfigSchema,
   TagsConfigSchema,
   validateProjectConfig,
   createDefaultProjectConfig,
   createMinimalProjectConfig,
   normalizeTagsConfig,
+  resolveTagSelection,
+  findUnknownTags,
+  validateTagsConfig,
+  normalizePlaybookEntry,
+  applyPlaybookScope,
   type ProjectConfig,
+  type PlaybookEntry,
+  type PlaybookDefinition,
+  type EnvironmentConfig,
+  type VaultConfig,
+  type AnsibleConfig,
   type TagsConfig,
   type NormalizedTagsConfig,
+  type TagSelection,
 } from './project-config.js';
 
 // Server configuration schemas (.aship/servers.yml)
@@ -28,27 +43,65 @@ export {
 // Host configuration schemas (hosts.yml)
 export {
   HostConfigSchema,
+  HostKeyPolicySchema,
+  DEFAULT_HOST_KEY_POLICY,
+  HostGroupNameSchema,
+  HostGroupConfigSchema,
+  JumpHostSchema,
+  HostLabelKeySchema,
   HostsConfigSchema,
   HostUsageSchema,
   HostUsageHistorySchema,
   RecentConnectionSchema,
   validateHostsConfig,
   validateHostUsageHistory,
+  validateHostsConfigEntries,
+  validateHostUsageEntries,
   validateRecentConnection,
   createDefaultHostsConfig,
   createDefaultHostUsageHistory,
   type HostConfig,
+  type HostGroupConfig,
+  type JumpHost,
+  type HostKeyPolicy,
   type HostsConfig,
   type HostUsage,
   type HostUsageHistory,
   type RecentConnection,
   type HostChoice,
+  type InvalidHostEntry,
+  type EntryValidationResult,
+  type HostsValidationResult,
 } from './host-config.js';
 
 // Variable definition schemas
 export {
   VariableDefinitionSchema,
+  VariableGroupSchema,
   createVariableValueSchema,
   validateVariableValue,
+  expandHomePath,
   type VariableDefinition,
+  type VariableGroup,
 } from './variables.js';
+
+// Variable answers schemas (state/variable-answers.json)
+export {
+  PlaybookAnswersSchema,
+  ProjectAnswersSchema,
+  VariableAnswersSchema,
+  validateVariableAnswers,
+  createDefaultVariableAnswers,
+  type PlaybookAnswers,
+  type ProjectAnswers,
+  type VariableAnswers,
+} from './variable-answers.js';
+
+// Run record schemas (logs/ansible/<id>.json)
+export {
+  RunRecordSchema,
+  RunDescriptorSchema,
+  validateRunRecord,
+  type RunRecord,
+  type RunDescriptor,
+} from './run-record.js';
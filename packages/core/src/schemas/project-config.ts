@@ -3,7 +3,14 @@
  */
 
 import { z } from 'zod';
-import { VariableDefinitionSchema } from './variables.js';
+import { getVariableDependencies, validateVariableConditions } from '../variables/conditions.js';
+import { validateVariableGroups } from '../variables/groups.js';
+import { HostKeyPolicySchema } from './host-config.js';
+import {
+  type VariableDefinition,
+  VariableDefinitionSchema,
+  VariableGroupSchema,
+} from './variables.js';
 
 /**
  * Schema for tags configuration
@@ -20,17 +27,123 @@ import { VariableDefinitionSchema } from './variables.js';
  *   # Default selected tags
  *   default: ["setup", "config"]
  *
- *   # Tag groups
+ *   # Tag groups, which may include other groups
  *   quick: ["setup"]
- *   full: ["setup", "config", "deploy"]
+ *   full: ["quick", "config", "deploy"]
+ *
+ *   # Tag groups that also skip tags
+ *   safe: { tags: ["full"], skip: ["restart"] }
  */
 export const TagsConfigSchema = z.record(
   z.union([
     z.string(), // Tag with description: "tag_name: description"
     z.array(z.string()), // Tag list or group: "key: [tag1, tag2]"
+    z
+      .object({
+        tags: z.array(z.string()).optional(),
+        skip: z.array(z.string()).optional(),
+      })
+      .strict(), // Group with skipped tags: "key: { tags: [tag1], skip: [tag2] }"
   ])
 );
 
+/**
+ * Schema for a playbook entry
+ * Either a plain file path or an object with options:
+ *
+ * playbooks:
+ *   setup: site.yml
+ *   deploy:
+ *     path: playbooks/deploy.yml
+ *     description: "Deploy the application"
+ *     vars: [app_version, environment]   # Only prompt for these variables
+ *     tags: [app, restart]               # Only offer these tags
+ *     hosts: "@web"                      # Default aship hosts when -H is not given
+ *     confirm: true                      # Ask for confirmation before running
+ */
+export const PlaybookEntrySchema = z.union([
+  z.string().min(1, 'Playbook path cannot be empty'),
+  z
+    .object({
+      path: z.string().min(1, 'Playbook path cannot be empty'),
+      description: z.string().optional(),
+      vars: z.array(z.string()).optional(),
+      tags: z.array(z.string()).optional(),
+      hosts: z.union([z.string(), z.array(z.string())]).optional(),
+      confirm: z.union([z.boolean(), z.string()]).optional(),
+    })
+    .strict(),
+]);
+
+/**
+ * Schema for a deployment environment
+ *
+ * environments:
+ *   prod:
+ *     description: "Production"
+ *     hosts: ["@web", "db-1"]            # Aship hosts when -H is not given
+ *     inventory: inventories/prod.yml    # Inventory when -i is not given
+ *     inventory_mode: merge
+ *     vars:                              # Variable values for this environment
+ *       replicas: 3
+ *     tags: [app]                        # Default tags
+ */
+export const EnvironmentSchema = z
+  .object({
+    description: z.string().optional(),
+    hosts: z.union([z.string(), z.array(z.string())]).optional(),
+    inventory: z.string().optional(),
+    inventory_mode: z.enum(['replace', 'inject', 'merge']).optional(),
+    vars: z.record(z.any()).optional(),
+    tags: z.array(z.string()).optional(),
+  })
+  .strict();
+
+/**
+ * Schema for the project vault holding secret variable values (aship vault)
+ *
+ * vault:
+ *   file: secrets/vault.yml              # Encrypted file, relative to aship.yml (default: vault.yml)
+ *   password_file: ~/.ansible/vault-pass # Password file or script, prompted when not set
+ *   id: prod                             # Vault ID label
+ */
+export const VaultConfigSchema = z
+  .object({
+    file: z.string().min(1, 'Vault file cannot be empty').optional(),
+    password_file: z.string().min(1, 'Vault password file cannot be empty').optional(),
+    id: z
+      .string()
+      .regex(/^[^@\s]+$/, 'Vault ID cannot contain "@" or whitespace')
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Schema for the Ansible settings of the project, applied to every ansible and ansible-playbook run
+ *
+ * ansible:
+ *   configPath: ansible.cfg              # Sets ANSIBLE_CONFIG, relative to aship.yml
+ *   forks: 20
+ *   roles_path: [roles, ~/shared/roles]
+ *   collections_path: collections
+ *   env:                                 # Any other ANSIBLE_* settings, these take precedence
+ *     ANSIBLE_PIPELINING: true
+ */
+export const AnsibleConfigSchema = z
+  .object({
+    configPath: z.string().min(1, 'Ansible config path cannot be empty').optional(),
+    env: z
+      .record(
+        z.string().regex(/^ANSIBLE_[A-Z0-9_]+$/, 'Only ANSIBLE_* environment variables can be set'),
+        z.union([z.string(), z.number(), z.boolean()])
+      )
+      .optional(),
+    forks: z.number().int().positive('Forks must be a positive number').optional(),
+    roles_path: z.union([z.string(), z.array(z.string())]).optional(),
+    collections_path: z.union([z.string(), z.array(z.string())]).optional(),
+  })
+  .strict();
+
 /**
  * Schema for project configuration (aship.yml)
  * This represents the design-time configuration that should be version controlled
@@ -49,10 +162,10 @@ export const ProjectConfigSchema = z
 
     /**
      * Playbook definitions
-     * Maps playbook names to their file paths
-     * Example: { "setup": "site.yml", "deploy": "playbooks/deploy.yml" }
+     * Maps playbook names to their file paths or playbook entries
+     * Example: { "setup": "site.yml", "deploy": { path: "playbooks/deploy.yml", confirm: true } }
      */
-    playbooks: z.record(z.string()).optional(),
+    playbooks: z.record(PlaybookEntrySchema).optional(),
 
     /**
      * Variable definitions
@@ -60,30 +173,209 @@ export const ProjectConfigSchema = z
      */
     vars: z.record(VariableDefinitionSchema).optional(),
 
+    /**
+     * Order of the variable groups used to organize prompts into sections
+     * Groups that are not listed come after the listed ones, ungrouped variables come first
+     * Example: ["application", { name: "database", description: "Database connection" }]
+     */
+    var_groups: z.array(VariableGroupSchema).optional(),
+
     /**
      * Tags configuration for Ansible playbooks
      */
     tags: TagsConfigSchema.optional(),
 
     /**
-     * Ansible configuration (optional)
+     * Deployment environments selected with `aship run --env <name>`
+     * Example: { "prod": { hosts: "@web", vars: { replicas: 3 } } }
      */
-    ansible: z
-      .object({
-        /**
-         * Path to ansible.cfg file
-         */
-        configPath: z.string().optional(),
-      })
-      .optional(),
+    environments: z.record(EnvironmentSchema).optional(),
+
+    /**
+     * Default host key verification policy for this project (strict|tofu|off)
+     */
+    host_key_policy: HostKeyPolicySchema.optional(),
+
+    /**
+     * Encrypted vault for secret variable values (aship vault)
+     */
+    vault: VaultConfigSchema.optional(),
+
+    /**
+     * Ansible settings: ansible.cfg, environment, forks, roles and collections paths
+     */
+    ansible: AnsibleConfigSchema.optional(),
   })
-  .strict(); // Reject unknown properties
+  .strict() // Reject unknown properties
+  .superRefine((config, ctx) => {
+    // Conditions may only reference defined variables and must not form cycles
+    for (const issue of validateVariableConditions(config.vars || {})) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: ['vars', issue.variable, issue.field],
+        message: issue.message,
+      });
+    }
+
+    // Conditions and defaults may not reference variables that are prompted later
+    for (const issue of validateVariableGroups(config.vars || {}, config.var_groups)) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: issue.path,
+        message: issue.message,
+      });
+    }
+
+    // Tag groups may include other groups, but not in a cycle
+    for (const issue of validateTagsConfig(config.tags || {})) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: issue.path,
+        message: issue.message,
+      });
+    }
+
+    // Playbook variables must be defined and include the variables they depend on
+    for (const issue of validatePlaybookVars(config.playbooks || {}, config.vars || {})) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: issue.path,
+        message: issue.message,
+      });
+    }
+  });
+
+/**
+ * Check the variables declared by playbook entries
+ */
+function validatePlaybookVars(
+  playbooks: Record<string, PlaybookEntry>,
+  definitions: Record<string, VariableDefinition>
+): Array<{ path: Array<string | number>; message: string }> {
+  const issues: Array<{ path: Array<string | number>; message: string }> = [];
+
+  for (const [name, entry] of Object.entries(playbooks)) {
+    if (typeof entry === 'string' || !entry.vars) {
+      continue;
+    }
+
+    const scoped = entry.vars;
+    scoped.forEach((variable, index) => {
+      const path = ['playbooks', name, 'vars', index];
+      const definition = definitions[variable];
+      if (!definition) {
+        issues.push({ path, message: `References undefined variable "${variable}"` });
+        return;
+      }
+
+      let dependencies: string[];
+      try {
+        dependencies = getVariableDependencies(definition);
+      } catch {
+        // Invalid conditions are reported by validateVariableConditions
+        return;
+      }
+      for (const dependency of dependencies) {
+        if (definitions[dependency] && !scoped.includes(dependency)) {
+          issues.push({
+            path,
+            message: `"${variable}" depends on "${dependency}", which is not in the playbook vars`,
+          });
+        }
+      }
+    });
+  }
+
+  return issues;
+}
 
 /**
  * TypeScript types
  */
 export type TagsConfig = z.infer<typeof TagsConfigSchema>;
 export type ProjectConfig = z.infer<typeof ProjectConfigSchema>;
+export type PlaybookEntry = z.infer<typeof PlaybookEntrySchema>;
+export type EnvironmentConfig = z.infer<typeof EnvironmentSchema>;
+export type VaultConfig = z.infer<typeof VaultConfigSchema>;
+export type AnsibleConfig = z.infer<typeof AnsibleConfigSchema>;
+
+/**
+ * Normalized playbook entry for internal use
+ */
+export interface PlaybookDefinition {
+  /** Playbook file path */
+  path: string;
+  /** Description shown in the playbook picker */
+  description?: string;
+  /** Variables to prompt for, all project variables when undefined */
+  vars?: string[];
+  /** Tags to offer, all project tags when undefined */
+  tags?: string[];
+  /** Default aship host selectors */
+  hosts?: string[];
+  /** Ask for confirmation before running, a string is used as the question */
+  confirm?: boolean | string;
+}
+
+/**
+ * Normalize a playbook entry to internal format
+ */
+export function normalizePlaybookEntry(entry: PlaybookEntry): PlaybookDefinition {
+  if (typeof entry === 'string') {
+    return { path: entry };
+  }
+
+  const { hosts, ...definition } = entry;
+  return {
+    ...definition,
+    hosts: typeof hosts === 'string' ? hosts.split(',').map(host => host.trim()) : hosts,
+  };
+}
+
+/**
+ * Restrict a project configuration to the variables and tags of a playbook
+ * Tags declared by the playbook keep their project description, groups and defaults
+ * are limited to the playbook tags, groups without any of them are dropped
+ */
+export function applyPlaybookScope(
+  config: ProjectConfig,
+  playbook: PlaybookDefinition
+): ProjectConfig {
+  const scoped: ProjectConfig = { ...config };
+
+  if (playbook.vars) {
+    const vars = playbook.vars;
+    scoped.vars = Object.fromEntries(
+      Object.entries(config.vars || {}).filter(([name]) => vars.includes(name))
+    );
+  }
+
+  if (playbook.tags) {
+    const allowed = playbook.tags;
+    const normalized = normalizeTagsConfig(config.tags || {});
+    const tags: TagsConfig = {};
+
+    for (const tag of allowed) {
+      tags[tag] = normalized.tags[tag] ?? tag;
+    }
+    for (const [group, members] of Object.entries({
+      default: normalized.default,
+      ...normalized.groups,
+    })) {
+      // A group with only skip tags would run the whole playbook, outside its tags
+      const kept = members.filter(tag => allowed.includes(tag));
+      if (kept.length === 0) {
+        continue;
+      }
+      const skip = normalized.skip[group];
+      tags[group] = skip ? { tags: kept, skip } : kept;
+    }
+
+    scoped.tags = tags;
+  }
+
+  return scoped;
+}
 
 /**
  * Normalized tags configuration for internal use
@@ -93,8 +385,106 @@ export interface NormalizedTagsConfig {
   tags: Record<string, string>;
   /** Default selected tags */
   default: string[];
-  /** Tag groups/combinations */
+  /** Tag groups/combinations, with included groups expanded to their tags */
   groups: Record<string, string[]>;
+  /** Tags skipped by groups (and by the default selection under "default") */
+  skip: Record<string, string[]>;
+}
+
+/**
+ * Tags to run and to skip
+ */
+export interface TagSelection {
+  tags: string[];
+  skip: string[];
+}
+
+/**
+ * Get the group definitions (including the default selection) of a tags configuration
+ */
+function getTagGroupDefinitions(tagsConfig: TagsConfig): Record<string, TagSelection> {
+  const definitions: Record<string, TagSelection> = {};
+
+  for (const [key, value] of Object.entries(tagsConfig)) {
+    if (key === 'tags') {
+      continue;
+    }
+    if (Array.isArray(value)) {
+      definitions[key] = { tags: value, skip: [] };
+    } else if (value && typeof value === 'object') {
+      const { tags, skip } = value as { tags?: unknown; skip?: unknown };
+      if (Array.isArray(tags) || Array.isArray(skip)) {
+        definitions[key] = {
+          tags: Array.isArray(tags) ? tags : [],
+          skip: Array.isArray(skip) ? skip : [],
+        };
+      }
+    }
+  }
+
+  return definitions;
+}
+
+/**
+ * Expand tag names and group names to the tags to run and to skip
+ * Included groups contribute their tags and their skipped tags, groups in a skip list
+ * contribute their tags. Groups that are already being expanded (cycles) are ignored.
+ */
+function expandTagSelection(
+  definitions: Record<string, TagSelection>,
+  selection: TagSelection,
+  expanding: string[] = []
+): TagSelection {
+  const tags: string[] = [];
+  const skip: string[] = [];
+
+  for (const name of selection.tags) {
+    if (!definitions[name]) {
+      tags.push(name);
+    } else if (!expanding.includes(name)) {
+      const expanded = expandTagSelection(definitions, definitions[name], [...expanding, name]);
+      tags.push(...expanded.tags);
+      skip.push(...expanded.skip);
+    }
+  }
+
+  for (const name of selection.skip) {
+    if (!definitions[name]) {
+      skip.push(name);
+    } else if (!expanding.includes(name)) {
+      skip.push(...expandTagSelection(definitions, definitions[name], [...expanding, name]).tags);
+    }
+  }
+
+  return { tags: [...new Set(tags)], skip: [...new Set(skip)] };
+}
+
+/**
+ * Resolve tag and group names to the tags to run and to skip
+ * @param tagsConfig Tags configuration
+ * @param names Tag or group names
+ */
+export function resolveTagSelection(tagsConfig: TagsConfig, names: string[]): TagSelection {
+  return expandTagSelection(getTagGroupDefinitions(tagsConfig || {}), { tags: names, skip: [] });
+}
+
+/**
+ * Find configured tags that are not available (e.g. no longer used by the playbook)
+ * @param tagsConfig Tags configuration
+ * @param availableTags Tags that exist
+ * @returns Configured tags that do not exist, in configuration order
+ */
+export function findUnknownTags(tagsConfig: TagsConfig, availableTags: string[]): string[] {
+  const normalized = normalizeTagsConfig(tagsConfig);
+  const configured = new Set([
+    ...Object.keys(normalized.tags),
+    ...normalized.default,
+    ...Object.values(normalized.groups).flat(),
+    ...Object.values(normalized.skip).flat(),
+  ]);
+
+  // Group names used as members of other groups are not tags
+  return [...configured].filter(tag => !availableTags.includes(tag) && !normalized.groups[tag]);
 }
 
 /**
@@ -107,40 +497,96 @@ export function normalizeTagsConfig(tagsConfig: TagsConfig): NormalizedTagsConfi
       tags: {},
       default: [],
       groups: {},
+      skip: {},
     };
   }
 
   const tags: Record<string, string> = {};
   const groups: Record<string, string[]> = {};
+  const skip: Record<string, string[]> = {};
   let defaultTags: string[] = [];
 
   for (const [key, value] of Object.entries(tagsConfig)) {
     if (typeof value === 'string') {
       // Individual tag with description: "tag_name: description"
       tags[key] = value;
-    } else if (Array.isArray(value)) {
-      if (key === 'default') {
-        // Default selected tags: "default: [tag1, tag2]"
-        defaultTags = value;
-      } else if (key === 'tags') {
-        // Tag list without descriptions: "tags: [tag1, tag2, tag3]"
-        for (const tagName of value) {
-          if (typeof tagName === 'string') {
-            tags[tagName] = tagName; // Use tag name as description
-          }
+    } else if (key === 'tags' && Array.isArray(value)) {
+      // Tag list without descriptions: "tags: [tag1, tag2, tag3]"
+      for (const tagName of value) {
+        if (typeof tagName === 'string') {
+          tags[tagName] = tagName; // Use tag name as description
         }
-      } else {
-        // Tag group: "group_name: [tag1, tag2]"
-        groups[key] = value;
       }
     }
   }
 
+  // Default selection: "default: [tag1, tag2]", tag groups: "group_name: [tag1, group2]"
+  const definitions = getTagGroupDefinitions(tagsConfig);
+  for (const [key, definition] of Object.entries(definitions)) {
+    const expanded = expandTagSelection(definitions, definition, [key]);
+    if (key === 'default') {
+      defaultTags = expanded.tags;
+    } else {
+      groups[key] = expanded.tags;
+    }
+    if (expanded.skip.length > 0) {
+      skip[key] = expanded.skip;
+    }
+  }
+
   return {
     tags,
     default: defaultTags,
     groups,
+    skip,
+  };
+}
+
+/**
+ * Check tag groups for cycles
+ * @param tagsConfig Tags configuration
+ * @returns Problems found, one per cycle
+ */
+export function validateTagsConfig(
+  tagsConfig: TagsConfig
+): Array<{ path: Array<string | number>; message: string }> {
+  const issues: Array<{ path: Array<string | number>; message: string }> = [];
+  const definitions = getTagGroupDefinitions(tagsConfig);
+
+  // Depth-first search for cycles
+  const state = new Map<string, 'visiting' | 'done'>();
+  const reported = new Set<string>();
+
+  const visit = (name: string, path: string[]) => {
+    if (state.get(name) === 'done') {
+      return;
+    }
+    if (state.get(name) === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      if (!reported.has(name)) {
+        for (const member of cycle.slice(0, -1)) {
+          reported.add(member);
+        }
+        issues.push({ path: ['tags', name], message: `Circular tag group: ${cycle.join(' -> ')}` });
+      }
+      return;
+    }
+
+    state.set(name, 'visiting');
+    const { tags, skip } = definitions[name];
+    for (const member of [...tags, ...skip]) {
+      if (definitions[member]) {
+        visit(member, [...path, name]);
+      }
+    }
+    state.set(name, 'done');
   };
+
+  for (const name of Object.keys(definitions)) {
+    visit(name, []);
+  }
+
+  return issues;
 }
 
 /**
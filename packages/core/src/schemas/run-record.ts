@@ -0,0 +1,193 @@
+/**
+ * Run record schema for the run history (logs/ansible/<id>.json)
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for a replayable run descriptor
+ * Mirrors the PlaybookRunner RunOptions so a run can be executed again with `aship rerun`
+ */
+export const RunDescriptorSchema = z.object({
+  /**
+   * Playbook path as resolved for the run (relative to the project directory)
+   */
+  playbook: z.string().min(1),
+
+  /**
+   * Aship host names (-H)
+   */
+  hosts: z.array(z.string()).optional(),
+
+  /**
+   * Inventory file path (-i)
+   */
+  inventory: z.string().optional(),
+
+  /**
+   * Inventory processing mode
+   */
+  inventory_mode: z.enum(['replace', 'inject', 'merge']).optional(),
+
+  /**
+   * Ansible --limit pattern
+   */
+  limit: z.string().optional(),
+
+  /**
+   * Environment selected with --env
+   */
+  environment: z.string().optional(),
+
+  /**
+   * Tags selected from the project tag configuration
+   */
+  tags: z.array(z.string()).default([]),
+
+  /**
+   * Tags skipped by the selected tag group
+   */
+  skip_tags: z.array(z.string()).default([]),
+
+  /**
+   * Additional Ansible arguments, with secret values masked
+   */
+  ansible_args: z.array(z.string()).default([]),
+
+  /**
+   * Non-secret variable values
+   */
+  vars: z.record(z.string(), z.any()).default({}),
+
+  /**
+   * Names of secret variables that must be provided again on replay
+   */
+  secret_vars: z.array(z.string()).default([]),
+});
+
+/**
+ * Schema for a single recorded aship run or exec invocation
+ */
+export const RunRecordSchema = z.object({
+  /**
+   * Unique, time-sortable run identifier
+   */
+  id: z.string().min(1),
+
+  /**
+   * Aship command that started the run
+   */
+  command: z.enum(['run', 'exec']),
+
+  /**
+   * Run status
+   */
+  status: z.enum(['running', 'success', 'failed']),
+
+  /**
+   * Project directory the run was started from
+   */
+  project_dir: z.string(),
+
+  /**
+   * Playbook path (run only)
+   */
+  playbook: z.string().optional(),
+
+  /**
+   * Module name and arguments (exec only)
+   */
+  module: z.string().optional(),
+  module_args: z.string().optional(),
+
+  /**
+   * Host pattern (exec only)
+   */
+  pattern: z.string().optional(),
+
+  /**
+   * Target hosts
+   */
+  hosts: z.array(z.string()).default([]),
+
+  /**
+   * Selected tags
+   */
+  tags: z.array(z.string()).default([]),
+
+  /**
+   * Variables passed to Ansible, with secret values masked
+   */
+  vars: z.record(z.string(), z.any()).default({}),
+
+  /**
+   * Executed command line, with secret values masked
+   */
+  command_line: z.array(z.string()).default([]),
+
+  /**
+   * Start timestamp
+   */
+  started_at: z.string(),
+
+  /**
+   * End timestamp
+   */
+  finished_at: z.string().optional(),
+
+  /**
+   * Process exit code
+   */
+  exit_code: z.number().int().optional(),
+
+  /**
+   * Duration in milliseconds
+   */
+  duration_ms: z.number().int().min(0).optional(),
+
+  /**
+   * Captured output file name (relative to the runs directory)
+   */
+  log_file: z.string(),
+
+  /**
+   * Replayable run descriptor (run only)
+   */
+  descriptor: RunDescriptorSchema.optional(),
+});
+
+/**
+ * TypeScript types
+ */
+export type RunRecord = z.infer<typeof RunRecordSchema>;
+export type RunDescriptor = z.infer<typeof RunDescriptorSchema>;
+
+/**
+ * Validate a run record
+ */
+export const validateRunRecord = (
+  record: unknown
+): {
+  success: boolean;
+  data?: RunRecord;
+  errors?: string[];
+} => {
+  try {
+    const validatedRecord = RunRecordSchema.parse(record);
+    return {
+      success: true,
+      data: validatedRecord,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+      };
+    }
+    return {
+      success: false,
+      errors: [error instanceof Error ? error.message : 'Unknown validation error'],
+    };
+  }
+};
@@ -3,6 +3,7 @@
  */
 
 import { z } from 'zod';
+import { HostKeyPolicySchema, JumpHostSchema } from './host-config.js';
 
 /**
  * Schema for individual server configuration
@@ -41,12 +42,22 @@ export const ServerConfigSchema = z.object({
   /**
    * Server-specific variables
    */
-  variables: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+  variables: z.record(z.any()).optional(),
 
   /**
    * Server description
    */
   description: z.string().optional(),
+
+  /**
+   * Host key verification policy
+   */
+  host_key_policy: HostKeyPolicySchema.optional(),
+
+  /**
+   * Jump hosts used to reach the server, in connection order
+   */
+  jump_hosts: z.array(JumpHostSchema).optional(),
 });
 
 /**
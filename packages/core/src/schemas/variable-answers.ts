@@ -0,0 +1,94 @@
+/**
+ * Variable answers schema for the persisted variable answer store (variable-answers.json)
+ */
+
+import { z } from 'zod';
+
+/**
+ * Schema for the answers collected for a single playbook
+ */
+export const PlaybookAnswersSchema = z.object({
+  /**
+   * Collected variable values by variable name
+   */
+  values: z.record(z.string(), z.any()).default({}),
+
+  /**
+   * Last time the answers were saved
+   */
+  updated_at: z.string(),
+});
+
+/**
+ * Schema for the answers collected within a single project
+ */
+export const ProjectAnswersSchema = z.object({
+  /**
+   * Project name from aship.yml (informational only)
+   */
+  name: z.string().optional(),
+
+  /**
+   * Answers by playbook path (relative to the project directory)
+   */
+  playbooks: z.record(z.string(), PlaybookAnswersSchema).default({}),
+
+  /**
+   * Answers collected for a named environment, by environment name and playbook path
+   */
+  environments: z.record(z.string(), z.record(z.string(), PlaybookAnswersSchema)).optional(),
+});
+
+/**
+ * Schema for the complete variable answers file
+ */
+export const VariableAnswersSchema = z.object({
+  /**
+   * Answers by absolute project directory
+   */
+  projects: z.record(z.string(), ProjectAnswersSchema).default({}),
+});
+
+/**
+ * TypeScript types
+ */
+export type PlaybookAnswers = z.infer<typeof PlaybookAnswersSchema>;
+export type ProjectAnswers = z.infer<typeof ProjectAnswersSchema>;
+export type VariableAnswers = z.infer<typeof VariableAnswersSchema>;
+
+/**
+ * Validate variable answers
+ */
+export const validateVariableAnswers = (
+  answers: unknown
+): {
+  success: boolean;
+  data?: VariableAnswers;
+  errors?: string[];
+} => {
+  try {
+    const validatedAnswers = VariableAnswersSchema.parse(answers);
+    return {
+      success: true,
+      data: validatedAnswers,
+    };
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return {
+        success: false,
+        errors: error.errors.map(e => `${e.path.join('.')}: ${e.message}`),
+      };
+    }
+    return {
+      success: false,
+      errors: [error instanceof Error ? error.message : 'Unknown validation error'],
+    };
+  }
+};
+
+/**
+ * Create default variable answers
+ */
+export const createDefaultVariableAnswers = (): VariableAnswers => ({
+  projects: {},
+});
@@ -2,6 +2,9 @@
  * Variable definition schemas
  */
 
+import { existsSync } from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
 import { z } from 'zod';
 
 /**
@@ -12,7 +15,23 @@ export const VariableDefinitionSchema = z
     /**
      * Variable type
      */
-    type: z.enum(['string', 'int', 'bool', 'choice', 'list', 'password', 'multiselect']),
+    type: z.enum([
+      'string',
+      'int',
+      'float',
+      'bool',
+      'choice',
+      'list',
+      'password',
+      'multiselect',
+      'path',
+      'url',
+      'email',
+      'ip',
+      'cidr',
+      'dict',
+      'json',
+    ]),
 
     /**
      * Variable description for user prompts
@@ -24,6 +43,12 @@ export const VariableDefinitionSchema = z
      */
     default: z.any().optional(),
 
+    /**
+     * Whether a string default is rendered as an aship template (default true)
+     * Set to false to keep "{{ ... }}" or "${...}" for Ansible, e.g. "{{ inventory_hostname }}"
+     */
+    template: z.boolean().optional(),
+
     /**
      * Whether the variable is required
      */
@@ -35,12 +60,12 @@ export const VariableDefinitionSchema = z
     choices: z.array(z.string()).optional(),
 
     /**
-     * Minimum value for 'int' type variables
+     * Minimum value for 'int' and 'float' type variables
      */
     min: z.number().optional(),
 
     /**
-     * Maximum value for 'int' type variables
+     * Maximum value for 'int' and 'float' type variables
      */
     max: z.number().optional(),
 
@@ -53,6 +78,18 @@ export const VariableDefinitionSchema = z
      * Variable group for UI organization
      */
     group: z.string().optional(),
+
+    /**
+     * Condition evaluated against the answers collected so far
+     * The variable is only prompted, resolved and required when it is true
+     * Example: "enable_ssl", "env == 'prod'", "env in ['prod', 'staging'] and not debug"
+     */
+    when: z.string().min(1, 'Condition cannot be empty').optional(),
+
+    /**
+     * Variables that must have a truthy value for this variable to be relevant
+     */
+    depends_on: z.union([z.string().min(1), z.array(z.string().min(1))]).optional(),
   })
   .refine(
     data => {
@@ -71,14 +108,18 @@ export const VariableDefinitionSchema = z
   )
   .refine(
     data => {
-      // Validate that min/max are only used with int type
-      if ((data.min !== undefined || data.max !== undefined) && data.type !== 'int') {
+      // Validate that min/max are only used with numeric types
+      if (
+        (data.min !== undefined || data.max !== undefined) &&
+        data.type !== 'int' &&
+        data.type !== 'float'
+      ) {
         return false;
       }
       return true;
     },
     {
-      message: "Min/max values can only be used with 'int' type variables",
+      message: "Min/max values can only be used with 'int' or 'float' type variables",
     }
   )
   .refine(
@@ -99,6 +140,36 @@ export const VariableDefinitionSchema = z
  */
 export type VariableDefinition = z.infer<typeof VariableDefinitionSchema>;
 
+/**
+ * Schema for a variable group entry in aship.yml (var_groups)
+ * Either a group name or an object with a name and a description
+ */
+export const VariableGroupSchema = z.union([
+  z.string().min(1, 'Group name cannot be empty'),
+  z
+    .object({
+      name: z.string().min(1, 'Group name cannot be empty'),
+      description: z.string().optional(),
+    })
+    .strict(),
+]);
+
+/**
+ * TypeScript type for variable group entry
+ */
+export type VariableGroup = z.infer<typeof VariableGroupSchema>;
+
+/**
+ * Expand a leading "~" in a path to the home directory
+ * @param value Path
+ */
+export const expandHomePath = (value: string): string => {
+  if (value === '~') {
+    return os.homedir();
+  }
+  return value.startsWith('~/') ? path.join(os.homedir(), value.slice(2)) : value;
+};
+
 /**
  * Schema for validating variable values against their definitions
  */
@@ -123,6 +194,17 @@ export const createVariableValueSchema = (definition: VariableDefinition) => {
       return definition.required ? intSchema : intSchema.optional();
     }
 
+    case 'float': {
+      let floatSchema = z.number().finite();
+      if (definition.min !== undefined) {
+        floatSchema = floatSchema.min(definition.min);
+      }
+      if (definition.max !== undefined) {
+        floatSchema = floatSchema.max(definition.max);
+      }
+      return definition.required ? floatSchema : floatSchema.optional();
+    }
+
     case 'bool':
       return definition.required ? z.boolean() : z.boolean().optional();
 
@@ -152,6 +234,50 @@ export const createVariableValueSchema = (definition: VariableDefinition) => {
       return definition.required ? passwordSchema : passwordSchema.optional();
     }
 
+    case 'path': {
+      // Paths must exist on the machine running aship
+      const pathSchema = z
+        .string()
+        .min(1)
+        .refine(value => existsSync(expandHomePath(value)), {
+          message: 'Path does not exist',
+        });
+      return definition.required ? pathSchema : pathSchema.optional();
+    }
+
+    case 'url': {
+      const urlSchema = z.string().url();
+      return definition.required ? urlSchema : urlSchema.optional();
+    }
+
+    case 'email': {
+      const emailSchema = z.string().email();
+      return definition.required ? emailSchema : emailSchema.optional();
+    }
+
+    case 'ip': {
+      const ipSchema = z.string().ip();
+      return definition.required ? ipSchema : ipSchema.optional();
+    }
+
+    case 'cidr': {
+      const cidrSchema = z.string().cidr();
+      return definition.required ? cidrSchema : cidrSchema.optional();
+    }
+
+    case 'dict': {
+      const dictSchema = z.record(z.any());
+      return definition.required ? dictSchema : dictSchema.optional();
+    }
+
+    case 'json': {
+      // Any JSON value (objects, lists, strings, numbers, booleans, null)
+      const jsonSchema = z.any().refine(value => value !== undefined, {
+        message: 'Value is required',
+      });
+      return definition.required ? jsonSchema : jsonSchema.optional();
+    }
+
     default:
       throw new Error(`Unsupported variable type: ${(definition as any).type}`);
   }
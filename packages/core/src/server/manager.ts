@@ -6,7 +6,9 @@
 import { DirectoryManager } from '../config/directory-manager.js';
 import { RuntimeConfigManager } from '../config/runtime-config-manager.js';
 import { HostManager } from '../host/host-manager.js';
-import type { HostConfig } from '../schemas/host-config.js';
+import { resolveHostVars } from '../host/host-vars.js';
+import type { HostConfig, HostGroupConfig } from '../schemas/host-config.js';
+import { resolveJumpHosts } from '../ssh/jump-host.js';
 import type { ServerConfig, ServersConfig } from '../types/index.js';
 import { testConnection } from '../utils/ssh.js';
 
@@ -48,7 +50,13 @@ class ServerManager {
   /**
    * Convert HostConfig to ServerConfig for backward compatibility
    */
-  private hostToServer(host: HostConfig): ServerConfig {
+  private hostToServer(
+    host: HostConfig,
+    groups?: Record<string, HostGroupConfig>,
+    allHosts: HostConfig[] = []
+  ): ServerConfig {
+    const variables = resolveHostVars(host, groups);
+    const jumpHosts = resolveJumpHosts(host, allHosts);
     return {
       name: host.name,
       hostname: host.hostname,
@@ -56,8 +64,10 @@ class ServerManager {
       port: host.port,
       identity_file: host.identity_file,
       description: host.description,
-      // Note: tags and variables are not supported in HostConfig
-      // These are legacy ServerConfig features
+      host_key_policy: host.host_key_policy,
+      ...(Object.keys(variables).length > 0 ? { variables } : {}),
+      ...(jumpHosts.length > 0 ? { jump_hosts: jumpHosts } : {}),
+      // Note: tags are not supported in HostConfig, this is a legacy ServerConfig feature
     };
   }
 
@@ -104,7 +114,8 @@ class ServerManager {
   async getServers(): Promise<ServerConfig[]> {
     // Use HostManager for new implementation
     const hosts = await this.hostManager.getHosts();
-    return hosts.map(host => this.hostToServer(host));
+    const groups = await this.hostManager.getGroups();
+    return hosts.map(host => this.hostToServer(host, groups, hosts));
   }
 
   /**
@@ -114,7 +125,13 @@ class ServerManager {
    */
   async getServer(name: string): Promise<ServerConfig | null> {
     const host = await this.hostManager.getHost(name);
-    return host ? this.hostToServer(host) : null;
+    return host
+      ? this.hostToServer(
+          host,
+          await this.hostManager.getGroups(),
+          await this.hostManager.getHosts()
+        )
+      : null;
   }
 
   /**
@@ -154,8 +171,14 @@ class ServerManager {
       name: server.name || name,
     };
 
-    // Add the updated host
-    const hostData = this.serverToHost(updatedServer);
+    // Add the updated host, keeping the settings ServerConfig does not know about
+    const hostData = {
+      ...this.serverToHost(updatedServer),
+      groups: existingHost.groups,
+      labels: existingHost.labels,
+      host_vars: existingHost.host_vars,
+      jump_host: existingHost.jump_host,
+    };
     const addedHost = await this.hostManager.addHost(hostData, updatedServer.name);
     return this.hostToServer(addedHost);
   }
@@ -5,3 +5,6 @@
 export * from './session-password-manager.js';
 export * from './connection.js';
 export * from './permissions.js';
+export * from './known-hosts.js';
+export * from './jump-host.js';
+export * from './ssh-config.js';
@@ -0,0 +1,185 @@
+/**
+ * Jump host (bastion) support
+ *
+ * A host's jump_host is a comma-separated list of hops, like OpenSSH's ProxyJump.
+ * Each hop is either the name of another aship host or a "[user@]host[:port]" spec.
+ */
+
+import type { HostConfig, JumpHost } from '../schemas/host-config.js';
+
+/**
+ * Parse a "[user@]host[:port]" jump host spec
+ * IPv6 addresses with a port must be written in brackets ("[::1]:2222")
+ * @param spec Jump host spec
+ * @returns Jump host
+ */
+export function parseJumpHostSpec(spec: string): JumpHost {
+  let rest = spec.trim();
+  let user: string | undefined;
+
+  const at = rest.lastIndexOf('@');
+  if (at !== -1) {
+    user = rest.slice(0, at);
+    rest = rest.slice(at + 1);
+    if (!user) {
+      throw new Error(`Invalid jump host "${spec}": user is missing`);
+    }
+  }
+
+  let hostname = rest;
+  let port = 22;
+  const bracketed = rest.match(/^\[([^\]]+)\](?::(.*))?$/);
+  if (bracketed) {
+    hostname = bracketed[1];
+    if (bracketed[2] !== undefined) {
+      port = parsePort(spec, bracketed[2]);
+    }
+  } else if (rest.split(':').length === 2) {
+    const [host, portValue] = rest.split(':');
+    hostname = host;
+    port = parsePort(spec, portValue);
+  }
+
+  if (!hostname) {
+    throw new Error(`Invalid jump host "${spec}": host is missing`);
+  }
+
+  return user ? { hostname, port, user } : { hostname, port };
+}
+
+/**
+ * Parse the port of a jump host spec
+ */
+function parsePort(spec: string, value: string): number {
+  const port = Number(value);
+  if (!Number.isInteger(port) || port < 1 || port > 65535) {
+    throw new Error(`Invalid jump host "${spec}": invalid port "${value}"`);
+  }
+  return port;
+}
+
+/**
+ * Format a jump host in ProxyJump syntax
+ * @param hop Jump host
+ */
+export function formatJumpHost(hop: JumpHost): string {
+  const user = hop.user ? `${hop.user}@` : '';
+  if (hop.port === 22) {
+    return `${user}${hop.hostname}`;
+  }
+  const hostname = hop.hostname.includes(':') ? `[${hop.hostname}]` : hop.hostname;
+  return `${user}${hostname}:${hop.port}`;
+}
+
+/**
+ * Resolve the jump host chain of a host
+ * Hops that name an aship host use its connection settings, including its own jump hosts
+ * @param host Host to resolve the chain for
+ * @param hosts Saved aship hosts
+ * @returns Hops in connection order (first hop first)
+ * @throws Error if the chain contains a cycle or an invalid spec
+ */
+export function resolveJumpHosts(
+  host: Pick<HostConfig, 'name' | 'jump_host'>,
+  hosts: HostConfig[]
+): JumpHost[] {
+  return resolveChain(host.jump_host, hosts, [host.name]);
+}
+
+/**
+ * Resolve a jump host list, following aship host references
+ */
+function resolveChain(
+  jumpHost: string | undefined,
+  hosts: HostConfig[],
+  path: string[]
+): JumpHost[] {
+  const hops: JumpHost[] = [];
+
+  for (const part of (jumpHost || '').split(',')) {
+    const spec = part.trim();
+    if (!spec) {
+      continue;
+    }
+
+    const reference = hosts.find(candidate => candidate.name === spec);
+    if (!reference) {
+      hops.push(parseJumpHostSpec(spec));
+      continue;
+    }
+
+    if (path.includes(reference.name)) {
+      throw new Error(`Jump host cycle detected: ${[...path, reference.name].join(' -> ')}`);
+    }
+
+    hops.push(...resolveChain(reference.jump_host, hosts, [...path, reference.name]));
+    hops.push({
+      hostname: reference.hostname,
+      port: reference.port,
+      user: reference.user,
+      ...(reference.identity_file ? { identity_file: reference.identity_file } : {}),
+    });
+  }
+
+  return hops;
+}
+
+/**
+ * Quote a value for a POSIX shell
+ */
+function shellQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+/**
+ * Build the ProxyCommand that connects to the next host through the jump hosts
+ * Every hop is a "ssh -W" connection that runs through the hops before it
+ * @param hops Jump hosts in connection order
+ * @param hostKeyOptions Host key options for every hop
+ */
+function buildProxyCommand(hops: JumpHost[], hostKeyOptions: string[]): string {
+  const hop = hops[hops.length - 1];
+  const parts = ['ssh'];
+
+  if (hops.length > 1) {
+    // The outer ssh expands % tokens once more, so the inner command escapes them
+    const inner = buildProxyCommand(hops.slice(0, -1), hostKeyOptions).replace(/%/g, '%%');
+    parts.push('-o', shellQuote(`ProxyCommand=${inner}`));
+  }
+  parts.push(...hostKeyOptions.map(option => option.replace(/%/g, '%%')));
+  if (hop.identity_file) {
+    parts.push('-i', shellQuote(hop.identity_file));
+  }
+  parts.push(
+    '-p',
+    String(hop.port),
+    '-W',
+    '%h:%p',
+    `${hop.user ? `${hop.user}@` : ''}${hop.hostname}`
+  );
+
+  return parts.join(' ');
+}
+
+/**
+ * Build SSH options that connect through jump hosts
+ * ProxyJump (-J) passes neither identity files nor host key options to the hops,
+ * so hops are chained with ProxyCommand when either applies
+ * @param hops Jump hosts in connection order
+ * @param hostKeyOptions Host key options of the policy (see getHostKeySshOptions)
+ * @returns SSH command line options, quoted for a shell or Ansible's ssh args
+ */
+export function getJumpHostSshOptions(
+  hops: JumpHost[] = [],
+  hostKeyOptions: string[] = []
+): string[] {
+  if (hops.length === 0) {
+    return [];
+  }
+  if (hostKeyOptions.length > 0 || hops.some(hop => hop.identity_file)) {
+    return ['-o', shellQuote(`ProxyCommand=${buildProxyCommand(hops, hostKeyOptions)}`)];
+  }
+  const jumpHosts = hops.map(formatJumpHost).join(',');
+  // IPv6 hops are written in brackets, which a shell would treat as a pattern
+  return ['-J', /^[\w@:,.-]+$/.test(jumpHosts) ? jumpHosts : shellQuote(jumpHosts)];
+}
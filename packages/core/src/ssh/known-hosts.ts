@@ -0,0 +1,357 @@
+/**
+ * Host key verification backed by an aship-managed known_hosts file
+ */
+
+import { createHash } from 'node:crypto';
+import * as fs from 'node:fs/promises';
+import type { DirectoryManager } from '../config/directory-manager.js';
+import {
+  DEFAULT_HOST_KEY_POLICY,
+  type HostKeyPolicy,
+  type JumpHost,
+} from '../schemas/host-config.js';
+import type { ServerConfig } from '../types/index.js';
+import { type ConnectionResult, testConnection } from '../utils/ssh.js';
+import { formatJumpHost } from './jump-host.js';
+
+/**
+ * Single known_hosts entry
+ */
+export interface KnownHostEntry {
+  /** Host pattern ("host" or "[host]:port") */
+  pattern: string;
+  /** Key type (e.g. ssh-ed25519) */
+  type: string;
+  /** Base64 encoded public key */
+  key: string;
+  /** SHA256 fingerprint in OpenSSH format */
+  fingerprint: string;
+}
+
+/**
+ * Result of checking a host key against the known_hosts file
+ */
+export interface HostKeyCheckResult {
+  /**
+   * - match: the key is known
+   * - unknown: no key is recorded for the host
+   * - mismatch: a different key is recorded for the host
+   */
+  status: 'match' | 'unknown' | 'mismatch';
+  /** Fingerprint of the presented key */
+  fingerprint: string;
+  /** Fingerprints recorded for the host */
+  knownFingerprints: string[];
+}
+
+/**
+ * Result of a connection test with host key verification
+ */
+export interface VerifiedConnectionResult extends ConnectionResult {
+  /** Host key check performed during the connection */
+  hostKey?: HostKeyCheckResult;
+  /** Whether the host key was recorded in the known_hosts file */
+  hostKeyRecorded?: boolean;
+}
+
+/**
+ * Resolve the effective host key policy
+ * @param hostPolicy Policy configured on the host
+ * @param projectPolicy Policy configured in the project
+ * @returns Effective policy
+ */
+export function resolveHostKeyPolicy(
+  hostPolicy?: HostKeyPolicy,
+  projectPolicy?: HostKeyPolicy
+): HostKeyPolicy {
+  return hostPolicy || projectPolicy || DEFAULT_HOST_KEY_POLICY;
+}
+
+/**
+ * Build SSH options for a host key policy
+ * @param policy Host key policy
+ * @param knownHostsFile Path to the aship known_hosts file
+ * @returns SSH command line options
+ */
+export function getHostKeySshOptions(policy: HostKeyPolicy, knownHostsFile: string): string[] {
+  switch (policy) {
+    case 'off':
+      return ['-o', 'StrictHostKeyChecking=no', '-o', 'UserKnownHostsFile=/dev/null'];
+    case 'strict':
+      return ['-o', 'StrictHostKeyChecking=yes', '-o', `UserKnownHostsFile="${knownHostsFile}"`];
+    default:
+      return [
+        '-o',
+        'StrictHostKeyChecking=accept-new',
+        '-o',
+        `UserKnownHostsFile="${knownHostsFile}"`,
+      ];
+  }
+}
+
+/**
+ * Format a host pattern the way OpenSSH writes it to known_hosts
+ * @param hostname Host name or IP address
+ * @param port SSH port
+ */
+export function formatHostPattern(hostname: string, port = 22): string {
+  return port === 22 ? hostname : `[${hostname}]:${port}`;
+}
+
+/**
+ * Compute the OpenSSH SHA256 fingerprint of a public key
+ * @param key Public key blob (SSH wire format)
+ */
+export function computeFingerprint(key: Buffer): string {
+  const digest = createHash('sha256').update(key).digest('base64').replace(/=+$/, '');
+  return `SHA256:${digest}`;
+}
+
+/**
+ * Read the key type from a public key blob (SSH wire format)
+ * @param key Public key blob
+ */
+function readKeyType(key: Buffer): string {
+  if (key.length < 4) {
+    throw new Error('Invalid host key');
+  }
+
+  const length = key.readUInt32BE(0);
+  if (length === 0 || length + 4 > key.length) {
+    throw new Error('Invalid host key');
+  }
+
+  return key.subarray(4, 4 + length).toString('ascii');
+}
+
+/**
+ * Known hosts manager - reads and writes the aship known_hosts file (OpenSSH format)
+ */
+export class KnownHostsManager {
+  constructor(private directoryManager: DirectoryManager) {}
+
+  /**
+   * Path to the known_hosts file
+   */
+  get filePath(): string {
+    return this.directoryManager.knownHostsFile;
+  }
+
+  /**
+   * Get all entries of the known_hosts file
+   * Hashed entries and markers (@cert-authority, @revoked) are not supported and skipped
+   */
+  async getEntries(): Promise<KnownHostEntry[]> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch {
+      return [];
+    }
+
+    const entries: KnownHostEntry[] = [];
+    for (const line of content.split('\n')) {
+      const trimmed = line.trim();
+      if (!trimmed || trimmed.startsWith('#') || trimmed.startsWith('@')) {
+        continue;
+      }
+
+      const [patterns, type, key] = trimmed.split(/\s+/);
+      if (!patterns || !type || !key || patterns.startsWith('|')) {
+        continue;
+      }
+
+      const fingerprint = computeFingerprint(Buffer.from(key, 'base64'));
+      for (const pattern of patterns.split(',')) {
+        entries.push({ pattern, type, key, fingerprint });
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Get the entries recorded for a host
+   * @param hostname Host name or IP address
+   * @param port SSH port
+   */
+  async getHostEntries(hostname: string, port = 22): Promise<KnownHostEntry[]> {
+    const pattern = formatHostPattern(hostname, port);
+    return (await this.getEntries()).filter(entry => entry.pattern === pattern);
+  }
+
+  /**
+   * Check a presented host key against the known_hosts file
+   * @param hostname Host name or IP address
+   * @param port SSH port
+   * @param key Public key blob presented by the server
+   */
+  async check(hostname: string, port: number, key: Buffer): Promise<HostKeyCheckResult> {
+    const fingerprint = computeFingerprint(key);
+    const known = await this.getHostEntries(hostname, port);
+    const knownFingerprints = known.map(entry => entry.fingerprint);
+
+    if (known.length === 0) {
+      return { status: 'unknown', fingerprint, knownFingerprints };
+    }
+
+    // Only keys of the same type are compared, as OpenSSH does
+    const type = readKeyType(key);
+    const sameType = known.filter(entry => entry.type === type);
+    if (sameType.some(entry => entry.fingerprint === fingerprint)) {
+      return { status: 'match', fingerprint, knownFingerprints };
+    }
+
+    return {
+      status: sameType.length > 0 ? 'mismatch' : 'unknown',
+      fingerprint,
+      knownFingerprints,
+    };
+  }
+
+  /**
+   * Record a host key
+   * @param hostname Host name or IP address
+   * @param port SSH port
+   * @param key Public key blob presented by the server
+   */
+  async add(hostname: string, port: number, key: Buffer): Promise<void> {
+    const line = `${formatHostPattern(hostname, port)} ${readKeyType(key)} ${key.toString('base64')}\n`;
+
+    await fs.mkdir(this.directoryManager.getGlobalDir(), { recursive: true });
+    await fs.appendFile(this.filePath, line, { encoding: 'utf-8', mode: 0o600 });
+  }
+
+  /**
+   * Remove all keys recorded for a host
+   * @param hostname Host name or IP address
+   * @param port SSH port
+   * @returns Number of removed lines
+   */
+  async remove(hostname: string, port = 22): Promise<number> {
+    let content: string;
+    try {
+      content = await fs.readFile(this.filePath, 'utf-8');
+    } catch {
+      return 0;
+    }
+
+    const pattern = formatHostPattern(hostname, port);
+    const lines = content.split('\n');
+    const kept = lines.filter(line => {
+      const [patterns] = line.trim().split(/\s+/);
+      return !patterns || !patterns.split(',').includes(pattern);
+    });
+
+    const removed = lines.length - kept.length;
+    if (removed > 0) {
+      await fs.writeFile(this.filePath, kept.join('\n'), { encoding: 'utf-8', mode: 0o600 });
+    }
+
+    return removed;
+  }
+
+  /**
+   * Test a connection while verifying the host key
+   * The keys of the server's jump hosts are verified with the same policy
+   * @param server Server to connect to
+   * @param policy Host key policy
+   * @param options.trustUnknown Record unknown keys even with the strict policy (explicit enrollment)
+   * @param options.timeout Timeout in milliseconds for the whole test
+   * @returns Connection result with host key information
+   */
+  async testConnection(
+    server: ServerConfig,
+    policy: HostKeyPolicy,
+    options: { trustUnknown?: boolean; timeout?: number } = {}
+  ): Promise<VerifiedConnectionResult> {
+    if (policy === 'off') {
+      return testConnection(server, { timeout: options.timeout });
+    }
+
+    let presentedKey: Buffer | undefined;
+    let hostKey: HostKeyCheckResult | undefined;
+    const acceptUnknown = policy === 'tofu' || options.trustUnknown === true;
+    const jumpHostKeys: { hop: JumpHost; key: Buffer; check: HostKeyCheckResult }[] = [];
+
+    const result = await testConnection(server, {
+      timeout: options.timeout,
+      hostVerifier: (key: Buffer, verify: (valid: boolean) => void) => {
+        presentedKey = key;
+        this.check(server.hostname, server.port, key)
+          .then(check => {
+            hostKey = check;
+            verify(check.status === 'match' || (check.status === 'unknown' && acceptUnknown));
+          })
+          .catch(() => verify(false));
+      },
+      jumpHostVerifier: hop => (key: Buffer, verify: (valid: boolean) => void) => {
+        this.check(hop.hostname, hop.port, key)
+          .then(check => {
+            jumpHostKeys.push({ hop, key, check });
+            verify(check.status === 'match' || (check.status === 'unknown' && acceptUnknown));
+          })
+          .catch(() => verify(false));
+      },
+    });
+
+    const rejectedHop = jumpHostKeys.find(
+      ({ check }) => check.status === 'mismatch' || (check.status === 'unknown' && !acceptUnknown)
+    );
+    if (rejectedHop) {
+      const pattern = formatHostPattern(rejectedHop.hop.hostname, rejectedHop.hop.port);
+      return {
+        ...result,
+        success: false,
+        hostKey: rejectedHop.check,
+        message:
+          rejectedHop.check.status === 'mismatch'
+            ? `Host key verification failed for jump host ${formatJumpHost(rejectedHop.hop)}: the host key has changed (presented ${rejectedHop.check.fingerprint}, expected ${rejectedHop.check.knownFingerprints.join(', ')}). If the change is expected, remove the old key with: ssh-keygen -R "${pattern}" -f "${this.filePath}"`
+            : `Host key for jump host ${formatJumpHost(rejectedHop.hop)} (${rejectedHop.check.fingerprint}) is not known and the host key policy is strict.`,
+      };
+    }
+
+    if (hostKey?.status === 'mismatch') {
+      return {
+        ...result,
+        success: false,
+        hostKey,
+        message: [
+          `Host key verification failed for ${formatHostPattern(server.hostname, server.port)}: the host key has changed.`,
+          `  Presented: ${hostKey.fingerprint}`,
+          `  Expected:  ${hostKey.knownFingerprints.join(', ')}`,
+          'This could mean the host was reinstalled, or that someone is intercepting the connection.',
+          `If the change is expected, remove the old key with: ssh-keygen -R "${formatHostPattern(server.hostname, server.port)}" -f "${this.filePath}"`,
+        ].join('\n'),
+      };
+    }
+
+    if (hostKey?.status === 'unknown' && !acceptUnknown) {
+      return {
+        ...result,
+        success: false,
+        hostKey,
+        message: `Host key for ${formatHostPattern(server.hostname, server.port)} (${hostKey.fingerprint}) is not known and the host key policy is strict. Add the host with "aship host add --test" to record its key.`,
+      };
+    }
+
+    let hostKeyRecorded = false;
+    if (result.success && presentedKey && hostKey?.status === 'unknown') {
+      await this.add(server.hostname, server.port, presentedKey);
+      hostKeyRecorded = true;
+    }
+    if (result.success) {
+      // The tunnel is opened again for every authentication attempt, record each hop once
+      const recorded = new Set<string>();
+      for (const { hop, key, check } of jumpHostKeys) {
+        const pattern = formatHostPattern(hop.hostname, hop.port);
+        if (check.status === 'unknown' && !recorded.has(pattern)) {
+          await this.add(hop.hostname, hop.port, key);
+          recorded.add(pattern);
+        }
+      }
+    }
+
+    return { ...result, hostKey, hostKeyRecorded };
+  }
+}
@@ -0,0 +1,491 @@
+/**
+ * OpenSSH client configuration (~/.ssh/config) parser
+ *
+ * Follows the OpenSSH rules that matter for importing hosts:
+ * - "Keyword value" and "Keyword=value" syntax, tab separators, quoted values and comments
+ * - several patterns per Host line, wildcards ("*", "?") and negated patterns ("!pattern")
+ * - the first value obtained for a setting wins, so specific blocks must come before "Host *"
+ * - Include directives with "~" expansion and glob patterns, relative to ~/.ssh
+ * - "Match all" blocks; other Match conditions depend on runtime state and are reported as skipped
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+
+/**
+ * Concrete host found in an SSH config file
+ */
+export interface SshConfigHost {
+  /** Host alias */
+  name: string;
+  /** Real host name (HostName, defaults to the alias) */
+  hostname: string;
+  /** Login user, if configured */
+  user?: string;
+  /** SSH port */
+  port: number;
+  /** First configured identity file, with "~" expanded */
+  identity_file?: string;
+  /** ProxyJump value */
+  jump_host?: string;
+  /** Location of the Host line ("file:line") */
+  source: string;
+}
+
+/**
+ * SSH config entry that was not imported
+ */
+export interface SkippedSshConfigEntry {
+  /** Host pattern, Match condition or Include pattern */
+  name: string;
+  /** Why the entry was skipped */
+  reason: string;
+  /** Location of the entry ("file:line") */
+  source: string;
+}
+
+/**
+ * Result of parsing an SSH config file
+ */
+export interface SshConfigParseResult {
+  hosts: SshConfigHost[];
+  skipped: SkippedSshConfigEntry[];
+}
+
+/**
+ * SSH config parser options
+ */
+export interface SshConfigParseOptions {
+  /** Home directory used for "~" expansion and relative Include paths (defaults to the user's home) */
+  homeDir?: string;
+}
+
+/**
+ * Block of settings that applies to the hosts matching its condition
+ */
+interface SshConfigBlock {
+  /** Host patterns, or undefined for settings that apply to every host */
+  patterns?: string[];
+  /** Settings in file order (keyword in lower case) */
+  settings: Array<{ keyword: string; value: string }>;
+}
+
+/**
+ * Parser state shared by a config file and the files it includes
+ */
+interface ParseState {
+  homeDir: string;
+  blocks: SshConfigBlock[];
+  aliases: Array<{ name: string; source: string }>;
+  skipped: SkippedSshConfigEntry[];
+  files: string[];
+}
+
+/**
+ * Maximum Include nesting depth (same as OpenSSH)
+ */
+const MAX_INCLUDE_DEPTH = 16;
+
+/**
+ * Settings used for imported hosts
+ */
+const IMPORTED_SETTINGS = new Set(['hostname', 'user', 'port', 'identityfile', 'proxyjump']);
+
+/**
+ * Parse an SSH config file and the files it includes
+ * @param filePath Path of the config file
+ * @param options Parser options
+ * @returns Concrete hosts with their effective settings, and skipped entries
+ */
+export async function parseSshConfigFile(
+  filePath: string,
+  options: SshConfigParseOptions = {}
+): Promise<SshConfigParseResult> {
+  const content = await fs.readFile(filePath, 'utf-8');
+  return parseSshConfig(content, filePath, options);
+}
+
+/**
+ * Parse SSH config content
+ * @param content Config file content
+ * @param filePath Path of the config file, used for error locations
+ * @param options Parser options
+ * @returns Concrete hosts with their effective settings, and skipped entries
+ */
+export async function parseSshConfig(
+  content: string,
+  filePath = 'config',
+  options: SshConfigParseOptions = {}
+): Promise<SshConfigParseResult> {
+  const state: ParseState = {
+    homeDir: options.homeDir ?? os.homedir(),
+    blocks: [],
+    aliases: [],
+    skipped: [],
+    files: [path.resolve(filePath)],
+  };
+
+  await parseContent(content, filePath, state, undefined, 0);
+
+  const hosts: SshConfigHost[] = [];
+  const seen = new Set<string>();
+
+  for (const alias of state.aliases) {
+    if (seen.has(alias.name)) {
+      continue;
+    }
+    seen.add(alias.name);
+
+    try {
+      hosts.push(resolveHost(alias.name, alias.source, state));
+    } catch (error) {
+      state.skipped.push({
+        name: alias.name,
+        reason: error instanceof Error ? error.message : String(error),
+        source: alias.source,
+      });
+    }
+  }
+
+  return { hosts, skipped: state.skipped };
+}
+
+/**
+ * Check whether a host name matches the patterns of a Host line
+ * Negated patterns ("!pattern") exclude the host even if another pattern matches
+ * @param name Host name
+ * @param patterns Patterns
+ */
+export function matchSshPatterns(name: string, patterns: string[]): boolean {
+  let matched = false;
+
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      if (matchSshPattern(name, pattern.slice(1))) {
+        return false;
+      }
+    } else if (matchSshPattern(name, pattern)) {
+      matched = true;
+    }
+  }
+
+  return matched;
+}
+
+/**
+ * Match a host name against a single wildcard pattern (case-insensitive)
+ */
+function matchSshPattern(name: string, pattern: string): boolean {
+  const source = pattern
+    .split('')
+    .map(char => {
+      if (char === '*') return '.*';
+      if (char === '?') return '.';
+      return char.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+    })
+    .join('');
+  return new RegExp(`^${source}$`, 'i').test(name);
+}
+
+/**
+ * Check whether a pattern contains wildcards
+ */
+function hasWildcard(pattern: string): boolean {
+  return /[*?]/.test(pattern);
+}
+
+/**
+ * Split a config line into its keyword and arguments
+ * Supports "Keyword value", "Keyword=value", tabs and double-quoted arguments
+ * @returns Keyword (lower case) and arguments, or null for blank lines and comments
+ */
+function tokenizeLine(line: string): { keyword: string; args: string[] } | null {
+  const trimmed = line.trim();
+  if (!trimmed || trimmed.startsWith('#')) {
+    return null;
+  }
+
+  const keywordMatch = trimmed.match(/^([^\s=]+)\s*(?:=\s*|\s+|$)/);
+  if (!keywordMatch) {
+    return null;
+  }
+
+  const args: string[] = [];
+  const rest = trimmed.slice(keywordMatch[0].length);
+  const argPattern = /"([^"]*)"|(\S+)/g;
+  for (let match = argPattern.exec(rest); match; match = argPattern.exec(rest)) {
+    if (match[2]?.startsWith('#')) {
+      break;
+    }
+    args.push(match[1] ?? match[2]);
+  }
+
+  return { keyword: keywordMatch[1].toLowerCase(), args };
+}
+
+/**
+ * Parse config content into blocks
+ * @param content File content
+ * @param filePath File path
+ * @param state Parser state
+ * @param patterns Host patterns of the block the content starts in (for included files)
+ * @param depth Include depth
+ */
+async function parseContent(
+  content: string,
+  filePath: string,
+  state: ParseState,
+  patterns: string[] | undefined,
+  depth: number
+): Promise<void> {
+  const fileName = displayPath(filePath, state.homeDir);
+  let block: SshConfigBlock | null = { patterns, settings: [] };
+  state.blocks.push(block);
+
+  const lines = content.split(/\r?\n/);
+  for (let index = 0; index < lines.length; index++) {
+    const token = tokenizeLine(lines[index]);
+    if (!token) {
+      continue;
+    }
+
+    const source = `${fileName}:${index + 1}`;
+    const { keyword, args } = token;
+
+    if (keyword === 'host') {
+      block = { patterns: args, settings: [] };
+      state.blocks.push(block);
+      recordHostPatterns(args, source, state);
+      continue;
+    }
+
+    if (keyword === 'match') {
+      const condition = args.join(' ');
+      if (args.length === 1 && args[0].toLowerCase() === 'all') {
+        block = { patterns: ['*'], settings: [] };
+        state.blocks.push(block);
+      } else {
+        // Match conditions depend on the connection (user, command output...) and cannot be evaluated here
+        block = null;
+        state.skipped.push({
+          name: `Match ${condition}`,
+          reason: 'Match conditions other than "all" are not evaluated',
+          source,
+        });
+      }
+      continue;
+    }
+
+    if (!block) {
+      continue;
+    }
+
+    if (keyword === 'include') {
+      for (const pattern of args) {
+        await includeFiles(pattern, source, state, block.patterns, depth);
+      }
+      // Settings after the Include still belong to the current block
+      block = { patterns: block.patterns, settings: [] };
+      state.blocks.push(block);
+      continue;
+    }
+
+    if (IMPORTED_SETTINGS.has(keyword) && args.length > 0) {
+      block.settings.push({ keyword, value: args.join(' ') });
+    }
+  }
+}
+
+/**
+ * Record the concrete aliases of a Host line and report the patterns that are not imported
+ */
+function recordHostPatterns(patterns: string[], source: string, state: ParseState): void {
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      state.skipped.push({ name: pattern, reason: 'negated pattern', source });
+    } else if (hasWildcard(pattern)) {
+      state.skipped.push({
+        name: pattern,
+        reason: 'wildcard pattern (its settings are applied to matching hosts)',
+        source,
+      });
+    } else {
+      state.aliases.push({ name: pattern, source });
+    }
+  }
+}
+
+/**
+ * Parse the files matching an Include pattern
+ */
+async function includeFiles(
+  pattern: string,
+  source: string,
+  state: ParseState,
+  patterns: string[] | undefined,
+  depth: number
+): Promise<void> {
+  if (depth + 1 > MAX_INCLUDE_DEPTH) {
+    state.skipped.push({
+      name: `Include ${pattern}`,
+      reason: `includes nested more than ${MAX_INCLUDE_DEPTH} levels deep`,
+      source,
+    });
+    return;
+  }
+
+  const expanded = expandHome(pattern, state.homeDir);
+  const absolute = path.isAbsolute(expanded)
+    ? expanded
+    : path.join(state.homeDir, '.ssh', expanded);
+  const files = await expandGlob(absolute);
+
+  if (files.length === 0) {
+    state.skipped.push({ name: `Include ${pattern}`, reason: 'no matching files', source });
+    return;
+  }
+
+  for (const file of files) {
+    if (state.files.includes(file)) {
+      state.skipped.push({
+        name: `Include ${pattern}`,
+        reason: `${displayPath(file, state.homeDir)} is already being read (include cycle)`,
+        source,
+      });
+      continue;
+    }
+
+    let content: string;
+    try {
+      content = await fs.readFile(file, 'utf-8');
+    } catch (error) {
+      state.skipped.push({
+        name: `Include ${pattern}`,
+        reason: `cannot read ${displayPath(file, state.homeDir)}: ${error instanceof Error ? error.message : String(error)}`,
+        source,
+      });
+      continue;
+    }
+
+    state.files.push(file);
+    await parseContent(content, file, state, patterns, depth + 1);
+    state.files.pop();
+  }
+}
+
+/**
+ * Expand a path whose segments may contain wildcards
+ * @returns Matching files, sorted like glob(3)
+ */
+async function expandGlob(pattern: string): Promise<string[]> {
+  const { root } = path.parse(pattern);
+  const segments = pattern.slice(root.length).split(path.sep).filter(Boolean);
+  let candidates = [root];
+
+  for (const segment of segments) {
+    const next: string[] = [];
+    for (const candidate of candidates) {
+      if (!hasWildcard(segment)) {
+        next.push(path.join(candidate, segment));
+        continue;
+      }
+      try {
+        const entries = await fs.readdir(candidate);
+        for (const entry of entries.sort()) {
+          if (!entry.startsWith('.') && matchSshPattern(entry, segment)) {
+            next.push(path.join(candidate, entry));
+          }
+        }
+      } catch {
+        // Missing directories simply match nothing
+      }
+    }
+    candidates = next;
+  }
+
+  const files: string[] = [];
+  for (const candidate of candidates) {
+    try {
+      if ((await fs.stat(candidate)).isFile()) {
+        files.push(candidate);
+      }
+    } catch {
+      // Missing files are ignored, like OpenSSH does
+    }
+  }
+  return files;
+}
+
+/**
+ * Resolve the effective settings of a host alias
+ * @throws Error if a setting has an invalid value
+ */
+function resolveHost(name: string, source: string, state: ParseState): SshConfigHost {
+  const values = new Map<string, string>();
+
+  for (const block of state.blocks) {
+    if (block.patterns && !matchSshPatterns(name, block.patterns)) {
+      continue;
+    }
+    for (const { keyword, value } of block.settings) {
+      // The first obtained value wins
+      if (!values.has(keyword)) {
+        values.set(keyword, value);
+      }
+    }
+  }
+
+  const host: SshConfigHost = {
+    name,
+    hostname: (values.get('hostname') ?? name).replace(/%h/g, name).replace(/%%/g, '%'),
+    port: 22,
+    source,
+  };
+
+  const port = values.get('port');
+  if (port !== undefined) {
+    const parsed = Number(port);
+    if (!Number.isInteger(parsed) || parsed < 1 || parsed > 65535) {
+      throw new Error(`invalid port "${port}"`);
+    }
+    host.port = parsed;
+  }
+
+  const user = values.get('user');
+  if (user) {
+    host.user = user;
+  }
+
+  const identityFile = values.get('identityfile');
+  if (identityFile && identityFile.toLowerCase() !== 'none') {
+    host.identity_file = expandHome(identityFile.replace(/%d/g, state.homeDir), state.homeDir);
+  }
+
+  const proxyJump = values.get('proxyjump');
+  if (proxyJump && proxyJump.toLowerCase() !== 'none') {
+    host.jump_host = proxyJump;
+  }
+
+  return host;
+}
+
+/**
+ * Expand a leading "~" to the home directory
+ */
+function expandHome(value: string, homeDir: string): string {
+  if (value === '~') {
+    return homeDir;
+  }
+  return value.startsWith('~/') ? path.join(homeDir, value.slice(2)) : value;
+}
+
+/**
+ * Shorten a path below the home directory for display
+ */
+function displayPath(filePath: string, homeDir: string): string {
+  const relative = path.relative(homeDir, filePath);
+  return relative && !relative.startsWith('..') && !path.isAbsolute(relative)
+    ? `~/${relative}`
+    : filePath;
+}
@@ -7,23 +7,70 @@
 
 // Re-export schema-based types for backward compatibility
 export type {
+  AnsibleConfig,
   ProjectConfig,
   ServerConfig,
   ServersConfig,
   VariableDefinition,
 } from '../schemas/index.js';
 
-// Ansible configuration types
-export interface AnsibleConfig {
+// Legacy types - these are now defined in schemas but kept here for compatibility
+
+// Execution result types
+
+/**
+ * Results of a host in the play recap of a playbook run
+ */
+export interface HostRecap {
+  ok: number;
+  changed: number;
+  unreachable: number;
+  failed: number;
+  skipped: number;
+  rescued: number;
+  ignored: number;
+}
+
+/**
+ * Progress of a running playbook, tracked from the output of ansible-playbook
+ */
+export interface PlaybookProgress {
   /**
-   * Path to ansible.cfg file
+   * Name of the current play
    */
-  configPath?: string;
-}
+  play?: string;
 
-// Legacy types - these are now defined in schemas but kept here for compatibility
+  /**
+   * Name of the current task or handler
+   */
+  task?: string;
+
+  /**
+   * Number of tasks started so far
+   */
+  tasks: number;
+
+  /**
+   * Hosts that finished the current task
+   */
+  hostsDone: number;
+
+  /**
+   * Hosts of the current play, as far as they have reported results
+   */
+  hostsTotal: number;
+
+  /**
+   * Hosts that failed or were unreachable so far
+   */
+  hostsFailed: number;
+
+  /**
+   * Milliseconds since the playbook started
+   */
+  elapsed: number;
+}
 
-// Execution result types
 export interface ExecutionResult {
   /**
    * Execution success status
@@ -49,6 +96,11 @@ export interface ExecutionResult {
    * Execution time in milliseconds
    */
   executionTime?: number;
+
+  /**
+   * Results by host, parsed from the play recap of a playbook run
+   */
+  hosts?: Record<string, HostRecap>;
 }
 
 // Error types
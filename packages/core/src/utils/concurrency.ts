@@ -0,0 +1,30 @@
+/**
+ * Concurrency utility functions
+ */
+
+/**
+ * Map items with an async function, running at most `concurrency` calls at a time
+ * @param items Items to map
+ * @param concurrency Maximum number of concurrent calls (at least 1)
+ * @param fn Async function called for every item
+ * @returns Results in the order of the items
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  concurrency: number,
+  fn: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const results = new Array<R>(items.length);
+  let next = 0;
+
+  const worker = async (): Promise<void> => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await fn(items[index], index);
+    }
+  };
+
+  const workers = Math.max(1, Math.min(Math.floor(concurrency) || 1, items.length));
+  await Promise.all(Array.from({ length: workers }, () => worker()));
+  return results;
+}
@@ -2,6 +2,7 @@
  * Utility functions for Aship
  */
 
+export * from './concurrency.js';
 export * from './fs.js';
 export * from './process.js';
 export * from './ssh.js';
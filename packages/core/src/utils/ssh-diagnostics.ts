@@ -46,13 +46,16 @@ export async function runEnhancedDiagnostics(
     verbosity?: number;
     showCommands?: boolean;
     suppressDebugOutput?: boolean;
+    silent?: boolean;
   } = {}
 ): Promise<DetailedDiagnosticResult> {
   // Create a dedicated logger for SSH diagnostics
   const sshLogger = logger.createChild('ssh');
 
   // Set verbosity level based on options
-  if (options.verbosity !== undefined) {
+  if (options.silent) {
+    sshLogger.setLevel(LogLevel.SILENT);
+  } else if (options.verbosity !== undefined) {
     sshLogger.setVerbosity(options.verbosity);
   }
 
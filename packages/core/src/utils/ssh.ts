@@ -6,6 +6,8 @@ import * as fs from 'node:fs';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { NodeSSH, Config as SSHConfig } from 'node-ssh';
+import type { JumpHost } from '../schemas/host-config.js';
+import { formatJumpHost } from '../ssh/jump-host.js';
 import { sessionPasswordManager } from '../ssh/session-password-manager.js';
 import type { ServerConfig } from '../types/index.js';
 import logger from './logger.js';
@@ -175,6 +177,75 @@ function getAllSshKeys(): string[] {
   return keys.slice(0, 5);
 }
 
+/**
+ * Options for connecting through jump hosts
+ */
+export interface JumpTunnelOptions {
+  /** Jump hosts in connection order */
+  jumpHosts?: JumpHost[];
+  /** Host key verifier for a jump host (accepts every key if omitted) */
+  jumpHostVerifier?: (hop: JumpHost) => SSHConfig['hostVerifier'];
+}
+
+/**
+ * Dispose SSH connections, ignoring errors
+ */
+function disposeAll(connections: NodeSSH[]): void {
+  for (const connection of connections.reverse()) {
+    try {
+      connection.dispose();
+    } catch (_error) {
+      // Ignore errors during disconnect
+    }
+  }
+}
+
+/**
+ * Open a tunnel to a target through jump hosts
+ * Jump hosts authenticate with their identity file or the SSH agent
+ * @param host Target hostname
+ * @param port Target SSH port
+ * @param tunnel Jump host options
+ * @param connections Receives the opened jump connections, which the caller must dispose
+ * @returns Stream to use as the socket of the target connection
+ */
+async function openJumpHostTunnel(
+  host: string,
+  port: number,
+  tunnel: JumpTunnelOptions,
+  connections: NodeSSH[]
+): Promise<Awaited<ReturnType<NodeSSH['forwardOut']>>> {
+  const hops = tunnel.jumpHosts || [];
+  let sock: Awaited<ReturnType<NodeSSH['forwardOut']>> | undefined;
+
+  for (let i = 0; i < hops.length; i++) {
+    const hop = hops[i];
+    const next = hops[i + 1] || { hostname: host, port };
+    const ssh = new NodeSSH();
+    connections.push(ssh);
+
+    try {
+      await ssh.connect({
+        host: hop.hostname,
+        port: hop.port,
+        username: hop.user || os.userInfo().username,
+        privateKeyPath: hop.identity_file?.replace(/^~/, os.homedir()),
+        agent: process.env.SSH_AUTH_SOCK,
+        sock,
+        hostVerifier: tunnel.jumpHostVerifier?.(hop),
+      });
+      sock = await ssh.forwardOut('127.0.0.1', 0, next.hostname, next.port);
+    } catch (error) {
+      throw new Error(`Jump host ${formatJumpHost(hop)}: ${(error as Error).message}`);
+    }
+  }
+
+  if (!sock) {
+    throw new Error('No jump hosts to connect through');
+  }
+  return sock;
+}
+
 /**
  * Test SSH connection with specific options
  * @param options Connection options
@@ -183,9 +254,14 @@ function getAllSshKeys(): string[] {
  */
 async function testConnectionWithOptions(
   options: SSHConfig,
-  timeout = 3000 // Reduce timeout to 3 seconds to improve response speed
+  timeout = 3000, // Reduce timeout to 3 seconds to improve response speed
+  tunnel: JumpTunnelOptions = {}
 ): Promise<ConnectionResult> {
   const ssh = new NodeSSH();
+  const hops = tunnel.jumpHosts || [];
+  const jumpConnections: NodeSSH[] = [];
+  let tunnelOpen = hops.length === 0;
+  let timer: NodeJS.Timeout | undefined;
 
   // Create a logger for SSH operations
   const sshLogger = logger.createChild('ssh');
@@ -203,13 +279,32 @@ async function testConnectionWithOptions(
       `Connecting to ${options.username}@${options.host}:${options.port} using ${authMethod} authentication...`
     );
 
-    // Try to connect with a timeout
+    // Try to connect with a timeout (each jump host gets its own share of the timeout)
+    const connect = async () => {
+      if (hops.length > 0) {
+        const sock = await openJumpHostTunnel(
+          options.host as string,
+          options.port as number,
+          tunnel,
+          jumpConnections
+        );
+        tunnelOpen = true;
+        await ssh.connect({ ...options, sock });
+      } else {
+        await ssh.connect(options);
+      }
+    };
     await Promise.race([
-      ssh.connect(options),
-      new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Connection timeout')), timeout)
-      ),
+      connect(),
+      new Promise((_, reject) => {
+        timer = setTimeout(
+          () =>
+            reject(new Error(tunnelOpen ? 'Connection timeout' : 'Jump host connection timeout')),
+          timeout * (hops.length + 1)
+        );
+      }),
     ]);
+    clearTimeout(timer);
 
     // Run a simple command to verify connection
     const result = await ssh.execCommand('echo "Connection successful"');
@@ -220,6 +315,7 @@ async function testConnectionWithOptions(
     } catch (_error) {
       // Ignore errors during disconnect
     }
+    disposeAll(jumpConnections);
 
     // Determine authentication method used
     let method = 'unknown';
@@ -241,12 +337,15 @@ async function testConnectionWithOptions(
       keyPath: options.privateKey,
     };
   } catch (error) {
+    clearTimeout(timer);
+
     // Ensure connection is closed
     try {
       ssh.dispose();
     } catch (_error) {
       // Ignore errors during disconnect
     }
+    disposeAll(jumpConnections);
 
     // Add more detailed error logging
     sshLogger.verbose(`Connection failed: ${(error as Error).message}`);
@@ -254,6 +353,14 @@ async function testConnectionWithOptions(
     // Check error type and provide more detailed information
     const errorMessage = (error as Error).message;
 
+    // The target was never reached, so the error is not about its authentication
+    if (!tunnelOpen) {
+      return {
+        success: false,
+        message: errorMessage,
+      };
+    }
+
     // Check if it's a password error
     if (
       options.password &&
@@ -476,12 +583,35 @@ async function autoConnect(
 
 /**
  * Test SSH connection to a server
+ * The connection goes through the server's jump hosts, if any
  * @param server Server configuration
+ * @param options.hostVerifier Optional host key verifier (accepts every key if omitted)
+ * @param options.jumpHostVerifier Optional host key verifier for each jump host
+ * @param options.timeout Optional timeout in milliseconds for the whole test, including every key tried
  * @returns Connection result
  */
-async function testConnection(server: ServerConfig): Promise<ConnectionResult> {
+async function testConnection(
+  server: ServerConfig,
+  options: {
+    hostVerifier?: SSHConfig['hostVerifier'];
+    jumpHostVerifier?: JumpTunnelOptions['jumpHostVerifier'];
+    timeout?: number;
+  } = {}
+): Promise<ConnectionResult> {
   // Create a logger for SSH operations
   const sshLogger = logger.createChild('ssh');
+  const tunnel: JumpTunnelOptions = {
+    jumpHosts: server.jump_hosts,
+    jumpHostVerifier: options.jumpHostVerifier,
+  };
+
+  // Each attempt gets the time left, shared by the target and its jump hosts
+  const deadline = options.timeout ? Date.now() + options.timeout : undefined;
+  const attemptTimeout = () =>
+    deadline
+      ? Math.max(1, Math.floor((deadline - Date.now()) / ((server.jump_hosts?.length || 0) + 1)))
+      : undefined;
+  const timedOut = () => deadline !== undefined && Date.now() >= deadline;
 
   // If key authentication is specified but no key value is provided, try all available keys
   if (!server.identity_file) {
@@ -493,6 +623,9 @@ async function testConnection(server: ServerConfig): Promise<ConnectionResult> {
 
     // Try each key until one works
     for (const keyPath of allKeys) {
+      if (timedOut()) {
+        return { success: false, message: 'Connection timeout' };
+      }
       sshLogger.verbose(`Trying SSH key: ${keyPath}`);
 
       const connectionOptions: SSHConfig = {
@@ -500,9 +633,15 @@ async function testConnection(server: ServerConfig): Promise<ConnectionResult> {
         port: server.port,
         username: server.user,
         privateKey: keyPath,
+        hostVerifier: options.hostVerifier,
       };
 
-      const result = await testConnectionWithOptions(connectionOptions);
+      const result = await testConnectionWithOptions(connectionOptions, attemptTimeout(), tunnel);
+
+      // Every key fails the same way when a jump host cannot be reached
+      if (!result.success && result.message.startsWith('Jump host')) {
+        return result;
+      }
 
       if (result.success) {
         sshLogger.verbose(`Successfully connected using key: ${keyPath}`);
@@ -515,6 +654,9 @@ async function testConnection(server: ServerConfig): Promise<ConnectionResult> {
 
     // If all keys failed, continue to try password authentication
     sshLogger.verbose('All SSH keys failed, continuing to password authentication...');
+    if (timedOut()) {
+      return { success: false, message: 'Connection timeout' };
+    }
   }
 
   // Standard authentication with specified credentials
@@ -522,12 +664,13 @@ async function testConnection(server: ServerConfig): Promise<ConnectionResult> {
     host: server.hostname,
     port: server.port,
     username: server.user,
+    hostVerifier: options.hostVerifier,
   };
 
   // Set authentication method
   if (server.identity_file) {
     connectionOptions.privateKey = server.identity_file;
-    return testConnectionWithOptions(connectionOptions);
+    return testConnectionWithOptions(connectionOptions, attemptTimeout(), tunnel);
   }
 
   // Try to get password from session manager
@@ -536,7 +679,7 @@ async function testConnection(server: ServerConfig): Promise<ConnectionResult> {
     connectionOptions.password = password;
 
     // For password authentication, try Node.js SSH first, then fallback to system SSH
-    const nodeResult = await testConnectionWithOptions(connectionOptions);
+    const nodeResult = await testConnectionWithOptions(connectionOptions, attemptTimeout(), tunnel);
 
     if (nodeResult.success) {
       return nodeResult;
@@ -567,7 +710,7 @@ async function testConnection(server: ServerConfig): Promise<ConnectionResult> {
 
   // No specific authentication method - let SSH handle default authentication
   connectionOptions.agent = process.env.SSH_AUTH_SOCK;
-  return testConnectionWithOptions(connectionOptions);
+  return testConnectionWithOptions(connectionOptions, attemptTimeout(), tunnel);
 }
 
 /**
@@ -933,53 +1076,59 @@ async function diagnoseConnection(
       detailedMessage: '',
     };
 
-    // Use the new comprehensive network diagnostics
-    const networkDiagnostics = await diagnoseNetworkConnectivity(
-      server.hostname,
-      server.port,
-      5000
-    );
+    // Hosts behind jump hosts cannot be probed directly, only the SSH connection is tested
+    if (server.jump_hosts && server.jump_hosts.length > 0) {
+      result.networkConnectivity.message = 'Not tested (connecting through jump hosts)';
+      result.sshPortConnectivity.message = 'Not tested (connecting through jump hosts)';
+    } else {
+      // Use the new comprehensive network diagnostics
+      const networkDiagnostics = await diagnoseNetworkConnectivity(
+        server.hostname,
+        server.port,
+        5000
+      );
 
-    result.networkConnectivity = {
-      success: networkDiagnostics.dns.success,
-      message: networkDiagnostics.dns.error?.message || 'DNS resolution successful',
-    };
+      result.networkConnectivity = {
+        success: networkDiagnostics.dns.success,
+        message: networkDiagnostics.dns.error?.message || 'DNS resolution successful',
+      };
 
-    result.sshPortConnectivity = {
-      success: networkDiagnostics.port.success,
-      message: networkDiagnostics.port.error?.message || 'Port connectivity successful',
-    };
+      result.sshPortConnectivity = {
+        success: networkDiagnostics.port.success,
+        message: networkDiagnostics.port.error?.message || 'Port connectivity successful',
+      };
 
-    if (!networkDiagnostics.overall.success) {
-      // Map the network diagnostic issue types to our interface types
-      switch (networkDiagnostics.overall.primaryIssue) {
-        case 'dns':
-          result.primaryIssue = 'network';
-          break;
-        case 'port':
-          result.primaryIssue = 'port';
-          break;
-        default:
-          result.primaryIssue = 'network';
-          break;
-      }
+      if (!networkDiagnostics.overall.success) {
+        // Map the network diagnostic issue types to our interface types
+        switch (networkDiagnostics.overall.primaryIssue) {
+          case 'dns':
+            result.primaryIssue = 'network';
+            break;
+          case 'port':
+            result.primaryIssue = 'port';
+            break;
+          default:
+            result.primaryIssue = 'network';
+            break;
+        }
 
-      // Provide detailed error message with suggestions
-      const primaryError =
-        networkDiagnostics.overall.primaryIssue === 'dns'
-          ? networkDiagnostics.dns.error
-          : networkDiagnostics.port.error;
+        // Provide detailed error message with suggestions
+        const primaryError =
+          networkDiagnostics.overall.primaryIssue === 'dns'
+            ? networkDiagnostics.dns.error
+            : networkDiagnostics.port.error;
 
-      if (primaryError) {
-        result.detailedMessage = getErrorMessage(
-          { code: primaryError.code, message: primaryError.message },
-          'Connection'
-        );
-      } else {
-        result.detailedMessage = `Error: ${networkDiagnostics.overall.primaryIssue} connectivity failed`;
-      }
+        if (primaryError) {
+          result.detailedMessage = getErrorMessage(
+            { code: primaryError.code, message: primaryError.message },
+            'Connection'
+          );
+        } else {
+          result.detailedMessage = `Error: ${networkDiagnostics.overall.primaryIssue} connectivity failed`;
+        }
 
-      return result;
+        return result;
+      }
     }
 
     // Step 3: Test SSH authentication
@@ -11,3 +11,17 @@ export function cleanInputString(input: string): string {
   if (!input) return input;
   return input.replace(/\\n$/, '').trim();
 }
+
+/**
+ * ANSI color codes
+ */
+const ANSI_PATTERN = new RegExp(`${String.fromCharCode(27)}\\[[0-9;]*m`, 'g');
+
+/**
+ * Remove ANSI color codes from a string
+ * @param input Input string, for example colored Ansible output
+ * @returns String without color codes
+ */
+export function stripAnsi(input: string): string {
+  return input.replace(ANSI_PATTERN, '');
+}
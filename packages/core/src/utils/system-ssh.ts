@@ -7,6 +7,7 @@ import { exec } from 'node:child_process';
 import * as os from 'node:os';
 import * as path from 'node:path';
 import { promisify } from 'node:util';
+import { formatJumpHost, getJumpHostSshOptions } from '../ssh/jump-host.js';
 import { sessionPasswordManager } from '../ssh/session-password-manager.js';
 import type { ServerConfig } from '../types/index.js';
 import { logger } from './logger.js';
@@ -21,6 +22,14 @@ function expandTilde(filePath: string): string {
 
 const execPromise = promisify(exec);
 
+/**
+ * SSH options that connect through the jump hosts of a server (empty or ending with a space)
+ */
+function jumpHostArgs(server: ServerConfig): string {
+  const options = getJumpHostSshOptions(server.jump_hosts);
+  return options.length > 0 ? `${options.join(' ')} ` : '';
+}
+
 /**
  * Quick check if server supports password authentication
  * @param server Server configuration
@@ -32,7 +41,7 @@ async function quickPasswordAuthCheck(
   _options: { suppressDebugOutput?: boolean } = {}
 ): Promise<{ passwordAuthAvailable: boolean; message: string }> {
   // Use a very short timeout for quick detection
-  const quickTestCommand = `timeout 1 ssh -o BatchMode=no -o ConnectTimeout=1 -o PasswordAuthentication=yes -o PubkeyAuthentication=no -o StrictHostKeyChecking=no -p ${server.port} ${server.user}@${server.hostname} "echo test" 2>&1 || true`;
+  const quickTestCommand = `timeout 1 ssh -o BatchMode=no -o ConnectTimeout=1 -o PasswordAuthentication=yes -o PubkeyAuthentication=no -o StrictHostKeyChecking=no ${jumpHostArgs(server)}-p ${server.port} ${server.user}@${server.hostname} "echo test" 2>&1 || true`;
 
   try {
     const result = await execPromise(quickTestCommand);
@@ -180,8 +189,8 @@ export async function testConnectionWithSystemSSH(
   }
 
   // If no keys worked, try general SSH connection to detect password authentication
-  const sshCommandBatchMode = `ssh ${verboseFlag} -o BatchMode=yes -o ConnectTimeout=2 -o ServerAliveInterval=1 -o ServerAliveCountMax=1 -o StrictHostKeyChecking=no -p ${server.port} ${server.user}@${server.hostname} "echo Connection successful"`;
-  const sshCommandNoBatchMode = `timeout 2 ssh ${verboseFlag} -o ConnectTimeout=2 -o ServerAliveInterval=1 -o ServerAliveCountMax=1 -o StrictHostKeyChecking=no -p ${server.port} ${server.user}@${server.hostname} "echo Connection successful" 2>&1 || true`;
+  const sshCommandBatchMode = `ssh ${verboseFlag} -o BatchMode=yes -o ConnectTimeout=2 -o ServerAliveInterval=1 -o ServerAliveCountMax=1 -o StrictHostKeyChecking=no ${jumpHostArgs(server)}-p ${server.port} ${server.user}@${server.hostname} "echo Connection successful"`;
+  const sshCommandNoBatchMode = `timeout 2 ssh ${verboseFlag} -o ConnectTimeout=2 -o ServerAliveInterval=1 -o ServerAliveCountMax=1 -o StrictHostKeyChecking=no ${jumpHostArgs(server)}-p ${server.port} ${server.user}@${server.hostname} "echo Connection successful" 2>&1 || true`;
 
   try {
     // Try with BatchMode (key authentication only) - this should fail if we reach here
@@ -370,7 +379,7 @@ export async function testConnectionWithKey(
   const verboseFlag = options.suppressDebugOutput ? '' : '-v';
 
   // Construct the SSH command with the specific key (use gtimeout if available, otherwise rely on SSH timeout)
-  const sshCommand = `ssh ${verboseFlag} -o BatchMode=yes -o ConnectTimeout=1 -o ServerAliveInterval=1 -o ServerAliveCountMax=1 -o StrictHostKeyChecking=no -i "${expandedKeyPath}" -p ${server.port} ${server.user}@${server.hostname} "echo Connection successful"`;
+  const sshCommand = `ssh ${verboseFlag} -o BatchMode=yes -o ConnectTimeout=1 -o ServerAliveInterval=1 -o ServerAliveCountMax=1 -o StrictHostKeyChecking=no -i "${expandedKeyPath}" ${jumpHostArgs(server)}-p ${server.port} ${server.user}@${server.hostname} "echo Connection successful"`;
 
   try {
     // Execute the SSH command
@@ -499,7 +508,7 @@ export async function testConnectionWithPassword(
   // First try using expect script to automatically enter password
   const expectScript = `
 expect << EOF
-spawn ssh ${verboseFlag} -o ConnectTimeout=5 -o StrictHostKeyChecking=no -p ${server.port} ${server.user}@${server.hostname} "echo Connection successful"
+spawn ssh ${verboseFlag} -o ConnectTimeout=5 -o StrictHostKeyChecking=no ${jumpHostArgs(server)}-p ${server.port} ${server.user}@${server.hostname} "echo Connection successful"
 expect {
   "password:" { send "${password}\\r"; exp_continue }
   "Connection successful" { exit 0 }
@@ -532,7 +541,7 @@ EOF
     }
 
     // If expect fails, try using sshpass
-    const sshCommand = `sshpass -p "${password}" ssh ${verboseFlag} -o ConnectTimeout=5 -o StrictHostKeyChecking=no -p ${server.port} ${server.user}@${server.hostname} "echo Connection successful"`;
+    const sshCommand = `sshpass -p "${password}" ssh ${verboseFlag} -o ConnectTimeout=5 -o StrictHostKeyChecking=no ${jumpHostArgs(server)}-p ${server.port} ${server.user}@${server.hostname} "echo Connection successful"`;
 
     try {
       // Execute sshpass command
@@ -569,7 +578,7 @@ EOF
         sshLogger.verbose('sshpass is not installed. Trying direct SSH command...');
 
         // Use regular SSH command, but this will require user to manually enter password
-        const directSshCommand = `ssh ${verboseFlag} -o ConnectTimeout=5 -o StrictHostKeyChecking=no -p ${server.port} ${server.user}@${server.hostname} "echo Connection successful"`;
+        const directSshCommand = `ssh ${verboseFlag} -o ConnectTimeout=5 -o StrictHostKeyChecking=no ${jumpHostArgs(server)}-p ${server.port} ${server.user}@${server.hostname} "echo Connection successful"`;
 
         try {
           await execPromise(directSshCommand);
@@ -732,6 +741,13 @@ export async function diagnoseConnectionWithSystemSSH(
     logger.verbose('SSH connection failed, analyzing error...');
   }
 
+  // The host is only reachable through its jump hosts, so it cannot be probed directly
+  if (server.jump_hosts && server.jump_hosts.length > 0) {
+    result.primaryIssue = 'authentication';
+    result.detailedMessage = `Error: ${authResult.message} (connecting through jump host ${server.jump_hosts.map(formatJumpHost).join(',')})`;
+    return result;
+  }
+
   // Check if it's a network connection issue
   if (
     authResult.message.includes('Connection timed out') ||
@@ -0,0 +1,583 @@
+/**
+ * Conditional variables
+ *
+ * A variable definition can be limited to the cases where it is relevant:
+ * - when: an expression evaluated against the answers collected so far, e.g.
+ *   "enable_ssl", "not debug", "env == 'prod'", "env in ['prod', 'staging'] and replicas > 1"
+ * - depends_on: one or more variable names that must have a truthy value
+ *
+ * Variables whose condition is false are not prompted, not resolved and not required.
+ */
+
+import type { VariableDefinition } from '../schemas/variables.js';
+import { getTemplateReferences, isTemplateDefault } from './templates.js';
+
+/**
+ * Parsed condition expression
+ */
+export type ConditionNode =
+  | { type: 'literal'; value: unknown }
+  | { type: 'variable'; name: string }
+  | { type: 'list'; items: ConditionNode[] }
+  | { type: 'not'; operand: ConditionNode }
+  | { type: 'logical'; operator: 'and' | 'or'; left: ConditionNode; right: ConditionNode }
+  | {
+      type: 'compare';
+      operator: '==' | '!=' | '<' | '<=' | '>' | '>=' | 'in' | 'not in';
+      left: ConditionNode;
+      right: ConditionNode;
+    };
+
+/**
+ * Problem found in the conditions of variable definitions
+ */
+export interface VariableConditionIssue {
+  /** Variable whose definition has the problem */
+  variable: string;
+  /** Definition field ("when", "depends_on" or a templated "default") */
+  field: 'when' | 'depends_on' | 'default';
+  /** Problem description */
+  message: string;
+}
+
+type Token =
+  | { type: 'identifier'; value: string }
+  | { type: 'keyword'; value: 'and' | 'or' | 'not' | 'in' | 'true' | 'false' | 'null' }
+  | { type: 'string'; value: string }
+  | { type: 'number'; value: number }
+  | { type: 'operator'; value: string };
+
+const KEYWORDS: Record<string, Extract<Token, { type: 'keyword' }>['value']> = {
+  and: 'and',
+  or: 'or',
+  not: 'not',
+  in: 'in',
+  true: 'true',
+  True: 'true',
+  false: 'false',
+  False: 'false',
+  null: 'null',
+  None: 'null',
+};
+
+/**
+ * Split an expression into tokens
+ */
+function tokenize(expression: string): Token[] {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < expression.length) {
+    const rest = expression.slice(index);
+
+    const space = rest.match(/^\s+/);
+    if (space) {
+      index += space[0].length;
+      continue;
+    }
+
+    const word = rest.match(/^[A-Za-z_][A-Za-z0-9_]*/);
+    if (word) {
+      const keyword = KEYWORDS[word[0]];
+      tokens.push(
+        keyword ? { type: 'keyword', value: keyword } : { type: 'identifier', value: word[0] }
+      );
+      index += word[0].length;
+      continue;
+    }
+
+    const number = rest.match(/^-?\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: 'number', value: Number(number[0]) });
+      index += number[0].length;
+      continue;
+    }
+
+    const string = rest.match(/^'([^']*)'|^"([^"]*)"/);
+    if (string) {
+      tokens.push({ type: 'string', value: string[1] ?? string[2] });
+      index += string[0].length;
+      continue;
+    }
+
+    const operator = rest.match(/^(==|!=|<=|>=|<|>|\(|\)|\[|\]|,)/);
+    if (operator) {
+      tokens.push({ type: 'operator', value: operator[0] });
+      index += operator[0].length;
+      continue;
+    }
+
+    throw new Error(`unexpected character "${rest[0]}"`);
+  }
+
+  return tokens;
+}
+
+/**
+ * Recursive descent parser for condition expressions
+ * Precedence (lowest first): or, and, not, comparisons
+ */
+class ConditionParser {
+  private position = 0;
+
+  constructor(private tokens: Token[]) {}
+
+  parse(): ConditionNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token) {
+      throw new Error(`unexpected "${token.value}"`);
+    }
+    return node;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private accept(type: Token['type'], value?: string): Token | undefined {
+    const token = this.peek();
+    if (token && token.type === type && (value === undefined || token.value === value)) {
+      this.position++;
+      return token;
+    }
+    return undefined;
+  }
+
+  private expect(type: Token['type'], value: string): void {
+    if (!this.accept(type, value)) {
+      const token = this.peek();
+      throw new Error(
+        token ? `expected "${value}" but found "${token.value}"` : `expected "${value}"`
+      );
+    }
+  }
+
+  private parseOr(): ConditionNode {
+    let left = this.parseAnd();
+    while (this.accept('keyword', 'or')) {
+      left = { type: 'logical', operator: 'or', left, right: this.parseAnd() };
+    }
+    return left;
+  }
+
+  private parseAnd(): ConditionNode {
+    let left = this.parseNot();
+    while (this.accept('keyword', 'and')) {
+      left = { type: 'logical', operator: 'and', left, right: this.parseNot() };
+    }
+    return left;
+  }
+
+  private parseNot(): ConditionNode {
+    if (this.accept('keyword', 'not')) {
+      return { type: 'not', operand: this.parseNot() };
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): ConditionNode {
+    const left = this.parsePrimary();
+
+    const operator = this.peek();
+    if (
+      operator?.type === 'operator' &&
+      ['==', '!=', '<', '<=', '>', '>='].includes(operator.value)
+    ) {
+      this.position++;
+      return {
+        type: 'compare',
+        operator: operator.value as '==' | '!=' | '<' | '<=' | '>' | '>=',
+        left,
+        right: this.parsePrimary(),
+      };
+    }
+    if (this.accept('keyword', 'in')) {
+      return { type: 'compare', operator: 'in', left, right: this.parsePrimary() };
+    }
+    if (
+      operator?.type === 'keyword' &&
+      operator.value === 'not' &&
+      this.tokens[this.position + 1]?.type === 'keyword' &&
+      this.tokens[this.position + 1]?.value === 'in'
+    ) {
+      this.position += 2;
+      return { type: 'compare', operator: 'not in', left, right: this.parsePrimary() };
+    }
+
+    return left;
+  }
+
+  private parsePrimary(): ConditionNode {
+    const token = this.peek();
+    if (!token) {
+      throw new Error('unexpected end of expression');
+    }
+    this.position++;
+
+    switch (token.type) {
+      case 'identifier':
+        return { type: 'variable', name: token.value };
+      case 'string':
+      case 'number':
+        return { type: 'literal', value: token.value };
+      case 'keyword':
+        if (token.value === 'true' || token.value === 'false') {
+          return { type: 'literal', value: token.value === 'true' };
+        }
+        if (token.value === 'null') {
+          return { type: 'literal', value: null };
+        }
+        break;
+      case 'operator':
+        if (token.value === '(') {
+          const node = this.parseOr();
+          this.expect('operator', ')');
+          return node;
+        }
+        if (token.value === '[') {
+          const items: ConditionNode[] = [];
+          if (!this.accept('operator', ']')) {
+            do {
+              items.push(this.parsePrimary());
+            } while (this.accept('operator', ','));
+            this.expect('operator', ']');
+          }
+          return { type: 'list', items };
+        }
+        break;
+    }
+
+    throw new Error(`unexpected "${token.value}"`);
+  }
+}
+
+/**
+ * Parse a condition expression
+ * @param expression Condition expression
+ * @returns Parsed condition
+ * @throws Error if the expression is invalid
+ */
+export function parseCondition(expression: string): ConditionNode {
+  try {
+    return new ConditionParser(tokenize(expression)).parse();
+  } catch (error) {
+    throw new Error(
+      `Invalid condition "${expression}": ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+}
+
+/**
+ * Get the variable names referenced by a condition
+ * @param node Parsed condition
+ */
+export function getConditionReferences(node: ConditionNode): string[] {
+  switch (node.type) {
+    case 'variable':
+      return [node.name];
+    case 'list':
+      return node.items.flatMap(getConditionReferences);
+    case 'not':
+      return getConditionReferences(node.operand);
+    case 'logical':
+    case 'compare':
+      return [...getConditionReferences(node.left), ...getConditionReferences(node.right)];
+    default:
+      return [];
+  }
+}
+
+/**
+ * Check whether a value counts as true (empty strings, lists and objects, 0, null and undefined do not)
+ * @param value Value
+ */
+export function isTruthy(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length > 0;
+  }
+  if (value && typeof value === 'object') {
+    return Object.keys(value).length > 0;
+  }
+  return Boolean(value);
+}
+
+/**
+ * Evaluate a parsed condition
+ * @param node Parsed condition
+ * @param values Variable values
+ */
+export function evaluateCondition(node: ConditionNode, values: Record<string, any>): unknown {
+  switch (node.type) {
+    case 'literal':
+      return node.value;
+    case 'variable':
+      return values[node.name];
+    case 'list':
+      return node.items.map(item => evaluateCondition(item, values));
+    case 'not':
+      return !isTruthy(evaluateCondition(node.operand, values));
+    case 'logical': {
+      const left = isTruthy(evaluateCondition(node.left, values));
+      if (node.operator === 'and') {
+        return left && isTruthy(evaluateCondition(node.right, values));
+      }
+      return left || isTruthy(evaluateCondition(node.right, values));
+    }
+    case 'compare': {
+      const left = evaluateCondition(node.left, values) as any;
+      const right = evaluateCondition(node.right, values) as any;
+      switch (node.operator) {
+        case '==':
+          return isEqual(left, right);
+        case '!=':
+          return !isEqual(left, right);
+        case '<':
+          return left < right;
+        case '<=':
+          return left <= right;
+        case '>':
+          return left > right;
+        case '>=':
+          return left >= right;
+        case 'in':
+          return contains(right, left);
+        case 'not in':
+          return !contains(right, left);
+      }
+    }
+  }
+}
+
+/**
+ * Compare values, treating lists as equal when their items are equal
+ */
+function isEqual(left: unknown, right: unknown): boolean {
+  if (Array.isArray(left) && Array.isArray(right)) {
+    return left.length === right.length && left.every((item, index) => isEqual(item, right[index]));
+  }
+  return left === right;
+}
+
+/**
+ * Check whether a list contains a value, or a string contains a substring
+ */
+function contains(container: unknown, value: unknown): boolean {
+  if (Array.isArray(container)) {
+    return container.some(item => isEqual(item, value));
+  }
+  if (typeof container === 'string' && typeof value === 'string') {
+    return container.includes(value);
+  }
+  return false;
+}
+
+/**
+ * Normalize the depends_on field of a definition to a list of variable names
+ */
+function getDependsOn(definition: VariableDefinition): string[] {
+  if (!definition.depends_on) {
+    return [];
+  }
+  return Array.isArray(definition.depends_on) ? definition.depends_on : [definition.depends_on];
+}
+
+/**
+ * Get the variables a definition depends on, through depends_on, when and a templated default
+ * @param definition Variable definition
+ * @throws Error if the when expression or the default template is invalid
+ */
+export function getVariableDependencies(definition: VariableDefinition): string[] {
+  const references = definition.when ? getConditionReferences(parseCondition(definition.when)) : [];
+  const templateReferences = isTemplateDefault(definition)
+    ? getTemplateReferences(definition.default)
+    : [];
+  return [...new Set([...getDependsOn(definition), ...references, ...templateReferences])];
+}
+
+/**
+ * Check whether a variable is relevant for the given answers
+ * @param definition Variable definition
+ * @param values Answers collected so far (only active variables should be included)
+ */
+export function isVariableActive(
+  definition: VariableDefinition,
+  values: Record<string, any>
+): boolean {
+  if (!getDependsOn(definition).every(name => isTruthy(values[name]))) {
+    return false;
+  }
+  return definition.when
+    ? isTruthy(evaluateCondition(parseCondition(definition.when), values))
+    : true;
+}
+
+/**
+ * Order variables so that every variable comes after the variables its condition and default reference
+ * Definition order is kept otherwise
+ * @param definitions Variable definitions (without cycles, see validateVariableConditions)
+ * @returns Variable names
+ */
+export function orderVariableDefinitions(
+  definitions: Record<string, VariableDefinition>
+): string[] {
+  const ordered: string[] = [];
+  const visited = new Set<string>();
+
+  const visit = (name: string) => {
+    if (visited.has(name) || !definitions[name]) {
+      return;
+    }
+    visited.add(name);
+    for (const dependency of getVariableDependencies(definitions[name])) {
+      visit(dependency);
+    }
+    ordered.push(name);
+  };
+
+  for (const name of Object.keys(definitions)) {
+    visit(name);
+  }
+
+  return ordered;
+}
+
+/**
+ * Remove the values of variables whose conditions are false
+ * Conditions are evaluated in dependency order, so hidden variables also hide their dependents
+ * @param definitions Variable definitions
+ * @param values Variable values (values of undefined variables are kept)
+ * @returns Values of active and undefined variables
+ */
+export function filterActiveVariables(
+  definitions: Record<string, VariableDefinition>,
+  values: Record<string, any>
+): Record<string, any> {
+  const result: Record<string, any> = { ...values };
+
+  for (const name of orderVariableDefinitions(definitions)) {
+    if (!isVariableActive(definitions[name], result)) {
+      delete result[name];
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Check the conditions and templated defaults of variable definitions
+ * Reports invalid expressions, references to undefined variables and dependency cycles
+ * @param definitions Variable definitions
+ * @returns Problems found
+ */
+export function validateVariableConditions(
+  definitions: Record<string, VariableDefinition>
+): VariableConditionIssue[] {
+  const issues: VariableConditionIssue[] = [];
+  const dependencies = new Map<string, string[]>();
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    const references: string[] = [];
+
+    for (const dependency of getDependsOn(definition)) {
+      if (!definitions[dependency]) {
+        issues.push({
+          variable: name,
+          field: 'depends_on',
+          message: `References undefined variable "${dependency}"`,
+        });
+      }
+      references.push(dependency);
+    }
+
+    if (definition.when) {
+      try {
+        for (const reference of getConditionReferences(parseCondition(definition.when))) {
+          if (!definitions[reference]) {
+            issues.push({
+              variable: name,
+              field: 'when',
+              message: `References undefined variable "${reference}"`,
+            });
+          }
+          references.push(reference);
+        }
+      } catch (error) {
+        issues.push({
+          variable: name,
+          field: 'when',
+          message: error instanceof Error ? error.message : String(error),
+        });
+      }
+    }
+
+    if (isTemplateDefault(definition)) {
+      // Jinja meant for Ansible is a common cause, point to the way to keep it
+      const hint = ' (set "template: false" to pass the default to Ansible unchanged)';
+      try {
+        for (const reference of getTemplateReferences(definition.default)) {
+          if (!definitions[reference]) {
+            issues.push({
+              variable: name,
+              field: 'default',
+              message: `References undefined variable "${reference}"${hint}`,
+            });
+          }
+          references.push(reference);
+        }
+      } catch (error) {
+        issues.push({
+          variable: name,
+          field: 'default',
+          message: `${error instanceof Error ? error.message : String(error)}${hint}`,
+        });
+      }
+    }
+
+    dependencies.set(
+      name,
+      references.filter(reference => definitions[reference])
+    );
+  }
+
+  // Depth-first search for dependency cycles
+  const state = new Map<string, 'visiting' | 'done'>();
+  const reported = new Set<string>();
+
+  const visit = (name: string, path: string[]) => {
+    if (state.get(name) === 'done') {
+      return;
+    }
+    if (state.get(name) === 'visiting') {
+      const cycle = [...path.slice(path.indexOf(name)), name];
+      if (!reported.has(name)) {
+        for (const member of cycle.slice(0, -1)) {
+          reported.add(member);
+        }
+        const field = definitions[name].when
+          ? 'when'
+          : definitions[name].depends_on
+            ? 'depends_on'
+            : 'default';
+        issues.push({
+          variable: name,
+          field,
+          message: `Circular ${field === 'default' ? 'default' : 'condition'}: ${cycle.join(' -> ')}`,
+        });
+      }
+      return;
+    }
+
+    state.set(name, 'visiting');
+    for (const dependency of dependencies.get(name) || []) {
+      visit(dependency, [...path, name]);
+    }
+    state.set(name, 'done');
+  };
+
+  for (const name of Object.keys(definitions)) {
+    visit(name, []);
+  }
+
+  return issues;
+}
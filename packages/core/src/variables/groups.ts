@@ -0,0 +1,127 @@
+/**
+ * Variable groups
+ *
+ * Variables with a `group` are prompted in titled sections. The order of the sections
+ * is declared with `var_groups` in aship.yml; ungrouped variables come first and groups
+ * that are not listed follow the listed ones in the order they are first used.
+ */
+
+import type { VariableDefinition, VariableGroup } from '../schemas/variables.js';
+import { getVariableDependencies, orderVariableDefinitions } from './conditions.js';
+
+/**
+ * Section of variables prompted together
+ */
+export interface VariableSection {
+  /** Group name, undefined for ungrouped variables */
+  name?: string;
+  /** Group description from var_groups */
+  description?: string;
+  /** Variable names in prompt order */
+  variables: string[];
+}
+
+/**
+ * Problem found in the variable groups of a project
+ */
+export interface VariableGroupIssue {
+  /** Path of the problem in aship.yml */
+  path: Array<string | number>;
+  /** Problem description */
+  message: string;
+}
+
+/**
+ * Normalize a var_groups entry
+ */
+function normalizeGroup(group: VariableGroup): { name: string; description?: string } {
+  return typeof group === 'string' ? { name: group } : group;
+}
+
+/**
+ * Split variables into sections in prompt order
+ * @param definitions Variable definitions
+ * @param groups Group order from var_groups
+ * @returns Non-empty sections
+ */
+export function groupVariableDefinitions(
+  definitions: Record<string, VariableDefinition>,
+  groups: VariableGroup[] = []
+): VariableSection[] {
+  const sections = new Map<string | undefined, VariableSection>();
+  sections.set(undefined, { variables: [] });
+
+  for (const group of groups) {
+    const { name, description } = normalizeGroup(group);
+    if (!sections.has(name)) {
+      sections.set(name, { name, description, variables: [] });
+    }
+  }
+
+  for (const name of orderVariableDefinitions(definitions)) {
+    const group = definitions[name].group;
+    let section = sections.get(group);
+    if (!section) {
+      section = { name: group, variables: [] };
+      sections.set(group, section);
+    }
+    section.variables.push(name);
+  }
+
+  return [...sections.values()].filter(section => section.variables.length > 0);
+}
+
+/**
+ * Check var_groups and the group order of variable dependencies
+ * A variable's condition or default may not reference a variable from a later section
+ * @param definitions Variable definitions
+ * @param groups Group order from var_groups
+ * @returns Problems found
+ */
+export function validateVariableGroups(
+  definitions: Record<string, VariableDefinition>,
+  groups: VariableGroup[] = []
+): VariableGroupIssue[] {
+  const issues: VariableGroupIssue[] = [];
+
+  const seen = new Set<string>();
+  groups.forEach((group, index) => {
+    const { name } = normalizeGroup(group);
+    if (seen.has(name)) {
+      issues.push({ path: ['var_groups', index], message: `Duplicate group "${name}"` });
+    }
+    seen.add(name);
+  });
+
+  const sectionIndex = new Map<string, number>();
+  let sections: VariableSection[];
+  try {
+    sections = groupVariableDefinitions(definitions, groups);
+  } catch {
+    // Invalid conditions are reported by validateVariableConditions
+    return issues;
+  }
+  sections.forEach((section, index) => {
+    for (const name of section.variables) {
+      sectionIndex.set(name, index);
+    }
+  });
+
+  for (const [name, definition] of Object.entries(definitions)) {
+    for (const dependency of getVariableDependencies(definition)) {
+      const dependencyIndex = sectionIndex.get(dependency);
+      if (dependencyIndex === undefined || dependencyIndex <= (sectionIndex.get(name) ?? 0)) {
+        continue;
+      }
+      const dependencyGroup = sections[dependencyIndex].name;
+      issues.push({
+        path: ['vars', name, 'group'],
+        message: `References "${dependency}" from group "${dependencyGroup}", which is prompted after ${
+          definition.group ? `group "${definition.group}"` : 'ungrouped variables'
+        }`,
+      });
+    }
+  }
+
+  return issues;
+}
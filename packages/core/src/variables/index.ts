@@ -2,5 +2,48 @@
  * Variables module
  */
 
-// Note: Variable collection is now handled in the CLI package
-// This module is kept for future variable-related utilities
+// Note: Interactive variable collection is handled in the CLI package
+export { VariableStore, filterPersistableAnswers } from './variable-store.js';
+export {
+  evaluateCondition,
+  filterActiveVariables,
+  getConditionReferences,
+  getVariableDependencies,
+  isTruthy,
+  isVariableActive,
+  orderVariableDefinitions,
+  parseCondition,
+  validateVariableConditions,
+  type ConditionNode,
+  type VariableConditionIssue,
+} from './conditions.js';
+export {
+  resolveDefaultValue,
+  resolveVariableDefaults,
+  validateVariableValues,
+} from './variable-values.js';
+export {
+  getTemplateReferences,
+  isTemplate,
+  isTemplateDefault,
+  parseTemplate,
+  renderTemplate,
+  type TemplateFilter,
+  type TemplatePart,
+} from './templates.js';
+export type {
+  PlaybookAnswers,
+  ProjectAnswers,
+  VariableAnswers,
+} from '../schemas/variable-answers.js';
+export {
+  groupVariableDefinitions,
+  validateVariableGroups,
+  type VariableGroupIssue,
+  type VariableSection,
+} from './groups.js';
+export {
+  loadVariablesFile,
+  loadVariablesFiles,
+  type LoadedVariableFiles,
+} from './variable-files.js';
@@ -0,0 +1,224 @@
+/**
+ * Templated variable defaults
+ *
+ * String defaults may contain:
+ * - "{{ name }}": the value of another variable, optionally piped through filters:
+ *   "{{ app_name | lower }}", "{{ app_name | replace('-', '_') | upper }}"
+ * - "${NAME}" or "${NAME:-fallback}": an environment variable
+ *
+ * A default that consists of a single "{{ ... }}" expression keeps the type of the value
+ * (e.g. a list or a number), other templates render to strings.
+ */
+
+/**
+ * Filter applied to a template expression
+ */
+export interface TemplateFilter {
+  name: string;
+  args: Array<string | number>;
+}
+
+/**
+ * Parsed piece of a template
+ */
+export type TemplatePart =
+  | { type: 'text'; value: string }
+  | { type: 'variable'; name: string; filters: TemplateFilter[] }
+  | { type: 'env'; name: string; fallback?: string };
+
+/**
+ * Filters available in templates
+ */
+const FILTERS: Record<string, { args: number; apply: (value: string, args: any[]) => string }> = {
+  lower: { args: 0, apply: value => value.toLowerCase() },
+  upper: { args: 0, apply: value => value.toUpperCase() },
+  replace: {
+    args: 2,
+    apply: (value, [search, replacement]) => value.split(String(search)).join(String(replacement)),
+  },
+};
+
+const TEMPLATE_PATTERN = /\{\{(.*?)\}\}|\$\{([A-Za-z_][A-Za-z0-9_]*)(?::-([^}]*))?\}/;
+
+/**
+ * Check whether a value is a string containing template expressions
+ * @param value Value
+ */
+export function isTemplate(value: unknown): value is string {
+  return typeof value === 'string' && TEMPLATE_PATTERN.test(value);
+}
+
+/**
+ * Check whether the default of a variable is rendered as a template
+ * Defaults of variables with "template: false" are kept as they are, e.g. for Ansible
+ * @param definition Variable definition
+ */
+export function isTemplateDefault(definition: { default?: unknown; template?: boolean }): boolean {
+  return definition.template !== false && isTemplate(definition.default);
+}
+
+/**
+ * Parse a template
+ * @param template Template string
+ * @returns Template parts
+ * @throws Error if an expression is invalid
+ */
+export function parseTemplate(template: string): TemplatePart[] {
+  const parts: TemplatePart[] = [];
+  let lastIndex = 0;
+
+  for (const match of template.matchAll(new RegExp(TEMPLATE_PATTERN, 'g'))) {
+    const index = match.index ?? 0;
+    if (index > lastIndex) {
+      parts.push({ type: 'text', value: template.slice(lastIndex, index) });
+    }
+    lastIndex = index + match[0].length;
+
+    if (match[2] !== undefined) {
+      parts.push({ type: 'env', name: match[2], fallback: match[3] });
+      continue;
+    }
+
+    try {
+      parts.push(parseExpression(match[1]));
+    } catch (error) {
+      throw new Error(
+        `Invalid template "${match[0]}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  if (lastIndex < template.length) {
+    parts.push({ type: 'text', value: template.slice(lastIndex) });
+  }
+
+  return parts;
+}
+
+/**
+ * Parse a "{{ ... }}" expression: a variable name followed by filters
+ */
+function parseExpression(expression: string): TemplatePart {
+  const [head, ...filterSources] = splitOutsideQuotes(expression, '|').map(part => part.trim());
+
+  if (!/^[A-Za-z_][A-Za-z0-9_]*$/.test(head)) {
+    throw new Error(head ? `"${head}" is not a variable name` : 'variable name is missing');
+  }
+
+  const filters = filterSources.map(source => {
+    const match = source.match(/^([A-Za-z_]+)\s*(?:\((.*)\))?$/);
+    if (!match) {
+      throw new Error(`invalid filter "${source}"`);
+    }
+
+    const [, name, argSource] = match;
+    const filter = FILTERS[name];
+    if (!filter) {
+      throw new Error(`unknown filter "${name}" (available: ${Object.keys(FILTERS).join(', ')})`);
+    }
+
+    const args = argSource?.trim() ? splitOutsideQuotes(argSource, ',').map(parseArgument) : [];
+    if (args.length !== filter.args) {
+      throw new Error(`filter "${name}" expects ${filter.args} argument(s)`);
+    }
+
+    return { name, args };
+  });
+
+  return { type: 'variable', name: head, filters };
+}
+
+/**
+ * Parse a quoted string or number filter argument
+ */
+function parseArgument(source: string): string | number {
+  const value = source.trim();
+  const quoted = value.match(/^'([^']*)'$|^"([^"]*)"$/);
+  if (quoted) {
+    return quoted[1] ?? quoted[2];
+  }
+  if (/^-?\d+(\.\d+)?$/.test(value)) {
+    return Number(value);
+  }
+  throw new Error(`invalid argument ${value || '(empty)'}, expected a quoted string or a number`);
+}
+
+/**
+ * Split a string on a separator that is not inside quotes
+ */
+function splitOutsideQuotes(value: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let current = '';
+
+  for (const char of value) {
+    if (quote) {
+      if (char === quote) quote = null;
+    } else if (char === "'" || char === '"') {
+      quote = char;
+    } else if (char === separator) {
+      parts.push(current);
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+
+  parts.push(current);
+  return parts;
+}
+
+/**
+ * Get the variables referenced by a template
+ * @param template Template string
+ * @throws Error if an expression is invalid
+ */
+export function getTemplateReferences(template: string): string[] {
+  return parseTemplate(template).flatMap(part => (part.type === 'variable' ? [part.name] : []));
+}
+
+/**
+ * Render a template
+ * @param template Template string
+ * @param values Variable values collected so far
+ * @param env Environment variables
+ * @returns Rendered value (unset variables render as empty strings)
+ */
+export function renderTemplate(
+  template: string,
+  values: Record<string, any>,
+  env: Record<string, string | undefined> = process.env
+): unknown {
+  const parts = parseTemplate(template);
+
+  // A single expression without filters keeps the type of the referenced value
+  if (parts.length === 1 && parts[0].type === 'variable' && parts[0].filters.length === 0) {
+    return values[parts[0].name];
+  }
+
+  return parts
+    .map(part => {
+      switch (part.type) {
+        case 'text':
+          return part.value;
+        case 'env':
+          return env[part.name] || part.fallback || '';
+        case 'variable':
+          return part.filters.reduce(
+            (value, filter) => FILTERS[filter.name].apply(value, filter.args),
+            stringify(values[part.name])
+          );
+      }
+    })
+    .join('');
+}
+
+/**
+ * Convert a value to a string for interpolation
+ */
+function stringify(value: unknown): string {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'string' ? value : JSON.stringify(value);
+}
@@ -0,0 +1,64 @@
+/**
+ * Variable values from files (aship run --vars-file)
+ *
+ * Files are YAML or JSON mappings of variable names to values. When several files are
+ * given, values from later files take precedence.
+ */
+
+import * as path from 'node:path';
+import { loadYamlFile } from '../utils/yaml.js';
+
+/**
+ * Variable values loaded from files
+ */
+export interface LoadedVariableFiles {
+  /** Merged values */
+  values: Record<string, any>;
+  /** File each value was taken from */
+  sources: Record<string, string>;
+}
+
+/**
+ * Load variable values from a YAML or JSON file
+ * @param filePath File path
+ * @returns Variable values
+ * @throws Error if the file does not exist or is not a mapping
+ */
+export function loadVariablesFile(filePath: string): Record<string, any> {
+  const content = loadYamlFile<unknown>(filePath);
+
+  // An empty file has no values
+  if (content === undefined || content === null) {
+    return {};
+  }
+
+  if (typeof content !== 'object' || Array.isArray(content)) {
+    throw new Error(`Invalid variables file ${filePath}: expected a mapping of variable names`);
+  }
+
+  return content as Record<string, any>;
+}
+
+/**
+ * Load and merge variable values from several files
+ * @param filePaths File paths, later files take precedence
+ * @param baseDir Directory relative paths are resolved against
+ * @returns Merged values and the file each value was taken from
+ */
+export function loadVariablesFiles(
+  filePaths: string[],
+  baseDir: string = process.cwd()
+): LoadedVariableFiles {
+  const values: Record<string, any> = {};
+  const sources: Record<string, string> = {};
+
+  for (const filePath of filePaths) {
+    const fileValues = loadVariablesFile(path.resolve(baseDir, filePath));
+    for (const [name, value] of Object.entries(fileValues)) {
+      values[name] = value;
+      sources[name] = filePath;
+    }
+  }
+
+  return { values, sources };
+}
@@ -0,0 +1,307 @@
+/**
+ * Variable answer store for reusing collected variable values between runs
+ */
+
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import type { DirectoryManager } from '../config/directory-manager.js';
+import {
+  type PlaybookAnswers,
+  type ProjectAnswers,
+  type VariableAnswers,
+  createDefaultVariableAnswers,
+  validateVariableAnswers,
+} from '../schemas/variable-answers.js';
+import type { VariableDefinition } from '../schemas/variables.js';
+import { logger } from '../utils/logger.js';
+
+/**
+ * Keep only the values that may be persisted: defined variables that are not passwords
+ * @param values Collected variable values
+ * @param definitions Variable definitions from aship.yml
+ * @returns Values safe to persist
+ */
+export function filterPersistableAnswers(
+  values: Record<string, any>,
+  definitions: Record<string, VariableDefinition>
+): Record<string, any> {
+  const result: Record<string, any> = {};
+
+  for (const [name, value] of Object.entries(values)) {
+    const definition = definitions[name];
+    if (!definition || definition.type === 'password' || value === undefined) {
+      continue;
+    }
+    result[name] = value;
+  }
+
+  return result;
+}
+
+/**
+ * Count the playbook entries of a project, including those of its environments
+ */
+function countPlaybookAnswers(project: ProjectAnswers): number {
+  return Object.values(project.environments || {}).reduce(
+    (count, playbooks) => count + Object.keys(playbooks).length,
+    Object.keys(project.playbooks).length
+  );
+}
+
+/**
+ * Variable store class - persists variable answers per project and per playbook
+ */
+export class VariableStore {
+  private answers: VariableAnswers | null = null;
+  /** Whether the answers file could not be read, it is backed up before it is replaced */
+  private invalidFile = false;
+
+  constructor(private directoryManager: DirectoryManager) {}
+
+  /**
+   * Load answers from variable-answers.json
+   * An unreadable file is reported and ignored, never overwritten on read
+   * and backed up before the next save replaces it
+   */
+  private async loadAnswers(): Promise<VariableAnswers> {
+    if (!this.answers) {
+      const filePath = this.directoryManager.variableAnswersFile;
+
+      try {
+        if (await this.directoryManager.fileExists(filePath)) {
+          const content = await fs.readFile(filePath, 'utf-8');
+          const validation = validateVariableAnswers(content.trim() ? JSON.parse(content) : {});
+
+          if (validation.success && validation.data) {
+            this.answers = validation.data;
+          } else {
+            logger.warn(`Ignoring invalid variable answers file: ${validation.errors?.join(', ')}`);
+            this.answers = createDefaultVariableAnswers();
+            this.invalidFile = true;
+          }
+        } else {
+          this.answers = createDefaultVariableAnswers();
+        }
+      } catch (error) {
+        logger.warn(`Failed to load variable answers: ${(error as Error).message}`);
+        this.answers = createDefaultVariableAnswers();
+        this.invalidFile = true;
+      }
+    }
+
+    return this.answers;
+  }
+
+  /**
+   * Save answers to variable-answers.json (readable by the current user only)
+   * A file that could not be read is backed up first so that its answers are not lost
+   */
+  private async saveAnswers(answers: VariableAnswers): Promise<void> {
+    await fs.mkdir(this.directoryManager.stateDir, { recursive: true });
+
+    if (this.invalidFile) {
+      const filePath = this.directoryManager.variableAnswersFile;
+      const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+      const backupPath = `${filePath}.${timestamp}.bak`;
+      await fs.copyFile(filePath, backupPath);
+      await fs.chmod(backupPath, 0o600);
+      logger.warn(
+        `The invalid variable answers file was replaced, a backup was saved to ${backupPath}`
+      );
+      this.invalidFile = false;
+    }
+    const jsonContent = JSON.stringify(answers, null, 2);
+    await fs.writeFile(this.directoryManager.variableAnswersFile, jsonContent, {
+      encoding: 'utf-8',
+      mode: 0o600,
+    });
+    this.answers = answers;
+  }
+
+  /**
+   * Normalize a project directory to the key used in the store
+   */
+  private projectKey(projectDir: string): string {
+    return path.resolve(projectDir);
+  }
+
+  /**
+   * Normalize a playbook path to the key used in the store (relative to the project)
+   * @param projectDir Project directory
+   * @param playbook Playbook path, absolute or relative to the project directory
+   * @returns Playbook key as stored in the answers file
+   */
+  playbookKey(projectDir: string, playbook: string): string {
+    const projectRoot = this.projectKey(projectDir);
+    return path.relative(projectRoot, path.resolve(projectRoot, playbook));
+  }
+
+  /**
+   * Get the playbook answers of a project, either without or for a named environment
+   */
+  private playbookAnswers(
+    project: ProjectAnswers | undefined,
+    environment?: string
+  ): Record<string, PlaybookAnswers> {
+    return (environment ? project?.environments?.[environment] : project?.playbooks) || {};
+  }
+
+  /**
+   * Get stored answers for a playbook
+   * @param projectDir Project directory
+   * @param playbook Playbook path
+   * @param definitions Optional variable definitions used to drop stale or secret values
+   * @param environment Optional environment name, answers are kept apart per environment
+   * @returns Stored variable values (empty if none)
+   */
+  async getAnswers(
+    projectDir: string,
+    playbook: string,
+    definitions?: Record<string, VariableDefinition>,
+    environment?: string
+  ): Promise<Record<string, any>> {
+    const answers = await this.loadAnswers();
+    const project = answers.projects[this.projectKey(projectDir)];
+    const values =
+      this.playbookAnswers(project, environment)[this.playbookKey(projectDir, playbook)]?.values ||
+      {};
+
+    return definitions ? filterPersistableAnswers(values, definitions) : { ...values };
+  }
+
+  /**
+   * Store answers for a playbook, replacing any previous answers
+   * Password-type and undefined variables are never written
+   * @param projectDir Project directory
+   * @param playbook Playbook path
+   * @param values Collected variable values
+   * @param definitions Variable definitions from aship.yml
+   * @param projectName Optional project name for display purposes
+   * @param environment Optional environment name, answers are kept apart per environment
+   */
+  async setAnswers(
+    projectDir: string,
+    playbook: string,
+    values: Record<string, any>,
+    definitions: Record<string, VariableDefinition>,
+    projectName?: string,
+    environment?: string
+  ): Promise<void> {
+    const answers = await this.loadAnswers();
+    const projectKey = this.projectKey(projectDir);
+    const project: ProjectAnswers = answers.projects[projectKey] || { playbooks: {} };
+    const playbooks = {
+      ...this.playbookAnswers(project, environment),
+      [this.playbookKey(projectDir, playbook)]: {
+        values: filterPersistableAnswers(values, definitions),
+        updated_at: new Date().toISOString(),
+      },
+    };
+
+    const updatedAnswers: VariableAnswers = {
+      projects: {
+        ...answers.projects,
+        [projectKey]: environment
+          ? {
+              ...project,
+              name: projectName || project.name,
+              environments: { ...project.environments, [environment]: playbooks },
+            }
+          : { ...project, name: projectName || project.name, playbooks },
+      },
+    };
+
+    await this.saveAnswers(updatedAnswers);
+  }
+
+  /**
+   * Get all stored answers for a project
+   * @param projectDir Project directory
+   * @returns Project answers or null if nothing is stored
+   */
+  async getProjectAnswers(projectDir: string): Promise<ProjectAnswers | null> {
+    const answers = await this.loadAnswers();
+    return answers.projects[this.projectKey(projectDir)] || null;
+  }
+
+  /**
+   * Get all stored answers across projects
+   */
+  async getAllAnswers(): Promise<VariableAnswers> {
+    return await this.loadAnswers();
+  }
+
+  /**
+   * Clear stored answers for a project, or a single playbook in it
+   * Answers of the playbook are cleared for every environment
+   * @param projectDir Project directory
+   * @param playbook Optional playbook path
+   * @returns Number of playbook entries removed
+   */
+  async clearAnswers(projectDir: string, playbook?: string): Promise<number> {
+    const answers = await this.loadAnswers();
+    const projectKey = this.projectKey(projectDir);
+    const project = answers.projects[projectKey];
+
+    if (!project) {
+      return 0;
+    }
+
+    const updatedProjects = { ...answers.projects };
+    let removed: number;
+
+    if (playbook) {
+      const key = this.playbookKey(projectDir, playbook);
+      const without = (playbooks: Record<string, PlaybookAnswers>) => {
+        const rest = { ...playbooks };
+        delete rest[key];
+        return rest;
+      };
+      const updatedProject: ProjectAnswers = {
+        ...project,
+        playbooks: without(project.playbooks),
+      };
+      if (project.environments) {
+        updatedProject.environments = {};
+        for (const [environment, playbooks] of Object.entries(project.environments)) {
+          const rest = without(playbooks);
+          if (Object.keys(rest).length > 0) {
+            updatedProject.environments[environment] = rest;
+          }
+        }
+      }
+
+      removed = countPlaybookAnswers(project) - countPlaybookAnswers(updatedProject);
+      if (removed === 0) {
+        return 0;
+      }
+
+      if (countPlaybookAnswers(updatedProject) > 0) {
+        updatedProjects[projectKey] = updatedProject;
+      } else {
+        delete updatedProjects[projectKey];
+      }
+    } else {
+      removed = countPlaybookAnswers(project);
+      delete updatedProjects[projectKey];
+    }
+
+    await this.saveAnswers({ projects: updatedProjects });
+    return removed;
+  }
+
+  /**
+   * Clear stored answers for all projects
+   * @returns Number of playbook entries removed
+   */
+  async clearAllAnswers(): Promise<number> {
+    const answers = await this.loadAnswers();
+    const removed = Object.values(answers.projects).reduce(
+      (count, project) => count + countPlaybookAnswers(project),
+      0
+    );
+
+    await this.saveAnswers(createDefaultVariableAnswers());
+    return removed;
+  }
+}
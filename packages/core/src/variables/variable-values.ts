@@ -0,0 +1,110 @@
+/**
+ * Resolution and validation of variable values against their definitions
+ */
+
+import { type VariableDefinition, validateVariableValue } from '../schemas/variables.js';
+import { filterActiveVariables, isVariableActive, orderVariableDefinitions } from './conditions.js';
+import { isTemplateDefault, renderTemplate } from './templates.js';
+
+/**
+ * Resolve the default value of a variable
+ * Templated defaults are rendered with the values collected so far and the environment,
+ * rendered numbers and booleans are converted for int, float and bool variables
+ * @param definition Variable definition
+ * @param values Values collected so far
+ * @param env Environment variables
+ * @returns Default value, or undefined if there is none
+ */
+export function resolveDefaultValue(
+  definition: VariableDefinition,
+  values: Record<string, any> = {},
+  env: Record<string, string | undefined> = process.env
+): any {
+  if (!isTemplateDefault(definition)) {
+    return definition.default;
+  }
+
+  const value = renderTemplate(definition.default, values, env);
+  if (typeof value !== 'string') {
+    return value;
+  }
+
+  const trimmed = value.trim();
+  if ((definition.type === 'int' || definition.type === 'float') && trimmed !== '') {
+    const number = Number(trimmed);
+    return Number.isNaN(number) ? value : number;
+  }
+  if (definition.type === 'bool' && ['true', 'false'].includes(trimmed.toLowerCase())) {
+    return trimmed.toLowerCase() === 'true';
+  }
+  return value === '' ? undefined : value;
+}
+
+/**
+ * Resolve variable values without prompting (non-interactive mode)
+ * Active variables take their given value or their default, inactive variables are dropped
+ * @param definitions Variable definitions
+ * @param values Known values (stored answers, extra vars...)
+ * @returns Resolved values, including values of undefined variables
+ */
+export function resolveVariableDefaults(
+  definitions: Record<string, VariableDefinition>,
+  values: Record<string, any> = {}
+): Record<string, any> {
+  const result: Record<string, any> = { ...values };
+
+  for (const name of orderVariableDefinitions(definitions)) {
+    const definition = definitions[name];
+    if (!isVariableActive(definition, result)) {
+      delete result[name];
+      continue;
+    }
+    if (result[name] === undefined) {
+      const defaultValue = resolveDefaultValue(definition, result);
+      if (defaultValue !== undefined) {
+        result[name] = defaultValue;
+      }
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Validate variable values against their definitions
+ * Variables whose conditions are false are not validated and not required
+ * @param definitions Variable definitions
+ * @param values Variable values
+ * @param sources Where values came from (e.g. a vars file), added to the error messages
+ * @returns Error messages, empty when all values are valid
+ */
+export function validateVariableValues(
+  definitions: Record<string, VariableDefinition>,
+  values: Record<string, any>,
+  sources: Record<string, string> = {}
+): string[] {
+  const errors: string[] = [];
+  const active = filterActiveVariables(definitions, values);
+
+  for (const name of orderVariableDefinitions(definitions)) {
+    const definition = definitions[name];
+    if (!isVariableActive(definition, active)) {
+      continue;
+    }
+
+    const value = active[name];
+    if (value === undefined || value === null || value === '') {
+      if (definition.required) {
+        errors.push(`${name}: value is required`);
+      }
+      continue;
+    }
+
+    const result = validateVariableValue(definition, value);
+    if (!result.success) {
+      errors.push(`${name}: ${result.error}${sources[name] ? ` (from ${sources[name]})` : ''}`);
+    }
+  }
+
+  return errors;
+}
@@ -0,0 +1,11 @@
+/**
+ * Project vault exports
+ */
+
+export {
+  ProjectVault,
+  DEFAULT_VAULT_FILE,
+  VAULT_PASSWORD_ENV,
+  resolveVaultOptions,
+} from './project-vault.js';
+export type { VaultAccess, VaultOptions } from './project-vault.js';
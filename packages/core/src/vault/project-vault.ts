@@ -0,0 +1,340 @@
+/**
+ * Project vault for secret variable values
+ *
+ * Secret values are stored in an ansible-vault encrypted YAML file inside the project.
+ * All encryption and decryption is done by the ansible-vault command, and the file is
+ * passed to ansible-playbook as an encrypted extra vars file, so secrets from the vault
+ * are never written to disk in plain text.
+ */
+
+import { spawn } from 'node:child_process';
+import * as fs from 'node:fs/promises';
+import * as path from 'node:path';
+import { dump, load } from 'js-yaml';
+import type { DirectoryManager } from '../config/directory-manager.js';
+import type { VaultConfig } from '../schemas/project-config.js';
+import { expandHomePath } from '../schemas/variables.js';
+
+/**
+ * Default vault file, relative to the project directory
+ */
+export const DEFAULT_VAULT_FILE = 'vault.yml';
+
+/**
+ * Environment variable that carries a prompted vault password to the password script
+ */
+export const VAULT_PASSWORD_ENV = 'ASHIP_VAULT_PASSWORD';
+
+/**
+ * Script that prints the vault password from the environment
+ * Ansible runs executable password files and reads the password from their output
+ */
+const PASSWORD_SCRIPT = `#!/bin/sh\nprintf '%s\\n' "$${VAULT_PASSWORD_ENV}"\n`;
+
+// Export dependencies for testing
+const dependencies = {
+  fs,
+  spawn,
+};
+
+/**
+ * Resolved vault options
+ */
+export interface VaultOptions {
+  /** Absolute path of the encrypted vault file */
+  file: string;
+  /** Vault ID label */
+  id?: string;
+  /** Password file or executable password script */
+  passwordFile?: string;
+}
+
+/**
+ * Arguments and environment that give ansible-playbook access to the vault
+ */
+export interface VaultAccess {
+  /** Encrypted vault file, passed as an extra vars file */
+  file: string;
+  /** Vault password arguments (--vault-id or --vault-password-file) */
+  args: string[];
+  /** Environment variables the password arguments rely on */
+  env: Record<string, string>;
+}
+
+/**
+ * Resolve the vault options of a project
+ * The password file is taken from the given path, the vault section of aship.yml
+ * or ANSIBLE_VAULT_PASSWORD_FILE, in that order
+ * @param config Vault section of aship.yml
+ * @param projectDir Project directory, relative paths are resolved against it
+ * @param passwordFile Password file given on the command line
+ */
+export function resolveVaultOptions(
+  config: VaultConfig | undefined,
+  projectDir: string,
+  passwordFile?: string
+): VaultOptions {
+  const source = passwordFile || config?.password_file || process.env.ANSIBLE_VAULT_PASSWORD_FILE;
+
+  return {
+    file: path.resolve(projectDir, expandHomePath(config?.file || DEFAULT_VAULT_FILE)),
+    id: config?.id,
+    passwordFile: source ? path.resolve(projectDir, expandHomePath(source)) : undefined,
+  };
+}
+
+/**
+ * Run ansible-vault
+ * @param args Command arguments
+ * @param options Standard input, environment and whether the terminal is handed over
+ * @returns Standard output
+ * @throws Error if ansible-vault is not installed or fails
+ */
+function runAnsibleVault(
+  args: string[],
+  options: { input?: string; env?: Record<string, string>; interactive?: boolean } = {}
+): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const child = dependencies.spawn('ansible-vault', args, {
+      env: { ...process.env, ...(options.env || {}) },
+      stdio: options.interactive ? 'inherit' : 'pipe',
+    });
+
+    let stdout = '';
+    let stderr = '';
+    child.stdout?.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+    child.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    child.on('error', (error: NodeJS.ErrnoException) => {
+      reject(
+        error.code === 'ENOENT'
+          ? new Error('ansible-vault was not found, make sure Ansible is installed')
+          : error
+      );
+    });
+    child.on('close', (exitCode: number | null) => {
+      if (exitCode === 0) {
+        resolve(stdout);
+      } else {
+        reject(new Error(stderr.trim() || `ansible-vault exited with code ${exitCode}`));
+      }
+    });
+
+    if (options.input !== undefined) {
+      child.stdin?.end(options.input);
+    }
+  });
+}
+
+/**
+ * Encrypted vault of secret variable values in a project
+ */
+export class ProjectVault {
+  private password?: string;
+
+  constructor(
+    private options: VaultOptions,
+    private directoryManager: DirectoryManager
+  ) {}
+
+  /**
+   * Path of the encrypted vault file
+   */
+  get file(): string {
+    return this.options.file;
+  }
+
+  /**
+   * Vault ID label
+   */
+  get id(): string | undefined {
+    return this.options.id;
+  }
+
+  /**
+   * Whether a password has to be set before the vault can be used
+   */
+  get needsPassword(): boolean {
+    return !this.options.passwordFile && this.password === undefined;
+  }
+
+  /**
+   * Set the password, used when no password file is configured
+   * @param password Vault password
+   */
+  setPassword(password: string): void {
+    this.password = password;
+  }
+
+  /**
+   * Check whether the vault file exists
+   */
+  async exists(): Promise<boolean> {
+    try {
+      await dependencies.fs.access(this.file);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Decrypt the vault
+   * @returns Secret values by variable name
+   * @throws Error if the vault does not exist, cannot be decrypted or is not a mapping
+   */
+  async read(): Promise<Record<string, any>> {
+    if (!(await this.exists())) {
+      throw new Error(`Vault ${this.file} does not exist`);
+    }
+
+    const access = await this.getAnsibleAccess();
+    const content = load(
+      await runAnsibleVault(['decrypt', ...access.args, '--output', '-', this.file], {
+        env: access.env,
+      })
+    );
+
+    // An empty vault has no values
+    if (content === undefined || content === null) {
+      return {};
+    }
+    if (typeof content !== 'object' || Array.isArray(content)) {
+      throw new Error(`Invalid vault ${this.file}: expected a mapping of variable names`);
+    }
+
+    return content as Record<string, any>;
+  }
+
+  /**
+   * Encrypt values into the vault, replacing its content
+   * The file is replaced only once encryption succeeded
+   * @param values Secret values by variable name
+   */
+  async write(values: Record<string, any>): Promise<void> {
+    const access = await this.getAnsibleAccess();
+    const content = dump(values, { indent: 2, lineWidth: -1, noRefs: true });
+    const tempFile = `${this.file}.${Date.now()}.tmp`;
+
+    await dependencies.fs.mkdir(path.dirname(this.file), { recursive: true });
+    try {
+      await runAnsibleVault(
+        [
+          'encrypt',
+          ...access.args,
+          ...(this.id ? ['--encrypt-vault-id', this.id] : []),
+          '--output',
+          tempFile,
+          '-',
+        ],
+        { input: content, env: access.env }
+      );
+      await dependencies.fs.rename(tempFile, this.file);
+    } finally {
+      await dependencies.fs.rm(tempFile, { force: true });
+    }
+  }
+
+  /**
+   * Create the vault
+   * @param values Initial secret values
+   * @throws Error if the vault already exists
+   */
+  async create(values: Record<string, any> = {}): Promise<void> {
+    if (await this.exists()) {
+      throw new Error(`Vault ${this.file} already exists`);
+    }
+    await this.write(values);
+  }
+
+  /**
+   * Get a secret value
+   * @param name Variable name
+   * @returns Value, or undefined if the vault has no value for the variable
+   */
+  async get(name: string): Promise<any> {
+    return (await this.read())[name];
+  }
+
+  /**
+   * Store a secret value
+   * @param name Variable name
+   * @param value Value
+   */
+  async set(name: string, value: any): Promise<void> {
+    const values = await this.read();
+    values[name] = value;
+    await this.write(values);
+  }
+
+  /**
+   * Open the vault in the editor of ansible-vault (EDITOR)
+   */
+  async edit(): Promise<void> {
+    if (!(await this.exists())) {
+      throw new Error(`Vault ${this.file} does not exist`);
+    }
+
+    const access = await this.getAnsibleAccess();
+    await runAnsibleVault(['edit', ...access.args, this.file], {
+      env: access.env,
+      interactive: true,
+    });
+  }
+
+  /**
+   * Encrypt the vault with a new password
+   * @param secret New password or password file
+   */
+  async rekey(secret: { password?: string; passwordFile?: string }): Promise<void> {
+    const values = await this.read();
+
+    this.options = { ...this.options, passwordFile: secret.passwordFile };
+    this.password = secret.password;
+    await this.write(values);
+  }
+
+  /**
+   * Get the arguments that give ansible-vault and ansible-playbook access to the vault
+   * A prompted password is passed through the environment to a password script,
+   * so it is never written to disk
+   * @throws Error if no password is available
+   */
+  async getAnsibleAccess(): Promise<VaultAccess> {
+    let passwordFile = this.options.passwordFile;
+    const env: Record<string, string> = {};
+
+    if (!passwordFile) {
+      if (this.password === undefined) {
+        throw new Error('No vault password available');
+      }
+      passwordFile = await this.writePasswordScript();
+      env[VAULT_PASSWORD_ENV] = this.password;
+    }
+
+    return {
+      file: this.file,
+      args: this.id
+        ? ['--vault-id', `${this.id}@${passwordFile}`]
+        : ['--vault-password-file', passwordFile],
+      env,
+    };
+  }
+
+  /**
+   * Write the password script (it holds no secret itself)
+   */
+  private async writePasswordScript(): Promise<string> {
+    const scriptPath = path.join(this.directoryManager.tempDir, 'vault-password.sh');
+    await dependencies.fs.mkdir(this.directoryManager.tempDir, { recursive: true });
+    await dependencies.fs.writeFile(scriptPath, PASSWORD_SCRIPT, { mode: 0o700 });
+    await dependencies.fs.chmod(scriptPath, 0o700);
+    return scriptPath;
+  }
+}
+
+export { dependencies };
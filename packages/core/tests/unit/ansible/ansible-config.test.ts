@@ -0,0 +1,106 @@
+/**
+ * Tests for the project Ansible settings
+ */
+
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { describe, expect, it } from 'vitest';
+import {
+  formatEnvAssignments,
+  getAnsibleConfigEnv,
+  resolveAnsiblePaths,
+} from '../../../src/ansible/ansible-config.js';
+import { ProjectConfigSchema } from '../../../src/schemas/project-config.js';
+
+describe('getAnsibleConfigEnv', () => {
+  it('should return no variables without settings', () => {
+    expect(getAnsibleConfigEnv(undefined, '/app')).toEqual({});
+    expect(getAnsibleConfigEnv({}, '/app')).toEqual({});
+  });
+
+  it('should map the settings to Ansible variables', () => {
+    expect(
+      getAnsibleConfigEnv(
+        {
+          configPath: 'ansible/ansible.cfg',
+          forks: 20,
+          roles_path: ['roles', '/usr/share/ansible/roles'],
+          collections_path: '~/.ansible/collections',
+        },
+        '/app'
+      )
+    ).toEqual({
+      ANSIBLE_CONFIG: '/app/ansible/ansible.cfg',
+      ANSIBLE_FORKS: '20',
+      ANSIBLE_ROLES_PATH: ['/app/roles', '/usr/share/ansible/roles'].join(path.delimiter),
+      ANSIBLE_COLLECTIONS_PATH: path.join(os.homedir(), '.ansible/collections'),
+    });
+  });
+
+  it('should let explicit variables take precedence', () => {
+    expect(
+      getAnsibleConfigEnv(
+        { forks: 20, env: { ANSIBLE_FORKS: 5, ANSIBLE_PIPELINING: true, ANSIBLE_STDOUT_CALLBACK: 'yaml' } },
+        '/app'
+      )
+    ).toEqual({ ANSIBLE_FORKS: '5', ANSIBLE_PIPELINING: 'true', ANSIBLE_STDOUT_CALLBACK: 'yaml' });
+  });
+});
+
+describe('resolveAnsiblePaths', () => {
+  it('should resolve one path or a list of paths', () => {
+    expect(resolveAnsiblePaths(undefined, '/app')).toEqual([]);
+    expect(resolveAnsiblePaths('roles', '/app')).toEqual(['/app/roles']);
+    expect(resolveAnsiblePaths(['roles', '/opt/roles'], '/app')).toEqual([
+      '/app/roles',
+      '/opt/roles',
+    ]);
+  });
+});
+
+describe('formatEnvAssignments', () => {
+  it('should quote values with special characters', () => {
+    expect(
+      formatEnvAssignments({
+        ANSIBLE_FORKS: '20',
+        ANSIBLE_SSH_ARGS: '-o ControlMaster=auto',
+        ANSIBLE_BECOME_PASS: "it's",
+      })
+    ).toEqual([
+      'ANSIBLE_FORKS=20',
+      "ANSIBLE_SSH_ARGS='-o ControlMaster=auto'",
+      "ANSIBLE_BECOME_PASS='it'\\''s'",
+    ]);
+  });
+});
+
+describe('ProjectConfigSchema ansible section', () => {
+  it('should accept the Ansible settings', () => {
+    const result = ProjectConfigSchema.safeParse({
+      name: 'app',
+      ansible: {
+        configPath: 'ansible.cfg',
+        forks: 10,
+        env: { ANSIBLE_PIPELINING: true },
+        roles_path: 'roles',
+      },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject variables that are not Ansible variables', () => {
+    const result = ProjectConfigSchema.safeParse({
+      name: 'app',
+      ansible: { env: { PATH: '/usr/bin' } },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject invalid forks', () => {
+    const result = ProjectConfigSchema.safeParse({ name: 'app', ansible: { forks: 0 } });
+
+    expect(result.success).toBe(false);
+  });
+});
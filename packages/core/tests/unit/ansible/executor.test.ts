@@ -18,6 +18,7 @@ vi.mock('node:child_process', () => ({
 // Mock inventory generator
 vi.mock('../../../src/ansible/inventory.js', () => ({
   generateInventoryFile: vi.fn(),
+  getInventorySecretEnv: vi.fn().mockReturnValue({}),
 }));
 
 describe('AnsibleExecutor', () => {
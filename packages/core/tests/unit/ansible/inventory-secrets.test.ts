@@ -0,0 +1,123 @@
+/**
+ * Tests that session passwords never end up in generated inventory files
+ */
+
+import { readFileSync } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AnsibleExecutor, dependencies } from '../../../src/ansible/ansible-executor.js';
+import { generateInventoryFile, getInventorySecretEnv } from '../../../src/ansible/inventory.js';
+import { sessionPasswordManager } from '../../../src/ssh/session-password-manager.js';
+
+describe('Inventory secrets', () => {
+  const password = 'S3cr3t-p@ss word';
+  const servers = [
+    { name: 'key-host', hostname: 'key.example.com', port: 22, user: 'deploy', identity_file: '/k' },
+    { name: 'pass-host', hostname: 'pass.example.com', port: 22, user: 'admin' },
+  ];
+
+  let tempDir: string;
+  const originalSpawn = dependencies.spawn;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aship-secrets-test-'));
+    sessionPasswordManager.savePassword('pass.example.com', 'admin', password);
+  });
+
+  afterEach(async () => {
+    sessionPasswordManager.clearAll();
+    dependencies.spawn = originalSpawn;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  /**
+   * Replace spawn with a fake that snapshots every file referenced on the command line
+   */
+  const captureSpawn = () => {
+    const captured: { files: Record<string, string>; env: Record<string, string> } = {
+      files: {},
+      env: {},
+    };
+
+    dependencies.spawn = vi.fn().mockImplementation((_command, args: string[], options) => {
+      for (const arg of args) {
+        const filePath = arg.startsWith('@') ? arg.slice(1) : arg;
+        if (path.isAbsolute(filePath)) {
+          try {
+            captured.files[filePath] = readFileSync(filePath, 'utf-8');
+          } catch {
+            // Not a file
+          }
+        }
+      }
+      captured.env = options.env;
+
+      return {
+        stdout: { on: vi.fn() },
+        stderr: { on: vi.fn() },
+        on: vi.fn().mockImplementation((event, callback) => {
+          if (event === 'close') {
+            setTimeout(() => callback(0), 0);
+          }
+        }),
+      };
+    }) as any;
+
+    return captured;
+  };
+
+  it('should reference passwords through the environment only', async () => {
+    const inventoryPath = await generateInventoryFile(servers);
+
+    try {
+      const content = await fs.readFile(inventoryPath, 'utf-8');
+      expect(content).not.toContain(password);
+      expect(content).toContain("lookup('env', 'ASHIP_SSH_PASS_1')");
+
+      const stats = await fs.stat(inventoryPath);
+      expect(stats.mode & 0o777).toBe(0o600);
+    } finally {
+      await fs.unlink(inventoryPath);
+    }
+
+    expect(getInventorySecretEnv(servers)).toEqual({ ASHIP_SSH_PASS_1: password });
+  });
+
+  it('should never write the password to disk when running a playbook', async () => {
+    const playbook = path.join(tempDir, 'site.yml');
+    await fs.writeFile(playbook, '- hosts: all\n');
+    const captured = captureSpawn();
+
+    const result = await new AnsibleExecutor().executePlaybook({
+      servers,
+      playbook,
+      extraVars: { app: 'web' },
+    });
+
+    expect(result.success).toBe(true);
+    expect(Object.keys(captured.files).length).toBeGreaterThan(0);
+    for (const content of Object.values(captured.files)) {
+      expect(content).not.toContain(password);
+    }
+    expect(captured.env.ASHIP_SSH_PASS_1).toBe(password);
+  });
+
+  it('should never write the password to disk when running an ad-hoc command', async () => {
+    const captured = captureSpawn();
+
+    const result = await new AnsibleExecutor().executeAnsible({
+      servers,
+      pattern: 'all',
+      module: 'ping',
+    });
+
+    expect(result.success).toBe(true);
+    expect(Object.keys(captured.files).length).toBeGreaterThan(0);
+    for (const content of Object.values(captured.files)) {
+      expect(content).not.toContain(password);
+    }
+    expect(captured.env.ASHIP_SSH_PASS_1).toBe(password);
+  });
+});
@@ -41,6 +41,8 @@ describe('Ansible inventory generator', () => {
 
   beforeEach(() => {
     vi.clearAllMocks();
+    // The default known_hosts file lives in the aship global directory
+    vi.stubEnv('ASHIP_GLOBAL_DIR', '/home/test/.aship');
   });
 
   describe('generateInventoryContent', () => {
@@ -73,6 +75,110 @@ describe('Ansible inventory generator', () => {
       expect(content).toContain('server1 ansible_host=example.com');
       expect(content).toContain('server2 ansible_host=example2.com');
     });
+
+    it('should verify host keys against the aship known_hosts file by default', async () => {
+      const content = await generateInventoryContent([mockServers[0]]);
+
+      expect(content).toContain('ansible_host_key_checking=true');
+      expect(content).toContain(
+        'ansible_ssh_common_args="-o StrictHostKeyChecking=accept-new -o UserKnownHostsFile=\\"/home/test/.aship/known_hosts\\""'
+      );
+      expect(content).not.toContain('ansible_host_key_checking=false');
+    });
+
+    it('should prefer the server host key policy over the default policy', async () => {
+      const content = await generateInventoryContent(
+        [{ ...mockServers[0], host_key_policy: 'off' as const }, mockServers[1]],
+        { hostKeyPolicy: 'strict', knownHostsFile: '/home/test/.aship/known_hosts' }
+      );
+
+      expect(content).toContain(
+        'server1 ansible_host=example.com ansible_port=22 ansible_user=admin ansible_host_key_checking=false ansible_ssh_common_args="-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null"'
+      );
+      expect(content).toContain('-o StrictHostKeyChecking=yes');
+    });
+
+    it('should add server variables to the host line', async () => {
+      const content = await generateInventoryContent([
+        {
+          ...mockServers[1],
+          variables: {
+            ansible_become: false,
+            ansible_python_interpreter: '/usr/bin/python3',
+            app_port: 8080,
+            users: ['alice'],
+            ansible_host: 'ignored.example.com',
+          },
+        },
+      ]);
+
+      expect(content).toContain(
+        'server2 ansible_host=example2.com ansible_port=2222 ansible_user=user ansible_become=False ansible_python_interpreter="/usr/bin/python3" app_port=8080 users=\'["alice"]\''
+      );
+      expect(content).not.toContain('ignored.example.com');
+    });
+
+    it('should connect through the server jump hosts', async () => {
+      const content = await generateInventoryContent(
+        [
+          {
+            ...mockServers[1],
+            jump_hosts: [
+              { hostname: 'bastion.example.com', port: 22, user: 'jump' },
+              { hostname: 'inner.example.com', port: 2200 },
+            ],
+          },
+        ],
+        { hostKeyPolicy: 'off' }
+      );
+
+      // Every hop is a ProxyCommand with the host key options, the inner one runs the first hop
+      expect(content).toContain(
+        "ansible_ssh_common_args=\"-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null -o 'ProxyCommand=ssh -o '\\''ProxyCommand=ssh -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null -p 22 -W %%h:%%p jump@bastion.example.com'\\'' -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null -p 2200 -W %h:%p inner.example.com'\""
+      );
+    });
+
+    it('should pass the identity file of a jump host', async () => {
+      const content = await generateInventoryContent(
+        [
+          {
+            ...mockServers[1],
+            jump_hosts: [
+              {
+                hostname: 'bastion.example.com',
+                port: 2222,
+                user: 'jump',
+                identity_file: '/keys/bastion',
+              },
+            ],
+          },
+        ],
+        { hostKeyPolicy: 'off' }
+      );
+
+      // ProxyJump cannot pass the key, the hop is reached through ProxyCommand
+      expect(content).not.toContain('-J ');
+      expect(content).toContain(
+        "-o 'ProxyCommand=ssh -o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null -i '\\''/keys/bastion'\\'' -p 2222 -W %h:%p jump@bastion.example.com'\""
+      );
+    });
+
+    it('should verify jump hosts with the host key policy', async () => {
+      const content = await generateInventoryContent(
+        [
+          {
+            ...mockServers[1],
+            jump_hosts: [{ hostname: 'bastion.example.com', port: 22, user: 'jump' }],
+          },
+        ],
+        { hostKeyPolicy: 'strict', knownHostsFile: '/aship/known_hosts' }
+      );
+
+      // Without the options the bastion would be checked against ~/.ssh/known_hosts
+      expect(content).toContain(
+        'ansible_ssh_common_args="-o StrictHostKeyChecking=yes -o UserKnownHostsFile=\\"/aship/known_hosts\\" -o \'ProxyCommand=ssh -o StrictHostKeyChecking=yes -o UserKnownHostsFile=\\"/aship/known_hosts\\" -p 22 -W %h:%p jump@bastion.example.com\'"'
+      );
+    });
   });
 
   // generateInventoryFile 测试已移至集成测试
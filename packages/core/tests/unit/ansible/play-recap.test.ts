@@ -0,0 +1,67 @@
+/**
+ * Tests for play recap parsing
+ */
+
+import { describe, expect, it } from 'vitest';
+import { isHostFailed, parsePlayRecap } from '../../../src/ansible/play-recap.js';
+
+const ESC = String.fromCharCode(27);
+
+describe('parsePlayRecap', () => {
+  it('should parse the PLAY RECAP of the default callback', () => {
+    const output = [
+      'TASK [Install nginx] ***********************************************************',
+      'changed: [web-1]',
+      '',
+      'PLAY RECAP *********************************************************************',
+      `${ESC}[0;33mweb-1${ESC}[0m                      : ${ESC}[0;32mok=3${ESC}[0m    ${ESC}[0;33mchanged=1${ESC}[0m    unreachable=0    failed=0    skipped=1    rescued=0    ignored=0   `,
+      'db-1                       : ok=1    changed=0    unreachable=1    failed=0    skipped=0    rescued=0    ignored=0',
+      '',
+    ].join('\n');
+
+    expect(parsePlayRecap(output)).toEqual({
+      'web-1': { ok: 3, changed: 1, unreachable: 0, failed: 0, skipped: 1, rescued: 0, ignored: 0 },
+      'db-1': { ok: 1, changed: 0, unreachable: 1, failed: 0, skipped: 0, rescued: 0, ignored: 0 },
+    });
+  });
+
+  it('should use the last recap in the output', () => {
+    const output = [
+      'PLAY RECAP ***',
+      'web-1 : ok=1 changed=0 unreachable=0 failed=1 skipped=0',
+      '',
+      'PLAY RECAP ***',
+      'web-1 : ok=2 changed=1 unreachable=0 failed=0 skipped=0',
+    ].join('\n');
+
+    expect(parsePlayRecap(output)?.['web-1']).toMatchObject({ ok: 2, changed: 1, failed: 0 });
+  });
+
+  it('should parse the stats of the JSON callback', () => {
+    const output = JSON.stringify({
+      plays: [],
+      stats: {
+        'web-1': { ok: 2, changed: 1, unreachable: 0, failures: 1, skipped: 0 },
+      },
+    });
+
+    expect(parsePlayRecap(output)).toEqual({
+      'web-1': { ok: 2, changed: 1, unreachable: 0, failed: 1, skipped: 0, rescued: 0, ignored: 0 },
+    });
+  });
+
+  it('should return undefined without a recap', () => {
+    expect(parsePlayRecap('ERROR! the playbook: site.yml could not be found')).toBeUndefined();
+    expect(parsePlayRecap('')).toBeUndefined();
+  });
+});
+
+describe('isHostFailed', () => {
+  it('should treat failed and unreachable hosts as failed', () => {
+    const recap = { ok: 1, changed: 0, unreachable: 0, failed: 0, skipped: 0, rescued: 0, ignored: 0 };
+
+    expect(isHostFailed(recap)).toBe(false);
+    expect(isHostFailed({ ...recap, failed: 1 })).toBe(true);
+    expect(isHostFailed({ ...recap, unreachable: 1 })).toBe(true);
+  });
+});
@@ -0,0 +1,63 @@
+/**
+ * Tests for playbook progress tracking
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PlaybookProgressTracker } from '../../../src/ansible/playbook-progress.js';
+import type { PlaybookProgress } from '../../../src/types/index.js';
+
+const OUTPUT = `
+PLAY [Web servers] *************************************************************
+
+TASK [Gathering Facts] *********************************************************
+ok: [web-1]
+ok: [web-2]
+
+TASK [nginx : Install nginx] ***************************************************
+changed: [web-1] => (item=nginx)
+fatal: [web-2]: FAILED! => {"changed": false, "msg": "No package matching 'nginx'"}
+
+TASK [Check config] ************************************************************
+fatal: [web-1]: FAILED! => {"changed": false, "rc": 1}
+...ignoring
+
+PLAY RECAP *********************************************************************
+web-1                      : ok=3    changed=1    unreachable=0    failed=0    skipped=0    rescued=0    ignored=1
+web-2                      : ok=1    changed=0    unreachable=0    failed=1    skipped=0    rescued=0    ignored=0
+`;
+
+describe('PlaybookProgressTracker', () => {
+  it('should track plays, tasks and hosts', () => {
+    const updates: PlaybookProgress[] = [];
+    const tracker = new PlaybookProgressTracker(progress => updates.push(progress));
+    tracker.write(OUTPUT);
+
+    const atInstall = updates.find(update => update.task === 'nginx : Install nginx');
+    expect(atInstall).toMatchObject({ play: 'Web servers', tasks: 2, hostsDone: 0, hostsTotal: 2 });
+
+    const afterInstall = updates.filter(update => update.task === 'nginx : Install nginx').pop();
+    expect(afterInstall).toMatchObject({ hostsDone: 2, hostsTotal: 2, hostsFailed: 1 });
+
+    // The ignored failure is not counted
+    expect(tracker.getProgress()).toMatchObject({
+      play: 'Web servers',
+      task: undefined,
+      tasks: 3,
+      hostsFailed: 1,
+    });
+  });
+
+  it('should handle lines split across chunks and colored output', () => {
+    const updates: PlaybookProgress[] = [];
+    const tracker = new PlaybookProgressTracker(progress => updates.push(progress));
+    const esc = String.fromCharCode(27);
+
+    tracker.write('PLAY [all] ***\nTASK [ping] ***\n');
+    tracker.write(`${esc}[0;32mok: [db-`);
+    expect(updates).toHaveLength(2);
+
+    tracker.write(`1 -> localhost]${esc}[0m\n`);
+    expect(updates).toHaveLength(3);
+    expect(updates[2]).toMatchObject({ task: 'ping', hostsDone: 1, hostsTotal: 1 });
+  });
+});
@@ -0,0 +1,151 @@
+/**
+ * Tests for ad-hoc commands through the playbook runner
+ */
+
+import { existsSync, readFileSync } from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { dependencies } from '../../../src/ansible/ansible-executor.js';
+import { PlaybookRunner } from '../../../src/ansible/playbook-runner.js';
+import { DirectoryManager } from '../../../src/config/directory-manager.js';
+import { HostManager } from '../../../src/host/host-manager.js';
+import { InventoryGenerator } from '../../../src/inventory/inventory-generator.js';
+
+describe('PlaybookRunner.runModule', () => {
+  let tempDir: string;
+  let runner: PlaybookRunner;
+  const originalSpawn = dependencies.spawn;
+
+  /**
+   * Replace spawn with a fake that records the arguments and the inventory content
+   */
+  const captureSpawn = () => {
+    const captured: { args: string[]; inventory?: string; env?: Record<string, string> } = {
+      args: [],
+    };
+
+    dependencies.spawn = vi.fn().mockImplementation((_command, args: string[], options) => {
+      captured.args = args;
+      captured.env = options.env;
+      captured.inventory = readFileSync(args[args.indexOf('-i') + 1], 'utf-8');
+
+      return {
+        stdout: { on: vi.fn() },
+        stderr: { on: vi.fn() },
+        on: vi.fn().mockImplementation((event, callback) => {
+          if (event === 'close') {
+            setTimeout(() => callback(0), 0);
+          }
+        }),
+      };
+    }) as any;
+
+    return captured;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aship-runner-test-'));
+    const directoryManager = new DirectoryManager();
+    directoryManager.setGlobalDir(path.join(tempDir, '.aship'));
+    await directoryManager.initialize();
+
+    const hostManager = new HostManager(directoryManager);
+    await hostManager.addHost(
+      { hostname: '10.0.0.11', user: 'deploy', port: 22, source: 'manual' as const },
+      'web-1'
+    );
+    runner = new PlaybookRunner(
+      hostManager,
+      new InventoryGenerator(hostManager),
+      directoryManager
+    );
+  });
+
+  afterEach(async () => {
+    dependencies.spawn = originalSpawn;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should run the module against a temporary inventory of aship hosts', async () => {
+    const captured = captureSpawn();
+
+    const result = await runner.runModule('all', 'command', 'uptime', {
+      hosts: ['web-1'],
+      limit: 'web-1',
+    });
+
+    expect(result.success).toBe(true);
+    expect(captured.inventory).toContain('10.0.0.11');
+    expect(captured.args).toEqual(
+      expect.arrayContaining(['-m', 'command', '-a', 'uptime', '--limit', 'web-1'])
+    );
+    expect(captured.args[captured.args.length - 1]).toBe('all');
+
+    // The temporary inventory is removed afterwards
+    expect(existsSync(captured.args[captured.args.indexOf('-i') + 1])).toBe(false);
+  });
+
+  it('should use an inventory file without aship hosts and keep it', async () => {
+    const inventory = path.join(tempDir, 'hosts.ini');
+    await fs.writeFile(inventory, '[db]\n10.0.0.21\n');
+    const captured = captureSpawn();
+
+    const result = await runner.runModule('db', 'ping', undefined, { inventory });
+
+    expect(result.success).toBe(true);
+    expect(captured.args[captured.args.indexOf('-i') + 1]).toBe(inventory);
+    expect(existsSync(inventory)).toBe(true);
+  });
+
+  it('should apply the project Ansible settings', async () => {
+    const captured = captureSpawn();
+
+    const result = await runner.runModule('all', 'ping', undefined, {
+      hosts: ['web-1'],
+      cwd: tempDir,
+      hostKeyPolicy: 'off',
+      ansibleConfig: {
+        configPath: 'ansible.cfg',
+        forks: 20,
+        env: { ANSIBLE_HOST_KEY_CHECKING: true },
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(captured.env).toMatchObject({
+      ANSIBLE_CONFIG: path.join(tempDir, 'ansible.cfg'),
+      ANSIBLE_FORKS: '20',
+      // Project variables take precedence over the host key policy
+      ANSIBLE_HOST_KEY_CHECKING: 'true',
+    });
+  });
+
+  it('should not override host key settings of the project ansible.cfg', async () => {
+    await fs.writeFile(
+      path.join(tempDir, 'ansible.cfg'),
+      '[defaults]\nhost_key_checking = True\n\n[ssh_connection]\nssh_args = -o ControlMaster=auto\n'
+    );
+    const captured = captureSpawn();
+
+    await runner.runModule('all', 'ping', undefined, {
+      hosts: ['web-1'],
+      cwd: tempDir,
+      hostKeyPolicy: 'off',
+      ansibleConfig: { configPath: 'ansible.cfg' },
+    });
+
+    expect(captured.env?.ANSIBLE_CONFIG).toBe(path.join(tempDir, 'ansible.cfg'));
+    expect(captured.env).not.toHaveProperty('ANSIBLE_HOST_KEY_CHECKING');
+    expect(captured.env).not.toHaveProperty('ANSIBLE_SSH_ARGS');
+
+    // Other policies leave host key checking to the inventory and ansible.cfg
+    await runner.runModule('all', 'ping', undefined, {
+      hosts: ['web-1'],
+      cwd: tempDir,
+      hostKeyPolicy: 'strict',
+    });
+    expect(captured.env).not.toHaveProperty('ANSIBLE_HOST_KEY_CHECKING');
+  });
+});
@@ -0,0 +1,197 @@
+/**
+ * Tests for tag discovery from playbooks
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { PlaybookTagCache, discoverPlaybookTags } from '../../../src/ansible/playbook-tags.js';
+import { DirectoryManager } from '../../../src/config/directory-manager.js';
+import { findUnknownTags } from '../../../src/schemas/project-config.js';
+
+describe('playbook tag discovery', () => {
+  let tempDir: string;
+
+  const write = async (file: string, content: string) => {
+    const filePath = path.join(tempDir, file);
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+    return filePath;
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aship-playbook-tags-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('discoverPlaybookTags', () => {
+    it('should collect tags from plays, tasks, blocks, roles and imports', async () => {
+      const playbook = await write(
+        'site.yml',
+        `- hosts: all
+  tags: [setup]
+  roles:
+    - web
+    - role: db
+      tags: database
+  tasks:
+    - name: Install
+      apt: { name: nginx }
+      tags: [install, always]
+    - block:
+        - name: Configure
+          template: { src: a, dest: b }
+          tags: config
+      rescue:
+        - debug: { msg: failed }
+          tags: [recovery]
+    - import_tasks: tasks/extra.yml
+    - ansible.builtin.include_role:
+        name: web
+        tasks_from: deploy
+  handlers:
+    - name: Restart
+      service: { name: nginx }
+      tags: restart
+- import_playbook: other.yml
+`
+      );
+      await write('tasks/extra.yml', '- debug: { msg: extra }\n  tags: extra, never\n');
+      await write('other.yml', '- hosts: db\n  tasks:\n    - ping:\n      tags: [ping]\n');
+      await write('roles/web/tasks/main.yml', '- debug: { msg: web }\n  tags: [web]\n');
+      await write('roles/web/tasks/deploy.yml', '- debug: { msg: deploy }\n  tags: [deploy]\n');
+      await write('roles/web/meta/main.yml', 'dependencies:\n  - common\n');
+      await write('roles/common/tasks/main.yaml', '- debug: { msg: common }\n  tags: [common]\n');
+      await write('roles/db/tasks/main.yml', '- debug: { msg: db }\n  tags: [migrate]\n');
+      await write('roles/db/handlers/main.yml', '- debug: { msg: db }\n  tags: [db_handler]\n');
+
+      const result = await discoverPlaybookTags(playbook);
+
+      expect(result.tags).toEqual([
+        'common',
+        'config',
+        'database',
+        'db_handler',
+        'deploy',
+        'extra',
+        'install',
+        'migrate',
+        'ping',
+        'recovery',
+        'restart',
+        'setup',
+        'web',
+      ]);
+      expect(result.complete).toBe(true);
+      expect(result.files).toContain(path.join(tempDir, 'roles', 'common', 'tasks', 'main.yaml'));
+    });
+
+    it('should look up roles in the given roles path', async () => {
+      const playbook = await write('site.yml', '- hosts: all\n  roles: [shared]\n');
+      await write('lib/roles/shared/tasks/main.yml', '- ping:\n  tags: [shared]\n');
+
+      const result = await discoverPlaybookTags(playbook, {
+        rolesPath: [path.join(tempDir, 'lib', 'roles')],
+      });
+
+      expect(result).toMatchObject({ tags: ['shared'], complete: true });
+    });
+
+    it('should mark the result incomplete when references cannot be resolved', async () => {
+      const playbook = await write(
+        'site.yml',
+        `- hosts: all
+  roles: [missing]
+  tasks:
+    - include_tasks: "{{ item }}.yml"
+    - ping:
+      tags: ["{{ dynamic }}", known]
+`
+      );
+
+      const result = await discoverPlaybookTags(playbook);
+
+      expect(result).toMatchObject({ tags: ['known'], complete: false });
+    });
+
+    it('should accept Ansible YAML tags', async () => {
+      const playbook = await write(
+        'site.yml',
+        `- hosts: all
+  vars:
+    secret: !vault |
+      $ANSIBLE_VAULT;1.1;AES256
+      6162
+  tasks:
+    - ping:
+      tags: [secure]
+`
+      );
+
+      expect(await discoverPlaybookTags(playbook)).toMatchObject({
+        tags: ['secure'],
+        complete: true,
+      });
+    });
+  });
+
+  describe('PlaybookTagCache', () => {
+    let directoryManager: DirectoryManager;
+
+    beforeEach(() => {
+      directoryManager = new DirectoryManager();
+      directoryManager.setGlobalDir(path.join(tempDir, '.aship'));
+    });
+
+    it('should reuse cached tags until a parsed file changes', async () => {
+      const playbook = await write('site.yml', '- hosts: all\n  tasks:\n    - import_tasks: a.yml\n');
+      const tasks = await write('a.yml', '- ping:\n  tags: [first]\n');
+      const mtime = new Date('2024-01-01T00:00:00Z');
+      await fs.utimes(tasks, mtime, mtime);
+      const cache = new PlaybookTagCache(directoryManager);
+
+      expect((await cache.getTags(playbook)).tags).toEqual(['first']);
+
+      // Same modification time: the cached result is used
+      await fs.writeFile(tasks, '- ping:\n  tags: [second]\n');
+      await fs.utimes(tasks, mtime, mtime);
+      expect((await new PlaybookTagCache(directoryManager).getTags(playbook)).tags).toEqual([
+        'first',
+      ]);
+
+      // Changed modification time: the playbook is parsed again
+      const later = new Date(mtime.getTime() + 10_000);
+      await fs.utimes(tasks, later, later);
+      expect((await cache.getTags(playbook)).tags).toEqual(['second']);
+    });
+
+    it('should discover incomplete playbooks again', async () => {
+      const playbook = await write('site.yml', '- hosts: all\n  roles: [web]\n');
+      const cache = new PlaybookTagCache(directoryManager);
+
+      expect(await cache.getTags(playbook)).toMatchObject({ tags: [], complete: false });
+
+      await write('roles/web/tasks/main.yml', '- ping:\n  tags: [web]\n');
+      expect(await cache.getTags(playbook)).toMatchObject({ tags: ['web'], complete: true });
+    });
+  });
+
+  it('should find configured tags that the playbook does not use', () => {
+    expect(
+      findUnknownTags(
+        {
+          install: 'Install packages',
+          config: 'Configure',
+          default: ['install', 'legacy'],
+          full: ['install', 'config', 'quick'],
+          quick: { tags: ['install'], skip: ['removed'] },
+        },
+        ['install', 'config']
+      )
+    ).toEqual(['legacy', 'removed']);
+  });
+});
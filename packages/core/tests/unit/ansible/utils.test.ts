@@ -0,0 +1,40 @@
+/**
+ * Tests for Ansible argument filtering
+ */
+
+import { describe, expect, it } from 'vitest';
+import { extractAnsibleOptions, filterAshipSpecificArgs } from '../../../src/ansible/utils.js';
+
+describe('filterAshipSpecificArgs', () => {
+  it('should drop aship options and their values', () => {
+    expect(
+      filterAshipSpecificArgs(['--env', 'prod', '--vars-file=a.yml', '--limit', 'web', '--check'])
+    ).toEqual(['--limit', 'web', '--check']);
+  });
+
+  it('should not treat the argument after a boolean option as its value', () => {
+    expect(filterAshipSpecificArgs(['--compact', 'site.yml'])).toEqual(['site.yml']);
+  });
+});
+
+describe('extractAnsibleOptions', () => {
+  it('should keep only Ansible options of the command line', () => {
+    expect(
+      extractAnsibleOptions([
+        'node',
+        'aship',
+        'run',
+        'deploy',
+        '--env',
+        'prod',
+        '--vars-file',
+        'a.yml',
+        '--compact',
+        '--output',
+        'json',
+        '--limit',
+        'web',
+      ])
+    ).toEqual(['--limit', 'web']);
+  });
+});
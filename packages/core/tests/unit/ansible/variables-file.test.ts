@@ -0,0 +1,37 @@
+/**
+ * Tests for the temporary variables file passed to ansible-playbook
+ */
+
+import * as fs from 'node:fs/promises';
+import { load } from 'js-yaml';
+import { describe, expect, it } from 'vitest';
+import { dependencies } from '../../../src/ansible/ansible-executor.js';
+
+describe('generateVariablesFile', () => {
+  it('should write nested values as YAML that round-trips', async () => {
+    const variables = {
+      app_name: 'web',
+      ratio: 0.75,
+      enabled: true,
+      answer: 'yes',
+      template: '{{ inventory_hostname }}',
+      motd: 'line one\nline two',
+      servers: ['a', { name: 'b', port: 8080 }],
+      role_params: { tls: { enabled: true, ciphers: ['TLS_AES_128_GCM_SHA256'] }, empty: {} },
+      unset: undefined,
+    };
+
+    const file = await dependencies.generateVariablesFile(variables);
+    try {
+      const content = await fs.readFile(file, 'utf-8');
+      const { unset: _unset, ...expected } = variables;
+
+      expect(load(content)).toEqual(expected);
+      expect(content).toContain("answer: 'yes'");
+      expect(content).toContain('role_params:\n  tls:\n    enabled: true');
+      expect((await fs.stat(file)).mode & 0o777).toBe(0o600);
+    } finally {
+      await fs.unlink(file);
+    }
+  });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for RunHistory
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DirectoryManager } from '../../../src/config/directory-manager.js';
+import {
+  MASKED_VALUE,
+  RunHistory,
+  maskCommandLine,
+  maskVariables,
+  splitSecretVariables,
+} from '../../../src/history/run-history.js';
+
+describe('RunHistory', () => {
+  let tempDir: string;
+  let directoryManager: DirectoryManager;
+  let history: RunHistory;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aship-history-test-'));
+    directoryManager = new DirectoryManager();
+    directoryManager.setGlobalDir(path.join(tempDir, '.aship'));
+    history = new RunHistory(directoryManager);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('maskVariables', () => {
+    it('should mask password-type and sensitively named variables', () => {
+      const result = maskVariables(
+        { app: 'web', db_password: 'p', admin_pw: 'x', api_key: 'k' },
+        { admin_pw: { type: 'password', required: false } }
+      );
+      expect(result).toEqual({
+        app: 'web',
+        db_password: MASKED_VALUE,
+        admin_pw: MASKED_VALUE,
+        api_key: MASKED_VALUE,
+      });
+    });
+  });
+
+  describe('splitSecretVariables', () => {
+    it('should keep only non-secret values and report secret names', () => {
+      const result = splitSecretVariables(
+        { app: 'web', db_password: 'p', admin_pw: 'x' },
+        { admin_pw: { type: 'password', required: false } }
+      );
+      expect(result).toEqual({ values: { app: 'web' }, secrets: ['db_password', 'admin_pw'] });
+    });
+  });
+
+  describe('maskCommandLine', () => {
+    it('should mask JSON and key=value extra vars', () => {
+      const result = maskCommandLine([
+        'site.yml',
+        '-e',
+        '{"app":"web","token":"abc"}',
+        '--extra-vars',
+        'version=1 secret=s3',
+        '-e',
+        '@vars.json',
+      ]);
+      expect(result[2]).toBe(`{"app":"web","token":"${MASKED_VALUE}"}`);
+      expect(result[4]).toBe(`version=1 secret=${MASKED_VALUE}`);
+      expect(result[6]).toBe('@vars.json');
+    });
+  });
+
+  describe('recording', () => {
+    it('should record metadata and captured output', async () => {
+      const recorder = await history.startRun({
+        command: 'run',
+        project_dir: '/projects/app',
+        playbook: 'site.yml',
+        hosts: ['web1'],
+        tags: ['deploy'],
+      });
+
+      const running = await history.getRun(recorder.id);
+      expect(running?.status).toBe('running');
+
+      recorder.setCommandLine('ansible-playbook', ['site.yml', '-e', '{"db_password":"p"}']);
+      recorder.write('PLAY [all]\n');
+      const record = await recorder.finish(2);
+
+      expect(record.status).toBe('failed');
+      expect(record.exit_code).toBe(2);
+      expect(record.duration_ms).toBeGreaterThanOrEqual(0);
+      expect(record.command_line.join(' ')).not.toContain('"p"');
+
+      const stored = await history.getRun(recorder.id);
+      expect(stored).toEqual(record);
+      expect(await history.readOutput(record)).toBe('PLAY [all]\n');
+
+      const mainLog = await fs.readFile(directoryManager.mainLogFile, 'utf-8');
+      expect(mainLog).toContain(`run ${record.id} site.yml hosts=web1 status=failed exit=2`);
+    });
+  });
+
+  it('should persist the replay descriptor', async () => {
+    const descriptor = {
+      playbook: 'site.yml',
+      hosts: ['web1'],
+      limit: 'web1',
+      tags: ['deploy'],
+      skip_tags: ['slow'],
+      ansible_args: ['--diff'],
+      vars: { app: 'web' },
+      secret_vars: ['db_password'],
+    };
+    const recorder = await history.startRun({
+      command: 'run',
+      project_dir: '/projects/app',
+      playbook: 'site.yml',
+      descriptor,
+    });
+    await recorder.finish(0);
+
+    const stored = await history.getRun('last');
+    expect(stored?.descriptor).toEqual(descriptor);
+  });
+
+  describe('listRuns and getRun', () => {
+    const writeRecord = async (id: string, overrides: Record<string, any> = {}) => {
+      await fs.mkdir(directoryManager.ansibleRunsDir, { recursive: true });
+      const record = {
+        id,
+        command: 'run',
+        status: 'success',
+        project_dir: '/projects/app',
+        playbook: 'site.yml',
+        hosts: ['web1'],
+        started_at: new Date(`${id.slice(0, 4)}-${id.slice(4, 6)}-${id.slice(6, 8)}`).toISOString(),
+        log_file: `${id}.log`,
+        ...overrides,
+      };
+      await fs.writeFile(
+        path.join(directoryManager.ansibleRunsDir, `${id}.json`),
+        JSON.stringify(record)
+      );
+    };
+
+    beforeEach(async () => {
+      await writeRecord('20250601-100000-aaaa');
+      await writeRecord('20250602-100000-bbbb', { status: 'failed', hosts: ['db1'] });
+      await writeRecord('20250603-100000-cccc', {
+        command: 'exec',
+        playbook: undefined,
+        module: 'ping',
+      });
+    });
+
+    it('should list runs newest first', async () => {
+      const runs = await history.listRuns();
+      expect(runs.map(run => run.id)).toEqual([
+        '20250603-100000-cccc',
+        '20250602-100000-bbbb',
+        '20250601-100000-aaaa',
+      ]);
+    });
+
+    it('should filter runs', async () => {
+      expect((await history.listRuns({ status: 'failed' })).map(run => run.id)).toEqual([
+        '20250602-100000-bbbb',
+      ]);
+      expect((await history.listRuns({ host: 'web1', command: 'run' })).map(run => run.id)).toEqual(
+        ['20250601-100000-aaaa']
+      );
+      expect(
+        (await history.listRuns({ since: new Date('2025-06-02') })).map(run => run.id)
+      ).toEqual(['20250603-100000-cccc', '20250602-100000-bbbb']);
+      expect(await history.listRuns({ limit: 1 })).toHaveLength(1);
+    });
+
+    it('should resolve last, exact ids and unique prefixes', async () => {
+      expect((await history.getRun('last'))?.id).toBe('20250603-100000-cccc');
+      expect((await history.getRun('20250602'))?.id).toBe('20250602-100000-bbbb');
+      expect(await history.getRun('nope')).toBeNull();
+      await expect(history.getRun('202506')).rejects.toThrow('ambiguous');
+    });
+
+    it('should skip invalid records', async () => {
+      await fs.writeFile(path.join(directoryManager.ansibleRunsDir, 'broken.json'), '{');
+      expect(await history.listRuns()).toHaveLength(3);
+    });
+  });
+});
@@ -162,6 +162,154 @@ describe('HostManager', () => {
     });
   });
 
+  describe('updateHost', () => {
+    it('should update a host and keep its metadata and usage', async () => {
+      const host = await hostManager.addHost({
+        hostname: 'web.example.com',
+        user: 'deploy',
+        port: 22,
+        source: 'ssh_config',
+      });
+      await hostManager.updateUsage(host.name);
+
+      const updated = await hostManager.updateHost(host.name, {
+        groups: ['web'],
+        labels: { env: 'prod' },
+      });
+
+      expect(updated.groups).toEqual(['web']);
+      expect(updated.labels).toEqual({ env: 'prod' });
+      expect(updated.created_at).toBe(host.created_at);
+      expect(updated.source).toBe('ssh_config');
+      expect((await hostManager.getUsageHistory())[host.name]?.use_count).toBe(1);
+    });
+
+    it('should reject invalid updates without changing the host', async () => {
+      const host = await hostManager.addHost({
+        hostname: 'web.example.com',
+        user: 'deploy',
+        port: 22,
+        source: 'manual',
+      });
+
+      await expect(hostManager.updateHost(host.name, { groups: ['not valid'] })).rejects.toThrow(
+        'Invalid host'
+      );
+      expect((await hostManager.getHost(host.name))?.groups).toBeUndefined();
+    });
+
+    it('should resolve host selectors to host names', async () => {
+      await hostManager.addHost({
+        hostname: 'web.example.com',
+        user: 'deploy',
+        port: 22,
+        source: 'manual',
+        groups: ['web'],
+      });
+
+      expect(await hostManager.resolveHostSelectors(['@web'])).toEqual(['web.example.com']);
+    });
+  });
+
+  describe('jump hosts', () => {
+    it('should resolve jump hosts that reference saved hosts', async () => {
+      await hostManager.addHost(
+        { hostname: 'bastion.example.com', user: 'jump', port: 2222, source: 'manual' },
+        'bastion'
+      );
+      const host = await hostManager.addHost(
+        { hostname: '10.0.1.5', user: 'deploy', port: 22, source: 'manual', jump_host: 'bastion' },
+        'db'
+      );
+
+      expect(await hostManager.resolveJumpHosts(host)).toEqual([
+        { hostname: 'bastion.example.com', port: 2222, user: 'jump' },
+      ]);
+    });
+
+    it('should reject jump host cycles and invalid specs', async () => {
+      await hostManager.addHost(
+        { hostname: 'a.example.com', user: 'deploy', port: 22, source: 'manual' },
+        'a'
+      );
+      await hostManager.addHost(
+        { hostname: 'b.example.com', user: 'deploy', port: 22, source: 'manual', jump_host: 'a' },
+        'b'
+      );
+
+      await expect(hostManager.updateHost('a', { jump_host: 'b' })).rejects.toThrow(
+        'Jump host cycle detected: a -> b -> a'
+      );
+      await expect(hostManager.updateHost('a', { jump_host: 'bastion:ssh' })).rejects.toThrow(
+        'Invalid host "a": jump_host:'
+      );
+    });
+  });
+
+  describe('host groups', () => {
+    it('should save group variables without touching the hosts', async () => {
+      await hostManager.addHost({
+        hostname: 'web.example.com',
+        user: 'deploy',
+        port: 22,
+        source: 'manual',
+        groups: ['web'],
+      });
+
+      await hostManager.updateGroup('web', { vars: { ansible_become: true } });
+
+      const reloaded = new HostManager(directoryManager);
+      expect(await reloaded.getGroup('web')).toEqual({ vars: { ansible_become: true } });
+      expect(await reloaded.getHost('web.example.com')).not.toBeNull();
+    });
+
+    it('should keep group variables when hosts change', async () => {
+      await hostManager.updateGroup('web', { vars: { app_port: 8080 } });
+      const host = await hostManager.addHost({
+        hostname: 'web.example.com',
+        user: 'deploy',
+        port: 22,
+        source: 'manual',
+      });
+      await hostManager.updateHost(host.name, { description: 'Web server' });
+      await hostManager.removeHost(host.name);
+
+      expect(await new HostManager(directoryManager).getGroups()).toEqual({
+        web: { vars: { app_port: 8080 } },
+      });
+    });
+
+    it('should remove groups without variables', async () => {
+      await hostManager.updateGroup('web', { vars: { app_port: 8080 } });
+      await hostManager.updateGroup('web', { vars: undefined });
+
+      expect(await hostManager.getGroup('web')).toBeNull();
+    });
+
+    it('should reject invalid group names', async () => {
+      await expect(hostManager.updateGroup('not valid', { vars: {} })).rejects.toThrow(
+        'Invalid group name "not valid"'
+      );
+    });
+
+    it('should resolve effective host variables', async () => {
+      await hostManager.addHost({
+        hostname: 'web.example.com',
+        user: 'deploy',
+        port: 22,
+        source: 'manual',
+        groups: ['web'],
+        host_vars: { app_port: 9090 },
+      });
+      await hostManager.updateGroup('web', { vars: { app_port: 8080, ansible_become: true } });
+
+      expect(await hostManager.getEffectiveHostVars('web.example.com')).toEqual({
+        app_port: 9090,
+        ansible_become: true,
+      });
+    });
+  });
+
   describe('removeHost', () => {
     it('should remove an existing host', async () => {
       const hostData = {
@@ -316,4 +464,110 @@ describe('HostManager', () => {
       expect(savedChoice?.user).toBe('saveduser');
     });
   });
+  describe('invalid entries', () => {
+    const validHost = {
+      name: 'good-host',
+      hostname: 'good.example.com',
+      user: 'deploy',
+      port: 22,
+      created_at: '2023-01-01T00:00:00.000Z',
+      source: 'manual',
+    };
+
+    const writeHosts = async (hosts: Record<string, unknown>) => {
+      await fs.writeFile(directoryManager.hostsFile, JSON.stringify({ hosts }, null, 2));
+    };
+
+    const listBackups = async (fileName: string) =>
+      (await fs.readdir(directoryManager.globalDir)).filter(
+        file => file.startsWith(`${fileName}.`) && file.endsWith('.bak')
+      );
+
+    it('should keep valid hosts and leave the file untouched when reading', async () => {
+      await writeHosts({
+        'good-host': validHost,
+        'bad-host': { name: 'bad-host', hostname: 'bad.example.com', port: 'ssh' },
+      });
+      const original = await fs.readFile(directoryManager.hostsFile, 'utf-8');
+
+      const hosts = await hostManager.getHosts();
+
+      expect(hosts.map(host => host.name)).toEqual(['good-host']);
+      expect(await fs.readFile(directoryManager.hostsFile, 'utf-8')).toBe(original);
+    });
+
+    it('should not overwrite an unparsable hosts file when reading', async () => {
+      await fs.writeFile(directoryManager.hostsFile, 'hosts: [unclosed');
+
+      expect(await hostManager.getHosts()).toEqual([]);
+      expect(await fs.readFile(directoryManager.hostsFile, 'utf-8')).toBe('hosts: [unclosed');
+    });
+
+    it('should back up the file before writing over invalid entries', async () => {
+      await writeHosts({
+        'good-host': validHost,
+        'bad-host': { name: 'bad-host' },
+      });
+      const original = await fs.readFile(directoryManager.hostsFile, 'utf-8');
+
+      await hostManager.addHost({
+        hostname: 'new.example.com',
+        user: 'deploy',
+        port: 22,
+        source: 'manual',
+      });
+
+      const backups = await listBackups(path.basename(directoryManager.hostsFile));
+      expect(backups).toHaveLength(1);
+      expect(
+        await fs.readFile(path.join(directoryManager.globalDir, backups[0]), 'utf-8')
+      ).toBe(original);
+      expect((await hostManager.getHosts()).map(host => host.name)).toEqual([
+        'good-host',
+        'new.example.com',
+      ]);
+    });
+
+    it('should not wipe usage history with invalid entries when reading', async () => {
+      const usage = {
+        'good-host': { first_used: 'a', last_used: 'b', use_count: 2 },
+        'bad-host': { use_count: -1 },
+      };
+      await fs.writeFile(directoryManager.hostUsageFile, JSON.stringify(usage));
+
+      const history = await hostManager.getUsageHistory();
+
+      expect(Object.keys(history)).toEqual(['good-host']);
+      expect(JSON.parse(await fs.readFile(directoryManager.hostUsageFile, 'utf-8'))).toEqual(
+        usage
+      );
+    });
+
+    it('should diagnose and repair broken entries', async () => {
+      await writeHosts({
+        'good-host': validHost,
+        'renamed-host': { ...validHost, name: 'old-name' },
+        'bad-host': { name: 'bad-host' },
+      });
+      await fs.writeFile(directoryManager.hostUsageFile, '{ not json');
+
+      const diagnosis = await hostManager.diagnose();
+      expect(diagnosis.healthy).toBe(false);
+      expect(diagnosis.validHosts).toEqual(['good-host']);
+      expect(diagnosis.invalidHosts.map(entry => [entry.key, entry.fixable])).toEqual([
+        ['renamed-host', true],
+        ['bad-host', false],
+      ]);
+      expect(diagnosis.usageFileErrors).toHaveLength(1);
+
+      const result = await hostManager.repair();
+      expect(result.fixed).toEqual(['renamed-host']);
+      expect(result.removed).toEqual(['bad-host']);
+      expect(result.backups).toHaveLength(2);
+
+      expect((await hostManager.diagnose()).healthy).toBe(true);
+      expect((await hostManager.getHost('renamed-host'))?.name).toBe('renamed-host');
+      expect(await hostManager.getHost('bad-host')).toBeNull();
+    });
+  });
 });
@@ -0,0 +1,87 @@
+/**
+ * Tests for host selectors
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  formatLabels,
+  parseHostSelector,
+  parseLabels,
+  selectHosts,
+} from '../../../src/host/host-selector.js';
+import type { HostConfig } from '../../../src/schemas/host-config.js';
+
+const createHost = (name: string, extra: Partial<HostConfig> = {}): HostConfig => ({
+  name,
+  hostname: `${name}.example.com`,
+  user: 'deploy',
+  port: 22,
+  created_at: '2023-01-01T00:00:00.000Z',
+  source: 'manual',
+  ...extra,
+});
+
+describe('host selectors', () => {
+  const hosts = [
+    createHost('web-1', { groups: ['web'], labels: { env: 'prod' } }),
+    createHost('web-2', { groups: ['web'], labels: { env: 'staging' } }),
+    createHost('db-1', { groups: ['db'], labels: { env: 'prod' } }),
+    createHost('bastion'),
+  ];
+
+  describe('parseHostSelector', () => {
+    it('should parse names, groups and labels', () => {
+      expect(parseHostSelector('web-1')).toEqual({ type: 'name', name: 'web-1' });
+      expect(parseHostSelector(' @web ')).toEqual({ type: 'group', group: 'web' });
+      expect(parseHostSelector('env=prod')).toEqual({ type: 'label', key: 'env', value: 'prod' });
+    });
+
+    it('should reject incomplete selectors', () => {
+      expect(() => parseHostSelector('@')).toThrow('group name is missing');
+      expect(() => parseHostSelector('=prod')).toThrow('label key is missing');
+    });
+  });
+
+  describe('selectHosts', () => {
+    const names = (selected: HostConfig[]) => selected.map(host => host.name);
+
+    it('should select hosts by group', () => {
+      expect(names(selectHosts(hosts, ['@web']))).toEqual(['web-1', 'web-2']);
+    });
+
+    it('should select hosts by label', () => {
+      expect(names(selectHosts(hosts, ['env=prod']))).toEqual(['web-1', 'db-1']);
+    });
+
+    it('should combine selectors without duplicates', () => {
+      expect(names(selectHosts(hosts, ['@web', 'env=prod', 'bastion']))).toEqual([
+        'web-1',
+        'web-2',
+        'db-1',
+        'bastion',
+      ]);
+    });
+
+    it('should fail for unknown hosts and selectors without matches', () => {
+      expect(() => selectHosts(hosts, ['missing'])).toThrow(
+        "Host 'missing' not found in aship configuration"
+      );
+      expect(() => selectHosts(hosts, ['@cache'])).toThrow(
+        "No aship hosts match selector '@cache'"
+      );
+    });
+  });
+
+  describe('labels', () => {
+    it('should parse and format key=value labels', () => {
+      const labels = parseLabels(['env=prod', 'role = db', 'note=a=b']);
+      expect(labels).toEqual({ env: 'prod', role: 'db', note: 'a=b' });
+      expect(formatLabels(labels)).toBe('env=prod, role=db, note=a=b');
+    });
+
+    it('should reject labels without a key', () => {
+      expect(() => parseLabels(['prod'])).toThrow('expected key=value');
+      expect(() => parseLabels(['=prod'])).toThrow('expected key=value');
+    });
+  });
+});
@@ -0,0 +1,75 @@
+/**
+ * Tests for host variables
+ */
+
+import { describe, expect, it } from 'vitest';
+import { formatHostVarValue, parseHostVars, resolveHostVars } from '../../../src/host/host-vars.js';
+import type { HostConfig } from '../../../src/schemas/host-config.js';
+
+const createHost = (extra: Partial<HostConfig> = {}): HostConfig => ({
+  name: 'web-1',
+  hostname: 'web-1.example.com',
+  user: 'deploy',
+  port: 22,
+  created_at: '2023-01-01T00:00:00.000Z',
+  source: 'manual',
+  ...extra,
+});
+
+describe('host variables', () => {
+  describe('parseHostVars', () => {
+    it('should parse JSON values and fall back to strings', () => {
+      expect(
+        parseHostVars([
+          'ansible_become=true',
+          'app_port=8080',
+          'ansible_python_interpreter=/usr/bin/python3',
+          'users=["alice","bob"]',
+          'dsn=postgres://db?sslmode=require',
+        ])
+      ).toEqual({
+        ansible_become: true,
+        app_port: 8080,
+        ansible_python_interpreter: '/usr/bin/python3',
+        users: ['alice', 'bob'],
+        dsn: 'postgres://db?sslmode=require',
+      });
+    });
+
+    it('should reject assignments without a key', () => {
+      expect(() => parseHostVars(['=value'])).toThrow('Invalid variable "=value"');
+      expect(() => parseHostVars(['novalue'])).toThrow('expected key=value');
+    });
+  });
+
+  describe('resolveHostVars', () => {
+    const groups = {
+      web: { vars: { app_port: 8080, ansible_become: true } },
+      canary: { vars: { app_port: 9090 } },
+    };
+
+    it('should apply group variables in group order and let host variables win', () => {
+      expect(resolveHostVars(createHost({ groups: ['web', 'canary'] }), groups)).toEqual({
+        app_port: 9090,
+        ansible_become: true,
+      });
+      expect(
+        resolveHostVars(
+          createHost({ groups: ['web', 'canary'], host_vars: { app_port: 7070 } }),
+          groups
+        )
+      ).toEqual({ app_port: 7070, ansible_become: true });
+    });
+
+    it('should ignore groups without configuration', () => {
+      expect(resolveHostVars(createHost({ groups: ['db'] }), groups)).toEqual({});
+      expect(resolveHostVars(createHost())).toEqual({});
+    });
+  });
+
+  it('should format values for display', () => {
+    expect(formatHostVarValue('/usr/bin/python3')).toBe('/usr/bin/python3');
+    expect(formatHostVarValue(true)).toBe('true');
+    expect(formatHostVarValue({ a: 1 })).toBe('{"a":1}');
+  });
+});
@@ -0,0 +1,47 @@
+/**
+ * Tests for environments in aship.yml
+ */
+
+import { describe, expect, it } from 'vitest';
+import { validateProjectConfig } from '../../../src/schemas/project-config.js';
+import { RunDescriptorSchema } from '../../../src/schemas/run-record.js';
+
+describe('environments', () => {
+  it('should accept environments with hosts, inventory, variables and tags', () => {
+    const result = validateProjectConfig({
+      name: 'app',
+      environments: {
+        staging: { hosts: '@staging', vars: { replicas: 1 } },
+        prod: {
+          description: 'Production',
+          hosts: ['@web', 'db-1'],
+          inventory: 'inventories/prod.yml',
+          inventory_mode: 'merge',
+          vars: { replicas: 3, features: ['ha'] },
+          tags: ['app'],
+        },
+      },
+    });
+
+    expect(result.success).toBe(true);
+    expect(result.data?.environments?.prod.inventory_mode).toBe('merge');
+  });
+
+  it('should reject unknown options and invalid inventory modes', () => {
+    const result = validateProjectConfig({
+      name: 'app',
+      environments: {
+        prod: { inventory_mode: 'append', limit: 'web' },
+      },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toHaveLength(2);
+  });
+
+  it('should record the environment of a run', () => {
+    const descriptor = RunDescriptorSchema.parse({ playbook: 'deploy.yml', environment: 'prod' });
+
+    expect(descriptor.environment).toBe('prod');
+  });
+});
@@ -3,7 +3,13 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { normalizeTagsConfig, type TagsConfig } from '../../../src/schemas/project-config.js';
+import {
+  normalizeTagsConfig,
+  resolveTagSelection,
+  type TagsConfig,
+  validateProjectConfig,
+  validateTagsConfig,
+} from '../../../src/schemas/project-config.js';
 
 describe('normalizeTagsConfig', () => {
   it('should handle empty/null config', () => {
@@ -11,18 +17,21 @@ describe('normalizeTagsConfig', () => {
       tags: {},
       default: [],
       groups: {},
+      skip: {},
     });
 
     expect(normalizeTagsConfig(null as any)).toEqual({
       tags: {},
       default: [],
       groups: {},
+      skip: {},
     });
 
     expect(normalizeTagsConfig(undefined as any)).toEqual({
       tags: {},
       default: [],
       groups: {},
+      skip: {},
     });
   });
 
@@ -43,6 +52,7 @@ describe('normalizeTagsConfig', () => {
       },
       default: [],
       groups: {},
+      skip: {},
     });
   });
 
@@ -61,6 +71,7 @@ describe('normalizeTagsConfig', () => {
       },
       default: [],
       groups: {},
+      skip: {},
     });
   });
 
@@ -80,6 +91,7 @@ describe('normalizeTagsConfig', () => {
       },
       default: ['setup'],
       groups: {},
+      skip: {},
     });
   });
 
@@ -105,6 +117,7 @@ describe('normalizeTagsConfig', () => {
         quick: ['setup'],
         full: ['setup', 'deploy', 'cleanup'],
       },
+      skip: {},
     });
   });
 
@@ -142,6 +155,7 @@ describe('normalizeTagsConfig', () => {
         full: ['setup', 'deploy', 'monitoring'],
         maintenance: ['cleanup', 'restart'],
       },
+      skip: {},
     });
   });
 
@@ -166,6 +180,7 @@ describe('normalizeTagsConfig', () => {
         production: ['web', 'database', 'cache'],
         development: ['web'],
       },
+      skip: {},
     });
   });
 
@@ -186,6 +201,7 @@ describe('normalizeTagsConfig', () => {
       },
       default: [],
       groups: {},
+      skip: {},
     });
   });
 
@@ -227,6 +243,7 @@ describe('normalizeTagsConfig', () => {
         full: ['common', 'security', 'monitoring', 'backup'],
         maintenance_mode: ['maintenance', 'backup'],
       },
+      skip: {},
     });
   });
 
@@ -249,6 +266,67 @@ describe('normalizeTagsConfig', () => {
       groups: {
         valid_list: ['tag1', 'tag2'],
       },
+      skip: {},
     });
   });
 });
+
+describe('nested tag groups', () => {
+  const config: TagsConfig = {
+    info: 'Display information',
+    setup: 'Setup environment',
+    deploy: 'Deploy services',
+    restart: 'Restart services',
+    test: 'Run tests',
+    default: ['basic'],
+    basic: ['info', 'setup'],
+    extended: ['basic', 'deploy'],
+    safe: { tags: ['extended'], skip: ['restart'] },
+    no_tests: { skip: ['test'] },
+    careful: ['safe', 'no_tests'],
+  };
+
+  it('should expand groups that include other groups', () => {
+    const result = normalizeTagsConfig(config);
+
+    expect(result.default).toEqual(['info', 'setup']);
+    expect(result.groups.extended).toEqual(['info', 'setup', 'deploy']);
+    expect(result.groups.careful).toEqual(['info', 'setup', 'deploy']);
+  });
+
+  it('should collect skipped tags of groups and included groups', () => {
+    expect(normalizeTagsConfig(config).skip).toEqual({
+      safe: ['restart'],
+      no_tests: ['test'],
+      careful: ['restart', 'test'],
+    });
+  });
+
+  it('should expand groups in skip lists to their tags', () => {
+    expect(resolveTagSelection({ ...config, lean: { tags: ['deploy'], skip: ['basic'] } }, ['lean'])).toEqual({
+      tags: ['deploy'],
+      skip: ['info', 'setup'],
+    });
+  });
+
+  it('should resolve tag and group names', () => {
+    expect(resolveTagSelection(config, ['safe', 'test'])).toEqual({
+      tags: ['info', 'setup', 'deploy', 'test'],
+      skip: ['restart'],
+    });
+  });
+
+  it('should not loop on cycles and report them once', () => {
+    const cyclic: TagsConfig = { a: ['b', 'deploy'], b: ['c'], c: ['a'], self: { skip: ['self'] } };
+
+    expect(normalizeTagsConfig(cyclic).groups.a).toEqual(['deploy']);
+    expect(validateTagsConfig(cyclic)).toEqual([
+      { path: ['tags', 'a'], message: 'Circular tag group: a -> b -> c -> a' },
+      { path: ['tags', 'self'], message: 'Circular tag group: self -> self' },
+    ]);
+    expect(validateProjectConfig({ name: 'app', tags: cyclic }).errors).toEqual([
+      'tags.a: Circular tag group: a -> b -> c -> a',
+      'tags.self: Circular tag group: self -> self',
+    ]);
+  });
+});
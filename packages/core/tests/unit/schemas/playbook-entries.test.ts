@@ -0,0 +1,124 @@
+/**
+ * Tests for structured playbook entries in aship.yml
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+  type ProjectConfig,
+  applyPlaybookScope,
+  normalizePlaybookEntry,
+  validateProjectConfig,
+} from '../../../src/schemas/project-config.js';
+
+describe('playbook entries', () => {
+  it('should accept plain paths and structured entries', () => {
+    const result = validateProjectConfig({
+      name: 'app',
+      playbooks: {
+        setup: 'site.yml',
+        deploy: {
+          path: 'playbooks/deploy.yml',
+          description: 'Deploy the application',
+          hosts: '@web',
+          confirm: 'Deploy to production?',
+        },
+      },
+    });
+
+    expect(result.success).toBe(true);
+  });
+
+  it('should reject entries without a path and unknown options', () => {
+    const result = validateProjectConfig({
+      name: 'app',
+      playbooks: { deploy: { description: 'Deploy', retries: 3 } },
+    });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should normalize entries', () => {
+    expect(normalizePlaybookEntry('site.yml')).toEqual({ path: 'site.yml' });
+    expect(normalizePlaybookEntry({ path: 'deploy.yml', hosts: '@web, db-1' })).toEqual({
+      path: 'deploy.yml',
+      hosts: ['@web', 'db-1'],
+    });
+  });
+
+  it('should reject undefined playbook variables and missing dependencies', () => {
+    const result = validateProjectConfig({
+      name: 'app',
+      vars: {
+        enable_ssl: { type: 'bool' },
+        ssl_cert_path: { type: 'string', when: 'enable_ssl' },
+      },
+      playbooks: {
+        deploy: { path: 'deploy.yml', vars: ['ssl_cert_path', 'version'] },
+      },
+    });
+
+    expect(result.errors).toEqual([
+      'playbooks.deploy.vars.0: "ssl_cert_path" depends on "enable_ssl", which is not in the playbook vars',
+      'playbooks.deploy.vars.1: References undefined variable "version"',
+    ]);
+  });
+
+  describe('applyPlaybookScope', () => {
+    const config: ProjectConfig = {
+      name: 'app',
+      vars: {
+        version: { type: 'string', required: true },
+        db_password: { type: 'password', required: true },
+      },
+      tags: {
+        app: 'Application deployment',
+        db: 'Database operations',
+        tags: ['restart'],
+        default: ['app', 'db'],
+        full: ['app', 'db'],
+        database: ['db'],
+      },
+    };
+
+    it('should keep the configuration when the playbook declares no vars or tags', () => {
+      expect(applyPlaybookScope(config, { path: 'site.yml' })).toEqual(config);
+    });
+
+    it('should limit variables and tags to the playbook', () => {
+      const scoped = applyPlaybookScope(config, {
+        path: 'deploy.yml',
+        vars: ['version'],
+        tags: ['app', 'restart'],
+      });
+
+      expect(Object.keys(scoped.vars || {})).toEqual(['version']);
+      expect(scoped.tags).toEqual({
+        app: 'Application deployment',
+        restart: 'restart',
+        default: ['app'],
+        full: ['app'],
+      });
+    });
+
+    it('should drop groups with skip tags but none of the playbook tags', () => {
+      const scoped = applyPlaybookScope(
+        {
+          name: 'app',
+          tags: {
+            app: 'Application deployment',
+            db: 'Database operations',
+            quick: { tags: ['app'], skip: ['slow'] },
+            nodb: { skip: ['db'] },
+            migrate: { tags: ['db'], skip: ['backup'] },
+          },
+        },
+        { path: 'deploy.yml', tags: ['app'] }
+      );
+
+      expect(scoped.tags).toEqual({
+        app: 'Application deployment',
+        quick: { tags: ['app'], skip: ['slow'] },
+      });
+    });
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Tests for variable definition and value schemas
+ */
+
+import * as os from 'node:os';
+import { describe, expect, it } from 'vitest';
+import {
+  type VariableDefinition,
+  VariableDefinitionSchema,
+  validateVariableValue,
+} from '../../../src/schemas/variables.js';
+
+const define = (type: VariableDefinition['type'], extra: Partial<VariableDefinition> = {}) =>
+  ({ type, required: true, ...extra }) as VariableDefinition;
+
+describe('variable schemas', () => {
+  it('should accept min/max for int and float variables only', () => {
+    expect(VariableDefinitionSchema.safeParse({ type: 'float', min: 0, max: 1 }).success).toBe(
+      true
+    );
+    expect(VariableDefinitionSchema.safeParse({ type: 'url', min: 0 }).success).toBe(false);
+  });
+
+  it('should validate float values', () => {
+    expect(validateVariableValue(define('float', { min: 0, max: 1 }), 0.25).success).toBe(true);
+    expect(validateVariableValue(define('float', { max: 1 }), 1.5).success).toBe(false);
+    expect(validateVariableValue(define('float'), '0.5').success).toBe(false);
+  });
+
+  it('should require paths to exist locally', () => {
+    expect(validateVariableValue(define('path'), os.tmpdir()).success).toBe(true);
+    expect(validateVariableValue(define('path'), '~').success).toBe(true);
+    expect(validateVariableValue(define('path'), '/definitely/not/here')).toEqual({
+      success: false,
+      error: 'Path does not exist',
+    });
+  });
+
+  it('should validate URLs, email addresses, IP addresses and CIDRs', () => {
+    expect(validateVariableValue(define('url'), 'https://example.com/app').success).toBe(true);
+    expect(validateVariableValue(define('url'), 'example.com').success).toBe(false);
+    expect(validateVariableValue(define('email'), 'ops@example.com').success).toBe(true);
+    expect(validateVariableValue(define('email'), 'ops@').success).toBe(false);
+    expect(validateVariableValue(define('ip'), '10.0.0.1').success).toBe(true);
+    expect(validateVariableValue(define('ip'), '2001:db8::1').success).toBe(true);
+    expect(validateVariableValue(define('ip'), '10.0.0.256').success).toBe(false);
+    expect(validateVariableValue(define('cidr'), '10.0.0.0/8').success).toBe(true);
+    expect(validateVariableValue(define('cidr'), '10.0.0.0/33').success).toBe(false);
+  });
+
+  it('should validate dict and json values', () => {
+    expect(validateVariableValue(define('dict'), { port: 80, tls: { enabled: true } }).success).toBe(
+      true
+    );
+    expect(validateVariableValue(define('dict'), ['a']).success).toBe(false);
+    expect(validateVariableValue(define('json'), ['a', { b: 1 }]).success).toBe(true);
+    expect(validateVariableValue(define('json'), null).success).toBe(true);
+    expect(validateVariableValue(define('json', { required: false }), undefined).success).toBe(
+      true
+    );
+  });
+});
@@ -0,0 +1,118 @@
+/**
+ * Tests for jump host support
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { HostConfig } from '../../../src/schemas/host-config.js';
+import {
+  formatJumpHost,
+  getJumpHostSshOptions,
+  parseJumpHostSpec,
+  resolveJumpHosts,
+} from '../../../src/ssh/jump-host.js';
+
+const createHost = (name: string, extra: Partial<HostConfig> = {}): HostConfig => ({
+  name,
+  hostname: `${name}.example.com`,
+  user: 'deploy',
+  port: 22,
+  created_at: '2023-01-01T00:00:00.000Z',
+  source: 'manual',
+  ...extra,
+});
+
+describe('jump hosts', () => {
+  describe('parseJumpHostSpec', () => {
+    it('should parse user, host and port', () => {
+      expect(parseJumpHostSpec('bastion.example.com')).toEqual({
+        hostname: 'bastion.example.com',
+        port: 22,
+      });
+      expect(parseJumpHostSpec('jump@10.0.0.1:2222')).toEqual({
+        hostname: '10.0.0.1',
+        port: 2222,
+        user: 'jump',
+      });
+    });
+
+    it('should parse IPv6 addresses', () => {
+      expect(parseJumpHostSpec('[2001:db8::1]:2222')).toEqual({ hostname: '2001:db8::1', port: 2222 });
+      expect(parseJumpHostSpec('2001:db8::1')).toEqual({ hostname: '2001:db8::1', port: 22 });
+    });
+
+    it('should reject invalid specs', () => {
+      expect(() => parseJumpHostSpec('bastion:ssh')).toThrow('invalid port "ssh"');
+      expect(() => parseJumpHostSpec('@bastion')).toThrow('user is missing');
+      expect(() => parseJumpHostSpec('jump@')).toThrow('host is missing');
+    });
+  });
+
+  it('should format jump hosts in ProxyJump syntax', () => {
+    expect(formatJumpHost({ hostname: 'bastion', port: 22, user: 'jump' })).toBe('jump@bastion');
+    expect(formatJumpHost({ hostname: '2001:db8::1', port: 2222 })).toBe('[2001:db8::1]:2222');
+  });
+
+  describe('resolveJumpHosts', () => {
+    it('should resolve aship host references and nested jump hosts', () => {
+      const hosts = [
+        createHost('edge', { user: 'edge', port: 2222, identity_file: '/keys/edge' }),
+        createHost('bastion', { jump_host: 'edge' }),
+      ];
+
+      expect(
+        resolveJumpHosts({ name: 'db', jump_host: 'bastion, admin@inner.example.com' }, hosts)
+      ).toEqual([
+        { hostname: 'edge.example.com', port: 2222, user: 'edge', identity_file: '/keys/edge' },
+        { hostname: 'bastion.example.com', port: 22, user: 'deploy' },
+        { hostname: 'inner.example.com', port: 22, user: 'admin' },
+      ]);
+    });
+
+    it('should return no hops for hosts without a jump host', () => {
+      expect(resolveJumpHosts({ name: 'db' }, [])).toEqual([]);
+    });
+
+    it('should detect cycles', () => {
+      const hosts = [createHost('a', { jump_host: 'b' }), createHost('b', { jump_host: 'a' })];
+
+      expect(() => resolveJumpHosts(hosts[0], hosts)).toThrow(
+        'Jump host cycle detected: a -> b -> a'
+      );
+    });
+  });
+
+  it('should build ssh options', () => {
+    expect(getJumpHostSshOptions()).toEqual([]);
+    expect(
+      getJumpHostSshOptions([
+        { hostname: 'bastion', port: 22, user: 'jump' },
+        { hostname: 'inner', port: 2200 },
+      ])
+    ).toEqual(['-J', 'jump@bastion,inner:2200']);
+  });
+
+  it('should pass host key options to every hop', () => {
+    const hostKeyOptions = ['-o', 'StrictHostKeyChecking=yes', '-o', 'UserKnownHostsFile="/k"'];
+    expect(
+      getJumpHostSshOptions([{ hostname: 'bastion', port: 22, user: 'jump' }], hostKeyOptions)
+    ).toEqual([
+      '-o',
+      `'ProxyCommand=ssh -o StrictHostKeyChecking=yes -o UserKnownHostsFile="/k" -p 22 -W %h:%p jump@bastion'`,
+    ]);
+  });
+
+  it('should chain hops with identity files through ProxyCommand', () => {
+    expect(
+      getJumpHostSshOptions([{ hostname: 'bastion', port: 22, user: 'jump', identity_file: '/keys/b' }])
+    ).toEqual(['-o', "'ProxyCommand=ssh -i '\\''/keys/b'\\'' -p 22 -W %h:%p jump@bastion'"]);
+
+    // The second hop connects through the first, its % tokens are expanded by the inner ssh
+    const [, proxyCommand] = getJumpHostSshOptions([
+      { hostname: 'edge', port: 2222, identity_file: '/keys/edge' },
+      { hostname: 'inner', port: 22, user: 'admin' },
+    ]);
+    expect(proxyCommand).toBe(
+      "'ProxyCommand=ssh -o '\\''ProxyCommand=ssh -i '\\''\\'\\'''\\''/keys/edge'\\''\\'\\'''\\'' -p 2222 -W %%h:%%p edge'\\'' -p 22 -W %h:%p admin@inner'"
+    );
+  });
+});
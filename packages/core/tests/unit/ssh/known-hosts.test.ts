@@ -0,0 +1,150 @@
+/**
+ * Tests for KnownHostsManager and host key policy helpers
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DirectoryManager } from '../../../src/config/directory-manager.js';
+import {
+  KnownHostsManager,
+  computeFingerprint,
+  formatHostPattern,
+  getHostKeySshOptions,
+  resolveHostKeyPolicy,
+} from '../../../src/ssh/known-hosts.js';
+
+/**
+ * Build a fake public key blob in SSH wire format
+ */
+function makeKey(type: string, payload: string): Buffer {
+  const typeBuffer = Buffer.from(type, 'ascii');
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(typeBuffer.length, 0);
+  return Buffer.concat([length, typeBuffer, Buffer.from(payload)]);
+}
+
+describe('KnownHostsManager', () => {
+  let tempDir: string;
+  let directoryManager: DirectoryManager;
+  let knownHosts: KnownHostsManager;
+
+  const key = makeKey('ssh-ed25519', 'first-key');
+  const otherKey = makeKey('ssh-ed25519', 'second-key');
+  const rsaKey = makeKey('ssh-rsa', 'rsa-key');
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aship-known-hosts-test-'));
+    directoryManager = new DirectoryManager();
+    directoryManager.setGlobalDir(path.join(tempDir, '.aship'));
+    knownHosts = new KnownHostsManager(directoryManager);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('helpers', () => {
+    it('should resolve the host policy before the project policy and default to tofu', () => {
+      expect(resolveHostKeyPolicy('off', 'strict')).toBe('off');
+      expect(resolveHostKeyPolicy(undefined, 'strict')).toBe('strict');
+      expect(resolveHostKeyPolicy()).toBe('tofu');
+    });
+
+    it('should build SSH options for each policy', () => {
+      expect(getHostKeySshOptions('off', '/k').join(' ')).toBe(
+        '-o StrictHostKeyChecking=no -o UserKnownHostsFile=/dev/null'
+      );
+      expect(getHostKeySshOptions('tofu', '/k').join(' ')).toBe(
+        '-o StrictHostKeyChecking=accept-new -o UserKnownHostsFile="/k"'
+      );
+      expect(getHostKeySshOptions('strict', '/k').join(' ')).toBe(
+        '-o StrictHostKeyChecking=yes -o UserKnownHostsFile="/k"'
+      );
+    });
+
+    it('should format host patterns like OpenSSH', () => {
+      expect(formatHostPattern('example.com')).toBe('example.com');
+      expect(formatHostPattern('example.com', 2222)).toBe('[example.com]:2222');
+    });
+
+    it('should compute unpadded SHA256 fingerprints', () => {
+      const fingerprint = computeFingerprint(key);
+      expect(fingerprint).toMatch(/^SHA256:[A-Za-z0-9+/]+$/);
+      expect(fingerprint).not.toBe(computeFingerprint(otherKey));
+    });
+  });
+
+  describe('check', () => {
+    it('should report unknown hosts', async () => {
+      const result = await knownHosts.check('example.com', 22, key);
+      expect(result.status).toBe('unknown');
+      expect(result.knownFingerprints).toEqual([]);
+    });
+
+    it('should match recorded keys and detect changed keys', async () => {
+      await knownHosts.add('example.com', 22, key);
+
+      expect((await knownHosts.check('example.com', 22, key)).status).toBe('match');
+
+      const mismatch = await knownHosts.check('example.com', 22, otherKey);
+      expect(mismatch.status).toBe('mismatch');
+      expect(mismatch.knownFingerprints).toEqual([computeFingerprint(key)]);
+    });
+
+    it('should only compare keys of the same type', async () => {
+      await knownHosts.add('example.com', 22, key);
+
+      expect((await knownHosts.check('example.com', 22, rsaKey)).status).toBe('unknown');
+    });
+
+    it('should keep keys for different ports apart', async () => {
+      await knownHosts.add('example.com', 2222, key);
+
+      expect((await knownHosts.check('example.com', 22, key)).status).toBe('unknown');
+      expect((await knownHosts.check('example.com', 2222, key)).status).toBe('match');
+    });
+  });
+
+  describe('add and remove', () => {
+    it('should write OpenSSH formatted entries readable by the owner only', async () => {
+      await knownHosts.add('example.com', 2222, key);
+
+      const content = await fs.readFile(knownHosts.filePath, 'utf-8');
+      expect(content).toBe(`[example.com]:2222 ssh-ed25519 ${key.toString('base64')}\n`);
+
+      if (process.platform !== 'win32') {
+        const stat = await fs.stat(knownHosts.filePath);
+        expect(stat.mode & 0o777).toBe(0o600);
+      }
+    });
+
+    it('should skip comments, markers and hashed entries', async () => {
+      await fs.mkdir(directoryManager.getGlobalDir(), { recursive: true });
+      await fs.writeFile(
+        knownHosts.filePath,
+        [
+          '# comment',
+          `@revoked example.com ssh-ed25519 ${key.toString('base64')}`,
+          `|1|salt|hash ssh-ed25519 ${key.toString('base64')}`,
+          `a.example.com,b.example.com ssh-ed25519 ${key.toString('base64')}`,
+          '',
+        ].join('\n')
+      );
+
+      const entries = await knownHosts.getEntries();
+      expect(entries.map(entry => entry.pattern)).toEqual(['a.example.com', 'b.example.com']);
+    });
+
+    it('should remove all keys of a host', async () => {
+      await knownHosts.add('example.com', 22, key);
+      await knownHosts.add('example.com', 22, rsaKey);
+      await knownHosts.add('other.example.com', 22, key);
+
+      expect(await knownHosts.remove('example.com')).toBe(2);
+      expect(await knownHosts.getHostEntries('example.com')).toEqual([]);
+      expect(await knownHosts.getHostEntries('other.example.com')).toHaveLength(1);
+    });
+  });
+});
@@ -0,0 +1,186 @@
+/**
+ * Tests for the SSH config parser
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { matchSshPatterns, parseSshConfig, parseSshConfigFile } from '../../../src/ssh/ssh-config.js';
+
+describe('SSH config parser', () => {
+  let homeDir: string;
+
+  beforeEach(async () => {
+    homeDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aship-ssh-config-test-'));
+    await fs.mkdir(path.join(homeDir, '.ssh', 'config.d'), { recursive: true });
+  });
+
+  afterEach(async () => {
+    await fs.rm(homeDir, { recursive: true, force: true });
+  });
+
+  const parse = (content: string) =>
+    parseSshConfig(content, path.join(homeDir, '.ssh', 'config'), { homeDir });
+
+  it('should parse aliases, key=value syntax, tabs and quoted values', async () => {
+    const result = await parse(
+      [
+        '# Servers',
+        'Host web-1 web-2',
+        '\tHostName %h.example.com',
+        '  User=deploy',
+        '  Port = 2222',
+        'Host db',
+        '  HostName "10.0.0.5"   # primary database',
+        '  IdentityFile ~/.ssh/db_key',
+        '  ProxyJump bastion',
+      ].join('\n')
+    );
+
+    expect(result.hosts).toEqual([
+      {
+        name: 'web-1',
+        hostname: 'web-1.example.com',
+        user: 'deploy',
+        port: 2222,
+        source: '~/.ssh/config:2',
+      },
+      {
+        name: 'web-2',
+        hostname: 'web-2.example.com',
+        user: 'deploy',
+        port: 2222,
+        source: '~/.ssh/config:2',
+      },
+      {
+        name: 'db',
+        hostname: '10.0.0.5',
+        port: 22,
+        identity_file: path.join(homeDir, '.ssh', 'db_key'),
+        jump_host: 'bastion',
+        source: '~/.ssh/config:6',
+      },
+    ]);
+  });
+
+  it('should apply wildcard defaults with first-value-wins semantics', async () => {
+    const result = await parse(
+      [
+        'User global',
+        'Host web-*',
+        '  ProxyJump bastion',
+        'Host web-1 bastion',
+        '  User deploy',
+        'Host bastion',
+        '  ProxyJump none',
+        'Host *',
+        '  User fallback',
+        '  ProxyJump other',
+        '  Port 2200',
+      ].join('\n')
+    );
+
+    expect(result.hosts.map(({ name, user, port, jump_host }) => ({ name, user, port, jump_host })))
+      .toEqual([
+        { name: 'web-1', user: 'global', port: 2200, jump_host: 'bastion' },
+        { name: 'bastion', user: 'global', port: 2200, jump_host: undefined },
+      ]);
+    expect(result.skipped).toEqual([
+      {
+        name: 'web-*',
+        reason: 'wildcard pattern (its settings are applied to matching hosts)',
+        source: '~/.ssh/config:2',
+      },
+      {
+        name: '*',
+        reason: 'wildcard pattern (its settings are applied to matching hosts)',
+        source: '~/.ssh/config:8',
+      },
+    ]);
+  });
+
+  it('should honor negated patterns', async () => {
+    expect(matchSshPatterns('web-1', ['web-*', '!web-2'])).toBe(true);
+    expect(matchSshPatterns('web-2', ['web-*', '!web-2'])).toBe(false);
+    expect(matchSshPatterns('db', ['!web-*'])).toBe(false);
+  });
+
+  it('should resolve Include globs relative to ~/.ssh', async () => {
+    await fs.writeFile(
+      path.join(homeDir, '.ssh', 'config.d', 'b.conf'),
+      'Host beta\n  HostName beta.example.com\n'
+    );
+    await fs.writeFile(
+      path.join(homeDir, '.ssh', 'config.d', 'a.conf'),
+      'Host alpha\n  HostName alpha.example.com\n'
+    );
+    await fs.writeFile(
+      path.join(homeDir, '.ssh', 'config'),
+      'Include config.d/*.conf ~/.ssh/missing\nHost *\n  User deploy\n'
+    );
+
+    const result = await parseSshConfigFile(path.join(homeDir, '.ssh', 'config'), { homeDir });
+
+    expect(result.hosts.map(host => [host.name, host.hostname, host.user, host.source])).toEqual([
+      ['alpha', 'alpha.example.com', 'deploy', '~/.ssh/config.d/a.conf:1'],
+      ['beta', 'beta.example.com', 'deploy', '~/.ssh/config.d/b.conf:1'],
+    ]);
+    expect(result.skipped).toContainEqual({
+      name: 'Include ~/.ssh/missing',
+      reason: 'no matching files',
+      source: '~/.ssh/config:1',
+    });
+  });
+
+  it('should keep included settings inside the including Host block', async () => {
+    await fs.writeFile(path.join(homeDir, '.ssh', 'common'), 'User included\n');
+
+    const result = await parse('Host web\n  Include common\n  Port 2222\nHost db\n');
+
+    expect(result.hosts).toMatchObject([
+      { name: 'web', user: 'included', port: 2222 },
+      { name: 'db', port: 22 },
+    ]);
+    expect(result.hosts[1].user).toBeUndefined();
+  });
+
+  it('should report include cycles', async () => {
+    await fs.writeFile(path.join(homeDir, '.ssh', 'config'), 'Include config\nHost web\n');
+
+    const result = await parseSshConfigFile(path.join(homeDir, '.ssh', 'config'), { homeDir });
+
+    expect(result.hosts.map(host => host.name)).toEqual(['web']);
+    expect(result.skipped[0]).toMatchObject({
+      name: 'Include config',
+      reason: '~/.ssh/config is already being read (include cycle)',
+    });
+  });
+
+  it('should apply "Match all" and skip other Match blocks', async () => {
+    const result = await parse(
+      ['Host web', 'Match exec "test -f /tmp/x"', '  User skipped', 'Match all', '  Port 2222'].join(
+        '\n'
+      )
+    );
+
+    expect(result.hosts).toMatchObject([{ name: 'web', port: 2222 }]);
+    expect(result.hosts[0].user).toBeUndefined();
+    expect(result.skipped).toEqual([
+      {
+        name: 'Match exec test -f /tmp/x',
+        reason: 'Match conditions other than "all" are not evaluated',
+        source: '~/.ssh/config:2',
+      },
+    ]);
+  });
+
+  it('should skip hosts with invalid settings', async () => {
+    const result = await parse('Host web\n  Port ssh\nHost db\n');
+
+    expect(result.hosts.map(host => host.name)).toEqual(['db']);
+    expect(result.skipped).toEqual([
+      { name: 'web', reason: 'invalid port "ssh"', source: '~/.ssh/config:1' },
+    ]);
+  });
+});
@@ -0,0 +1,31 @@
+/**
+ * Concurrency utility testing
+ */
+
+import { describe, expect, it } from 'vitest';
+import { mapWithConcurrency } from '../../../src/utils/concurrency.js';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('mapWithConcurrency', () => {
+  it('should keep the item order and limit the concurrent calls', async () => {
+    let running = 0;
+    let maxRunning = 0;
+
+    const results = await mapWithConcurrency([30, 10, 20, 5, 15], 2, async (ms, index) => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await delay(ms);
+      running--;
+      return `${index}:${ms}`;
+    });
+
+    expect(results).toEqual(['0:30', '1:10', '2:20', '3:5', '4:15']);
+    expect(maxRunning).toBe(2);
+  });
+
+  it('should handle empty lists and invalid limits', async () => {
+    expect(await mapWithConcurrency([], 4, async item => item)).toEqual([]);
+    expect(await mapWithConcurrency([1, 2], 0, async item => item * 2)).toEqual([2, 4]);
+  });
+});
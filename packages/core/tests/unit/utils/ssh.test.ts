@@ -5,6 +5,7 @@
 import { describe, expect, it, vi, beforeEach, afterEach } from 'vitest';
 import * as fs from 'node:fs';
 import * as os from 'node:os';
+import { NodeSSH } from 'node-ssh';
 import * as sshModule from '../../../src/utils/ssh.js';
 
 // Mock external modules
@@ -419,6 +420,28 @@ describe('SSH utilities', () => {
       // Restore original implementation
       spy.mockRestore();
     });
+
+    it('should close a connection that exceeds the timeout', async () => {
+      // A server that accepts the TCP connection but never finishes the handshake
+      vi.mocked(NodeSSH).mockImplementationOnce(function () {
+        return { connect: () => new Promise(() => {}), dispose: mockDispose };
+      } as any);
+
+      const result = await sshModule.testConnection(
+        {
+          name: 'slow-server',
+          hostname: 'example.com',
+          port: 22,
+          user: 'admin',
+          identity_file: '/path/to/key',
+        },
+        { timeout: 50 }
+      );
+
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('timeout');
+      expect(mockDispose).toHaveBeenCalled();
+    });
   });
 
   describe('getDefaultSshKeys', () => {
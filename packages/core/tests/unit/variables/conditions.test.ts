@@ -0,0 +1,165 @@
+/**
+ * Tests for conditional variables
+ */
+
+import { describe, expect, it } from 'vitest';
+import { validateProjectConfig } from '../../../src/schemas/project-config.js';
+import type { VariableDefinition } from '../../../src/schemas/variables.js';
+import {
+  evaluateCondition,
+  filterActiveVariables,
+  isVariableActive,
+  orderVariableDefinitions,
+  parseCondition,
+  validateVariableConditions,
+} from '../../../src/variables/conditions.js';
+import {
+  resolveVariableDefaults,
+  validateVariableValues,
+} from '../../../src/variables/variable-values.js';
+
+const evaluate = (expression: string, values: Record<string, any>) =>
+  evaluateCondition(parseCondition(expression), values);
+
+describe('conditional variables', () => {
+  describe('condition expressions', () => {
+    it('should evaluate truthiness, comparisons and membership', () => {
+      expect(evaluate('enable_ssl', { enable_ssl: true })).toBe(true);
+      expect(evaluate('not enable_ssl', {})).toBe(true);
+      expect(evaluate("env == 'prod'", { env: 'prod' })).toBe(true);
+      expect(evaluate('env != "prod"', { env: 'prod' })).toBe(false);
+      expect(evaluate('replicas >= 2', { replicas: 3 })).toBe(true);
+      expect(evaluate("env in ['prod', 'staging']", { env: 'staging' })).toBe(true);
+      expect(evaluate("'redis' not in features", { features: ['redis'] })).toBe(false);
+    });
+
+    it('should combine conditions with and, or and parentheses', () => {
+      const values = { env: 'prod', debug: false, replicas: 1 };
+      expect(evaluate("env == 'prod' and not debug", values)).toBe(true);
+      expect(evaluate('debug or replicas > 1', values)).toBe(false);
+      expect(evaluate("(debug or env == 'prod') and replicas == 1", values)).toBe(true);
+    });
+
+    it('should reject invalid expressions', () => {
+      expect(() => parseCondition('env ==')).toThrow(
+        'Invalid condition "env ==": unexpected end of expression'
+      );
+      expect(() => parseCondition('env = 1')).toThrow('unexpected character "="');
+      expect(() => parseCondition('(env')).toThrow('expected ")"');
+    });
+  });
+
+  describe('active variables', () => {
+    const definitions: Record<string, VariableDefinition> = {
+      ssl_cert_path: { type: 'string', required: true, depends_on: 'enable_ssl' },
+      enable_ssl: { type: 'bool', required: false, default: false },
+      ssl_key_path: { type: 'string', required: true, when: 'ssl_cert_path' },
+      env: { type: 'choice', required: false, choices: ['dev', 'prod'], default: 'dev' },
+      replicas: { type: 'int', required: false, default: 3, when: "env == 'prod'" },
+    };
+
+    it('should order variables after the variables they depend on', () => {
+      expect(orderVariableDefinitions(definitions)).toEqual([
+        'enable_ssl',
+        'ssl_cert_path',
+        'ssl_key_path',
+        'env',
+        'replicas',
+      ]);
+    });
+
+    it('should check conditions against the given answers', () => {
+      expect(isVariableActive(definitions.ssl_cert_path, { enable_ssl: false })).toBe(false);
+      expect(isVariableActive(definitions.ssl_cert_path, { enable_ssl: true })).toBe(true);
+      expect(isVariableActive(definitions.env, {})).toBe(true);
+    });
+
+    it('should drop values of hidden variables and their dependents', () => {
+      expect(
+        filterActiveVariables(definitions, {
+          enable_ssl: false,
+          ssl_cert_path: '/etc/ssl/cert.pem',
+          ssl_key_path: '/etc/ssl/key.pem',
+          other: 'kept',
+        })
+      ).toEqual({ enable_ssl: false, other: 'kept' });
+    });
+
+    it('should resolve defaults for active variables only', () => {
+      expect(resolveVariableDefaults(definitions)).toEqual({ enable_ssl: false, env: 'dev' });
+      expect(resolveVariableDefaults(definitions, { env: 'prod' })).toEqual({
+        enable_ssl: false,
+        env: 'prod',
+        replicas: 3,
+      });
+    });
+
+    it('should not require hidden variables', () => {
+      expect(validateVariableValues(definitions, { enable_ssl: false })).toEqual([]);
+      expect(validateVariableValues(definitions, { enable_ssl: true })).toEqual([
+        'ssl_cert_path: value is required',
+      ]);
+      expect(
+        validateVariableValues(definitions, {
+          enable_ssl: true,
+          ssl_cert_path: '/etc/ssl/cert.pem',
+          env: 'prod',
+          replicas: 'three',
+        })
+      ).toEqual(['ssl_key_path: value is required', 'replicas: Expected number, received string']);
+    });
+  });
+
+  describe('validateVariableConditions', () => {
+    it('should report references to undefined variables', () => {
+      expect(
+        validateVariableConditions({
+          ssl_cert_path: { type: 'string', required: false, depends_on: ['enable_tls'] },
+          replicas: { type: 'int', required: false, when: "environment == 'prod'" },
+        })
+      ).toEqual([
+        {
+          variable: 'ssl_cert_path',
+          field: 'depends_on',
+          message: 'References undefined variable "enable_tls"',
+        },
+        {
+          variable: 'replicas',
+          field: 'when',
+          message: 'References undefined variable "environment"',
+        },
+      ]);
+    });
+
+    it('should report cycles once', () => {
+      expect(
+        validateVariableConditions({
+          a: { type: 'string', required: false, when: 'c' },
+          b: { type: 'string', required: false, depends_on: 'a' },
+          c: { type: 'string', required: false, depends_on: 'b' },
+          self: { type: 'bool', required: false, when: 'not self' },
+        })
+      ).toEqual([
+        { variable: 'a', field: 'when', message: 'Circular condition: a -> c -> b -> a' },
+        { variable: 'self', field: 'when', message: 'Circular condition: self -> self' },
+      ]);
+    });
+
+    it('should reject invalid conditions in aship.yml', () => {
+      const result = validateProjectConfig({
+        name: 'app',
+        vars: {
+          enable_ssl: { type: 'bool' },
+          ssl_cert_path: { type: 'string', when: 'enable_ssl and' },
+          port: { type: 'int', depends_on: 'missing' },
+        },
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.errors).toEqual([
+        'vars.ssl_cert_path.when: Invalid condition "enable_ssl and": unexpected end of expression',
+        'vars.port.depends_on: References undefined variable "missing"',
+      ]);
+    });
+  });
+});
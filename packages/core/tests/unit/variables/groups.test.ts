@@ -0,0 +1,106 @@
+/**
+ * Tests for variable groups
+ */
+
+import { describe, expect, it } from 'vitest';
+import { validateProjectConfig } from '../../../src/schemas/project-config.js';
+import type { VariableDefinition } from '../../../src/schemas/variables.js';
+import {
+  groupVariableDefinitions,
+  validateVariableGroups,
+} from '../../../src/variables/groups.js';
+
+describe('variable groups', () => {
+  const definitions: Record<string, VariableDefinition> = {
+    db_host: { type: 'string', required: false, group: 'Database', default: 'localhost' },
+    app_name: { type: 'string', required: true },
+    cache_ttl: { type: 'int', required: false, group: 'Cache', default: 60 },
+    db_name: { type: 'string', required: false, group: 'Database', default: '{{ app_name }}' },
+    log_level: { type: 'string', required: false, group: 'Logging', default: 'info' },
+  };
+
+  describe('groupVariableDefinitions', () => {
+    it('should put ungrouped variables first and follow the declared group order', () => {
+      expect(
+        groupVariableDefinitions(definitions, [
+          'Cache',
+          { name: 'Database', description: 'Connection settings' },
+        ])
+      ).toEqual([
+        { variables: ['app_name'] },
+        { name: 'Cache', variables: ['cache_ttl'] },
+        {
+          name: 'Database',
+          description: 'Connection settings',
+          variables: ['db_host', 'db_name'],
+        },
+        { name: 'Logging', variables: ['log_level'] },
+      ]);
+    });
+
+    it('should order undeclared groups by first use', () => {
+      expect(groupVariableDefinitions(definitions).map(section => section.name)).toEqual([
+        undefined,
+        'Database',
+        'Cache',
+        'Logging',
+      ]);
+    });
+
+    it('should drop empty sections', () => {
+      expect(
+        groupVariableDefinitions({ port: { type: 'int', required: false, group: 'Network' } }, [
+          'Unused',
+          'Network',
+        ])
+      ).toEqual([{ name: 'Network', variables: ['port'] }]);
+    });
+  });
+
+  describe('validateVariableGroups', () => {
+    it('should accept references to earlier sections', () => {
+      expect(validateVariableGroups(definitions, ['Cache', 'Database'])).toEqual([]);
+    });
+
+    it('should report duplicate groups', () => {
+      expect(validateVariableGroups(definitions, ['Cache', { name: 'Cache' }])).toEqual([
+        { path: ['var_groups', 1], message: 'Duplicate group "Cache"' },
+      ]);
+    });
+
+    it('should report references to variables prompted later', () => {
+      expect(
+        validateVariableGroups(
+          {
+            replicas: { type: 'int', required: false, group: 'Scaling', when: 'enable_ha' },
+            enable_ha: { type: 'bool', required: false, group: 'Features' },
+          },
+          ['Scaling', 'Features']
+        )
+      ).toEqual([
+        {
+          path: ['vars', 'replicas', 'group'],
+          message:
+            'References "enable_ha" from group "Features", which is prompted after group "Scaling"',
+        },
+      ]);
+    });
+  });
+
+  it('should validate var_groups in aship.yml', () => {
+    const result = validateProjectConfig({
+      name: 'app',
+      var_groups: ['Database', 'Database'],
+      vars: {
+        db_name: { type: 'string', group: 'Database' },
+        app_name: { type: 'string', default: '{{ db_name }}' },
+      },
+    });
+
+    expect(result.success).toBe(false);
+    expect(result.errors).toEqual([
+      'var_groups.1: Duplicate group "Database"',
+      'vars.app_name.group: References "db_name" from group "Database", which is prompted after ungrouped variables',
+    ]);
+  });
+});
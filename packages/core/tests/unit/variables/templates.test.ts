@@ -0,0 +1,160 @@
+/**
+ * Tests for templated variable defaults
+ */
+
+import { describe, expect, it } from 'vitest';
+import { validateProjectConfig } from '../../../src/schemas/project-config.js';
+import type { VariableDefinition } from '../../../src/schemas/variables.js';
+import {
+  orderVariableDefinitions,
+  validateVariableConditions,
+} from '../../../src/variables/conditions.js';
+import {
+  getTemplateReferences,
+  isTemplate,
+  renderTemplate,
+} from '../../../src/variables/templates.js';
+import {
+  resolveDefaultValue,
+  resolveVariableDefaults,
+} from '../../../src/variables/variable-values.js';
+
+const HINT = ' (set "template: false" to pass the default to Ansible unchanged)';
+
+describe('templated defaults', () => {
+  const env = { HOME: '/home/deploy', APP_PORT: '8080' };
+
+  describe('renderTemplate', () => {
+    it('should interpolate variables and environment variables', () => {
+      expect(renderTemplate('{{ app_name }}-svc', { app_name: 'shop' }, env)).toBe('shop-svc');
+      expect(renderTemplate('${HOME}/apps/{{app_name}}', { app_name: 'shop' }, env)).toBe(
+        '/home/deploy/apps/shop'
+      );
+      expect(renderTemplate('${MISSING:-fallback}', {}, env)).toBe('fallback');
+      expect(renderTemplate('${MISSING}', {}, env)).toBe('');
+    });
+
+    it('should apply filters', () => {
+      const values = { app_name: 'My-Shop' };
+      expect(renderTemplate('{{ app_name | lower }}', values, env)).toBe('my-shop');
+      expect(renderTemplate("{{ app_name | replace('-', '_') | upper }}", values, env)).toBe(
+        'MY_SHOP'
+      );
+      expect(renderTemplate('{{ app_name | replace("|", "") }}', { app_name: 'a|b' }, env)).toBe(
+        'ab'
+      );
+    });
+
+    it('should keep the type of a single expression', () => {
+      expect(renderTemplate('{{ servers }}', { servers: ['a', 'b'] }, env)).toEqual(['a', 'b']);
+      expect(renderTemplate('{{ port }}', { port: 80 }, env)).toBe(80);
+      expect(renderTemplate('{{ missing }}', {}, env)).toBeUndefined();
+    });
+
+    it('should reject invalid expressions', () => {
+      expect(() => renderTemplate('{{ app_name | title }}', {}, env)).toThrow(
+        'Invalid template "{{ app_name | title }}": unknown filter "title"'
+      );
+      expect(() => renderTemplate('{{ a | replace("x") }}', {}, env)).toThrow(
+        'filter "replace" expects 2 argument(s)'
+      );
+      expect(() => renderTemplate('{{ }}', {}, env)).toThrow('variable name is missing');
+    });
+  });
+
+  it('should detect templates and their references', () => {
+    expect(isTemplate('plain')).toBe(false);
+    expect(isTemplate(8080)).toBe(false);
+    expect(isTemplate('${HOME}')).toBe(true);
+    expect(getTemplateReferences('{{ a }}/{{ b | upper }}/${HOME}')).toEqual(['a', 'b']);
+  });
+
+  describe('resolveDefaultValue', () => {
+    it('should convert rendered values to the variable type', () => {
+      const port: VariableDefinition = { type: 'int', required: false, default: '${APP_PORT}' };
+      const debug: VariableDefinition = { type: 'bool', required: false, default: '{{ env }}' };
+
+      expect(resolveDefaultValue(port, {}, env)).toBe(8080);
+      expect(resolveDefaultValue(debug, { env: 'True' }, env)).toBe(true);
+      expect(resolveDefaultValue({ type: 'string', required: false, default: 'x' }, {}, env)).toBe(
+        'x'
+      );
+    });
+
+    it('should return no default when the template renders to an empty string', () => {
+      expect(
+        resolveDefaultValue({ type: 'string', required: false, default: '${MISSING}' }, {}, env)
+      ).toBeUndefined();
+    });
+  });
+
+  describe('variable definitions', () => {
+    const definitions: Record<string, VariableDefinition> = {
+      service_name: { type: 'string', required: false, default: '{{ app_name | lower }}-svc' },
+      app_name: { type: 'string', required: false, default: 'Shop' },
+    };
+
+    it('should order variables after the variables their defaults reference', () => {
+      expect(orderVariableDefinitions(definitions)).toEqual(['app_name', 'service_name']);
+    });
+
+    it('should resolve templated defaults in non-interactive mode', () => {
+      expect(resolveVariableDefaults(definitions)).toEqual({
+        app_name: 'Shop',
+        service_name: 'shop-svc',
+      });
+      expect(resolveVariableDefaults(definitions, { app_name: 'Cart' })).toEqual({
+        app_name: 'Cart',
+        service_name: 'cart-svc',
+      });
+    });
+
+    it('should report unknown references, invalid templates and cycles', () => {
+      expect(
+        validateVariableConditions({
+          a: { type: 'string', required: false, default: '{{ b }}' },
+          b: { type: 'string', required: false, default: '{{ a }}' },
+          c: { type: 'string', required: false, default: '{{ missing }}' },
+          d: { type: 'string', required: false, default: '{{ c | capitalize }}' },
+        })
+      ).toEqual([
+        {
+          variable: 'c',
+          field: 'default',
+          message: `References undefined variable "missing"${HINT}`,
+        },
+        {
+          variable: 'd',
+          field: 'default',
+          message: `Invalid template "{{ c | capitalize }}": unknown filter "capitalize" (available: lower, upper, replace)${HINT}`,
+        },
+        { variable: 'a', field: 'default', message: 'Circular default: a -> b -> a' },
+      ]);
+    });
+
+    it('should reject unknown references in aship.yml', () => {
+      const result = validateProjectConfig({
+        name: 'app',
+        vars: { service_name: { type: 'string', default: '{{ app }}-svc' } },
+      });
+
+      expect(result.errors).toEqual([
+        `vars.service_name.default: References undefined variable "app"${HINT}`,
+      ]);
+    });
+
+    it('should keep defaults with template: false for Ansible', () => {
+      const ansibleDefaults = {
+        home: { type: 'string', required: false, template: false, default: "{{ lookup('env','HOME') }}" },
+        host: { type: 'string', required: false, template: false, default: '{{ inventory_hostname }}' },
+      } satisfies Record<string, VariableDefinition>;
+
+      expect(validateVariableConditions(ansibleDefaults)).toEqual([]);
+      expect(resolveVariableDefaults(ansibleDefaults)).toEqual({
+        home: "{{ lookup('env','HOME') }}",
+        host: '{{ inventory_hostname }}',
+      });
+      expect(validateProjectConfig({ name: 'app', vars: ansibleDefaults }).success).toBe(true);
+    });
+  });
+});
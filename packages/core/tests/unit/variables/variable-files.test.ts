@@ -0,0 +1,81 @@
+/**
+ * Tests for variable values from files
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import type { VariableDefinition } from '../../../src/schemas/variables.js';
+import { loadVariablesFile, loadVariablesFiles } from '../../../src/variables/variable-files.js';
+import {
+  resolveVariableDefaults,
+  validateVariableValues,
+} from '../../../src/variables/variable-values.js';
+
+describe('variable files', () => {
+  let tempDir: string;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aship-vars-file-test-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  it('should load YAML and JSON files', async () => {
+    await fs.writeFile(path.join(tempDir, 'answers.yml'), 'app_name: shop\nport: 8080\n');
+    await fs.writeFile(path.join(tempDir, 'answers.json'), '{"features": ["redis"]}');
+
+    expect(loadVariablesFile(path.join(tempDir, 'answers.yml'))).toEqual({
+      app_name: 'shop',
+      port: 8080,
+    });
+    expect(loadVariablesFile(path.join(tempDir, 'answers.json'))).toEqual({
+      features: ['redis'],
+    });
+  });
+
+  it('should treat an empty file as no values', async () => {
+    await fs.writeFile(path.join(tempDir, 'empty.yml'), '');
+
+    expect(loadVariablesFile(path.join(tempDir, 'empty.yml'))).toEqual({});
+  });
+
+  it('should reject missing files and files that are not mappings', async () => {
+    await fs.writeFile(path.join(tempDir, 'list.yml'), '- a\n- b\n');
+
+    expect(() => loadVariablesFile(path.join(tempDir, 'missing.yml'))).toThrow('File not found');
+    expect(() => loadVariablesFile(path.join(tempDir, 'list.yml'))).toThrow(
+      'expected a mapping of variable names'
+    );
+  });
+
+  it('should merge files in order and remember where values came from', async () => {
+    await fs.writeFile(path.join(tempDir, 'base.yml'), 'app_name: shop\nport: 80\n');
+    await fs.writeFile(path.join(tempDir, 'prod.yml'), 'port: 443\n');
+
+    expect(loadVariablesFiles(['base.yml', 'prod.yml'], tempDir)).toEqual({
+      values: { app_name: 'shop', port: 443 },
+      sources: { app_name: 'base.yml', port: 'prod.yml' },
+    });
+  });
+
+  it('should report all missing and invalid values with their source', () => {
+    const definitions: Record<string, VariableDefinition> = {
+      app_name: { type: 'string', required: true },
+      port: { type: 'int', required: false, default: 80 },
+      env: { type: 'choice', required: false, choices: ['dev', 'prod'], default: 'dev' },
+    };
+    const values = resolveVariableDefaults(definitions, { port: 'http', env: 'test' });
+
+    expect(
+      validateVariableValues(definitions, values, { port: 'prod.yml', env: '--extra-vars' })
+    ).toEqual([
+      'app_name: value is required',
+      'port: Expected number, received string (from prod.yml)',
+      "env: Invalid enum value. Expected 'dev' | 'prod', received 'test' (from --extra-vars)",
+    ]);
+  });
+});
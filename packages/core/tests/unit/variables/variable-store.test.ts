@@ -0,0 +1,170 @@
+/**
+ * Tests for VariableStore
+ */
+
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { DirectoryManager } from '../../../src/config/directory-manager.js';
+import type { VariableDefinition } from '../../../src/schemas/variables.js';
+import {
+  VariableStore,
+  filterPersistableAnswers,
+} from '../../../src/variables/variable-store.js';
+
+describe('VariableStore', () => {
+  let tempDir: string;
+  let directoryManager: DirectoryManager;
+  let store: VariableStore;
+  const projectDir = '/projects/app';
+
+  const definitions: Record<string, VariableDefinition> = {
+    app_name: { type: 'string', required: false },
+    port: { type: 'int', required: false },
+    db_password: { type: 'password', required: true },
+  };
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aship-vars-test-'));
+    directoryManager = new DirectoryManager();
+    directoryManager.setGlobalDir(path.join(tempDir, '.aship'));
+    store = new VariableStore(directoryManager);
+  });
+
+  afterEach(async () => {
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('filterPersistableAnswers', () => {
+    it('should drop password and undefined variables', () => {
+      const result = filterPersistableAnswers(
+        { app_name: 'web', db_password: 'secret', extra: 'x' },
+        definitions
+      );
+      expect(result).toEqual({ app_name: 'web' });
+    });
+  });
+
+  describe('setAnswers / getAnswers', () => {
+    it('should return empty answers when nothing is stored', async () => {
+      expect(await store.getAnswers(projectDir, 'site.yml')).toEqual({});
+    });
+
+    it('should persist answers per project and playbook', async () => {
+      await store.setAnswers(projectDir, 'site.yml', { app_name: 'web', port: 8080 }, definitions);
+      await store.setAnswers(projectDir, 'deploy.yml', { app_name: 'api' }, definitions);
+
+      const reloaded = new VariableStore(directoryManager);
+      expect(await reloaded.getAnswers(projectDir, 'site.yml')).toEqual({
+        app_name: 'web',
+        port: 8080,
+      });
+      expect(await reloaded.getAnswers(projectDir, 'deploy.yml')).toEqual({ app_name: 'api' });
+      expect(await reloaded.getAnswers('/projects/other', 'site.yml')).toEqual({});
+    });
+
+    it('should normalize absolute and relative playbook paths', async () => {
+      await store.setAnswers(projectDir, '/projects/app/site.yml', { app_name: 'web' }, definitions);
+      expect(await store.getAnswers(projectDir, './site.yml')).toEqual({ app_name: 'web' });
+    });
+
+    it('should keep answers of each environment apart', async () => {
+      await store.setAnswers(projectDir, 'site.yml', { app_name: 'web' }, definitions);
+      await store.setAnswers(projectDir, 'site.yml', { port: 443 }, definitions, 'app', 'prod');
+
+      const reloaded = new VariableStore(directoryManager);
+      expect(await reloaded.getAnswers(projectDir, 'site.yml', definitions, 'prod')).toEqual({
+        port: 443,
+      });
+      expect(await reloaded.getAnswers(projectDir, 'site.yml', definitions, 'staging')).toEqual({});
+      expect(await reloaded.getAnswers(projectDir, 'site.yml')).toEqual({ app_name: 'web' });
+    });
+
+    it('should expose the project-relative playbook key', () => {
+      expect(store.playbookKey(projectDir, '/projects/app/playbooks/site.yml')).toBe(
+        path.join('playbooks', 'site.yml')
+      );
+      expect(store.playbookKey(projectDir, './site.yml')).toBe('site.yml');
+    });
+
+    it('should never write password values to disk', async () => {
+      await store.setAnswers(
+        projectDir,
+        'site.yml',
+        { app_name: 'web', db_password: 'super-secret' },
+        definitions
+      );
+
+      const content = await fs.readFile(directoryManager.variableAnswersFile, 'utf-8');
+      expect(content).not.toContain('super-secret');
+      expect(content).not.toContain('db_password');
+    });
+
+    it('should filter stale values against current definitions', async () => {
+      await store.setAnswers(projectDir, 'site.yml', { app_name: 'web', port: 80 }, definitions);
+      const result = await store.getAnswers(projectDir, 'site.yml', {
+        app_name: { type: 'string', required: false },
+      });
+      expect(result).toEqual({ app_name: 'web' });
+    });
+
+    it('should ignore an invalid answers file without overwriting it', async () => {
+      await fs.mkdir(directoryManager.stateDir, { recursive: true });
+      await fs.writeFile(directoryManager.variableAnswersFile, '{"projects": 42}', 'utf-8');
+
+      expect(await store.getAnswers(projectDir, 'site.yml')).toEqual({});
+      const content = await fs.readFile(directoryManager.variableAnswersFile, 'utf-8');
+      expect(content).toBe('{"projects": 42}');
+    });
+
+    it('should back up an invalid answers file before replacing it', async () => {
+      await fs.mkdir(directoryManager.stateDir, { recursive: true });
+      await fs.writeFile(directoryManager.variableAnswersFile, '{"projects": ', 'utf-8');
+
+      await store.setAnswers(projectDir, 'site.yml', { app_name: 'web' }, definitions);
+
+      const backups = (await fs.readdir(directoryManager.stateDir)).filter(file =>
+        file.endsWith('.bak')
+      );
+      expect(backups).toHaveLength(1);
+      expect(
+        await fs.readFile(path.join(directoryManager.stateDir, backups[0]), 'utf-8')
+      ).toBe('{"projects": ');
+      expect(await store.getAnswers(projectDir, 'site.yml')).toEqual({ app_name: 'web' });
+    });
+  });
+
+  describe('clearAnswers', () => {
+    beforeEach(async () => {
+      await store.setAnswers(projectDir, 'site.yml', { app_name: 'web' }, definitions);
+      await store.setAnswers(projectDir, 'deploy.yml', { app_name: 'api' }, definitions);
+      await store.setAnswers('/projects/other', 'site.yml', { app_name: 'x' }, definitions);
+    });
+
+    it('should clear a single playbook', async () => {
+      expect(await store.clearAnswers(projectDir, 'site.yml')).toBe(1);
+      expect(await store.getAnswers(projectDir, 'site.yml')).toEqual({});
+      expect(await store.getAnswers(projectDir, 'deploy.yml')).toEqual({ app_name: 'api' });
+    });
+
+    it('should clear a playbook in every environment', async () => {
+      await store.setAnswers(projectDir, 'site.yml', { port: 443 }, definitions, 'app', 'prod');
+
+      expect(await store.clearAnswers(projectDir, 'site.yml')).toBe(2);
+      expect(await store.getAnswers(projectDir, 'site.yml', definitions, 'prod')).toEqual({});
+      expect((await store.getProjectAnswers(projectDir))?.environments).toEqual({});
+    });
+
+    it('should clear a whole project', async () => {
+      expect(await store.clearAnswers(projectDir)).toBe(2);
+      expect(await store.getProjectAnswers(projectDir)).toBeNull();
+      expect(await store.getAnswers('/projects/other', 'site.yml')).toEqual({ app_name: 'x' });
+    });
+
+    it('should clear all projects', async () => {
+      expect(await store.clearAllAnswers()).toBe(3);
+      expect((await store.getAllAnswers()).projects).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,178 @@
+/**
+ * Tests for the project vault
+ */
+
+import { EventEmitter } from 'node:events';
+import * as fsSync from 'node:fs';
+import * as fs from 'node:fs/promises';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DirectoryManager } from '../../../src/config/directory-manager.js';
+import {
+  ProjectVault,
+  VAULT_PASSWORD_ENV,
+  dependencies,
+  resolveVaultOptions,
+} from '../../../src/vault/project-vault.js';
+
+const HEADER = '$ANSIBLE_VAULT;1.1;AES256\n';
+
+/**
+ * Fake ansible-vault: "encrypts" by base64 encoding and checks the password
+ */
+function createFakeAnsibleVault(password: string) {
+  return vi.fn((_command: string, args: string[], options: { env: Record<string, string> }) => {
+    const child: any = new EventEmitter();
+    child.stdout = new EventEmitter();
+    child.stderr = new EventEmitter();
+
+    const finish = (exitCode: number, stdout = '', stderr = '') => {
+      setImmediate(() => {
+        if (stdout) child.stdout.emit('data', Buffer.from(stdout));
+        if (stderr) child.stderr.emit('data', Buffer.from(stderr));
+        child.emit('close', exitCode);
+      });
+    };
+
+    const flag = args.includes('--vault-id') ? '--vault-id' : '--vault-password-file';
+    const source = args[args.indexOf(flag) + 1].replace(/^[^@]*@/, '');
+    const given = source.endsWith('.sh')
+      ? options.env[VAULT_PASSWORD_ENV]
+      : fsSync.readFileSync(source, 'utf-8').trim();
+    const output = args[args.indexOf('--output') + 1];
+
+    child.stdin = {
+      end: (input: string) => {
+        fsSync.writeFileSync(output, HEADER + Buffer.from(input).toString('base64'));
+        finish(0);
+      },
+    };
+
+    if (args[0] === 'decrypt') {
+      if (given !== password) {
+        finish(1, '', 'ERROR! Decryption failed (no vault secrets were found that could decrypt)');
+      } else {
+        const content = fsSync.readFileSync(args[args.length - 1], 'utf-8');
+        finish(0, Buffer.from(content.slice(HEADER.length), 'base64').toString());
+      }
+    }
+
+    return child;
+  });
+}
+
+describe('ProjectVault', () => {
+  let tempDir: string;
+  let directoryManager: DirectoryManager;
+  const originalSpawn = dependencies.spawn;
+
+  beforeEach(async () => {
+    tempDir = await fs.mkdtemp(path.join(os.tmpdir(), 'aship-vault-test-'));
+    directoryManager = new DirectoryManager();
+    directoryManager.setGlobalDir(path.join(tempDir, '.aship'));
+    dependencies.spawn = createFakeAnsibleVault('s3cret') as any;
+  });
+
+  afterEach(async () => {
+    dependencies.spawn = originalSpawn;
+    await fs.rm(tempDir, { recursive: true, force: true });
+  });
+
+  describe('resolveVaultOptions', () => {
+    it('should resolve the vault file and password file against the project directory', () => {
+      expect(
+        resolveVaultOptions({ file: 'secrets/vault.yml', password_file: '.vault-pass' }, '/app')
+      ).toEqual({
+        file: '/app/secrets/vault.yml',
+        id: undefined,
+        passwordFile: '/app/.vault-pass',
+      });
+    });
+
+    it('should prefer the password file given on the command line', () => {
+      expect(
+        resolveVaultOptions({ password_file: '.vault-pass', id: 'prod' }, '/app', '/etc/pass')
+      ).toEqual({ file: '/app/vault.yml', id: 'prod', passwordFile: '/etc/pass' });
+    });
+  });
+
+  it('should create, read and update the vault with a prompted password', async () => {
+    const vault = new ProjectVault(resolveVaultOptions(undefined, tempDir), directoryManager);
+    expect(vault.needsPassword).toBe(true);
+    vault.setPassword('s3cret');
+
+    await vault.create({ db_password: 'hunter2' });
+    await vault.set('api_token', 'abc');
+
+    const content = await fs.readFile(path.join(tempDir, 'vault.yml'), 'utf-8');
+    expect(content.startsWith(HEADER)).toBe(true);
+    expect(content).not.toContain('hunter2');
+    expect(await vault.read()).toEqual({ db_password: 'hunter2', api_token: 'abc' });
+    expect(await vault.get('db_password')).toBe('hunter2');
+
+    // The temporary file is replaced by the vault
+    expect(await fs.readdir(tempDir)).toEqual(['.aship', 'vault.yml']);
+    await expect(vault.create()).rejects.toThrow('already exists');
+  });
+
+  it('should pass a prompted password through the environment only', async () => {
+    const vault = new ProjectVault(resolveVaultOptions(undefined, tempDir), directoryManager);
+    vault.setPassword('s3cret');
+
+    const access = await vault.getAnsibleAccess();
+    const script = path.join(directoryManager.tempDir, 'vault-password.sh');
+
+    expect(access).toEqual({
+      file: path.join(tempDir, 'vault.yml'),
+      args: ['--vault-password-file', script],
+      env: { [VAULT_PASSWORD_ENV]: 's3cret' },
+    });
+    expect(await fs.readFile(script, 'utf-8')).not.toContain('s3cret');
+    expect((await fs.stat(script)).mode & 0o777).toBe(0o700);
+  });
+
+  it('should use a vault ID with the password file', async () => {
+    const passwordFile = path.join(tempDir, 'pass');
+    await fs.writeFile(passwordFile, 's3cret\n');
+    const vault = new ProjectVault(
+      resolveVaultOptions({ id: 'prod', password_file: passwordFile }, tempDir),
+      directoryManager
+    );
+
+    expect(vault.needsPassword).toBe(false);
+    await vault.create({ token: 'x' });
+
+    const [, args] = vi.mocked(dependencies.spawn).mock.calls[0];
+    expect(args).toEqual(
+      expect.arrayContaining(['encrypt', '--vault-id', `prod@${passwordFile}`, '--encrypt-vault-id'])
+    );
+    expect(await vault.read()).toEqual({ token: 'x' });
+  });
+
+  it('should rekey the vault', async () => {
+    const vault = new ProjectVault(resolveVaultOptions(undefined, tempDir), directoryManager);
+    vault.setPassword('s3cret');
+    await vault.create({ token: 'x' });
+
+    await vault.rekey({ password: 'n3w' });
+    dependencies.spawn = createFakeAnsibleVault('n3w') as any;
+
+    expect(await vault.read()).toEqual({ token: 'x' });
+  });
+
+  it('should report decryption errors and missing vaults', async () => {
+    const vault = new ProjectVault(resolveVaultOptions(undefined, tempDir), directoryManager);
+    vault.setPassword('s3cret');
+    await expect(vault.read()).rejects.toThrow('does not exist');
+
+    await vault.create();
+    vault.setPassword('wrong');
+    await expect(vault.read()).rejects.toThrow('Decryption failed');
+  });
+
+  it('should require a password', async () => {
+    const vault = new ProjectVault(resolveVaultOptions(undefined, tempDir), directoryManager);
+    await expect(vault.getAnsibleAccess()).rejects.toThrow('No vault password available');
+  });
+});